@@ -0,0 +1,301 @@
+/**
+ * 实时推送本地模拟服务（无第三方依赖）
+ * 作用：在没有后端推送接口时调试网页端的实时更新
+ * 用法：
+ *   npm run mock:realtime            # 默认端口 8787，可用 PORT 环境变量修改
+ *   将 src/config.ts 中 REALTIME_CONFIG.ENABLED 改为 true，URL 改为 http://localhost:8787/realtime/records，
+ *   TICKET_URL 改为 http://localhost:8787/realtime/ticket
+ * 接口：
+ *   POST /realtime/ticket                         需带 Authorization: Bearer <token>，返回 { data: { ticket } }（一次性，TICKET_TTL_MS 内有效）
+ *   GET  /realtime/records?pond_ids=1,2&ticket=…  SSE 推送；票据无效时返回 401
+ *   GET  /realtime/records?pond_ids=1,2           带 Upgrade: websocket 时按 WebSocket 推送，首条消息需为 { type: 'auth', token }
+ *   POST /realtime/emit                           广播请求体中的事件（JSON，格式同推送消息）
+ * 鉴权只校验令牌非空，不校验真实性
+ * 逻辑：每隔 INTERVAL_MS 为每个连接随机生成一条水质或巡塘记录；不带 pond_ids 时使用塘口 1
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const INTERVAL_MS = Number(process.env.INTERVAL_MS) || 10000;
+const HEARTBEAT_MS = 15000;
+const TICKET_TTL_MS = 30000;
+const AUTH_TIMEOUT_MS = 5000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** @type {Set<{ pondIds: number[] | null, send: (data: string) => void }>} */
+const clients = new Set();
+/** @type {Map<string, number>} 票据 -> 过期时间 */
+const tickets = new Map();
+let nextId = 900000;
+
+const pad = (n) => String(n).padStart(2, '0');
+const formatTime = (d) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+const round = (value, digits = 2) => Number(value.toFixed(digits));
+
+const randomRecord = (pondId) => {
+  const now = formatTime(new Date());
+  const id = nextId++;
+  if (Math.random() < 0.75) {
+    return {
+      type: 'waterquality_data',
+      detail: {
+        id,
+        pond_id: pondId,
+        measured_at: now,
+        ph: round(7 + Math.random() * 1.5),
+        oxygen: round(4 + Math.random() * 4),
+        temperature: round(22 + Math.random() * 6, 1),
+        ammonia: round(Math.random() * 0.4),
+        nitrite: round(Math.random() * 0.2),
+      },
+    };
+  }
+  return {
+    type: 'pond_patrol_data',
+    detail: {
+      id,
+      pond_id: pondId,
+      operate_at: now,
+      aquatic_status: '正常',
+      water_status: Math.random() < 0.8 ? '良好' : '偏浑',
+      abnormal_event: '',
+    },
+  };
+};
+
+const broadcast = (event) => {
+  const data = JSON.stringify(event);
+  clients.forEach((client) => {
+    if (!client.pondIds || client.pondIds.includes(Number(event.pond_id))) client.send(data);
+  });
+  console.log(`[emit] ${event.type} pond=${event.pond_id} -> ${clients.size} client(s)`);
+};
+
+const parsePondIds = (url) => {
+  const raw = url.searchParams.get('pond_ids');
+  if (!raw) return null;
+  const ids = raw.split(',').map(Number).filter(Number.isFinite);
+  return ids.length > 0 ? ids : null;
+};
+
+// 定时为每个连接生成记录
+const startGenerator = (client) =>
+  setInterval(() => {
+    const ids = client.pondIds || [1];
+    const pondId = ids[Math.floor(Math.random() * ids.length)];
+    client.send(JSON.stringify({ type: 'record.created', pond_id: pondId, record: randomRecord(pondId) }));
+  }, INTERVAL_MS);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const issueTicket = () => {
+  const now = Date.now();
+  tickets.forEach((expiresAt, ticket) => expiresAt < now && tickets.delete(ticket));
+  const ticket = crypto.randomBytes(16).toString('hex');
+  tickets.set(ticket, now + TICKET_TTL_MS);
+  return ticket;
+};
+
+const consumeTicket = (ticket) => {
+  const expiresAt = ticket ? tickets.get(ticket) : undefined;
+  if (expiresAt === undefined) return false;
+  tickets.delete(ticket);
+  return expiresAt >= Date.now();
+};
+
+const handleSse = (req, res, url) => {
+  if (!consumeTicket(url.searchParams.get('ticket'))) {
+    res.writeHead(401, CORS_HEADERS);
+    res.end();
+    console.log('[sse] rejected: invalid ticket');
+    return;
+  }
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+  const client = {
+    pondIds: parsePondIds(url),
+    send: (data) => res.write(`data: ${data}\n\n`),
+  };
+  clients.add(client);
+  const generator = startGenerator(client);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  console.log(`[sse] connected pond_ids=${client.pondIds ?? 'all'}`);
+  req.on('close', () => {
+    clearInterval(generator);
+    clearInterval(heartbeat);
+    clients.delete(client);
+    console.log('[sse] closed');
+  });
+};
+
+// WebSocket 文本帧（服务端发送无需掩码）
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// 解析客户端帧（客户端发送必须带掩码）；只处理单帧，不支持分片
+const decodeFrame = (chunk) => {
+  if (chunk.length < 2) return null;
+  const opcode = chunk[0] & 0x0f;
+  const masked = (chunk[1] & 0x80) !== 0;
+  let length = chunk[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    length = chunk.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    length = Number(chunk.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const mask = masked ? chunk.subarray(offset, offset + 4) : null;
+  if (mask) offset += 4;
+  const payload = Buffer.from(chunk.subarray(offset, offset + length));
+  if (mask) payload.forEach((byte, i) => (payload[i] = byte ^ mask[i % 4]));
+  return { opcode, text: payload.toString() };
+};
+
+const readAuthToken = (text) => {
+  try {
+    const message = JSON.parse(text);
+    return message?.type === 'auth' && typeof message.token === 'string' ? message.token : '';
+  } catch {
+    return '';
+  }
+};
+
+const handleWebSocket = (req, socket, url) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || url.pathname !== '/realtime/records') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    ['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n')
+  );
+  const client = {
+    pondIds: parsePondIds(url),
+    send: (data) => socket.write(encodeFrame(data)),
+  };
+  let generator = null;
+  let heartbeat = null;
+  // 未在限定时间内完成鉴权则以 4401 关闭
+  const closeUnauthorized = () => {
+    const code = Buffer.alloc(2);
+    code.writeUInt16BE(4401);
+    socket.end(encodeFrame(code, 0x8));
+    console.log('[ws] rejected: missing auth message');
+  };
+  const authTimer = setTimeout(closeUnauthorized, AUTH_TIMEOUT_MS);
+  const cleanup = () => {
+    clearTimeout(authTimer);
+    if (!clients.delete(client)) return;
+    clearInterval(generator);
+    clearInterval(heartbeat);
+    console.log('[ws] closed');
+  };
+  // 首条文本消息为鉴权，之后只关心关闭帧，其余客户端消息忽略
+  socket.on('data', (chunk) => {
+    const frame = decodeFrame(chunk);
+    if (!frame) return;
+    if (frame.opcode === 0x8) {
+      socket.end(encodeFrame('', 0x8));
+      cleanup();
+      return;
+    }
+    if (frame.opcode !== 0x1 || clients.has(client)) return;
+    clearTimeout(authTimer);
+    if (!readAuthToken(frame.text)) {
+      closeUnauthorized();
+      return;
+    }
+    clients.add(client);
+    generator = startGenerator(client);
+    heartbeat = setInterval(() => socket.write(encodeFrame('', 0x9)), HEARTBEAT_MS);
+    console.log(`[ws] authenticated pond_ids=${client.pondIds ?? 'all'}`);
+  });
+  socket.on('close', cleanup);
+  socket.on('error', cleanup);
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  if (req.method === 'POST' && url.pathname === '/realtime/ticket') {
+    if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+      res.writeHead(401, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: { ticket: issueTicket() } }));
+    return;
+  }
+  if (req.method === 'GET' && url.pathname === '/realtime/records') {
+    handleSse(req, res, url);
+    return;
+  }
+  if (req.method === 'POST' && url.pathname === '/realtime/emit') {
+    try {
+      const event = JSON.parse(await readBody(req));
+      if (typeof event?.type !== 'string' || !event.pond_id || !event.record) throw new Error('invalid event');
+      broadcast(event);
+      res.writeHead(202, CORS_HEADERS);
+      res.end();
+    } catch (e) {
+      res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(`事件格式错误：${e.message}`);
+    }
+    return;
+  }
+  res.writeHead(404, CORS_HEADERS);
+  res.end();
+});
+
+server.on('upgrade', (req, socket) => {
+  handleWebSocket(req, socket, new URL(req.url, `http://${req.headers.host || 'localhost'}`));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server: http://localhost:${PORT}/realtime/records (SSE / WebSocket)`);
+  console.log(`Emit custom events: POST http://localhost:${PORT}/realtime/emit`);
+});
@@ -4,7 +4,10 @@ import Dashboard from '@/pages/Dashboard';
 import PondDetail from '@/pages/PondDetail';
 import Data from '@/pages/Data';
 import DataExport from '@/pages/DataExport';
+import Compare from '@/pages/Compare';
+import Ledger from '@/pages/Ledger';
 import Profile from '@/pages/Profile';
+import VerifyReport from '@/pages/VerifyReport';
 import UserAgreement from '@/pages/UserAgreement';
 import PrivacyPolicy from '@/pages/PrivacyPolicy';
 import ProtectedRoute from '@/components/ProtectedRoute';
@@ -21,8 +24,11 @@ function App() {
           <Route path="/" element={<Layout><Dashboard /></Layout>} />
           <Route path="/pond/:id" element={<Layout showSidebar={false}><PondDetail /></Layout>} />
           <Route path="/data" element={<Layout><Data /></Layout>} />
+          <Route path="/compare" element={<Layout><Compare /></Layout>} />
+          <Route path="/ledger" element={<Layout><Ledger /></Layout>} />
           <Route path="/data-export" element={<Layout><DataExport /></Layout>} />
           <Route path="/profile" element={<Layout><Profile /></Layout>} />
+          <Route path="/verify" element={<Layout><VerifyReport /></Layout>} />
         </Route>
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
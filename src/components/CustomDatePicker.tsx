@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { format, subDays, startOfDay, endOfDay, isAfter, isBefore, addMonths, startOfMonth, getDaysInMonth, getDay, isSameDay, isWithinInterval, set } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ProductionCycle, cycleToDateRange, formatCycleRange, isCycleRange } from '@/utils/productionCycles';
 
 interface DateRange {
   startDate: Date;
@@ -12,18 +13,22 @@ interface DateRange {
 interface CustomDatePickerProps {
   value: DateRange;
   onChange: (range: DateRange) => void;
+  /** 养殖周期；传入时在快捷选项下方列出，点击选中整个周期 */
+  cycles?: ProductionCycle[];
+  /** 额外的快捷选项（如本季度、上季度），列在默认快捷选项之后 */
+  extraShortcuts?: { label: string; range: () => DateRange }[];
 }
 
 /**
  * 自定义日期选择器组件 (CustomDatePicker)
- * 作用：提供快捷日期选择（今天、昨天、近7天、近30天）以及日历范围选择功能。
+ * 作用：提供快捷日期选择（今天、昨天、近7天、近30天、自定义快捷项、养殖周期）以及日历范围选择功能。
  * 逻辑优化：
  *   1. 修复了样式崩坏问题，固定了弹窗宽度。
  *   2. 修复了日期选择逻辑，采用 "点击开始 -> 点击结束" 的交互模式。
  *   3. 修复了重复渲染日历的问题。
  *   4. 使用 Portal 渲染弹窗，解决 z-index 和 overflow 问题。
  */
-const CustomDatePicker: React.FC<CustomDatePickerProps> = ({ value, onChange }) => {
+const CustomDatePicker: React.FC<CustomDatePickerProps> = ({ value, onChange, cycles = [], extraShortcuts = [] }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [viewDate, setViewDate] = useState(new Date()); 
   const containerRef = useRef<HTMLDivElement>(null);
@@ -108,6 +113,11 @@ const CustomDatePicker: React.FC<CustomDatePickerProps> = ({ value, onChange })
     setIsOpen(false);
   };
 
+  const handleCycleClick = (cycle: ProductionCycle) => {
+    onChange(cycleToDateRange(cycle));
+    setIsOpen(false);
+  };
+
   const handleDateClick = (date: Date) => {
     if (isAfter(date, new Date())) return; // 禁止选择未来
 
@@ -227,7 +237,9 @@ const CustomDatePicker: React.FC<CustomDatePickerProps> = ({ value, onChange })
           className="bg-white border border-gray-200 rounded-lg shadow-xl flex animate-in fade-in zoom-in-95 duration-200 w-max"
         >
           {/* Shortcuts Sidebar */}
-          <div className="w-28 bg-gray-50 border-r border-gray-100 flex flex-col p-3 gap-1 shrink-0">
+          <div
+            className={`${cycles.length > 0 ? 'w-40' : 'w-28'} bg-gray-50 border-r border-gray-100 flex flex-col p-3 gap-1 shrink-0 max-h-[360px] overflow-y-auto custom-scrollbar`}
+          >
             {shortcuts.map((s, i) => (
               <button
                 key={i}
@@ -237,6 +249,39 @@ const CustomDatePicker: React.FC<CustomDatePickerProps> = ({ value, onChange })
                 {s.label}
               </button>
             ))}
+            {extraShortcuts.map((s) => (
+              <button
+                key={s.label}
+                className="text-left px-3 py-2 text-sm text-gray-600 hover:bg-white hover:text-blue-600 rounded-md transition-all hover:shadow-sm"
+                onClick={() => {
+                  onChange(s.range());
+                  setIsOpen(false);
+                }}
+              >
+                {s.label}
+              </button>
+            ))}
+            {cycles.length > 0 && (
+              <>
+                <div className="px-3 pt-3 pb-1 text-xs text-gray-400 border-t border-gray-200 mt-1">养殖周期</div>
+                {cycles
+                  .slice()
+                  .reverse()
+                  .map((cycle) => (
+                    <button
+                      key={cycle.id}
+                      title={formatCycleRange(cycle)}
+                      className={`text-left px-3 py-2 text-sm rounded-md transition-all hover:shadow-sm hover:bg-white ${
+                        isCycleRange(cycle, value) ? 'text-blue-600 bg-white shadow-sm' : 'text-gray-600 hover:text-blue-600'
+                      }`}
+                      onClick={() => handleCycleClick(cycle)}
+                    >
+                      <div className="truncate">{cycle.name}</div>
+                      <div className="text-[10px] text-gray-400 truncate">{formatCycleRange(cycle)}</div>
+                    </button>
+                  ))}
+              </>
+            )}
           </div>
 
           {/* Calendars Container */}
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { endOfDay, format, parse, startOfDay } from 'date-fns';
+import Modal from './Modal';
+import { useCycleStore } from '@/store/useCycleStore';
+import { ProductionCycle } from '@/utils/productionCycles';
+
+interface CycleManagerModalProps {
+  open: boolean;
+  pondId: number | string;
+  /** 已合并用户调整的周期（见 useProductionCycles） */
+  cycles: ProductionCycle[];
+  onClose: () => void;
+}
+
+type DraftRow = { name: string; start: string; end: string };
+
+const toDraft = (cycles: ProductionCycle[]) => {
+  const draft: Record<string, DraftRow> = {};
+  cycles.forEach((cycle) => {
+    draft[cycle.id] = {
+      name: cycle.name,
+      start: format(cycle.start, 'yyyy-MM-dd'),
+      end: cycle.end === null ? '' : format(cycle.end, 'yyyy-MM-dd'),
+    };
+  });
+  return draft;
+};
+
+const parseDay = (input: string) => parse(input, 'yyyy-MM-dd', new Date());
+
+/**
+ * 养殖周期管理弹窗 (CycleManagerModal)
+ * 作用：查看由投苗/出塘记录推断出的养殖周期，并修改名称与起止日期
+ * 输入：pondId、cycles（当前生效的周期列表）
+ * 输出：写入 useCycleStore（localStorage 持久化）
+ * 逻辑：结束日期留空表示周期进行中；“恢复推断”删除该周期的调整
+ */
+const CycleManagerModal: React.FC<CycleManagerModalProps> = ({ open, pondId, cycles, onClose }) => {
+  const { setCycleOverride, resetCycle } = useCycleStore();
+  const [draft, setDraft] = useState<Record<string, DraftRow>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(toDraft(cycles));
+    setError('');
+  }, [open, cycles]);
+
+  const updateRow = (id: string, field: keyof DraftRow, value: string) => {
+    setDraft((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const handleSave = () => {
+    const changes: { id: string; name: string; start: number; end: number | null }[] = [];
+    for (const cycle of cycles) {
+      const row = draft[cycle.id];
+      if (!row) continue;
+      const start = parseDay(row.start);
+      const end = row.end ? parseDay(row.end) : null;
+      if (Number.isNaN(start.getTime()) || (end && Number.isNaN(end.getTime()))) {
+        setError(`${cycle.name} 的日期格式不正确`);
+        return;
+      }
+      if (end && end < start) {
+        setError(`${cycle.name} 的结束日期不能早于开始日期`);
+        return;
+      }
+      const next = {
+        id: cycle.id,
+        name: row.name.trim() || cycle.name,
+        start: startOfDay(start).getTime(),
+        end: end ? endOfDay(end).getTime() : null,
+      };
+      if (next.name !== cycle.name || next.start !== cycle.start || next.end !== cycle.end) {
+        changes.push(next);
+      }
+    }
+    changes.forEach(({ id, ...override }) => setCycleOverride(pondId, id, override));
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="养殖周期管理"
+      widthClassName="max-w-2xl"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={cycles.length === 0}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50"
+          >
+            保存
+          </button>
+        </>
+      }
+    >
+      <p className="text-xs text-gray-500 mb-3">
+        周期根据投苗与出塘记录自动推断：投苗开始，出塘（清塘）结束。结束日期留空表示周期仍在进行中。
+      </p>
+      {cycles.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-400">暂无投苗记录，无法推断养殖周期</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-2 font-medium">名称</th>
+              <th className="py-2 font-medium">开始日期</th>
+              <th className="py-2 font-medium">结束日期</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {cycles.map((cycle) => {
+              const row = draft[cycle.id] || { name: '', start: '', end: '' };
+              return (
+                <tr key={cycle.id} className="border-t border-gray-100">
+                  <td className="py-2 pr-2">
+                    <input
+                      value={row.name}
+                      onChange={(e) => updateRow(cycle.id, 'name', e.target.value)}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="date"
+                      value={row.start}
+                      onChange={(e) => updateRow(cycle.id, 'start', e.target.value)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="date"
+                      value={row.end}
+                      onChange={(e) => updateRow(cycle.id, 'end', e.target.value)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {cycle.edited && (
+                      <button
+                        type="button"
+                        onClick={() => resetCycle(pondId, cycle.id)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        恢复推断
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+    </Modal>
+  );
+};
+
+export default CycleManagerModal;
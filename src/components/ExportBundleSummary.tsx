@@ -0,0 +1,75 @@
+import React from 'react';
+import { CheckCircle2, MinusCircle, X, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { BundleItemStatus, BundlePondResult } from '@/utils/exportBundle';
+
+interface ExportBundleSummaryProps {
+  results: BundlePondResult[];
+  fileName?: string;
+  onClose: () => void;
+}
+
+const STATUS_META: Record<BundleItemStatus, { label: string; tone: string; Icon: typeof CheckCircle2 }> = {
+  ok: { label: '成功', tone: 'text-emerald-600', Icon: CheckCircle2 },
+  failed: { label: '失败', tone: 'text-red-600', Icon: XCircle },
+  skipped: { label: '无数据', tone: 'text-gray-400', Icon: MinusCircle },
+};
+
+const StatusCell = ({ label, item }: { label: string; item?: { status: BundleItemStatus; error?: string } }) => {
+  if (!item) return null;
+  const { tone, Icon, label: statusLabel } = STATUS_META[item.status];
+  return (
+    <span className={cn('flex items-center gap-1 text-xs', tone)} title={item.error}>
+      <Icon size={14} />
+      {label}
+      {statusLabel}
+    </span>
+  );
+};
+
+/**
+ * 批量打包结果 (ExportBundleSummary)
+ * 作用：展示 ZIP 打包中每个塘口 Excel 与趋势报告的成功/失败情况
+ * 输入：打包结果列表、ZIP 文件名（全部失败时为空）、关闭回调
+ * 输出：结果汇总卡片，失败项显示原因
+ */
+const ExportBundleSummary: React.FC<ExportBundleSummaryProps> = ({ results, fileName, onClose }) => {
+  const failed = results.filter((r) => r.excel.status === 'failed' || r.report?.status === 'failed').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-gray-900">打包结果</h3>
+          <span className="text-xs text-gray-500">
+            {fileName ? `已下载 ${fileName}` : '没有可打包的文件'}
+            {failed > 0 && <span className="text-red-600"> · {failed} 个塘口存在失败项</span>}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+          title="关闭"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div className="max-h-56 overflow-y-auto custom-scrollbar divide-y divide-gray-100">
+        {results.map((r) => {
+          const error = r.excel.error || (r.report?.status === 'failed' ? r.report.error : undefined);
+          return (
+            <div key={r.pondId} className="py-2 flex items-center gap-4 text-sm">
+              <span className="w-40 font-medium text-gray-800 truncate">{r.pondName}</span>
+              <StatusCell label="Excel " item={r.excel} />
+              <StatusCell label="趋势报告 " item={r.report} />
+              {error && <span className="flex-1 min-w-0 text-xs text-red-500 truncate">{error}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExportBundleSummary;
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useExportJobStore } from '@/store/useExportJobStore';
+import { isExportJobActive, resumeExportJobs } from '@/utils/exportJobs';
+
+/**
+ * 导出任务指示器 (ExportJobIndicator)
+ * 作用：在顶部栏提示进行中的导出任务数量，点击跳转到数据导出页查看进度
+ * 输入：无 (使用 useExportJobStore)
+ * 输出：有进行中的任务时显示“导出中 N”，否则不渲染
+ * 逻辑：挂载时恢复刷新前未完成的任务 (resumeExportJobs)
+ */
+const ExportJobIndicator = () => {
+  const navigate = useNavigate();
+  const activeCount = useExportJobStore((s) => s.jobs.filter(isExportJobActive).length);
+
+  useEffect(() => {
+    resumeExportJobs();
+  }, []);
+
+  if (activeCount === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => navigate('/data-export')}
+      className="flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs text-blue-600 bg-blue-50 border-blue-200 hover:bg-blue-100"
+      title="查看导出任务"
+    >
+      <Loader2 size={12} className="animate-spin" />
+      <span>导出中 {activeCount}</span>
+    </button>
+  );
+};
+
+export default ExportJobIndicator;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2, RotateCcw, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ExportJob, ExportJobStatus, useExportJobStore } from '@/store/useExportJobStore';
+import {
+  cancelExportJob,
+  downloadExportJob,
+  isExportJobActive,
+  removeExportJob,
+  retryExportJob,
+} from '@/utils/exportJobs';
+
+const STATUS_LABELS: Record<ExportJobStatus, string> = {
+  queued: '排队中',
+  running: '生成中',
+  downloading: '下载中',
+  done: '已完成',
+  failed: '失败',
+  cancelled: '已取消',
+};
+
+const STATUS_TONES: Record<ExportJobStatus, string> = {
+  queued: 'text-gray-500',
+  running: 'text-blue-600',
+  downloading: 'text-blue-600',
+  done: 'text-emerald-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-400',
+};
+
+const formatSize = (size?: number) => {
+  if (!size) return '';
+  if (size < 1024 * 1024) return `${Math.max(1, Math.round(size / 1024))} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatRange = (job: ExportJob) => `${job.params.start_time.slice(0, 10)} ~ ${job.params.end_time.slice(0, 10)}`;
+
+/**
+ * 导出任务列表 (ExportJobList)
+ * 作用：展示导出任务的进度与历史，支持取消、重试、再次下载与删除
+ * 输入：无 (使用 useExportJobStore)
+ * 输出：按提交时间倒序的任务列表；无任务时不渲染
+ */
+const ExportJobList: React.FC = () => {
+  const jobs = useExportJobStore((s) => s.jobs);
+  const [downloadError, setDownloadError] = useState('');
+
+  if (jobs.length === 0) return null;
+
+  const handleDownload = async (job: ExportJob) => {
+    setDownloadError('');
+    try {
+      await downloadExportJob(job.id);
+    } catch (e) {
+      console.error('Failed to download export file:', e);
+      setDownloadError(`${job.fileName} 下载失败，请重新导出`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900">导出任务</h3>
+        {downloadError && <span className="text-xs text-red-600">{downloadError}</span>}
+      </div>
+      <div className="max-h-56 overflow-y-auto custom-scrollbar divide-y divide-gray-100">
+        {jobs.map((job) => {
+          const active = isExportJobActive(job);
+          return (
+            <div key={job.id} className="py-2 flex items-center gap-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-800 truncate">{job.pondName}</span>
+                  <span className="text-xs text-gray-400">{formatRange(job)}</span>
+                  <span className="text-xs text-gray-400">· {job.params.type.length} 类记录</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs">
+                  <span className={cn('flex items-center gap-1', STATUS_TONES[job.status])}>
+                    {active && <Loader2 size={12} className="animate-spin" />}
+                    {STATUS_LABELS[job.status]}
+                    {job.status === 'running' && job.progress !== null && ` ${Math.round(job.progress)}%`}
+                  </span>
+                  <span className="text-gray-400">{format(job.createdAt, 'MM-dd HH:mm')}</span>
+                  {job.status === 'done' && <span className="text-gray-400">{formatSize(job.size)}</span>}
+                  {job.attempts > 1 && <span className="text-gray-400">第 {job.attempts} 次尝试</span>}
+                  {job.error && <span className="text-red-500 truncate">{job.error}</span>}
+                </div>
+                {active && (
+                  <div className="mt-1 h-1 rounded-full bg-gray-100 overflow-hidden">
+                    {/* 后端未提供进度时显示不定进度条 */}
+                    {job.progress === null ? (
+                      <div className="h-full w-1/3 bg-blue-500 animate-pulse" />
+                    ) : (
+                      <div className="h-full bg-blue-500 transition-all" style={{ width: `${job.progress}%` }} />
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {job.status === 'done' && (
+                  <button
+                    type="button"
+                    onClick={() => handleDownload(job)}
+                    className="p-1.5 rounded text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                    title="下载"
+                  >
+                    <Download size={16} />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    type="button"
+                    onClick={() => retryExportJob(job.id)}
+                    className="p-1.5 rounded text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                    title="重试"
+                  >
+                    <RotateCcw size={16} />
+                  </button>
+                )}
+                {active ? (
+                  <button
+                    type="button"
+                    onClick={() => cancelExportJob(job.id)}
+                    className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-red-50"
+                    title="取消"
+                  >
+                    <X size={16} />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => removeExportJob(job.id)}
+                    className="p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title="删除记录"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExportJobList;
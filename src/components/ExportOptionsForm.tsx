@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import CustomDatePicker from './CustomDatePicker';
+import { cn } from '@/lib/utils';
+import { useExportPresetStore } from '@/store/useExportPresetStore';
+import { ProductionCycle } from '@/utils/productionCycles';
+import {
+  BUILTIN_EXPORT_PRESETS,
+  EXPORT_RANGE_SHORTCUTS,
+  EXPORT_TYPE_OPTIONS,
+  ExportOptions,
+  ExportPreset,
+  describeExportRange,
+  resolveExportRange,
+  toExportRangeSpec,
+} from '@/utils/exportOptions';
+
+interface ExportOptionsFormProps {
+  value: ExportOptions;
+  onChange: (value: ExportOptions) => void;
+  /** 养殖周期（单个塘口时传入），可直接选为导出时间范围 */
+  cycles?: ProductionCycle[];
+}
+
+/**
+ * 导出选项表单 (ExportOptionsForm)
+ * 作用：选择导出的时间范围与记录类型，并可应用或保存导出预设
+ * 输入：value / onChange（受控）、cycles
+ * 输出：ExportOptions，由调用方转换为 /export/start 参数 (toExportParams)
+ * 逻辑：预设的时间范围与快捷选项一致时按快捷键保存，如“上季度”在下次使用时自动滚动
+ */
+const ExportOptionsForm: React.FC<ExportOptionsFormProps> = ({ value, onChange, cycles }) => {
+  const { presets, savePreset, deletePreset } = useExportPresetStore();
+  const [presetName, setPresetName] = useState('');
+
+  const allPresets = [...BUILTIN_EXPORT_PRESETS, ...presets];
+  const allTypesSelected = value.types.length === EXPORT_TYPE_OPTIONS.length;
+
+  const toggleType = (type: string) => {
+    const types = value.types.includes(type) ? value.types.filter((t) => t !== type) : [...value.types, type];
+    onChange({ ...value, types });
+  };
+
+  const applyPreset = (preset: ExportPreset) => {
+    onChange({ range: resolveExportRange(preset.range), types: preset.types });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || value.types.length === 0) return;
+    savePreset({ name, types: value.types, range: toExportRangeSpec(value.range) });
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="w-16 shrink-0 text-gray-500">时间范围</span>
+        <div className="w-[300px]">
+          <CustomDatePicker
+            value={value.range}
+            onChange={(range) => onChange({ ...value, range })}
+            cycles={cycles}
+            extraShortcuts={EXPORT_RANGE_SHORTCUTS}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3">
+        <span className="w-16 shrink-0 text-gray-500 pt-1.5">记录类型</span>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, types: allTypesSelected ? [] : EXPORT_TYPE_OPTIONS.map((o) => o.type) })}
+            className="px-3 py-1.5 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            {allTypesSelected ? '清空' : '全选'}
+          </button>
+          {EXPORT_TYPE_OPTIONS.map((option) => {
+            const checked = value.types.includes(option.type);
+            return (
+              <label
+                key={option.type}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg border cursor-pointer select-none flex items-center gap-1.5',
+                  checked ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                )}
+              >
+                <input type="checkbox" className="accent-blue-600" checked={checked} onChange={() => toggleType(option.type)} />
+                {option.label}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3">
+        <span className="w-16 shrink-0 text-gray-500 pt-1.5">导出预设</span>
+        <div className="flex-1 flex flex-wrap items-center gap-2">
+          {allPresets.map((preset) => (
+            <span
+              key={preset.id}
+              title={`${describeExportRange(preset.range)} · ${preset.types.length} 类记录`}
+              className="inline-flex items-center rounded-lg border border-gray-200 bg-white text-gray-700"
+            >
+              <button type="button" onClick={() => applyPreset(preset)} className="px-3 py-1.5 hover:text-blue-600">
+                {preset.name}
+              </button>
+              {!preset.builtin && (
+                <button
+                  type="button"
+                  onClick={() => deletePreset(preset.id)}
+                  className="pr-2 text-gray-400 hover:text-red-500"
+                  aria-label={`删除预设 ${preset.name}`}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </span>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSavePreset();
+              }}
+              placeholder="预设名称"
+              className="w-28 border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || value.types.length === 0}
+              className="px-3 py-1.5 rounded-lg border border-blue-600 text-blue-600 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent"
+            >
+              保存当前
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportOptionsForm;
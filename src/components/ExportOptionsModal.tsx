@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import ExportOptionsForm from './ExportOptionsForm';
+import { ProductionCycle } from '@/utils/productionCycles';
+import { ExportOptions, getDefaultExportOptions } from '@/utils/exportOptions';
+
+interface ExportOptionsModalProps {
+  open: boolean;
+  /** 塘口养殖周期，可直接选为导出范围 */
+  cycles?: ProductionCycle[];
+  exporting?: boolean;
+  onClose: () => void;
+  onConfirm: (options: ExportOptions) => void;
+}
+
+/**
+ * 导出选项弹窗 (ExportOptionsModal)
+ * 作用：塘口详情页导出 Excel 前选择时间范围、记录类型与预设
+ * 输入：cycles、exporting（导出中禁用确认）
+ * 输出：onConfirm(options)
+ */
+const ExportOptionsModal: React.FC<ExportOptionsModalProps> = ({ open, cycles, exporting, onClose, onConfirm }) => {
+  const [options, setOptions] = useState<ExportOptions>(getDefaultExportOptions);
+
+  // 每次打开时重新计算默认范围（截止到今天）
+  useEffect(() => {
+    if (open) setOptions(getDefaultExportOptions());
+  }, [open]);
+
+  const disabled = exporting || options.types.length === 0;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="数据导出"
+      widthClassName="max-w-3xl"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(options)}
+            disabled={disabled}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50"
+          >
+            {exporting ? '导出中...' : '导出 Excel'}
+          </button>
+        </>
+      }
+    >
+      <ExportOptionsForm value={options} onChange={setOptions} cycles={cycles} />
+    </Modal>
+  );
+};
+
+export default ExportOptionsModal;
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Crown, Loader2, ShieldCheck, ShieldOff, UserMinus, UserPlus } from 'lucide-react';
+import Modal from './Modal';
+import { cn } from '@/lib/utils';
+import { DEFAULT_ASSETS } from '@/config';
+import {
+  GroupInfo,
+  GroupUser,
+  getGroupInfo,
+  inviteGroupMember,
+  removeGroupMember,
+  setGroupMemberAdmin,
+  transferGroupOwner,
+} from '@/services/groups';
+import { GROUP_ROLE_NAMES, getGroupPermissions, getMemberRole } from '@/utils/groupPermissions';
+
+interface GroupMemberModalProps {
+  open: boolean;
+  group: GroupInfo;
+  /** 当前登录用户 ID */
+  currentUserId: number | null;
+  onClose: () => void;
+  /** 成员变更后回调（参数为重新拉取的群组信息） */
+  onChange: (group: GroupInfo) => void;
+}
+
+const isValidPhone = (p: string) => /^1[3-9]\d{9}$/.test(p);
+
+/**
+ * 塘口成员管理弹窗 (GroupMemberModal)
+ * 作用：邀请成员、设置/取消管理员、移除成员、转让群主
+ * 输入：group（塘口群组）、currentUserId
+ * 输出：onChange(group)
+ * 逻辑：
+ *  1. 按当前用户角色计算可执行的操作 (getGroupPermissions)，无权限的操作不展示
+ *  2. 每次操作成功后重新拉取群组信息，以服务端结果为准；刷新失败单独提示，不视为操作失败（避免用户重复操作）
+ */
+const GroupMemberModal: React.FC<GroupMemberModalProps> = ({ open, group, currentUserId, onClose, onChange }) => {
+  const [phone, setPhone] = useState('');
+  const [busyKey, setBusyKey] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setPhone('');
+    setError('');
+    setBusyKey('');
+  }, [open]);
+
+  const permissions = getGroupPermissions(group, currentUserId);
+  const members = group.user_ids || [];
+
+  const run = async (key: string, action: () => Promise<void>, failMessage: string) => {
+    setBusyKey(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error(failMessage, err);
+      setError(failMessage);
+      setBusyKey('');
+      return false;
+    }
+    try {
+      onChange(await getGroupInfo(group.id));
+    } catch (err) {
+      console.error('Failed to refresh group info', err);
+      setError('操作成功，刷新失败，请刷新页面查看最新成员');
+    } finally {
+      setBusyKey('');
+    }
+    return true;
+  };
+
+  const handleInvite = async () => {
+    const value = phone.trim();
+    if (!isValidPhone(value)) {
+      setError('请输入正确的手机号');
+      return;
+    }
+    const ok = await run('invite', () => inviteGroupMember(group.id, value), '邀请失败，请确认对方已注册');
+    if (ok) setPhone('');
+  };
+
+  const handleToggleAdmin = (member: GroupUser) =>
+    run(`admin-${member.id}`, () => setGroupMemberAdmin(group.id, member.id, !member.admin), '设置管理员失败');
+
+  const handleRemove = (member: GroupUser) => {
+    if (!window.confirm(`确定将 ${member.nickname || '该成员'} 移出塘口吗？`)) return;
+    run(`remove-${member.id}`, () => removeGroupMember(group.id, member.id), '移除成员失败');
+  };
+
+  const handleTransfer = (member: GroupUser) => {
+    if (!window.confirm(`确定将塘口转让给 ${member.nickname || '该成员'} 吗？转让后你将成为管理员。`)) return;
+    run(`owner-${member.id}`, () => transferGroupOwner(group.id, member.id), '转让失败');
+  };
+
+  const actionClassName = 'p-1.5 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <Modal open={open} onClose={onClose} title="成员管理">
+      {permissions.canInvite && (
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            value={phone}
+            onChange={(e) => {
+              setPhone(e.target.value);
+              setError('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleInvite();
+            }}
+            inputMode="numeric"
+            maxLength={11}
+            placeholder="输入手机号邀请成员"
+            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="button"
+            onClick={handleInvite}
+            disabled={Boolean(busyKey)}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:bg-blue-300"
+          >
+            {busyKey === 'invite' ? <Loader2 size={14} className="animate-spin" /> : <UserPlus size={14} />}
+            邀请
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mb-3 text-sm text-red-600">{error}</div>}
+
+      <div className="divide-y divide-gray-100">
+        {members.map((member) => {
+          const role = getMemberRole(member, group.group_owner_id);
+          const isSelf = Number(member.id) === Number(currentUserId);
+          const busy = Boolean(busyKey);
+          return (
+            <div key={member.id} className="flex items-center gap-3 py-2.5">
+              <div className="w-9 h-9 border border-gray-200 rounded-full overflow-hidden shrink-0">
+                <img
+                  src={member.avatar_url || DEFAULT_ASSETS.USER_AVATAR}
+                  alt={member.nickname}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-gray-800 truncate">
+                  {member.nickname || `用户${member.id}`}
+                  {isSelf && <span className="text-xs text-gray-400 ml-1">（我）</span>}
+                </div>
+                <span
+                  className={cn(
+                    'text-[10px] px-1.5 py-0.5 rounded',
+                    role === 'owner' && 'bg-amber-50 text-amber-700',
+                    role === 'admin' && 'bg-blue-50 text-blue-700',
+                    role === 'viewer' && 'bg-gray-100 text-gray-500'
+                  )}
+                >
+                  {GROUP_ROLE_NAMES[role]}
+                </span>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {busyKey.endsWith(`-${member.id}`) && <Loader2 size={14} className="animate-spin text-gray-400" />}
+                {permissions.canToggleAdmin(member) && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handleToggleAdmin(member)}
+                    className={actionClassName}
+                    title={member.admin ? '取消管理员' : '设为管理员'}
+                  >
+                    {member.admin ? <ShieldOff size={16} /> : <ShieldCheck size={16} />}
+                  </button>
+                )}
+                {permissions.canTransfer && role !== 'owner' && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handleTransfer(member)}
+                    className={actionClassName}
+                    title="转让群主"
+                  >
+                    <Crown size={16} />
+                  </button>
+                )}
+                {permissions.canRemove(member) && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handleRemove(member)}
+                    className={cn(actionClassName, 'hover:text-red-600')}
+                    title="移出塘口"
+                  >
+                    <UserMinus size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {members.length === 0 && <div className="py-6 text-center text-sm text-gray-400">暂无成员</div>}
+      </div>
+    </Modal>
+  );
+};
+
+export default GroupMemberModal;
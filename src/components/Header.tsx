@@ -4,6 +4,8 @@ import { LogOut, User, AlertCircle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { getUserInfo } from '@/services/users';
 import { DEFAULT_ASSETS } from '@/config';
+import SyncIndicator from './SyncIndicator';
+import ExportJobIndicator from './ExportJobIndicator';
 
 /**
  * 头部组件 (Header)
@@ -13,6 +15,7 @@ import { DEFAULT_ASSETS } from '@/config';
  * 逻辑：
  *  1. 初始化时获取最新用户信息 (fetchUserInfo)
  *  2. 处理退出登录 (handleLogout)
+ *  3. 展示数据同步状态 (SyncIndicator) 与进行中的导出任务 (ExportJobIndicator)
  * 样式：
  *  - 固定定位 fixed top-0
  *  - 白色背景 bg-white
@@ -27,10 +30,8 @@ const Header = () => {
     const fetchUserInfo = async () => {
       if (user?.user_id) {
         try {
-          const res = await getUserInfo(user.user_id);
-          if (res && res.data) {
-             setUser({ ...user, ...res.data });
-          }
+          const info = await getUserInfo(user.user_id);
+          setUser({ ...user, ...info });
         } catch (error) {
           console.error('Failed to fetch user info:', error);
         }
@@ -73,6 +74,8 @@ const Header = () => {
       </div>
       
       <div className="flex items-center gap-6">
+        <ExportJobIndicator />
+        <SyncIndicator />
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2 text-gray-600 text-sm">
              <img
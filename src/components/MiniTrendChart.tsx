@@ -1,10 +1,13 @@
 import React from 'react';
 import { AreaChart, Area, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { format } from 'date-fns';
+import type { AlertLevel } from '@/utils/waterQualityAlerts';
+import type { TimelineRecord } from '@/services/timeline';
+import { getNumericReadings, getRecordTime } from '@/utils/recordUtils';
 
 interface MiniTrendChartProps {
   /** 数据源 */
-  data: any[];
+  data: TimelineRecord[];
   /** 数据键名 (e.g., 'ph', 'nitrite', 'ammonia') */
   dataKey: string;
   /** 线条和填充颜色 */
@@ -18,6 +21,11 @@ interface MiniTrendChartProps {
    * 如果为 true，显示“水质数据不足”
    */
   insufficient?: boolean;
+  /**
+   * 最新值的越界状态
+   * 'low' / 'high' 时最新值标红并显示偏低/偏高
+   */
+  alertLevel?: AlertLevel | null;
 }
 
 /**
@@ -39,7 +47,8 @@ const MiniTrendChart: React.FC<MiniTrendChartProps> = ({
   color, 
   name,
   unit = '',
-  insufficient = false
+  insufficient = false,
+  alertLevel = null
 }) => {
   /**
    * 交互状态
@@ -48,14 +57,11 @@ const MiniTrendChart: React.FC<MiniTrendChartProps> = ({
   const [hoverCoord, setHoverCoord] = React.useState<{ x: number; y: number } | null>(null);
 
   // 过滤出有效数据（非null/undefined）
-  const validData = data.filter(item => {
-    const val = item.detail?.[dataKey];
-    return val !== null && val !== undefined;
-  }).map(item => ({
-    value: Number(item.detail[dataKey]),
-    // 使用 operate_at 或 created_at 作为唯一标识或排序依据
-    time: item.detail.operate_at || item.detail.created_at
-  })).reverse(); // 接口返回通常是倒序（最新在前），图表需要正序（旧->新）
+  const validData = data.map(item => ({
+    value: getNumericReadings(item)[dataKey],
+    // 使用记录业务时间作为唯一标识或排序依据
+    time: getRecordTime(item)
+  })).filter(point => point.value !== undefined).reverse(); // 接口返回通常是倒序（最新在前），图表需要正序（旧->新）
 
   // 获取最新值用于展示
   const latestValue = validData.length > 0 ? validData[validData.length - 1].value : null;
@@ -64,9 +70,14 @@ const MiniTrendChart: React.FC<MiniTrendChartProps> = ({
   const renderInfo = () => (
     <div className="flex justify-between items-end mb-1 w-full px-1">
       <span className="text-xs text-gray-500 font-medium truncate">{name}</span>
-      <span className="text-sm font-bold text-gray-900">
+      <span className={`text-sm font-bold ${alertLevel ? 'text-red-600' : 'text-gray-900'}`}>
         {latestValue !== null ? latestValue : '-'} 
         <span className="text-xs font-normal text-gray-400 ml-0.5 scale-90 inline-block">{unit}</span>
+        {alertLevel && (
+          <span className="ml-1 px-1 rounded bg-red-50 text-[10px] font-medium text-red-600">
+            {alertLevel === 'high' ? '偏高' : '偏低'}
+          </span>
+        )}
       </span>
     </div>
   );
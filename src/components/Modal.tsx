@@ -0,0 +1,60 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ModalProps {
+  open: boolean;
+  title: React.ReactNode;
+  onClose: () => void;
+  children: React.ReactNode;
+  /** 底部操作区（按钮等） */
+  footer?: React.ReactNode;
+  /** 弹窗宽度，默认 max-w-lg */
+  widthClassName?: string;
+}
+
+/**
+ * 通用弹窗组件 (Modal)
+ * 作用：统一各业务弹窗的遮罩、标题栏、关闭按钮与滚动行为
+ * 输入：open 控制显隐，onClose 关闭回调（点击遮罩 / 右上角 / Esc）
+ * 输出：通过 Portal 渲染到 body 的弹窗
+ */
+const Modal: React.FC<ModalProps> = ({ open, title, onClose, children, footer, widthClassName = 'max-w-lg' }) => {
+  useEffect(() => {
+    if (!open) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 px-4" onMouseDown={onClose}>
+      <div
+        className={cn('w-full max-h-[90vh] rounded-2xl bg-white shadow-xl overflow-hidden flex flex-col', widthClassName)}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between shrink-0">
+          <div className="text-lg font-semibold text-gray-900">{title}</div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+            aria-label="关闭"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4">{children}</div>
+        {footer && <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-2 shrink-0">{footer}</div>}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default Modal;
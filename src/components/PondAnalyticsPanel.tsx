@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format, startOfDay, subDays, endOfDay } from 'date-fns';
+import { TimelineRecord } from '@/services/timeline';
+import { loadTimelineRange } from '@/utils/timelineCache';
+import { ANALYTICS_RECORD_TYPES, computePondAnalytics } from '@/utils/pondAnalytics';
+import { ProductionCycle, cycleToDateRange } from '@/utils/productionCycles';
+
+interface PondAnalyticsPanelProps {
+  pondId: number | string;
+  /** 记录变更后递增，触发重新计算 */
+  reloadKey?: number;
+  /** 养殖周期；传入时可按周期统计 */
+  cycles?: ProductionCycle[];
+}
+
+type RangeOption = { key: string; label: string; days: number | null };
+
+const RANGE_OPTIONS: RangeOption[] = [
+  { key: '90d', label: '近 90 天', days: 90 },
+  { key: '180d', label: '近 180 天', days: 180 },
+  { key: '365d', label: '近一年', days: 365 },
+  { key: 'all', label: '全部', days: null },
+];
+
+// 与数据导出的全量时间范围一致
+const ALL_START = '1999-01-01 00:00:00';
+
+const CYCLE_KEY_PREFIX = 'cycle:';
+
+const fmtNum = (value: number | null, digits = 2) => (value === null ? '--' : `${Number(value.toFixed(digits))}`);
+
+/**
+ * 养殖分析面板 (PondAnalyticsPanel)
+ * 作用：在塘口详情页展示所选周期内的饵料系数、存塘估算、成活率与生长曲线
+ * 输入：pondId、reloadKey、cycles（可选，按养殖周期统计）
+ * 输出：指标列表 + 平均体重曲线
+ * 逻辑：按周期拉取投喂/测样/投苗/损失/出塘记录，交由 computePondAnalytics 计算
+ */
+const PondAnalyticsPanel: React.FC<PondAnalyticsPanelProps> = ({ pondId, reloadKey = 0, cycles = [] }) => {
+  const [rangeKey, setRangeKey] = useState('180d');
+  const [records, setRecords] = useState<TimelineRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // 周期被删除（记录变更后重新推断）时回退到默认范围
+  const selectedCycle = rangeKey.startsWith(CYCLE_KEY_PREFIX)
+    ? cycles.find((c) => `${CYCLE_KEY_PREFIX}${c.id}` === rangeKey)
+    : undefined;
+
+  const { startTime, endTime } = useMemo(() => {
+    const now = new Date();
+    if (selectedCycle) {
+      const { startDate, endDate } = cycleToDateRange(selectedCycle);
+      return {
+        startTime: format(startDate, 'yyyy-MM-dd HH:mm:ss'),
+        endTime: format(endDate, 'yyyy-MM-dd HH:mm:ss'),
+      };
+    }
+    const range = RANGE_OPTIONS.find((r) => r.key === rangeKey) || RANGE_OPTIONS[1];
+    return {
+      startTime: range.days === null ? ALL_START : format(startOfDay(subDays(now, range.days - 1)), 'yyyy-MM-dd HH:mm:ss'),
+      endTime: format(endOfDay(now), 'yyyy-MM-dd HH:mm:ss'),
+    };
+  }, [rangeKey, selectedCycle]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = {
+      pond_id: Number(pondId),
+      type: ANALYTICS_RECORD_TYPES,
+      start_time: startTime,
+      end_time: endTime,
+    };
+
+    setLoading(true);
+    loadTimelineRange(params, {
+      onRevalidate: (latest) => {
+        if (!cancelled) setRecords(latest);
+      },
+    })
+      .then((data) => {
+        if (!cancelled) setRecords(data);
+      })
+      .catch((err) => {
+        console.error('Error fetching analytics records:', err);
+        if (!cancelled) setRecords([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pondId, startTime, endTime, reloadKey]);
+
+  const analytics = useMemo(() => computePondAnalytics(records), [records]);
+
+  const rows: { label: string; value: string; hint?: string }[] = [
+    { label: '饵料系数', value: fmtNum(analytics.fcr), hint: '投喂总量 / 增重' },
+    { label: '投喂总量', value: `${fmtNum(analytics.totalFeed, 1)} 斤` },
+    {
+      label: '估算存塘',
+      value: analytics.estimatedStock === null ? '--' : `${Math.round(analytics.estimatedStock)} 尾`,
+      hint: '投苗 - 损失 - 出塘',
+    },
+    { label: '存塘重量', value: analytics.estimatedBiomass === null ? '--' : `${fmtNum(analytics.estimatedBiomass, 1)} 斤` },
+    { label: '成活率', value: analytics.survivalRate === null ? '--' : `${fmtNum(analytics.survivalRate * 100, 1)}%` },
+    { label: '平均体重', value: analytics.latestAvgWeight === null ? '--' : `${fmtNum(analytics.latestAvgWeight, 3)} 斤/尾` },
+    { label: '日均增重', value: analytics.dailyGrowth === null ? '--' : `${fmtNum(analytics.dailyGrowth, 4)} 斤/天` },
+    { label: '出塘', value: `${Math.round(analytics.harvestCount)} 尾 / ${fmtNum(analytics.harvestWeight, 1)} 斤` },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-900 text-lg">养殖分析</h3>
+        <select
+          value={selectedCycle || !rangeKey.startsWith(CYCLE_KEY_PREFIX) ? rangeKey : '180d'}
+          onChange={(e) => setRangeKey(e.target.value)}
+          className="text-xs text-gray-600 border border-gray-200 rounded px-1.5 py-1 focus:outline-none max-w-[8rem]"
+        >
+          {RANGE_OPTIONS.map((r) => (
+            <option key={r.key} value={r.key}>
+              {r.label}
+            </option>
+          ))}
+          {cycles.length > 0 && (
+            <optgroup label="养殖周期">
+              {cycles
+                .slice()
+                .reverse()
+                .map((c) => (
+                  <option key={c.id} value={`${CYCLE_KEY_PREFIX}${c.id}`}>
+                    {c.name}
+                  </option>
+                ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-gray-400 text-sm">加载中...</div>
+      ) : (
+        <>
+          <div className="space-y-2 text-sm">
+            {rows.map((row) => (
+              <div key={row.label} className="flex items-center justify-between" title={row.hint}>
+                <span className="text-gray-500">{row.label}</span>
+                <span className="text-gray-900 font-medium">{row.value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4">
+            <div className="text-xs text-gray-500 mb-1">生长曲线（平均体重）</div>
+            {analytics.growth.length === 0 ? (
+              <div className="text-xs text-gray-400 py-4 text-center">暂无测样数据</div>
+            ) : (
+              <div className="h-28">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={analytics.growth} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="timestamp"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(ts: number) => format(ts, 'MM-dd')}
+                      tick={{ fontSize: 10, fill: '#9ca3af' }}
+                    />
+                    <YAxis hide domain={['auto', 'auto']} />
+                    <Tooltip
+                      labelFormatter={(ts) => format(Number(ts), 'yyyy-MM-dd')}
+                      formatter={(value) => [`${fmtNum(Number(value), 3)} 斤/尾`, '平均体重']}
+                    />
+                    <Line type="monotone" dataKey="avgWeight" stroke="#0ea5e9" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PondAnalyticsPanel;
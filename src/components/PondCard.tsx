@@ -1,14 +1,23 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Pond } from '@/services/ponds';
+import { TimelineRecord } from '@/services/timeline';
 import MiniTrendChart from './MiniTrendChart';
-import { MapPin } from 'lucide-react';
+import { MapPin, AlertTriangle, RotateCw } from 'lucide-react';
 import { DEFAULT_ASSETS } from '@/config';
+import { useThresholdProfile } from '@/hooks/useThresholdProfile';
+import { formatThresholdRange, getLatestBreaches, getThresholdFor } from '@/utils/waterQualityAlerts';
+import { POND_PREVIEW_METRICS } from '@/utils/pondStatus';
 
 interface PondCardProps {
   pond: Pond;
-  waterQualityData?: any[];
+  waterQualityData?: TimelineRecord[];
   loadingData?: boolean;
+  /** 水质数据加载失败的提示；有值时替代趋势图展示 */
+  loadError?: string;
+  onRetry?: () => void;
+  /** 卡片根节点的 ref 回调（如用于视口内优先加载） */
+  cardRef?: (el: HTMLDivElement | null) => void;
   selected?: boolean;
   selectable?: boolean;
   onToggleSelect?: () => void;
@@ -19,15 +28,16 @@ interface PondCardProps {
  * 塘口展示卡片 (PondCard)
  * 作用：展示塘口基本信息及核心水质指标的趋势
  */
-const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadingData = false, selected = false, selectable = false, onToggleSelect, clickMode = 'navigate' }) => {
+const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadingData = false, loadError, onRetry, cardRef, selected = false, selectable = false, onToggleSelect, clickMode = 'navigate' }) => {
   const navigate = useNavigate();
 
-  // 指标配置
-  const metrics = [
-    { key: 'ph', name: 'pH', color: '#f97316', unit: '' },      // Orange
-    { key: 'nitrite', name: '亚盐', color: '#ef4444', unit: 'mg/L' }, // Red
-    { key: 'ammonia', name: '氨氮', color: '#14b8a6', unit: 'mg/L' }, // Teal
-  ];
+  // 阈值告警：仅标记各指标最新一次测量是否越界
+  const { profile } = useThresholdProfile(pond.breed_species);
+  const breaches = useMemo(() => getLatestBreaches(waterQualityData, profile), [waterQualityData, profile]);
+  const breachList = Object.values(breaches);
+  const breachTitle = breachList
+    .map((a) => `${a.name} ${a.value}${a.unit}（安全范围 ${formatThresholdRange(getThresholdFor(profile, a.key), a.unit)}）`)
+    .join('\n');
 
   const selectedClass = selected ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-[#fafafa]' : '';
   const handleCardClick = () => {
@@ -40,6 +50,7 @@ const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadin
 
   return (
     <div 
+      ref={cardRef}
       className={`bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-all duration-300 cursor-pointer group flex flex-col ${selectedClass}`} 
       onClick={handleCardClick}
     >
@@ -64,6 +75,15 @@ const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadin
               示例
             </span>
           )}
+          {breachList.length > 0 && (
+            <span
+              className="px-2 py-0.5 text-xs bg-red-50 text-red-600 border border-red-200 rounded shrink-0 flex items-center gap-1"
+              title={breachTitle}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {breachList.length}项超标
+            </span>
+          )}
         </div>
         
         <div className="flex items-center gap-1 text-xs text-gray-400 shrink-0">
@@ -92,9 +112,27 @@ const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadin
                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-300 border-t-blue-500"></div>
                  <span>加载趋势数据...</span>
                </div>
+            ) : loadError ? (
+               <div className="h-full flex flex-col items-center justify-center gap-2 text-sm text-red-500">
+                 <AlertTriangle className="w-4 h-4" />
+                 <span>{loadError}</span>
+                 {onRetry && (
+                   <button
+                     type="button"
+                     onClick={e => {
+                       e.stopPropagation();
+                       onRetry();
+                     }}
+                     className="flex items-center gap-1 px-3 py-1 rounded-md border border-red-200 text-xs text-red-600 hover:bg-red-50"
+                   >
+                     <RotateCw className="w-3 h-3" />
+                     重试
+                   </button>
+                 )}
+               </div>
             ) : (
               <>
-                {metrics.map(metric => (
+                {POND_PREVIEW_METRICS.map(metric => (
                   <MiniTrendChart 
                     key={metric.key}
                     data={waterQualityData}
@@ -102,6 +140,7 @@ const PondCard: React.FC<PondCardProps> = ({ pond, waterQualityData = [], loadin
                     name={metric.name}
                     color={metric.color}
                     unit={metric.unit}
+                    alertLevel={breaches[metric.key]?.level}
                     // 如果数据少于2条，视为不足以绘制趋势（MiniTrendChart内部会处理）
                     insufficient={waterQualityData && waterQualityData.length > 0 && waterQualityData.length < 2}
                   />
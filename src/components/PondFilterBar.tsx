@@ -0,0 +1,142 @@
+import React from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Layers, Search, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_POND_FILTERS,
+  POND_MEMBERSHIP_OPTIONS,
+  POND_SORT_OPTIONS,
+  PondFilterState,
+  PondMembershipFilter,
+  PondSortKey,
+  hasActivePondFilters,
+} from '@/utils/pondFilters';
+
+interface PondFilterBarProps {
+  filters: PondFilterState;
+  onChange: (filters: PondFilterState) => void;
+  /** 可选的品种、养殖模式与地区 (collectPondFilterOptions) */
+  options: { species: string[]; types: string[]; regions: string[] };
+  total: number;
+  shown: number;
+  /** 地图视图下不提供分组 */
+  showGrouping?: boolean;
+}
+
+const selectClassName = 'px-2 py-1.5 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none max-w-[10rem]';
+
+/**
+ * 塘口筛选栏 (PondFilterBar)
+ * 作用：首页按名称/备注搜索，按品种、养殖模式、地区与来源筛选，选择排序方式与按地区分组
+ * 输入：filters（当前状态）、onChange、options、total / shown（总数与筛选后数量）
+ * 输出：筛选控件；状态由父组件写入 URL
+ */
+const PondFilterBar: React.FC<PondFilterBarProps> = ({ filters, onChange, options, total, shown, showGrouping = true }) => {
+  const update = (patch: Partial<PondFilterState>) => onChange({ ...filters, ...patch });
+  const active = hasActivePondFilters(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="search"
+          value={filters.q}
+          onChange={(e) => update({ q: e.target.value })}
+          placeholder="搜索塘口名称或备注"
+          className="w-56 pl-8 pr-3 py-1.5 rounded-lg border border-gray-200 bg-white text-sm focus:outline-none focus:border-blue-400"
+        />
+      </div>
+
+      <select value={filters.species} onChange={(e) => update({ species: e.target.value })} className={selectClassName}>
+        <option value="">全部品种</option>
+        {options.species.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+      <select value={filters.type} onChange={(e) => update({ type: e.target.value })} className={selectClassName}>
+        <option value="">全部养殖模式</option>
+        {options.types.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+      <select value={filters.region} onChange={(e) => update({ region: e.target.value })} className={selectClassName}>
+        <option value="">全部地区</option>
+        {options.regions.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filters.membership}
+        onChange={(e) => update({ membership: e.target.value as PondMembershipFilter })}
+        className={selectClassName}
+      >
+        {POND_MEMBERSHIP_OPTIONS.map((o) => (
+          <option key={o.key} value={o.key}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as PondSortKey })}
+          className={selectClassName}
+        >
+          {POND_SORT_OPTIONS.map((o) => (
+            <option key={o.key} value={o.key}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        {filters.sort !== 'default' && (
+          <button
+            type="button"
+            onClick={() => update({ order: filters.order === 'asc' ? 'desc' : 'asc' })}
+            title={filters.order === 'asc' ? '升序' : '降序'}
+            className="p-1.5 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+          >
+            {filters.order === 'asc' ? <ArrowUpNarrowWide size={16} /> : <ArrowDownWideNarrow size={16} />}
+          </button>
+        )}
+      </div>
+
+      {showGrouping && (
+        <button
+          type="button"
+          onClick={() => update({ groupByRegion: !filters.groupByRegion })}
+          className={cn(
+            'flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm',
+            filters.groupByRegion ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+          )}
+        >
+          <Layers size={16} />
+          按地区分组
+        </button>
+      )}
+
+      {active && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange({ ...DEFAULT_POND_FILTERS, sort: filters.sort, order: filters.order, groupByRegion: filters.groupByRegion })
+          }
+          className="flex items-center gap-1 px-2 py-1.5 text-sm text-gray-500 hover:text-gray-800"
+        >
+          <X size={14} />
+          清除筛选
+        </button>
+      )}
+
+      <span className="ml-auto text-sm text-gray-400">{active ? `${shown} / ${total} 个塘口` : `共 ${total} 个塘口`}</span>
+    </div>
+  );
+};
+
+export default PondFilterBar;
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import Modal from './Modal';
+import { cn } from '@/lib/utils';
+import { DEFAULT_ASSETS } from '@/config';
+import { Pond, createPond, updatePond, uploadPondImage } from '@/services/ponds';
+import { upsertCachedPond } from '@/utils/pondLoader';
+import {
+  POND_FORM_FIELDS,
+  POND_IMAGE_MAX_BYTES,
+  PondFormErrors,
+  PondFormKey,
+  PondFormValues,
+  toPondFormValues,
+  toPondInput,
+  validatePondForm,
+} from '@/utils/pondForm';
+
+interface PondFormModalProps {
+  open: boolean;
+  /** 待编辑的塘口；为空时为新建 */
+  pond?: Pond | null;
+  onClose: () => void;
+  /** 保存成功回调（参数为接口返回的最新塘口） */
+  onSaved: (pond: Pond) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  cn(
+    'w-full border rounded-md px-3 py-2 text-sm focus:outline-none',
+    hasError ? 'border-red-400 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
+  );
+
+/**
+ * 塘口资料弹窗 (PondFormModal)
+ * 作用：新建塘口或修改塘口的面积、水深、品种、位置、经纬度、备注与图片
+ * 输入：pond（修改时传入原塘口）
+ * 输出：onSaved(pond)
+ * 逻辑：
+ *  1. 选择图片后立即上传，上传成功后写入 picture_url
+ *  2. 保存时校验字段；修改只提交变更的字段
+ *  3. 保存成功后同步本地塘口缓存 (upsertCachedPond)
+ */
+const PondFormModal: React.FC<PondFormModalProps> = ({ open, pond, onClose, onSaved }) => {
+  const isEdit = Boolean(pond);
+  const [values, setValues] = useState<PondFormValues>(() => toPondFormValues(pond));
+  const [errors, setErrors] = useState<PondFormErrors>({});
+  const [submitError, setSubmitError] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(toPondFormValues(pond));
+    setErrors({});
+    setSubmitError('');
+  }, [open, pond]);
+
+  const updateValue = (key: PondFormKey, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setErrors((prev) => ({ ...prev, picture_url: '请选择图片文件' }));
+      return;
+    }
+    if (file.size > POND_IMAGE_MAX_BYTES) {
+      setErrors((prev) => ({ ...prev, picture_url: '图片不能超过 5MB' }));
+      return;
+    }
+    setUploading(true);
+    try {
+      const url = await uploadPondImage(file);
+      updateValue('picture_url', url);
+    } catch (err) {
+      console.error('Failed to upload pond image:', err);
+      setErrors((prev) => ({ ...prev, picture_url: '图片上传失败，请重试' }));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const nextErrors = validatePondForm(values);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    const input = toPondInput(values, pond);
+    if (isEdit && Object.keys(input).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    setSubmitError('');
+    try {
+      const saved = isEdit ? await updatePond(pond!.id, input) : await createPond(input);
+      const merged: Pond = isEdit ? { ...pond!, ...saved } : saved;
+      upsertCachedPond(merged);
+      onSaved(merged);
+    } catch (err) {
+      console.error('Failed to save pond:', err);
+      setSubmitError(isEdit ? '塘口修改失败，请稍后重试' : '塘口创建失败，请稍后重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const busy = uploading || saving;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={isEdit ? '编辑塘口' : '新建塘口'}
+      widthClassName="max-w-2xl"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={busy}
+            className={cn(
+              'px-4 py-2 rounded-lg text-white text-sm font-bold',
+              busy ? 'bg-blue-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            )}
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </>
+      }
+    >
+      <div className="flex items-center gap-4 mb-4">
+        <div className="w-20 h-20 rounded-full overflow-hidden border-2 border-gray-100 shadow-sm bg-gray-50 shrink-0">
+          <img
+            src={values.picture_url || DEFAULT_ASSETS.POND_AVATAR}
+            alt="塘口图片"
+            className="w-full h-full object-cover"
+          />
+        </div>
+        <div>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            {uploading ? <Loader2 size={14} className="animate-spin" /> : <ImagePlus size={14} />}
+            {uploading ? '上传中...' : '上传图片'}
+          </button>
+          <div className="text-xs text-gray-400 mt-1">支持 JPG / PNG，不超过 5MB</div>
+          {errors.picture_url && <div className="text-xs text-red-600 mt-1">{errors.picture_url}</div>}
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+        {POND_FORM_FIELDS.map(({ key, label, unit, input, required, placeholder }) => {
+          const error = errors[key];
+          const value = values[key] || '';
+          return (
+            <label key={key} className={cn('block', (input === 'textarea' || key === 'name') && 'col-span-2')}>
+              <span className="text-sm text-gray-700">
+                {label}
+                {required && <span className="text-red-500 ml-0.5">*</span>}
+              </span>
+              {input === 'textarea' ? (
+                <textarea
+                  value={value}
+                  onChange={(e) => updateValue(key, e.target.value)}
+                  rows={3}
+                  className={cn(inputClassName(Boolean(error)), 'mt-1 resize-none')}
+                />
+              ) : (
+                <div className="relative mt-1">
+                  <input
+                    value={value}
+                    placeholder={placeholder}
+                    onChange={(e) => updateValue(key, e.target.value)}
+                    inputMode={input === 'number' ? 'decimal' : undefined}
+                    className={cn(inputClassName(Boolean(error)), unit && 'pr-10')}
+                  />
+                  {unit && (
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">{unit}</span>
+                  )}
+                </div>
+              )}
+              {error && <span className="text-xs text-red-600">{error}</span>}
+            </label>
+          );
+        })}
+      </div>
+
+      {submitError && <div className="mt-3 text-sm text-red-600">{submitError}</div>}
+    </Modal>
+  );
+};
+
+export default PondFormModal;
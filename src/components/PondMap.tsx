@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { Pond } from '@/services/ponds';
+import type { TimelineRecord } from '@/services/timeline';
+import { MAP_CONFIG } from '@/config';
+import { useThresholdStore } from '@/store/useThresholdStore';
+import { resolveProfileName, resolveThresholdProfile } from '@/utils/waterQualityAlerts';
+import { POND_STATUS_CONFIG, PondWaterStatus, getPondWaterStatus, getWorstStatus, hasPondLocation } from '@/utils/pondStatus';
+import { clusterByGrid } from '@/utils/mapClusters';
+import { createOfflineBaseLayer } from '@/utils/offlineBaseMap';
+import PondMapPopup, { PondMapEntry } from './PondMapPopup';
+
+interface PondMapProps {
+  ponds: Pond[];
+  /** 各塘口近 7 日水质记录，key 为塘口 ID；未加载完成的塘口缺省 */
+  waterQualityData: Record<number, TimelineRecord[]>;
+  /** 水质数据加载失败的塘口，key 为塘口 ID */
+  loadErrors?: Record<number, string>;
+}
+
+// 同一网格内的标记合并为聚合点（px）
+const CLUSTER_CELL_PX = 56;
+// 瓦片源连续失败次数达到该值且从未成功加载时，切换为离线底图
+const TILE_ERROR_LIMIT = 3;
+
+const markerIcon = (status: PondWaterStatus, count: number) => {
+  const color = POND_STATUS_CONFIG[status].color;
+  const size = count > 1 ? (count >= 10 ? 40 : 34) : 18;
+  const html =
+    count > 1
+      ? `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:${color};border:3px solid rgba(255,255,255,0.9);box-shadow:0 1px 4px rgba(0,0,0,0.3);display:flex;align-items:center;justify-content:center;color:#fff;font-weight:700;font-size:13px;">${count}</div>`
+      : `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:${color};border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,0.35);"></div>`;
+  return L.divIcon({ className: '', html, iconSize: [size, size], iconAnchor: [size / 2, size / 2] });
+};
+
+const toLatLng = (pond: Pond): L.LatLngTuple => [Number(pond.latitude), Number(pond.longitude)];
+
+/**
+ * 塘口地图 (PondMap)
+ * 作用：在地图上按经纬度展示塘口，标记颜色表示最新水质状态，密集处自动聚合
+ * 输入：ponds、waterQualityData
+ * 输出：地图视图；点击标记弹出水质迷你趋势 (PondMapPopup)
+ * 逻辑：
+ *  1. 底图使用 MAP_CONFIG.TILE_URL（本地瓦片服务），不可用时切换为离线经纬网底图
+ *  2. 每次缩放后按投影像素网格重新聚合 (clusterByGrid)，聚合点颜色取成员中最严重的状态
+ *  3. 点击聚合点放大展开；坐标重合无法展开时弹出塘口列表
+ *  4. 弹窗内容通过 Portal 渲染到 Leaflet 弹窗节点，沿用应用内的路由与状态
+ */
+const PondMap: React.FC<PondMapProps> = ({ ponds, waterQualityData, loadErrors = {} }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerLayerRef = useRef<L.LayerGroup | null>(null);
+  const popupRef = useRef<L.Popup | null>(null);
+  const fittedRef = useRef(false);
+  const [zoom, setZoom] = useState(MAP_CONFIG.DEFAULT_ZOOM);
+  const [offlineBase, setOfflineBase] = useState(false);
+  const [popupTarget, setPopupTarget] = useState<{ latlng: L.LatLng; pondIds: number[] } | null>(null);
+  const [activePondId, setActivePondId] = useState<number | null>(null);
+  const [popupNode] = useState(() => document.createElement('div'));
+  const overrides = useThresholdStore((s) => s.overrides);
+
+  const entries = useMemo<PondMapEntry[]>(
+    () =>
+      ponds.filter(hasPondLocation).map((pond) => {
+        const profile = resolveThresholdProfile(resolveProfileName(pond.breed_species), overrides);
+        const loadError = loadErrors[pond.id];
+        // 加载失败的塘口按无数据着色，弹窗中提示错误
+        const records = loadError && !waterQualityData[pond.id] ? [] : waterQualityData[pond.id];
+        return { pond, records, loadError, ...getPondWaterStatus(records, profile) };
+      }),
+    [ponds, waterQualityData, loadErrors, overrides]
+  );
+  const unlocatedCount = ponds.length - entries.length;
+
+  // 初始化地图与底图
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const map = L.map(container, {
+      center: MAP_CONFIG.DEFAULT_CENTER,
+      zoom: MAP_CONFIG.DEFAULT_ZOOM,
+      minZoom: MAP_CONFIG.MIN_ZOOM,
+      maxZoom: MAP_CONFIG.MAX_ZOOM,
+      attributionControl: Boolean(MAP_CONFIG.TILE_ATTRIBUTION),
+    });
+    const switchToOfflineBase = () => {
+      createOfflineBaseLayer(map).addTo(map);
+      setOfflineBase(true);
+    };
+
+    if (MAP_CONFIG.TILE_URL) {
+      const tiles = L.tileLayer(MAP_CONFIG.TILE_URL, {
+        minZoom: MAP_CONFIG.MIN_ZOOM,
+        maxZoom: MAP_CONFIG.MAX_ZOOM,
+        attribution: MAP_CONFIG.TILE_ATTRIBUTION,
+      });
+      let loaded = false;
+      let errors = 0;
+      tiles.on('tileload', () => {
+        loaded = true;
+      });
+      tiles.on('tileerror', () => {
+        errors += 1;
+        if (loaded || errors !== TILE_ERROR_LIMIT) return;
+        map.removeLayer(tiles);
+        switchToOfflineBase();
+      });
+      tiles.addTo(map);
+    } else {
+      switchToOfflineBase();
+    }
+
+    markerLayerRef.current = L.layerGroup().addTo(map);
+    map.on('zoomend', () => setZoom(map.getZoom()));
+    mapRef.current = map;
+
+    // 容器尺寸变化（侧边栏收起、窗口缩放）后重新计算地图尺寸
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      map.remove();
+      mapRef.current = null;
+      markerLayerRef.current = null;
+    };
+  }, []);
+
+  // 首次拿到带坐标的塘口时，缩放到能看到全部塘口
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || fittedRef.current || entries.length === 0) return;
+    fittedRef.current = true;
+    map.fitBounds(L.latLngBounds(entries.map((e) => toLatLng(e.pond))).pad(0.2), { maxZoom: 13 });
+  }, [entries]);
+
+  // 按当前缩放级别聚合并绘制标记
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = markerLayerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const points = entries.map((entry) => {
+      const p = map.project(toLatLng(entry.pond), zoom);
+      return { x: p.x, y: p.y, item: entry };
+    });
+    clusterByGrid(points, CLUSTER_CELL_PX).forEach((cluster) => {
+      const single = cluster.items.length === 1;
+      const latlng = single ? L.latLng(toLatLng(cluster.items[0].pond)) : map.unproject([cluster.x, cluster.y], zoom);
+      const marker = L.marker(latlng, {
+        icon: markerIcon(getWorstStatus(cluster.items.map((e) => e.status)), cluster.items.length),
+        title: cluster.items.map((e) => e.pond.name).join('、'),
+      });
+      marker.on('click', () => {
+        if (!single) {
+          const bounds = L.latLngBounds(cluster.items.map((e) => toLatLng(e.pond)));
+          if (map.getBoundsZoom(bounds.pad(0.3)) > map.getZoom()) {
+            map.flyToBounds(bounds.pad(0.3), { maxZoom: map.getMaxZoom() });
+            return;
+          }
+        }
+        setActivePondId(null);
+        setPopupTarget({ latlng, pondIds: cluster.items.map((e) => e.pond.id) });
+      });
+      layer.addLayer(marker);
+    });
+  }, [entries, zoom]);
+
+  // 打开弹窗；关闭时清空目标
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !popupTarget) return;
+    const popup = L.popup({ minWidth: 260, maxWidth: 320, autoPanPadding: [24, 24] })
+      .setLatLng(popupTarget.latlng)
+      .setContent(popupNode)
+      .openOn(map);
+    popup.on('remove', () => setPopupTarget(null));
+    popupRef.current = popup;
+    return () => {
+      popup.off('remove');
+      map.closePopup(popup);
+      popupRef.current = null;
+    };
+  }, [popupTarget, popupNode]);
+
+  // 弹窗内容变化后重新计算弹窗尺寸与位置
+  useEffect(() => {
+    popupRef.current?.update();
+  });
+
+  const popupEntries = popupTarget ? entries.filter((e) => popupTarget.pondIds.includes(e.pond.id)) : [];
+
+  return (
+    <div className="relative h-full min-h-[420px] overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div ref={containerRef} className="h-full w-full" />
+
+      <div className="absolute right-3 top-3 z-[1000] rounded-lg border border-gray-200 bg-white/95 px-3 py-2 text-xs text-gray-600 shadow-sm">
+        {(['alert', 'normal', 'nodata'] as PondWaterStatus[]).map((status) => (
+          <div key={status} className="flex items-center gap-2 py-0.5">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: POND_STATUS_CONFIG[status].color }} />
+            {POND_STATUS_CONFIG[status].label}
+          </div>
+        ))}
+      </div>
+
+      {(offlineBase || unlocatedCount > 0) && (
+        <div className="absolute bottom-3 left-3 z-[1000] space-y-0.5 rounded-lg border border-gray-200 bg-white/95 px-3 py-2 text-xs text-gray-500 shadow-sm">
+          {offlineBase && <div>底图瓦片不可用，当前为离线经纬网底图</div>}
+          {unlocatedCount > 0 && <div>{unlocatedCount} 个塘口未设置经纬度，可在塘口信息中补充</div>}
+        </div>
+      )}
+
+      {popupTarget &&
+        popupEntries.length > 0 &&
+        createPortal(<PondMapPopup entries={popupEntries} activeId={activePondId} onSelect={setActivePondId} />, popupNode)}
+    </div>
+  );
+};
+
+export default PondMap;
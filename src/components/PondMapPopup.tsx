@@ -0,0 +1,117 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ChevronRight, MapPin } from 'lucide-react';
+import type { Pond } from '@/services/ponds';
+import type { TimelineRecord } from '@/services/timeline';
+import type { WaterQualityAlert } from '@/utils/waterQualityAlerts';
+import { POND_PREVIEW_METRICS, POND_STATUS_CONFIG, PondWaterStatus } from '@/utils/pondStatus';
+import MiniTrendChart from './MiniTrendChart';
+
+export interface PondMapEntry {
+  pond: Pond;
+  records?: TimelineRecord[];
+  /** 水质数据加载失败的提示 */
+  loadError?: string;
+  status: PondWaterStatus;
+  breaches: Record<string, WaterQualityAlert>;
+}
+
+interface PondMapPopupProps {
+  entries: PondMapEntry[];
+  /** 当前展示详情的塘口；为空且有多个塘口时展示列表 */
+  activeId: number | null;
+  onSelect: (pondId: number | null) => void;
+}
+
+const StatusBadge: React.FC<{ status: PondWaterStatus; count?: number }> = ({ status, count }) => (
+  <span
+    className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-white shrink-0"
+    style={{ backgroundColor: POND_STATUS_CONFIG[status].color }}
+  >
+    {status === 'alert' && <AlertTriangle className="h-3 w-3" />}
+    {status === 'alert' && count ? `${count}项超标` : POND_STATUS_CONFIG[status].label}
+  </span>
+);
+
+/**
+ * 地图标记弹窗 (PondMapPopup)
+ * 作用：展示塘口水质状态与近 7 日 pH / 亚盐 / 氨氮迷你趋势；同一位置有多个塘口时先列出供选择
+ * 输入：entries（该标记下的塘口）、activeId、onSelect
+ */
+const PondMapPopup: React.FC<PondMapPopupProps> = ({ entries, activeId, onSelect }) => {
+  const navigate = useNavigate();
+  const active = entries.length === 1 ? entries[0] : entries.find((e) => e.pond.id === activeId);
+
+  if (!active) {
+    return (
+      <div className="w-64">
+        <div className="mb-2 text-sm font-bold text-gray-900">该位置共 {entries.length} 个塘口</div>
+        <div className="max-h-60 space-y-1 overflow-y-auto">
+          {entries.map((e) => (
+            <button
+              key={e.pond.id}
+              type="button"
+              onClick={() => onSelect(e.pond.id)}
+              className="flex w-full items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-gray-50"
+            >
+              <span className="truncate text-gray-800">{e.pond.name}</span>
+              <StatusBadge status={e.status} count={Object.keys(e.breaches).length} />
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { pond, records = [], loadError, status, breaches } = active;
+  return (
+    <div className="w-72">
+      {entries.length > 1 && (
+        <button type="button" onClick={() => onSelect(null)} className="mb-1 text-xs text-blue-600 hover:underline">
+          ← 返回列表
+        </button>
+      )}
+      <div className="flex items-center gap-2">
+        <span className="truncate text-base font-bold text-gray-900">{pond.name}</span>
+        <StatusBadge status={status} count={Object.keys(breaches).length} />
+      </div>
+      <div className="mt-0.5 flex items-center gap-1 text-xs text-gray-400">
+        <MapPin className="h-3 w-3" />
+        {[pond.province, pond.city, pond.district].filter(Boolean).join('') || '未知位置'}
+      </div>
+      <div className="mt-2 flex flex-col gap-1">
+        {status === 'loading' ? (
+          <div className="flex h-24 items-center justify-center text-sm text-gray-400">加载趋势数据...</div>
+        ) : loadError ? (
+          <div className="flex h-24 items-center justify-center gap-1 text-sm text-red-500">
+            <AlertTriangle className="h-4 w-4" />
+            {loadError}
+          </div>
+        ) : (
+          POND_PREVIEW_METRICS.map((metric) => (
+            <MiniTrendChart
+              key={metric.key}
+              data={records}
+              dataKey={metric.key}
+              name={metric.name}
+              color={metric.color}
+              unit={metric.unit}
+              alertLevel={breaches[metric.key]?.level}
+              insufficient={records.length > 0 && records.length < 2}
+            />
+          ))
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => navigate(`/pond/${pond.id}`, { state: { pond } })}
+        className="mt-2 flex w-full items-center justify-center gap-1 rounded-lg border border-blue-600 py-1.5 text-sm font-bold text-blue-600 hover:bg-blue-50"
+      >
+        查看详情
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default PondMapPopup;
@@ -1,11 +1,13 @@
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useUserStore } from '@/store/useUserStore';
 
 const ProtectedRoute = () => {
   const token = useUserStore((state) => state.token);
+  const location = useLocation();
 
   if (!token) {
-    return <Navigate to="/login" replace />;
+    // 记录来源地址（如扫码打开的报告验证链接），登录后返回
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   return <Outlet />;
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { TimelineRecord } from '@/services/timeline';
+import { RECORD_EXPORT_FORMATS, RecordExportFormat, downloadRecords } from '@/utils/recordExport';
+
+interface RecordExportMenuProps {
+  /** 待导出的记录；为空时按钮禁用 */
+  records: TimelineRecord[];
+  /** 文件名前缀，如“塘口名_2024年05月” */
+  baseName: string;
+  /** 按钮提示，说明导出范围 */
+  title?: string;
+  className?: string;
+}
+
+/**
+ * 记录导出菜单 (RecordExportMenu)
+ * 作用：将当前页面已加载的养殖记录在本地导出为 CSV / NDJSON
+ * 输入：记录列表、文件名前缀
+ * 输出：“导出”按钮，点击展开格式选择
+ */
+const RecordExportMenu: React.FC<RecordExportMenuProps> = ({ records, baseName, title, className }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const disabled = records.length === 0;
+
+  // 点击外部关闭
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleSelect = (exportFormat: RecordExportFormat) => {
+    setOpen(false);
+    downloadRecords(records, exportFormat, baseName);
+  };
+
+  return (
+    <div ref={containerRef} className={cn('relative', className)}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled}
+        title={disabled ? '暂无可导出的记录' : title}
+        className={cn(
+          'flex items-center gap-1 px-2.5 py-1 rounded-lg border text-xs font-bold',
+          disabled
+            ? 'border-gray-200 text-gray-300 cursor-not-allowed'
+            : 'border-gray-200 text-gray-600 hover:text-blue-600 hover:border-blue-300'
+        )}
+      >
+        <Download size={14} />
+        导出
+      </button>
+      {open && (
+        <div className="absolute top-full right-0 mt-1 w-40 bg-white rounded-lg shadow-xl border border-gray-100 py-1 z-50">
+          <div className="px-3 py-1 text-[11px] text-gray-400">共 {records.length} 条记录</div>
+          {RECORD_EXPORT_FORMATS.map((f) => (
+            <button
+              key={f.value}
+              type="button"
+              onClick={() => handleSelect(f.value)}
+              className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-600"
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordExportMenu;
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import { cn } from '@/lib/utils';
+import { RECORD_KINDS, RecordKind, TimelineRecord } from '@/services/timeline';
+import type { RecordPayload } from '@/services/records';
+import { getRecordIcon, recordTypeConfig } from '@/utils/recordUtils';
+import {
+  FORM_ERROR_KEY,
+  RECORD_TIME_KEY,
+  RecordFormErrors,
+  RecordFormValues,
+  getRecordFormFields,
+  toRecordFormValues,
+  toRecordPayload,
+  validateRecordForm,
+} from '@/utils/recordForm';
+
+interface RecordFormModalProps {
+  open: boolean;
+  /** 待编辑的记录；为空时为新增 */
+  record?: TimelineRecord | null;
+  /** 新增时的默认作业时间（如日历中选中的日期） */
+  defaultTime?: Date;
+  onClose: () => void;
+  /** 校验通过后回调，由页面负责乐观更新与接口调用 */
+  onSubmit: (kind: RecordKind, payload: RecordPayload) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  cn(
+    'w-full border rounded-md px-3 py-2 text-sm focus:outline-none',
+    hasError ? 'border-red-400 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
+  );
+
+/**
+ * 养殖记录录入弹窗 (RecordFormModal)
+ * 作用：新增或修改饲料投喂、水质监测、巡塘等各类养殖记录
+ * 输入：record（修改时传入原记录）、defaultTime（新增时的默认作业时间）
+ * 输出：onSubmit(kind, payload)
+ * 逻辑：
+ *  1. 表单字段由 fullFieldConfigs 生成，数值字段带单位并校验上下限
+ *  2. 新增时先选择记录类型；修改时类型不可变更
+ */
+const RecordFormModal: React.FC<RecordFormModalProps> = ({ open, record, defaultTime, onClose, onSubmit }) => {
+  const isEdit = Boolean(record);
+  const [kind, setKind] = useState<RecordKind>('feeding');
+  const [values, setValues] = useState<RecordFormValues>({});
+  const [errors, setErrors] = useState<RecordFormErrors>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const initialKind = record && record.kind !== 'unknown' ? record.kind : 'feeding';
+    setKind(initialKind);
+    setValues(toRecordFormValues(initialKind, record || undefined, defaultTime));
+    setErrors({});
+  }, [open, record, defaultTime]);
+
+  const handleKindChange = (next: RecordKind) => {
+    if (isEdit || next === kind) return;
+    setKind(next);
+    setValues((prev) => ({ ...toRecordFormValues(next, undefined, defaultTime), [RECORD_TIME_KEY]: prev[RECORD_TIME_KEY] }));
+    setErrors({});
+  };
+
+  const updateValue = (key: string, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => {
+      if (!prev[key] && !prev[FORM_ERROR_KEY]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      delete next[FORM_ERROR_KEY];
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    const nextErrors = validateRecordForm(kind, values);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+    onSubmit(kind, toRecordPayload(kind, values, isEdit));
+  };
+
+  const fields = getRecordFormFields(kind);
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={isEdit ? `修改${recordTypeConfig[kind]?.name || '记录'}` : '新增养殖记录'}
+      widthClassName="max-w-2xl"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold"
+          >
+            保存
+          </button>
+        </>
+      }
+    >
+      {!isEdit && (
+        <div className="grid grid-cols-5 gap-2 mb-4">
+          {RECORD_KINDS.map((k) => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => handleKindChange(k)}
+              className={cn(
+                'flex flex-col items-center gap-1 rounded-xl border px-2 py-2 text-xs transition-colors',
+                k === kind ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              <img src={getRecordIcon(k)} alt="" className="w-6 h-6" />
+              <span className="truncate w-full text-center">{recordTypeConfig[k].name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+        <label className="col-span-2 block">
+          <span className="text-sm text-gray-700">
+            作业时间<span className="text-red-500 ml-0.5">*</span>
+          </span>
+          <input
+            type="datetime-local"
+            value={values[RECORD_TIME_KEY] || ''}
+            onChange={(e) => updateValue(RECORD_TIME_KEY, e.target.value)}
+            className={cn(inputClassName(Boolean(errors[RECORD_TIME_KEY])), 'mt-1')}
+          />
+          {errors[RECORD_TIME_KEY] && <span className="text-xs text-red-600">{errors[RECORD_TIME_KEY]}</span>}
+        </label>
+
+        {fields.map(({ key, label, unit, input, required }) => {
+          const error = errors[key];
+          const value = values[key] || '';
+          return (
+            <label key={key} className={cn('block', input === 'textarea' && 'col-span-2')}>
+              <span className="text-sm text-gray-700">
+                {label}
+                {required && <span className="text-red-500 ml-0.5">*</span>}
+              </span>
+              {input === 'textarea' ? (
+                <textarea
+                  value={value}
+                  onChange={(e) => updateValue(key, e.target.value)}
+                  rows={2}
+                  className={cn(inputClassName(Boolean(error)), 'mt-1 resize-none')}
+                />
+              ) : (
+                <div className="relative mt-1">
+                  <input
+                    value={value}
+                    onChange={(e) => updateValue(key, e.target.value)}
+                    inputMode={input === 'number' ? 'decimal' : undefined}
+                    className={cn(inputClassName(Boolean(error)), unit && 'pr-14')}
+                  />
+                  {unit && (
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">{unit}</span>
+                  )}
+                </div>
+              )}
+              {error && <span className="text-xs text-red-600">{error}</span>}
+            </label>
+          );
+        })}
+      </div>
+
+      {errors[FORM_ERROR_KEY] && <div className="mt-3 text-sm text-red-600">{errors[FORM_ERROR_KEY]}</div>}
+    </Modal>
+  );
+};
+
+export default RecordFormModal;
@@ -0,0 +1,469 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { FileUp, Loader2 } from 'lucide-react';
+import Modal from './Modal';
+import { cn } from '@/lib/utils';
+import { RECORD_KINDS, RecordKind } from '@/services/timeline';
+import { getRecordIcon, recordTypeConfig } from '@/utils/recordUtils';
+import { RECORD_TIME_KEY } from '@/utils/recordForm';
+import { SPREADSHEET_ACCEPT, SheetData, readSpreadsheetFile } from '@/utils/spreadsheet';
+import {
+  ColumnMapping,
+  IGNORE_COLUMN,
+  ImportResult,
+  ImportRow,
+  ImportRowStatus,
+  buildImportReport,
+  buildImportRows,
+  buildImportTemplate,
+  detectImportConflicts,
+  getImportFields,
+  getImportRowStatus,
+  guessColumnMapping,
+  submitImportRows,
+} from '@/utils/recordImport';
+import { downloadTextFile } from '@/utils/download';
+import { sanitizeFilenamePart } from '@/utils/pondReport';
+
+interface RecordImportModalProps {
+  open: boolean;
+  pondId: number;
+  pondName?: string;
+  onClose: () => void;
+  /** 至少导入成功一条后回调，由页面刷新数据 */
+  onImported: (kind: RecordKind) => void;
+}
+
+type Step = 'file' | 'mapping' | 'preview' | 'result';
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: 'file', label: '选择文件' },
+  { key: 'mapping', label: '字段映射' },
+  { key: 'preview', label: '校验预览' },
+  { key: 'result', label: '导入结果' },
+];
+
+const STATUS_META: Record<ImportRowStatus, { label: string; className: string }> = {
+  valid: { label: '可导入', className: 'bg-emerald-50 text-emerald-700' },
+  conflict: { label: '可能重复', className: 'bg-amber-50 text-amber-700' },
+  invalid: { label: '有错误', className: 'bg-red-50 text-red-600' },
+};
+
+// 预览表格最多渲染的行数，避免大文件卡顿
+const PREVIEW_LIMIT = 200;
+
+const primaryButton = 'px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:bg-gray-300 disabled:cursor-not-allowed';
+const secondaryButton = 'px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50';
+
+/**
+ * 历史记录导入向导 (RecordImportModal)
+ * 作用：从 CSV / XLSX 批量导入某一类养殖记录到当前塘口
+ * 输入：塘口 ID 与名称
+ * 输出：onImported(kind)（至少成功一条时）
+ * 逻辑：
+ *  1. 选择记录类型与文件，可下载该类型的导入模板
+ *  2. 按表头自动匹配字段，可手动调整映射
+ *  3. 校验时间、数值与单位，并与已有记录比对重复；可选择跳过重复行
+ *  4. 分批提交，展示逐行结果并可下载导入报告
+ */
+const RecordImportModal: React.FC<RecordImportModalProps> = ({ open, pondId, pondName, onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('file');
+  const [kind, setKind] = useState<RecordKind>('feeding');
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipConflicts, setSkipConflicts] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('file');
+    setFile(null);
+    setSheet(null);
+    setMapping([]);
+    setRows([]);
+    setSkipConflicts(true);
+    setBusy(false);
+    setError('');
+    setProgress(null);
+    setResults([]);
+  }, [open]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const fields = getImportFields(kind);
+  const kindName = recordTypeConfig[kind].name;
+  const counts = useMemo(() => {
+    const c: Record<ImportRowStatus, number> = { valid: 0, conflict: 0, invalid: 0 };
+    rows.forEach((row) => (c[getImportRowStatus(row)] += 1));
+    return c;
+  }, [rows]);
+  const toSubmit = useMemo(
+    () => rows.filter((row) => {
+      const status = getImportRowStatus(row);
+      return status === 'valid' || (status === 'conflict' && !skipConflicts);
+    }),
+    [rows, skipConflicts]
+  );
+  const missingRequired = fields.filter((f) => f.required && !mapping.includes(f.key));
+  const timeMapped = mapping.includes(RECORD_TIME_KEY);
+  const succeeded = results.filter((r) => r.status === 'ok').length;
+  const failedResults = results.filter((r) => r.status === 'failed');
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleReadFile = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError('');
+    try {
+      const data = await readSpreadsheetFile(file);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers, kind));
+      setStep('mapping');
+    } catch (e) {
+      console.error('Failed to parse import file:', e);
+      setError(e instanceof Error ? e.message : '文件解析失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    setBusy(true);
+    setError('');
+    const built = buildImportRows(sheet, mapping, kind);
+    try {
+      setRows(await detectImportConflicts(pondId, kind, built));
+    } catch (e) {
+      console.error('Failed to check import conflicts:', e);
+      setRows(built);
+      setError('无法获取已有记录，未进行重复检查');
+    } finally {
+      setBusy(false);
+      setStep('preview');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (toSubmit.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStep('result');
+    setError('');
+    setResults([]);
+    setProgress({ done: 0, total: toSubmit.length });
+    const submitted = await submitImportRows(pondId, kind, toSubmit, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ done, total }),
+    });
+    // 取消时已提交成功的记录同样需要刷新
+    if (submitted.some((r) => r.status === 'ok')) onImported(kind);
+    if (controller.signal.aborted) return;
+    abortRef.current = null;
+    setResults(submitted);
+    setProgress(null);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadTextFile(`${kindName}_导入模板.csv`, buildImportTemplate(kind), 'text/csv;charset=utf-8');
+  };
+
+  const handleDownloadReport = () => {
+    const name = `${sanitizeFilenamePart(pondName || 'pond')}_${kindName}_导入报告_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`;
+    downloadTextFile(name, buildImportReport(rows, results, skipConflicts), 'text/csv;charset=utf-8');
+  };
+
+  const renderFooter = () => {
+    switch (step) {
+      case 'file':
+        return (
+          <>
+            <button type="button" onClick={handleClose} className={secondaryButton}>取消</button>
+            <button type="button" onClick={handleReadFile} disabled={!file || busy} className={primaryButton}>
+              {busy ? '解析中...' : '下一步'}
+            </button>
+          </>
+        );
+      case 'mapping':
+        return (
+          <>
+            <button type="button" onClick={() => setStep('file')} className={secondaryButton}>上一步</button>
+            <button
+              type="button"
+              onClick={handleValidate}
+              disabled={busy || !timeMapped || missingRequired.length > 0}
+              className={primaryButton}
+            >
+              {busy ? '校验中...' : '下一步'}
+            </button>
+          </>
+        );
+      case 'preview':
+        return (
+          <>
+            <button type="button" onClick={() => setStep('mapping')} className={secondaryButton}>上一步</button>
+            <button type="button" onClick={handleSubmit} disabled={toSubmit.length === 0} className={primaryButton}>
+              导入 {toSubmit.length} 条
+            </button>
+          </>
+        );
+      case 'result':
+        return progress ? (
+          <button type="button" onClick={handleClose} className={secondaryButton}>取消导入</button>
+        ) : (
+          <>
+            <button type="button" onClick={handleDownloadReport} className={secondaryButton}>下载导入报告</button>
+            <button type="button" onClick={handleClose} className={primaryButton}>完成</button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={handleClose}
+      title={`导入历史记录${pondName ? ` · ${pondName}` : ''}`}
+      widthClassName="max-w-4xl"
+      footer={renderFooter()}
+    >
+      <div className="flex items-center gap-2 mb-4 text-xs">
+        {STEPS.map((s, i) => (
+          <React.Fragment key={s.key}>
+            {i > 0 && <div className="h-px w-6 bg-gray-200" />}
+            <span className={cn('px-2 py-1 rounded-full', s.key === step ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500')}>
+              {i + 1}. {s.label}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {error && <div className="mb-3 px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-sm text-red-600">{error}</div>}
+
+      {step === 'file' && (
+        <div className="space-y-4">
+          <div>
+            <div className="text-sm text-gray-700 mb-2">记录类型</div>
+            <div className="grid grid-cols-5 gap-2">
+              {RECORD_KINDS.map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setKind(k)}
+                  className={cn(
+                    'flex flex-col items-center gap-1 rounded-xl border px-2 py-2 text-xs transition-colors',
+                    k === kind ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  )}
+                >
+                  <img src={getRecordIcon(k)} alt="" className="w-6 h-6" />
+                  <span className="truncate w-full text-center">{recordTypeConfig[k].name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-gray-200 py-8 cursor-pointer hover:border-blue-300 hover:bg-blue-50/40">
+            <FileUp size={28} className="text-gray-400" />
+            <span className="text-sm text-gray-700">{file ? file.name : '点击选择 CSV 或 Excel (.xlsx) 文件'}</span>
+            <input
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setError('');
+              }}
+            />
+          </label>
+          <div className="text-xs text-gray-500 leading-relaxed">
+            第一行为表头，每行一条{kindName}。时间支持 2024-05-01 08:30、2024/5/1 等格式，只有日期时按当天 08:00 导入；
+            数值可在表头或单元格中注明单位（如“投喂重量(公斤)”、“12.5kg”），导入时自动换算。
+            <button type="button" onClick={handleDownloadTemplate} className="ml-1 text-blue-600 hover:underline">
+              下载{kindName}模板
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'mapping' && sheet && (
+        <div>
+          <div className="text-sm text-gray-600 mb-2">
+            共 {sheet.rows.length} 行数据，请确认每列对应的{kindName}字段：
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 font-medium">表格列</th>
+                <th className="py-2 font-medium">示例值</th>
+                <th className="py-2 font-medium w-56">对应字段</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.headers.map((header, col) => {
+                const sample = sheet.rows.find((r) => r.cells[col])?.cells[col] || '';
+                return (
+                  <tr key={col} className="border-b border-gray-50">
+                    <td className="py-1.5 text-gray-800">{header || `第 ${col + 1} 列`}</td>
+                    <td className="py-1.5 text-gray-500 truncate max-w-[16rem]">{sample}</td>
+                    <td className="py-1.5">
+                      <select
+                        value={mapping[col] || IGNORE_COLUMN}
+                        onChange={(e) =>
+                          setMapping((prev) => {
+                            const next = [...prev];
+                            const key = e.target.value;
+                            // 一个字段只对应一列
+                            if (key) next.forEach((k, i) => k === key && (next[i] = IGNORE_COLUMN));
+                            next[col] = key;
+                            return next;
+                          })
+                        }
+                        className="w-full h-8 rounded-md border border-gray-200 px-2 text-sm focus:outline-none focus:border-blue-400"
+                      >
+                        <option value={IGNORE_COLUMN}>不导入</option>
+                        <option value={RECORD_TIME_KEY}>作业时间</option>
+                        {fields.map((f) => (
+                          <option key={f.key} value={f.key}>
+                            {f.label}
+                            {f.unit ? `(${f.unit})` : ''}
+                            {f.required ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {(!timeMapped || missingRequired.length > 0) && (
+            <div className="mt-3 text-sm text-amber-700">
+              请为 {[!timeMapped && '作业时间', ...missingRequired.map((f) => f.label)].filter(Boolean).join('、')} 选择对应的列
+            </div>
+          )}
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div>
+          <div className="flex items-center gap-4 mb-3 text-sm">
+            {(Object.keys(STATUS_META) as ImportRowStatus[]).map((status) => (
+              <span key={status} className={cn('px-2 py-0.5 rounded-full text-xs', STATUS_META[status].className)}>
+                {STATUS_META[status].label} {counts[status]}
+              </span>
+            ))}
+            {counts.conflict > 0 && (
+              <label className="flex items-center gap-1.5 text-gray-700 select-none">
+                <input
+                  type="checkbox"
+                  checked={skipConflicts}
+                  onChange={(e) => setSkipConflicts(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                跳过与已有记录时间重复的行
+              </label>
+            )}
+          </div>
+          <div className="max-h-[50vh] overflow-y-auto custom-scrollbar border border-gray-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr className="text-left text-gray-500">
+                  <th className="px-3 py-2 font-medium w-14">行号</th>
+                  <th className="px-3 py-2 font-medium w-24">状态</th>
+                  <th className="px-3 py-2 font-medium w-36">作业时间</th>
+                  <th className="px-3 py-2 font-medium">内容 / 问题</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                  const status = getImportRowStatus(row);
+                  const summary = fields
+                    .filter((f) => row.values[f.key])
+                    .map((f) => `${f.label} ${row.values[f.key]}${f.unit || ''}`)
+                    .join('，');
+                  return (
+                    <tr key={row.line} className="border-t border-gray-50 align-top">
+                      <td className="px-3 py-1.5 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-1.5">
+                        <span className={cn('px-2 py-0.5 rounded-full text-xs whitespace-nowrap', STATUS_META[status].className)}>
+                          {STATUS_META[status].label}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">
+                        {row.time ? format(row.time, row.dateOnly ? 'yyyy-MM-dd' : 'yyyy-MM-dd HH:mm') : '-'}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {status === 'invalid' ? (
+                          <span className="text-red-600">{row.errors.join('；')}</span>
+                        ) : (
+                          <>
+                            <span className="text-gray-700">{summary}</span>
+                            {row.conflict && <div className="text-xs text-amber-700">该时间已有一条{kindName}</div>}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_LIMIT && (
+              <div className="px-3 py-2 text-xs text-gray-400">仅显示前 {PREVIEW_LIMIT} 行，共 {rows.length} 行</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {step === 'result' && (
+        <div>
+          {progress ? (
+            <div className="py-6">
+              <div className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+                <Loader2 size={16} className="animate-spin text-blue-600" />
+                正在导入 {progress.done}/{progress.total}
+              </div>
+              <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="text-sm text-gray-700 mb-3">
+                成功导入 <span className="font-semibold text-emerald-600">{succeeded}</span> 条
+                {failedResults.length > 0 && (
+                  <>，提交失败 <span className="font-semibold text-red-600">{failedResults.length}</span> 条</>
+                )}
+                {counts.invalid > 0 && <>，校验未通过 {counts.invalid} 条</>}
+                {skipConflicts && counts.conflict > 0 && <>，跳过重复 {counts.conflict} 条</>}
+              </div>
+              {failedResults.length > 0 && (
+                <div className="max-h-60 overflow-y-auto custom-scrollbar border border-gray-100 rounded-lg divide-y divide-gray-50">
+                  {failedResults.map((r) => (
+                    <div key={r.line} className="px-3 py-1.5 text-sm flex gap-3">
+                      <span className="text-gray-500 w-16 shrink-0">第 {r.line} 行</span>
+                      <span className="text-red-600">{r.error}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RecordImportModal;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import Modal from './Modal';
+import { DEFAULT_REPORT_SECTIONS, REPORT_SECTIONS, ReportSectionKey } from '@/utils/reportSections';
+
+interface ReportSectionsModalProps {
+  open: boolean;
+  /** 报告时间范围说明（与趋势图所选范围一致） */
+  rangeText: string;
+  exporting?: boolean;
+  /** 生成失败原因 */
+  error?: string;
+  onClose: () => void;
+  onConfirm: (sections: ReportSectionKey[]) => void;
+  /** 矢量生成失败（如缺少中文字体）时提供，显示“改用截图方式生成”按钮 */
+  onConfirmRaster?: (sections: ReportSectionKey[]) => void;
+}
+
+/**
+ * 报告章节选择弹窗 (ReportSectionsModal)
+ * 作用：塘口详情页导出智能养殖报告前选择要包含的章节
+ * 输入：rangeText、exporting（生成中禁用确认）、error
+ * 输出：onConfirm(sections)，章节按 REPORT_SECTIONS 顺序排列；onConfirmRaster 同上，以截图方式生成
+ */
+const ReportSectionsModal: React.FC<ReportSectionsModalProps> = ({
+  open,
+  rangeText,
+  exporting,
+  error,
+  onClose,
+  onConfirm,
+  onConfirmRaster,
+}) => {
+  const [selected, setSelected] = useState<ReportSectionKey[]>(DEFAULT_REPORT_SECTIONS);
+
+  const toggle = (key: ReportSectionKey) => {
+    setSelected((prev) =>
+      prev.includes(key)
+        ? prev.filter((k) => k !== key)
+        : REPORT_SECTIONS.map((s) => s.key).filter((k) => k === key || prev.includes(k))
+    );
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={exporting ? () => undefined : onClose}
+      title="报告导出"
+      widthClassName="max-w-lg"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={exporting}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            取消
+          </button>
+          {onConfirmRaster && (
+            <button
+              type="button"
+              onClick={() => onConfirmRaster(selected)}
+              disabled={exporting || selected.length === 0}
+              className="px-4 py-2 rounded-lg border border-blue-300 text-sm text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+              title="文字为图片，不可选中复制"
+            >
+              改用截图方式生成
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onConfirm(selected)}
+            disabled={exporting || selected.length === 0}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50"
+          >
+            {exporting ? '生成中...' : '生成 PDF'}
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <div className="text-sm text-gray-500">
+          时间范围：<span className="font-medium text-gray-800">{rangeText}</span>
+        </div>
+        <div className="space-y-2">
+          {REPORT_SECTIONS.map((section) => (
+            <label
+              key={section.key}
+              className="flex cursor-pointer items-start gap-3 rounded-lg border border-gray-200 px-3 py-2 hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={selected.includes(section.key)}
+                disabled={exporting}
+                onChange={() => toggle(section.key)}
+              />
+              <div>
+                <div className="text-sm font-bold text-gray-900">{section.label}</div>
+                <div className="text-xs text-gray-500">{section.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </div>
+    </Modal>
+  );
+};
+
+export default ReportSectionsModal;
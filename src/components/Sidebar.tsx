@@ -3,19 +3,25 @@ import {
   LayoutDashboard, 
   CalendarDays,
   Settings,
-  FileDown
+  FileDown,
+  GitCompareArrows,
+  ShieldCheck,
+  Wallet
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 /**
  * 侧边栏菜单配置
  * 根据需求移除：塘口管理、养殖记录、数据分析、AI助手
- * 新增：数据、数据导出
+ * 新增：数据、塘口对比、财务台账、数据导出、报告验证
  */
 const menuItems = [
   { icon: LayoutDashboard, label: '首页', path: '/' },
   { icon: CalendarDays, label: '数据', path: '/data' },
+  { icon: GitCompareArrows, label: '塘口对比', path: '/compare' },
+  { icon: Wallet, label: '财务台账', path: '/ledger' },
   { icon: FileDown, label: '数据导出', path: '/data-export' },
+  { icon: ShieldCheck, label: '报告验证', path: '/verify' },
   { icon: Settings, label: '个人中心', path: '/profile' },
 ];
 
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { CloudOff, Loader2, RefreshCw, AlertCircle, Radio } from 'lucide-react';
+import { useSyncStore } from '@/store/useSyncStore';
+import { cn } from '@/lib/utils';
+
+const formatSyncedAt = (ts: number | null) => {
+  if (!ts) return '尚未同步';
+  if (Date.now() - ts < 60 * 1000) return '刚刚同步';
+  return `${formatDistanceToNowStrict(ts, { locale: zhCN })}前同步`;
+};
+
+/**
+ * 同步状态指示器 (SyncIndicator)
+ * 作用：在顶部栏展示数据的最近同步时间与网络状态，便于在信号差的塘口判断数据是否为最新
+ * 输入：无 (使用 useSyncStore)
+ * 输出：同步中 / 离线 / 同步失败 / N 分钟前同步；实时推送已连接时显示“实时”，断线时提示重连中
+ */
+const SyncIndicator = () => {
+  const { lastSyncedAt, pending, lastError, online, realtime, setOnline } = useSyncStore();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    setOnline(navigator.onLine);
+    // 定时刷新相对时间
+    const timer = window.setInterval(() => setTick((t) => t + 1), 30 * 1000);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(timer);
+    };
+  }, [setOnline]);
+
+  const title = lastSyncedAt ? `上次同步：${format(lastSyncedAt, 'yyyy-MM-dd HH:mm:ss')}` : '尚未同步';
+
+  let icon = <RefreshCw size={12} />;
+  let text = formatSyncedAt(lastSyncedAt);
+  let tone = 'text-gray-500 bg-gray-50 border-gray-200';
+
+  if (!online) {
+    icon = <CloudOff size={12} />;
+    text = `离线 · ${formatSyncedAt(lastSyncedAt)}`;
+    tone = 'text-amber-700 bg-amber-50 border-amber-200';
+  } else if (pending > 0) {
+    icon = <Loader2 size={12} className="animate-spin" />;
+    text = '同步中...';
+    tone = 'text-blue-600 bg-blue-50 border-blue-200';
+  } else if (lastError) {
+    icon = <AlertCircle size={12} />;
+    text = `同步失败 · ${formatSyncedAt(lastSyncedAt)}`;
+    tone = 'text-red-600 bg-red-50 border-red-200';
+  } else if (realtime === 'open') {
+    icon = <Radio size={12} />;
+    text = `实时 · ${text}`;
+    tone = 'text-green-700 bg-green-50 border-green-200';
+  } else if (realtime === 'reconnecting') {
+    text = `${text} · 实时推送重连中`;
+  }
+
+  return (
+    <div
+      className={cn('flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs', tone)}
+      title={lastError ? `${title}\n${lastError}` : title}
+    >
+      {icon}
+      <span>{text}</span>
+    </div>
+  );
+};
+
+export default SyncIndicator;
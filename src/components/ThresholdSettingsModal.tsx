@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import { PARAM_CONFIG } from '@/utils/paramConfig';
+import { useThresholdStore } from '@/store/useThresholdStore';
+import {
+  THRESHOLD_KEYS,
+  ThresholdProfile,
+  getBuiltinProfile,
+  resolveThresholdProfile,
+} from '@/utils/waterQualityAlerts';
+
+interface ThresholdSettingsModalProps {
+  open: boolean;
+  profileName: string;
+  onClose: () => void;
+}
+
+type DraftRow = { min: string; max: string };
+
+const toDraft = (profile: ThresholdProfile) => {
+  const draft: Record<string, DraftRow> = {};
+  THRESHOLD_KEYS.forEach((key) => {
+    const range = profile[key] || {};
+    draft[key] = {
+      min: range.min != null ? String(range.min) : '',
+      max: range.max != null ? String(range.max) : '',
+    };
+  });
+  return draft;
+};
+
+const parseBound = (input: string) => {
+  const s = input.trim();
+  if (!s) return undefined;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : NaN;
+};
+
+/**
+ * 水质阈值设置弹窗 (ThresholdSettingsModal)
+ * 作用：按养殖品种编辑各水质指标的安全区间，保存后全站告警即时生效
+ * 输入：profileName（阈值档名称，由塘口养殖品种匹配）
+ * 输出：写入 useThresholdStore（localStorage 持久化）
+ * 逻辑：只保存与内置默认值不同的指标，便于后续内置值调整时自动跟随
+ */
+const ThresholdSettingsModal: React.FC<ThresholdSettingsModalProps> = ({ open, profileName, onClose }) => {
+  const { overrides, setProfileOverride, resetProfile } = useThresholdStore();
+  const [draft, setDraft] = useState<Record<string, DraftRow>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(toDraft(resolveThresholdProfile(profileName, overrides)));
+    setError('');
+  }, [open, profileName, overrides]);
+
+  const updateRow = (key: string, field: keyof DraftRow, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+  };
+
+  const handleSave = () => {
+    const builtin = getBuiltinProfile(profileName);
+    const custom: ThresholdProfile = {};
+    for (const key of THRESHOLD_KEYS) {
+      const row = draft[key] || { min: '', max: '' };
+      const min = parseBound(row.min);
+      const max = parseBound(row.max);
+      const name = PARAM_CONFIG[key]?.name || key;
+      if (Number.isNaN(min) || Number.isNaN(max)) {
+        setError(`${name} 的阈值必须为数字`);
+        return;
+      }
+      if (min != null && max != null && min > max) {
+        setError(`${name} 的下限不能大于上限`);
+        return;
+      }
+      const base = builtin[key] || {};
+      if (base.min !== min || base.max !== max) {
+        custom[key] = { min, max };
+      }
+    }
+    if (Object.keys(custom).length === 0) {
+      resetProfile(profileName);
+    } else {
+      setProfileOverride(profileName, custom);
+    }
+    onClose();
+  };
+
+  const handleReset = () => {
+    setDraft(toDraft(getBuiltinProfile(profileName)));
+    setError('');
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={`水质阈值设置 · ${profileName}`}
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            恢复默认
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold"
+          >
+            保存
+          </button>
+        </>
+      }
+    >
+      <p className="text-xs text-gray-500 mb-3">留空表示该方向不设限。阈值按养殖品种保存，对同品种的所有塘口生效。</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-2 font-medium">指标</th>
+            <th className="py-2 font-medium">下限</th>
+            <th className="py-2 font-medium">上限</th>
+          </tr>
+        </thead>
+        <tbody>
+          {THRESHOLD_KEYS.map((key) => {
+            const config = PARAM_CONFIG[key];
+            const row = draft[key] || { min: '', max: '' };
+            return (
+              <tr key={key} className="border-t border-gray-100">
+                <td className="py-2 pr-2 text-gray-800">
+                  {config?.name || key}
+                  {config?.unit && <span className="text-xs text-gray-400 ml-1">{config.unit}</span>}
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    value={row.min}
+                    onChange={(e) => updateRow(key, 'min', e.target.value)}
+                    inputMode="decimal"
+                    className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                  />
+                </td>
+                <td className="py-2">
+                  <input
+                    value={row.max}
+                    onChange={(e) => updateRow(key, 'max', e.target.value)}
+                    inputMode="decimal"
+                    className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+    </Modal>
+  );
+};
+
+export default ThresholdSettingsModal;
@@ -1,9 +1,13 @@
 import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
 import { format } from 'date-fns';
+import { PARAM_CONFIG } from '@/utils/paramConfig';
+import { getNumericReadings, getRecordTime } from '@/utils/recordUtils';
+import type { TimelineRecord } from '@/services/timeline';
+import { ThresholdProfile, ThresholdRange, checkThreshold, formatThresholdRange, getThresholdFor } from '@/utils/waterQualityAlerts';
 
 interface TrendChartProps {
-  data: any[];
+  data: TimelineRecord[];
   loading: boolean;
   /**
    * 导出模式
@@ -19,34 +23,13 @@ interface TrendChartProps {
    * 输出：用于 X 轴刻度规划与图表实际绘制宽度
    */
   exportWidthPx?: number;
+  /**
+   * 水质阈值档
+   * 作用：在每个参数图表上绘制越界红色区域，并将越界数据点标红
+   */
+  thresholds?: ThresholdProfile;
 }
 
-// 参数配置映射表：将后端字段映射为中文名称、单位和颜色
-const PARAM_CONFIG: Record<string, { name: string; unit: string; color: string }> = {
-  weight: { name: '投料量', unit: 'kg', color: '#db2777' }, // Pink
-  ph: { name: 'pH', unit: '', color: '#ef4444' },
-  oxygen: { name: '溶氧', unit: 'mg/L', color: '#10b981' },
-  temperature: { name: '水温', unit: '℃', color: '#f59e0b' },
-  ammonia: { name: '氨氮', unit: 'mg/L', color: '#3b82f6' },
-  nitrite: { name: '亚盐', unit: 'mg/L', color: '#8b5cf6' },
-  transparency: { name: '透明度', unit: 'cm', color: '#6366f1' },
-  
-  // Extended params based on screenshot and common variations
-  alkalinity: { name: '总碱度', unit: 'mg/L', color: '#f97316' }, // Orange
-  total_alkalinity: { name: '总碱度', unit: 'mg/L', color: '#f97316' },
-  hardness: { name: '总硬度', unit: 'mg/L', color: '#22c55e' }, // Green
-  total_hardness: { name: '总硬度', unit: 'mg/L', color: '#22c55e' },
-  calcium: { name: '钙离子', unit: 'mg/L', color: '#eab308' }, // Yellow
-  calcium_ion: { name: '钙离子', unit: 'mg/L', color: '#eab308' },
-  orp: { name: 'ORP', unit: 'mV', color: '#a855f7' }, // Purple
-  salinity: { name: '盐度', unit: '', color: '#ec4899' }, // Pink
-  magnesium: { name: '镁离子', unit: 'mg/L', color: '#14b8a6' }, // Teal
-  magnesium_ion: { name: '镁离子', unit: 'mg/L', color: '#14b8a6' },
-  potassium: { name: '钾离子', unit: 'mg/L', color: '#64748b' }, // Slate
-  potassium_ion: { name: '钾离子', unit: 'mg/L', color: '#64748b' },
-  pressure: { name: '气压', unit: 'hPa', color: '#06b6d4' }, // Cyan
-  air_pressure: { name: '气压', unit: 'hPa', color: '#06b6d4' },
-};
 
 /**
  * 趋势图组件 (TrendChart)
@@ -60,8 +43,9 @@ const PARAM_CONFIG: Record<string, { name: string; unit: string; color: string }
  *   2. 自动识别数据中包含的监测参数
  *   3. 为每个参数渲染一个独立的折线图
  *   4. 所有折线图通过 syncId 保持交互同步（Tooltip同步）
+ *   5. 传入 thresholds 时，按参数绘制阈值外的红色区域
  */
-const TrendChart: React.FC<TrendChartProps> = ({ data, loading, exportMode = false, exportWidthPx }) => {
+const TrendChart: React.FC<TrendChartProps> = ({ data, loading, exportMode = false, exportWidthPx, thresholds }) => {
   if (loading) {
     return <div className="h-full flex items-center justify-center text-gray-400">加载中...</div>;
   }
@@ -72,17 +56,15 @@ const TrendChart: React.FC<TrendChartProps> = ({ data, loading, exportMode = fal
 
   // 1. 数据预处理：提取时间戳和数值
   const processedData = data.map(item => {
-    const detail = item.detail || item;
-    const timeStr = detail.measured_at || detail.created_at || detail.operate_at || detail.feed_time;
+    const timeStr = getRecordTime(item);
     
     // 提取数值
-    const values: any = {};
-    Object.keys(detail).forEach(key => {
-      const val = parseFloat(detail[key]);
-      if (!isNaN(val) && PARAM_CONFIG[key]) {
-        // 如果值为0，视为无效数据（断点），根据需求：字段为零的记录无需绘制
-        values[key] = val === 0 ? null : val;
-      }
+    const values: Record<string, number | null> = {};
+    const readings = getNumericReadings(item);
+    Object.keys(readings).forEach(key => {
+      const val = readings[key];
+      // 如果值为0，视为无效数据（断点），根据需求：字段为零的记录无需绘制
+      values[key] = val === 0 ? null : val;
     });
 
     return {
@@ -188,6 +170,7 @@ const TrendChart: React.FC<TrendChartProps> = ({ data, loading, exportMode = fal
             yAxisWidth={yAxisWidth}
             exportMode={exportMode}
             exportWidthPx={exportWidthPx}
+            threshold={getThresholdFor(thresholds, key)}
           />
         );
       })}
@@ -211,9 +194,14 @@ interface SingleChartProps {
    * 作用：在导出模式下使用固定宽度渲染图表，确保横轴刻度间距与 PDF 页面一致
    */
   exportWidthPx?: number;
+  /**
+   * 阈值区间
+   * 作用：低于 min / 高于 max 的区域以红色带标出
+   */
+  threshold?: ThresholdRange;
 }
 
-const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain, yAxisWidth, exportMode = false, exportWidthPx }) => {
+const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain, yAxisWidth, exportMode = false, exportWidthPx, threshold }) => {
   const [hoverData, setHoverData] = React.useState<{ y: number, value: number } | null>(null);
   const containerRef = React.useRef<HTMLDivElement | null>(null);
   const [containerWidth, setContainerWidth] = React.useState<number>(0);
@@ -428,19 +416,40 @@ const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain
    *  - 强调态（hover/tooltip 激活）不在此处处理，由 activeDot 统一渲染为实心圆覆盖在空心圆之上
    */
   const renderDot = React.useCallback((props: any) => {
-    const { cx, cy } = props;
+    const { cx, cy, payload } = props;
     if (cx == null || cy == null) return null;
+    const breached = checkThreshold(threshold, Number(payload?.[dataKey])) !== null;
     return (
       <circle
         cx={cx}
         cy={cy}
-        r={3}
-        stroke={config.color}
+        r={breached ? 4 : 3}
+        stroke={breached ? '#dc2626' : config.color}
         strokeWidth={2}
-        fill="#ffffff"
+        fill={breached ? '#fecaca' : '#ffffff'}
       />
     );
-  }, [config.color]);
+  }, [config.color, threshold, dataKey]);
+
+  /**
+   * 阈值红色区域
+   * 作用：将低于下限、高于上限的纵向区间以浅红色带标出，超出当前坐标范围的部分自动裁剪
+   */
+  const thresholdBands = React.useMemo(() => {
+    if (!threshold) return null;
+    const bands: React.ReactNode[] = [];
+    if (threshold.max != null) {
+      bands.push(
+        <ReferenceArea key="threshold-high" y1={threshold.max} ifOverflow="hidden" fill="#ef4444" fillOpacity={0.08} stroke="#ef4444" strokeOpacity={0.35} strokeDasharray="4 4" />
+      );
+    }
+    if (threshold.min != null) {
+      bands.push(
+        <ReferenceArea key="threshold-low" y2={threshold.min} ifOverflow="hidden" fill="#ef4444" fillOpacity={0.08} stroke="#ef4444" strokeOpacity={0.35} strokeDasharray="4 4" />
+      );
+    }
+    return bands;
+  }, [threshold]);
 
   /**
    * 数据点强调态样式（hover）
@@ -474,6 +483,9 @@ const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain
        <div className="mb-2 ml-10 text-sm font-bold text-gray-700 flex items-center gap-2" data-trend-title-row="true">
           <span className="w-2 h-2 rounded-full" style={{ backgroundColor: config.color }}></span>
           {config.name}
+          {threshold && (
+            <span className="text-xs font-normal text-gray-400">安全范围 {formatThresholdRange(threshold, config.unit)}</span>
+          )}
        </div>
        
        {/* Custom Cursor Overlay */}
@@ -504,6 +516,7 @@ const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain
           margin={{ top: 5, right: 44, left: 0, bottom: 18 }}
         >
            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+           {thresholdBands}
            <XAxis 
               dataKey="time" 
               ticks={tickPlan.ticks}
@@ -557,6 +570,7 @@ const SingleChart: React.FC<SingleChartProps> = ({ config, data, dataKey, domain
             onTouchEnd={handleMouseLeave}
           >
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+            {thresholdBands}
             <XAxis 
               dataKey="time" 
               ticks={tickPlan.ticks}
@@ -0,0 +1,131 @@
+import React, { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string | number;
+  renderItem: (item: T) => React.ReactNode;
+  /** 滚动容器（网格位于其中，可与其他内容一起滚动） */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** 行高估计值（px），首行渲染后按实际高度修正 */
+  estimatedRowHeight: number;
+  /** 行列间距（px） */
+  gap?: number;
+  /** 视口上下额外渲染的行数 */
+  overscan?: number;
+}
+
+// 与 Tailwind md 断点一致：768px 以上两列
+const TWO_COLUMN_QUERY = '(min-width: 768px)';
+
+const useColumnCount = () => {
+  const [columns, setColumns] = useState(() => (window.matchMedia(TWO_COLUMN_QUERY).matches ? 2 : 1));
+  useEffect(() => {
+    const media = window.matchMedia(TWO_COLUMN_QUERY);
+    const update = () => setColumns(media.matches ? 2 : 1);
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, []);
+  return columns;
+};
+
+/**
+ * 虚拟滚动网格 (VirtualGrid)
+ * 作用：塘口数量很大时只渲染视口附近的卡片行，保持滚动流畅
+ * 输入：items、getKey、renderItem、scrollRef、estimatedRowHeight
+ * 输出：占满全部行高度的容器，仅包含可见行
+ * 逻辑：
+ *  1. 列数随断点变化（1 / 2 列），行高取已渲染行的最大实际高度，所有行统一行高
+ *  2. 根据网格在滚动容器中的位置与 scrollTop 计算可见行，滚动与尺寸变化时重新计算
+ */
+function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  scrollRef,
+  estimatedRowHeight,
+  gap = 24,
+  overscan = 2,
+}: VirtualGridProps<T>) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const columns = useColumnCount();
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const measuredRef = useRef(false);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  const rowCount = Math.ceil(items.length / columns);
+  const stride = rowHeight + gap;
+
+  const updateRange = useCallback(() => {
+    const scrollEl = scrollRef.current;
+    const gridEl = gridRef.current;
+    if (!scrollEl || !gridEl) return;
+    // 网格顶部相对滚动容器可视区顶部的距离（已滚过时为负）
+    const offset = gridEl.getBoundingClientRect().top - scrollEl.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(-offset / stride) - overscan);
+    const end = Math.min(rowCount, Math.ceil((scrollEl.clientHeight - offset) / stride) + overscan);
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) }));
+  }, [scrollRef, stride, rowCount, overscan]);
+
+  // 每次渲染后校准：同一滚动容器中前面的内容（如折叠的分组）变化也会改变网格位置
+  useLayoutEffect(() => {
+    updateRange();
+  });
+
+  useEffect(() => {
+    const scrollEl = scrollRef.current;
+    if (!scrollEl) return;
+    scrollEl.addEventListener('scroll', updateRange, { passive: true });
+    const observer = new ResizeObserver(updateRange);
+    observer.observe(scrollEl);
+    return () => {
+      scrollEl.removeEventListener('scroll', updateRange);
+      observer.disconnect();
+    };
+  }, [scrollRef, updateRange]);
+
+  // 以已渲染行的最大实际高度作为统一行高（卡片内容加载后高度可能变化）
+  useEffect(() => {
+    const rowsEl = rowsRef.current;
+    if (!rowsEl) return;
+    const measure = () => {
+      const heights = Array.from(rowsEl.children).map((row) => (row.firstElementChild as HTMLElement | null)?.offsetHeight || 0);
+      const measured = Math.max(0, ...heights);
+      if (measured <= 0) return;
+      // 首次测量直接替换估计值，之后只增不减，避免行高来回抖动
+      setRowHeight((prev) => (measuredRef.current ? Math.max(prev, measured) : measured));
+      measuredRef.current = true;
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    Array.from(rowsEl.children).forEach((row) => row.firstElementChild && observer.observe(row.firstElementChild));
+    return () => observer.disconnect();
+  }, [range, columns, items]);
+
+  const rows: T[][] = [];
+  for (let r = range.start; r < range.end; r++) {
+    rows.push(items.slice(r * columns, (r + 1) * columns));
+  }
+
+  return (
+    <div ref={gridRef} className="relative" style={{ height: rowCount > 0 ? rowCount * stride - gap : 0 }}>
+      <div ref={rowsRef}>
+        {rows.map((row, i) => (
+          <div
+            key={range.start + i}
+            className="absolute left-0 right-0"
+            style={{ top: (range.start + i) * stride, height: rowHeight }}
+          >
+            <div className="grid" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap }}>
+              {row.map((item) => (
+                <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualGrid;
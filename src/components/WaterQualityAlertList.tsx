@@ -0,0 +1,66 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { WaterQualityAlert } from '@/utils/waterQualityAlerts';
+
+interface WaterQualityAlertListProps {
+  alerts: WaterQualityAlert[];
+  loading?: boolean;
+  /** 最多展示条数，超出部分折叠为计数 */
+  maxItems?: number;
+}
+
+const formatAlertTime = (time: string) => {
+  const d = new Date(time);
+  if (Number.isNaN(d.getTime())) return '--';
+  return format(d, 'MM-dd HH:mm');
+};
+
+/**
+ * 水质告警列表 (WaterQualityAlertList)
+ * 作用：在塘口详情页展示所选时间范围内的水质越界记录
+ * 输入：alerts（evaluateWaterQualityRecords 的结果，按时间倒序）
+ * 输出：告警列表 UI；无告警时展示“水质正常”
+ */
+const WaterQualityAlertList: React.FC<WaterQualityAlertListProps> = ({ alerts, loading = false, maxItems = 8 }) => {
+  if (loading) {
+    return <div className="text-gray-400 text-sm">加载中...</div>;
+  }
+
+  if (!alerts || alerts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-emerald-600">
+        <CheckCircle2 size={16} />
+        <span>所选时间内水质正常</span>
+      </div>
+    );
+  }
+
+  const visible = alerts.slice(0, maxItems);
+  const hidden = alerts.length - visible.length;
+
+  return (
+    <div className="space-y-2">
+      {visible.map((alert) => (
+        <div key={alert.id} className="flex items-start gap-2 rounded-lg border border-red-100 bg-red-50/60 px-3 py-2">
+          <AlertTriangle size={14} className="text-red-500 mt-0.5 shrink-0" />
+          <div className="min-w-0 flex-1 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-bold text-gray-800">
+                {alert.name}{alert.level === 'high' ? '偏高' : '偏低'}
+              </span>
+              <span className="text-gray-400 shrink-0">{formatAlertTime(alert.time)}</span>
+            </div>
+            <div className="text-gray-600 mt-0.5">
+              实测 <span className="font-semibold text-red-600">{alert.value}{alert.unit}</span>
+              ，{alert.level === 'high' ? '上限' : '下限'} {alert.bound}{alert.unit}
+            </div>
+          </div>
+        </div>
+      ))}
+      {hidden > 0 && <div className="text-xs text-gray-400 text-center">另有 {hidden} 条告警</div>}
+    </div>
+  );
+};
+
+export default WaterQualityAlertList;
@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { splitTextBlocks } from '@/utils/reportSections';
+import { ReportBlock, ReportEmpty } from './ReportBlock';
+
+interface AiAnalysisSectionProps {
+  /** getAiAnalysisText 返回的文本 */
+  text: string;
+  /** 获取失败时的说明 */
+  error?: string;
+}
+
+/**
+ * AI 分析章节 (AiAnalysisSection)
+ * 作用：在报告中附上 AI 对时间范围内养殖情况的分析
+ * 输入：AI 分析文本（去除 Markdown 标记后按段落排版）
+ * 输出：按字数切分的分页块
+ */
+const AiAnalysisSection: React.FC<AiAnalysisSectionProps> = ({ text, error }) => {
+  // PDF 导出不渲染 Markdown，去掉标题/加粗等标记
+  const blocks = useMemo(
+    () => splitTextBlocks(text.replace(/^#+\s*/gm, '').replace(/\*\*(.+?)\*\*/g, '$1')),
+    [text]
+  );
+
+  if (blocks.length === 0) {
+    return (
+      <ReportBlock title="AI 分析">
+        <ReportEmpty text={error || 'AI 暂无分析内容'} />
+      </ReportBlock>
+    );
+  }
+
+  return (
+    <>
+      {blocks.map((paragraphs, i) => (
+        <ReportBlock key={i} title="AI 分析" continued={i > 0}>
+          <div className="space-y-1.5 text-[13px] leading-6 text-gray-800">
+            {paragraphs.map((p, j) => (
+              <p key={j}>{p}</p>
+            ))}
+          </div>
+        </ReportBlock>
+      ))}
+    </>
+  );
+};
+
+export default AiAnalysisSection;
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import type { TimelineRecord } from '@/services/timeline';
+import {
+  REPORT_ROWS_PER_BLOCK,
+  chunk,
+  formatReportMoney,
+  formatReportNumber,
+  summarizeInputs,
+} from '@/utils/reportSections';
+import { ReportBlock, ReportEmpty, ReportTable } from './ReportBlock';
+
+interface InputsSectionProps {
+  records: TimelineRecord[];
+}
+
+/**
+ * 投入品使用章节 (InputsSection)
+ * 作用：按投入品名称汇总使用次数、用量与费用
+ * 输入：时间范围内的全部记录（仅使用投入品记录）
+ * 输出：汇总表（按行数切分分页块），末行为费用合计
+ */
+const InputsSection: React.FC<InputsSectionProps> = ({ records }) => {
+  const summary = useMemo(() => summarizeInputs(records), [records]);
+
+  if (summary.length === 0) {
+    return (
+      <ReportBlock title="投入品使用">
+        <ReportEmpty text="所选时间范围内无投入品记录" />
+      </ReportBlock>
+    );
+  }
+
+  const totalCost = summary.reduce((sum, r) => sum + r.cost, 0);
+  const rows = [
+    ...summary.map((r) => [
+      r.name,
+      r.category || '-',
+      `${r.times}`,
+      Object.entries(r.dosage)
+        .map(([unit, value]) => `${formatReportNumber(value)}${unit}`)
+        .join('、') || '-',
+      formatReportMoney(r.cost),
+    ]),
+    [<b key="total">合计</b>, '', `${summary.reduce((sum, r) => sum + r.times, 0)}`, '', formatReportMoney(totalCost)],
+  ];
+
+  return (
+    <>
+      {chunk(rows, REPORT_ROWS_PER_BLOCK).map((part, i) => (
+        <ReportBlock key={i} title="投入品使用" continued={i > 0}>
+          <ReportTable
+            columns={['名称', '分类', '次数', '用量', '费用']}
+            widths={['26%', '22%', '10%', '24%', '18%']}
+            rows={part}
+            numericColumns={[2, 4]}
+          />
+        </ReportBlock>
+      ))}
+    </>
+  );
+};
+
+export default InputsSection;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import type { TimelineRecord } from '@/services/timeline';
+import {
+  REPORT_ROWS_PER_BLOCK,
+  chunk,
+  formatReportMoney,
+  formatReportNumber,
+  summarizeLosses,
+} from '@/utils/reportSections';
+import { ReportBlock, ReportEmpty, ReportTable } from './ReportBlock';
+
+interface LossSectionProps {
+  records: TimelineRecord[];
+}
+
+/**
+ * 损失分析章节 (LossSection)
+ * 作用：按品种汇总损失次数、数量、重量与金额，并列出损失原因分析
+ * 输入：时间范围内的全部记录（仅使用损失记录）
+ * 输出：汇总表 + 原因分析列表（按行数切分分页块）
+ */
+const LossSection: React.FC<LossSectionProps> = ({ records }) => {
+  const summary = useMemo(() => summarizeLosses(records), [records]);
+  const analyses = useMemo(
+    () =>
+      records
+        .filter((r) => r.kind === 'lossing')
+        .map((r) => {
+          const detail = r.detail as { species?: string; analysis?: string };
+          return { species: detail.species || '-', analysis: detail.analysis?.trim() || '' };
+        })
+        .filter((r) => r.analysis),
+    [records]
+  );
+
+  if (summary.length === 0) {
+    return (
+      <ReportBlock title="损失分析">
+        <ReportEmpty text="所选时间范围内无损失记录" />
+      </ReportBlock>
+    );
+  }
+
+  const total = summary.reduce(
+    (acc, r) => ({ times: acc.times + r.times, count: acc.count + r.count, weight: acc.weight + r.weight, amount: acc.amount + r.amount }),
+    { times: 0, count: 0, weight: 0, amount: 0 }
+  );
+  const rows = [
+    ...summary.map((r) => [
+      r.species,
+      `${r.times}`,
+      formatReportNumber(r.count, 0),
+      formatReportNumber(r.weight, 1),
+      formatReportMoney(r.amount),
+    ]),
+    [
+      <b key="total">合计</b>,
+      `${total.times}`,
+      formatReportNumber(total.count, 0),
+      formatReportNumber(total.weight, 1),
+      formatReportMoney(total.amount),
+    ],
+  ];
+
+  return (
+    <>
+      {chunk(rows, REPORT_ROWS_PER_BLOCK).map((part, i) => (
+        <ReportBlock key={`summary-${i}`} title="损失分析" continued={i > 0}>
+          <ReportTable
+            columns={['品种', '次数', '数量(尾)', '重量(斤)', '金额']}
+            rows={part}
+            numericColumns={[1, 2, 3, 4]}
+          />
+        </ReportBlock>
+      ))}
+      {chunk(analyses, REPORT_ROWS_PER_BLOCK).map((part, i) => (
+        <ReportBlock key={`analysis-${i}`} title="损失原因分析" continued={i > 0}>
+          <ReportTable columns={['品种', '分析']} widths={['20%', '80%']} rows={part.map((r) => [r.species, r.analysis])} />
+        </ReportBlock>
+      ))}
+    </>
+  );
+};
+
+export default LossSection;
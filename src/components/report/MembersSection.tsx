@@ -0,0 +1,44 @@
+import React from 'react';
+import type { GroupInfo } from '@/services/groups';
+import { GROUP_ROLE_NAMES, getMemberRole } from '@/utils/groupPermissions';
+import { REPORT_ROWS_PER_BLOCK, chunk } from '@/utils/reportSections';
+import { ReportBlock, ReportEmpty, ReportTable } from './ReportBlock';
+
+interface MembersSectionProps {
+  groupInfo?: GroupInfo | null;
+}
+
+/**
+ * 塘口成员章节 (MembersSection)
+ * 作用：列出塘口成员及其角色（创建者在前）
+ * 输入：塘口群组信息
+ * 输出：成员表（按行数切分分页块）
+ */
+const MembersSection: React.FC<MembersSectionProps> = ({ groupInfo }) => {
+  const members = Array.isArray(groupInfo?.user_ids) ? groupInfo!.user_ids : [];
+  if (members.length === 0) {
+    return (
+      <ReportBlock title="塘口成员">
+        <ReportEmpty text="暂无成员信息" />
+      </ReportBlock>
+    );
+  }
+
+  const order = { owner: 0, admin: 1, viewer: 2 };
+  const rows = members
+    .map((m) => ({ member: m, role: getMemberRole(m, groupInfo!.group_owner_id) }))
+    .sort((a, b) => order[a.role] - order[b.role])
+    .map(({ member, role }, i) => [`${i + 1}`, String(member.nickname || '').trim() || '-', GROUP_ROLE_NAMES[role]]);
+
+  return (
+    <>
+      {chunk(rows, REPORT_ROWS_PER_BLOCK).map((part, i) => (
+        <ReportBlock key={i} title={`塘口成员（${members.length} 人）`} continued={i > 0}>
+          <ReportTable columns={['序号', '昵称', '角色']} widths={['12%', '58%', '30%']} rows={part} />
+        </ReportBlock>
+      ))}
+    </>
+  );
+};
+
+export default MembersSection;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { GroupInfo } from '@/services/groups';
+import type { TimelineRecord } from '@/services/timeline';
+import type { ThresholdProfile } from '@/utils/waterQualityAlerts';
+import type { ReportSectionKey } from '@/utils/reportSections';
+import SummarySection from './SummarySection';
+import TrendSection from './TrendSection';
+import TimelineSection from './TimelineSection';
+import LossSection from './LossSection';
+import InputsSection from './InputsSection';
+import AiAnalysisSection from './AiAnalysisSection';
+import MembersSection from './MembersSection';
+
+export interface PondReportData {
+  /** 时间范围内的全部记录（关键指标、养殖记录、损失、投入品使用） */
+  records: TimelineRecord[];
+  /** 水质与投喂记录（趋势图） */
+  trendRecords: TimelineRecord[];
+  aiText: string;
+  aiError?: string;
+  groupInfo?: GroupInfo | null;
+}
+
+interface PondReportProps {
+  /** 已选章节，按 REPORT_SECTIONS 顺序渲染 */
+  sections: ReportSectionKey[];
+  data: PondReportData;
+  thresholds?: ThresholdProfile;
+  /** 导出页面宽度（px） */
+  widthPx: number;
+}
+
+/**
+ * 塘口报告正文 (PondReport)
+ * 作用：按所选章节组合报告内容，供 buildPondReportPdf 离屏渲染后分页导出
+ * 输出：一组分页块（data-report-item / data-trend-export-item），页眉由导出逻辑另行添加
+ */
+const PondReport: React.FC<PondReportProps> = ({ sections, data, thresholds, widthPx }) => {
+  const has = (key: ReportSectionKey) => sections.includes(key);
+  return (
+    <div className="flex flex-col gap-2.5 bg-white" style={{ width: `${widthPx}px` }}>
+      {has('summary') && <SummarySection records={data.records} />}
+      {has('trend') && <TrendSection records={data.trendRecords} thresholds={thresholds} widthPx={widthPx} />}
+      {has('timeline') && <TimelineSection records={data.records} />}
+      {has('loss') && <LossSection records={data.records} />}
+      {has('inputs') && <InputsSection records={data.records} />}
+      {has('ai') && <AiAnalysisSection text={data.aiText} error={data.aiError} />}
+      {has('members') && <MembersSection groupInfo={data.groupInfo} />}
+    </div>
+  );
+};
+
+export default PondReport;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface ReportBlockProps {
+  title: string;
+  /** 同一章节的后续分块，标题追加“（续）” */
+  continued?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * 报告分块 (ReportBlock)
+ * 作用：报告中的最小分页单元，带章节标题；导出时按 data-report-item 收集并分页
+ */
+export const ReportBlock: React.FC<ReportBlockProps> = ({ title, continued, className, children }) => (
+  <div data-report-item="true" className={cn('bg-white px-1 pt-1', className)}>
+    <div className="mb-2 border-l-4 border-blue-600 pl-2 text-base font-extrabold text-gray-900">
+      {title}
+      {continued && <span className="ml-1 text-sm font-semibold text-gray-400">（续）</span>}
+    </div>
+    {children}
+  </div>
+);
+
+interface ReportTableProps {
+  columns: string[];
+  rows: React.ReactNode[][];
+  /** 各列宽度（如 '18%'），缺省平均分配 */
+  widths?: string[];
+  /** 右对齐的列序号（数值列） */
+  numericColumns?: number[];
+}
+
+/** 报告表格：固定布局、细边框，适合 PDF 导出 */
+export const ReportTable: React.FC<ReportTableProps> = ({ columns, rows, widths, numericColumns = [] }) => (
+  <table className="w-full table-fixed border-collapse text-[13px] text-gray-900">
+    <thead>
+      <tr>
+        {columns.map((c, i) => (
+          <th
+            key={c}
+            style={widths?.[i] ? { width: widths[i] } : undefined}
+            className={cn(
+              'border border-gray-300 bg-gray-50 px-2 py-1.5 font-bold text-gray-700',
+              numericColumns.includes(i) ? 'text-right' : 'text-left'
+            )}
+          >
+            {c}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row, r) => (
+        <tr key={r}>
+          {row.map((cell, i) => (
+            <td
+              key={i}
+              className={cn(
+                'border border-gray-300 px-2 py-1.5 align-top break-all',
+                numericColumns.includes(i) && 'text-right'
+              )}
+            >
+              {cell ?? '-'}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/** 章节无数据时的占位 */
+export const ReportEmpty: React.FC<{ text?: string }> = ({ text = '所选时间范围内暂无相关记录' }) => (
+  <div className="rounded border border-dashed border-gray-300 py-4 text-center text-sm text-gray-400">{text}</div>
+);
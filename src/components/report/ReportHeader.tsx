@@ -0,0 +1,106 @@
+import React from 'react';
+import { format } from 'date-fns';
+import type { DateRangeValue } from '@/utils/productionCycles';
+import type { ReportPond } from '@/utils/reportSections';
+
+interface ReportHeaderProps {
+  pond: ReportPond | null;
+  range: DateRangeValue;
+  reportNo: string;
+  pageIndex: number;
+  totalPages: number;
+  /** 导出时间（同一份报告各页保持一致） */
+  exportedAt: Date;
+  /** 数据指纹（SHA-256） */
+  digest: string;
+  /** 验证链接二维码（data URL） */
+  qrDataUrl: string;
+}
+
+/**
+ * 报告页眉 (ReportHeader)
+ * 作用：每页顶部的品牌、时间范围、报告编号、页码与验证二维码；首页额外展示数据指纹与塘口基本信息
+ * 输入：塘口信息、时间范围、报告编号与页码、数据指纹与二维码
+ * 输出：页眉节点（由 buildPondReportPdf 静态渲染后交给 headerBuilder）
+ */
+const ReportHeader: React.FC<ReportHeaderProps> = ({
+  pond,
+  range,
+  reportNo,
+  pageIndex,
+  totalPages,
+  exportedAt,
+  digest,
+  qrDataUrl,
+}) => {
+  const startText = range?.startDate ? format(range.startDate, 'yyyy-MM-dd') : '--';
+  const endText = range?.endDate ? format(range.endDate, 'yyyy-MM-dd') : '--';
+  const locationText = `${pond?.province || ''}${pond?.city || ''}${pond?.district || ''}` || '-';
+  const members = Array.isArray(pond?.groupInfo?.user_ids) ? pond.groupInfo!.user_ids : [];
+  const memberText =
+    members
+      .map((u) => String(u?.nickname || '').trim())
+      .filter(Boolean)
+      .join('、') || '-';
+
+  const infoRows: [string, string, string, string][] = [
+    ['塘口名称', pond?.name || '-', '塘口成员', memberText],
+    ['养殖品种', pond?.breed_species || '-', '养殖方式', pond?.breed_type || '-'],
+    ['地理位置', locationText, '养殖面积', pond?.breed_area != null ? `${pond.breed_area}亩` : '-'],
+    ['最大水深', pond?.max_depth != null ? `${pond.max_depth}米` : '-', '导出时间', format(exportedAt, 'yyyy-MM-dd HH:mm')],
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 border-b border-gray-200 bg-white px-4 pb-2.5 pt-3.5">
+      <div className="flex items-center justify-between gap-2.5">
+        <div className="flex items-center gap-2.5">
+          <div className="flex h-10 w-10 items-center justify-center rounded-[10px] bg-blue-600">
+            <img src="/favicon.svg" alt="logo" className="block h-6 w-6" />
+          </div>
+          <img src="/tangqianyan-text.svg" alt="塘前燕" className="block h-[22px]" />
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex flex-col items-end gap-0.5 text-[13px] text-gray-700">
+            <div className="font-semibold">
+              {startText} ~ {endText}
+            </div>
+            <div>
+              报告编号：{reportNo}  |  第{pageIndex + 1}/{totalPages}页
+            </div>
+            <div className="text-[11px] text-gray-400">扫码验证报告真伪</div>
+          </div>
+          {qrDataUrl && <img src={qrDataUrl} alt="验证二维码" className="block h-14 w-14" />}
+        </div>
+      </div>
+      <div className="mt-0.5 text-center text-[32px] font-extrabold text-gray-900">智能养殖报告</div>
+      {pageIndex === 0 && (
+        <>
+          <div className="text-center font-mono text-[11px] text-gray-500">数据指纹（SHA-256）：{digest}</div>
+          <div className="mt-1 text-base font-extrabold text-gray-900">基本信息</div>
+          <table className="w-full table-fixed border-collapse text-sm text-gray-900">
+            <tbody>
+              {infoRows.map((row) => (
+                <tr key={row[0]}>
+                  {row.map((text, i) => (
+                    <td
+                      key={i}
+                      className={
+                        i % 2 === 0
+                          ? 'w-[14%] border border-gray-300 bg-gray-50 px-3 py-[9px] align-middle font-bold text-gray-700'
+                          : 'w-[36%] break-all border border-gray-300 px-3 py-[9px] align-middle font-semibold'
+                      }
+                    >
+                      {text || '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportHeader;
@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import type { TimelineRecord } from '@/services/timeline';
+import { computePondAnalytics } from '@/utils/pondAnalytics';
+import { buildLedger } from '@/utils/ledger';
+import { formatReportMoney, formatReportNumber } from '@/utils/reportSections';
+import { ReportBlock } from './ReportBlock';
+
+interface SummarySectionProps {
+  records: TimelineRecord[];
+}
+
+/**
+ * 关键指标章节 (SummarySection)
+ * 作用：汇总时间范围内的投喂、存塘、成活率、饵料系数与收支
+ * 输入：时间范围内的全部记录
+ * 输出：指标卡片网格（单个分页块）
+ * 逻辑：指标口径与养殖分析面板 (computePondAnalytics)、财务台账 (buildLedger) 一致
+ */
+const SummarySection: React.FC<SummarySectionProps> = ({ records }) => {
+  const { analytics, ledger } = useMemo(
+    () => ({ analytics: computePondAnalytics(records), ledger: buildLedger(records) }),
+    [records]
+  );
+
+  const kpis = [
+    { label: '记录条数', value: `${records.length}`, unit: '条' },
+    { label: '投喂总量', value: formatReportNumber(analytics.totalFeed, 1), unit: '斤' },
+    { label: '投苗数量', value: formatReportNumber(analytics.seedCount, 0), unit: '尾' },
+    { label: '估算存塘', value: formatReportNumber(analytics.estimatedStock, 0), unit: '尾' },
+    {
+      label: '成活率',
+      value: analytics.survivalRate === null ? '--' : `${(analytics.survivalRate * 100).toFixed(1)}`,
+      unit: '%',
+    },
+    { label: '饵料系数', value: formatReportNumber(analytics.fcr), unit: '' },
+    { label: '损失数量', value: formatReportNumber(analytics.lossCount, 0), unit: '尾' },
+    { label: '出塘重量', value: formatReportNumber(analytics.harvestWeight, 1), unit: '斤' },
+    { label: '总成本', value: formatReportMoney(ledger.totalCost), unit: '' },
+    { label: '总收入', value: formatReportMoney(ledger.totalIncome), unit: '' },
+    { label: '毛利', value: formatReportMoney(ledger.margin), unit: '' },
+    {
+      label: '每斤成本',
+      value: ledger.costPerJin === null ? '--' : `¥${ledger.costPerJin.toFixed(2)}`,
+      unit: '',
+    },
+  ];
+
+  return (
+    <ReportBlock title="关键指标">
+      <div className="grid grid-cols-4 gap-2">
+        {kpis.map((k) => (
+          <div key={k.label} className="rounded-lg border border-gray-200 bg-gray-50 px-3 py-2">
+            <div className="text-xs text-gray-500">{k.label}</div>
+            <div className="mt-0.5 text-lg font-bold text-gray-900">
+              {k.value}
+              {k.unit && k.value !== '--' && <span className="ml-0.5 text-xs font-normal text-gray-500">{k.unit}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </ReportBlock>
+  );
+};
+
+export default SummarySection;
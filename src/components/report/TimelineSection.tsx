@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { getFullDisplayItems, getRecordTime, getRecordTypeChineseName } from '@/utils/recordUtils';
+import { REPORT_ROWS_PER_BLOCK, chunk, sortByRecordTime } from '@/utils/reportSections';
+import { ReportBlock, ReportEmpty, ReportTable } from './ReportBlock';
+
+interface TimelineSectionProps {
+  records: TimelineRecord[];
+}
+
+const formatTime = (record: TimelineRecord) => {
+  const raw = getRecordTime(record);
+  const d = new Date(raw.replace(/-/g, '/'));
+  return Number.isNaN(d.getTime()) ? raw || '--' : format(d, 'yyyy-MM-dd HH:mm');
+};
+
+/**
+ * 养殖记录章节 (TimelineSection)
+ * 作用：按时间顺序列出时间范围内的全部养殖记录
+ * 输入：时间范围内的全部记录
+ * 输出：记录明细表，按 REPORT_ROWS_PER_BLOCK 行切分为多个分页块
+ */
+const TimelineSection: React.FC<TimelineSectionProps> = ({ records }) => {
+  const rows = useMemo(
+    () =>
+      sortByRecordTime(records).map((record) => [
+        formatTime(record),
+        getRecordTypeChineseName(record.type || record.kind),
+        getFullDisplayItems(record)
+          .map((item) => `${item.label}：${item.value}`)
+          .join('；') || '-',
+      ]),
+    [records]
+  );
+
+  if (rows.length === 0) {
+    return (
+      <ReportBlock title="养殖记录">
+        <ReportEmpty />
+      </ReportBlock>
+    );
+  }
+
+  return (
+    <>
+      {chunk(rows, REPORT_ROWS_PER_BLOCK).map((part, i) => (
+        <ReportBlock key={i} title={`养殖记录（共 ${rows.length} 条）`} continued={i > 0}>
+          <ReportTable columns={['时间', '类型', '内容']} widths={['20%', '14%', '66%']} rows={part} />
+        </ReportBlock>
+      ))}
+    </>
+  );
+};
+
+export default TimelineSection;
@@ -0,0 +1,23 @@
+import React from 'react';
+import TrendChart from '@/components/TrendChart';
+import type { TimelineRecord } from '@/services/timeline';
+import type { ThresholdProfile } from '@/utils/waterQualityAlerts';
+
+interface TrendSectionProps {
+  /** 水质与投喂记录 */
+  records: TimelineRecord[];
+  thresholds?: ThresholdProfile;
+  /** 导出页面宽度（px），图表按此宽度重新规划横轴刻度 */
+  widthPx: number;
+}
+
+/**
+ * 趋势图章节 (TrendSection)
+ * 作用：以导出模式渲染水质/投喂趋势图
+ * 输出：每张图表自带 data-trend-export-item 标记，作为独立分页块
+ */
+const TrendSection: React.FC<TrendSectionProps> = ({ records, thresholds, widthPx }) => (
+  <TrendChart data={records} loading={false} exportMode exportWidthPx={widthPx} thresholds={thresholds} />
+);
+
+export default TrendSection;
@@ -21,3 +21,60 @@ export const DEFAULT_ASSETS = {
   POND_AVATAR: 'https://r3v334-yangyu.oss-cn-beijing.aliyuncs.com/uploads/2025/10/23/67d63325-1357-454e-b336-c317947d6642.jpg',
   USER_AVATAR: '/nopic.svg'
 };
+
+// ================= PDF 导出配置 =================
+// 矢量 PDF 内嵌的中文字体（TrueType .ttf，需自行放在 public/fonts 下，仓库不附带）；
+// 字体不可用时报告导出会提示错误，可改用截图方式生成
+export const PDF_FONT = {
+  URL: '/fonts/NotoSansSC-Regular.ttf',
+  FAMILY: 'NotoSansSC'
+};
+
+// ================= 地图配置 =================
+// 底图瓦片地址（{z}/{x}/{y} 模板），默认读取本地部署的瓦片目录 public/tiles；
+// 置空或瓦片无法加载时使用离线经纬网底图，塘口标记不受影响
+export const MAP_CONFIG = {
+  TILE_URL: '/tiles/{z}/{x}/{y}.png',
+  TILE_ATTRIBUTION: '',
+  MIN_ZOOM: 3,
+  MAX_ZOOM: 18,
+  DEFAULT_CENTER: [30.6, 114.3] as [number, number],
+  DEFAULT_ZOOM: 5
+};
+
+// ================= 分页加载配置 =================
+// 塘口、群组列表按页拉取直到取完；同时在途的请求数不超过 CONCURRENCY
+// 单页（或单个塘口详情）失败时重试 RETRIES 次，仍失败则整个列表本次不更新，沿用缓存
+export const PAGINATION_CONFIG = {
+  POND_PAGE_SIZE: 100,
+  GROUP_PAGE_SIZE: 50,
+  CONCURRENCY: 4,
+  RETRIES: 2,
+  RETRY_DELAY_MS: 500
+};
+
+// ================= 请求调度配置 =================
+// 首页等列表页逐塘口加载水质预览时，同时在途的请求数上限（视口内的卡片优先）
+export const REQUEST_SCHEDULER_CONFIG = {
+  CONCURRENCY: 6
+};
+
+// ================= 实时推送配置 =================
+// 新增/修改/删除记录的实时推送：TRANSPORT 为 'sse'（EventSource）或 'websocket'；
+// URL 可为相对路径（同源，websocket 自动换成 ws/wss 协议）。
+// 令牌不放在 URL 中：SSE 先用 TICKET_URL（经 api 实例携带 Authorization）换取一次性短期票据，
+// WebSocket 建立后在第一条消息中发送 { type: 'auth', token }。
+// 后端尚未提供推送接口，默认关闭；本地调试可运行 npm run mock:realtime，将 ENABLED 改为 true，
+// URL 改为 http://localhost:8787/realtime/records，TICKET_URL 改为 http://localhost:8787/realtime/ticket
+export const REALTIME_CONFIG = {
+  ENABLED: false,
+  TRANSPORT: 'sse' as 'sse' | 'websocket',
+  URL: '/api/v1/realtime/records',
+  // 相对路径基于 API_BASE_URL
+  TICKET_URL: '/realtime/ticket',
+  // 断线重连：指数退避的起始与最大间隔（毫秒）
+  RECONNECT_MIN_MS: 1000,
+  RECONNECT_MAX_MS: 30000,
+  // 连接建立后收到首条消息或稳定保持该时长才重置退避，避免鉴权被拒后反复快速重连
+  STABLE_AFTER_MS: 10000
+};
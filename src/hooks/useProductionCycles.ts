@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useState } from 'react';
+import { endOfDay, format } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { useCycleStore } from '@/store/useCycleStore';
+import { loadTimelineRange } from '@/utils/timelineCache';
+import { CYCLE_RECORD_TYPES, applyCycleOverrides, inferProductionCycles } from '@/utils/productionCycles';
+
+// 与数据导出的全量时间范围一致
+const ALL_START = '1999-01-01 00:00:00';
+
+/**
+ * 获取塘口的养殖周期
+ * 输入：塘口 ID（为空时返回空列表）、reloadKey（投苗/出塘记录变更后递增）
+ * 输出：{ cycles, loading }，用户调整周期后自动更新
+ * 逻辑：拉取全部投苗/出塘/损失记录推断周期 (inferProductionCycles)，再合并用户调整
+ */
+export function useProductionCycles(pondId?: number | string | null, reloadKey = 0) {
+  const [records, setRecords] = useState<TimelineRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const pondOverrides = useCycleStore((s) => (pondId ? s.overrides[pondId] : undefined));
+
+  useEffect(() => {
+    if (!pondId) {
+      setRecords([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    loadTimelineRange(
+      {
+        pond_id: Number(pondId),
+        start_time: ALL_START,
+        end_time: format(endOfDay(new Date()), 'yyyy-MM-dd HH:mm:ss'),
+        type: CYCLE_RECORD_TYPES,
+      },
+      {
+        onRevalidate: (latest) => {
+          if (!cancelled) setRecords(latest);
+        },
+      }
+    )
+      .then((data) => {
+        if (!cancelled) setRecords(data);
+      })
+      .catch((err) => {
+        console.warn('Failed to load production cycles:', err);
+        if (!cancelled) setRecords([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pondId, reloadKey]);
+
+  const cycles = useMemo(
+    () => (pondId ? applyCycleOverrides(inferProductionCycles(Number(pondId), records), pondOverrides) : []),
+    [pondId, records, pondOverrides]
+  );
+
+  return { cycles, loading };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { REALTIME_CONFIG } from '@/config';
+import { RecordEvent, subscribeRecordEvents } from '@/services/realtime';
+import { invalidatePondTimeline } from '@/utils/timelineCache';
+
+/**
+ * 订阅记录实时推送
+ * 输入：塘口 ID 列表（null 表示全部塘口，空列表不订阅）、事件回调
+ * 输出：无
+ * 逻辑：
+ *  1. 塘口列表内容变化时重新订阅；回调保存在 ref 中，每次渲染更新不会导致重连
+ *  2. 收到事件先使该塘口的时间线缓存失效，之后的加载会取到最新数据，再交给回调合并到页面状态
+ */
+export function useRecordEvents(pondIds: (number | string)[] | null, handler: (event: RecordEvent) => void) {
+  const handlerRef = useRef(handler);
+  const key = pondIds ? pondIds.map(Number).filter(Number.isFinite).sort((a, b) => a - b).join(',') : '*';
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!REALTIME_CONFIG.ENABLED || key === '') return;
+    const ids = key === '*' ? null : key.split(',').map(Number);
+    return subscribeRecordEvents(ids, (event) => {
+      invalidatePondTimeline(event.pondId);
+      handlerRef.current(event);
+    });
+  }, [key]);
+}
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { useThresholdStore } from '@/store/useThresholdStore';
+import { resolveProfileName, resolveThresholdProfile } from '@/utils/waterQualityAlerts';
+
+/**
+ * 获取塘口对应的水质阈值档
+ * 输入：塘口养殖品种 (breed_species)
+ * 输出：{ profileName, profile }，用户修改阈值后自动更新
+ */
+export function useThresholdProfile(species?: string | null) {
+  const overrides = useThresholdStore((s) => s.overrides);
+  const profileName = resolveProfileName(species);
+  const profile = useMemo(() => resolveThresholdProfile(profileName, overrides), [profileName, overrides]);
+  return { profileName, profile };
+}
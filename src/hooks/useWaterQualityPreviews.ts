@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TimelineRecord } from '@/services/timeline';
+import { REQUEST_SCHEDULER_CONFIG } from '@/config';
+import { REQUEST_PRIORITY, RequestCancelledError, createRequestScheduler } from '@/utils/requestScheduler';
+
+/** 获取单个塘口的水质预览；onRevalidate 在先返回过期缓存、后台刷新完成后回调 */
+export type WaterQualityPreviewFetcher = (
+  pondId: number,
+  onRevalidate: (records: TimelineRecord[]) => void
+) => Promise<TimelineRecord[]>;
+
+// 视口外预留的距离：卡片即将滚入时提前提升优先级
+const VISIBLE_ROOT_MARGIN = '200px 0px';
+
+const getPreviewErrorMessage = (e: unknown) => {
+  const status = (e as { response?: { status?: number } })?.response?.status;
+  return status ? `水质数据加载失败（HTTP ${status}）` : '水质数据加载失败';
+};
+
+/**
+ * 塘口卡片的水质预览数据
+ * 输入：fetcher（按塘口获取记录，通常带缓存）
+ * 输出：{ data, errors, isLoading, load, retry, observe, update }
+ * 逻辑：
+ *  1. load 将塘口加入请求调度器排队，限制并发 (REQUEST_SCHEDULER_CONFIG)，每个塘口返回后立即写入 data
+ *  2. observe(pondId) 返回卡片的 ref 回调，卡片进入视口时提升优先级，离开后恢复
+ *  3. 单个塘口失败时记录到 errors，由卡片展示错误与重试；组件卸载时取消排队中的请求
+ *  4. update(pondId, updater) 就地修改已加载的预览数据（如合并实时推送的记录），未加载的塘口不处理
+ */
+export function useWaterQualityPreviews(fetcher: WaterQualityPreviewFetcher) {
+  const [data, setData] = useState<Record<number, TimelineRecord[]>>({});
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [pendingIds, setPendingIds] = useState<Set<number>>(() => new Set());
+  const [scheduler] = useState(() => createRequestScheduler<number>(REQUEST_SCHEDULER_CONFIG.CONCURRENCY));
+  const fetcherRef = useRef(fetcher);
+  const mountedRef = useRef(true);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const elementsRef = useRef(new Map<Element, number>());
+  const refCallbacksRef = useRef(new Map<number, (el: HTMLElement | null) => void>());
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const pondId = elementsRef.current.get(entry.target);
+          if (pondId === undefined) return;
+          scheduler.setPriority(pondId, entry.isIntersecting ? REQUEST_PRIORITY.VISIBLE : REQUEST_PRIORITY.NORMAL);
+        });
+      },
+      { rootMargin: VISIBLE_ROOT_MARGIN }
+    );
+    observerRef.current = observer;
+    // ref 回调先于 effect 执行，补上已挂载的卡片
+    elementsRef.current.forEach((_, el) => observer.observe(el));
+    return () => {
+      mountedRef.current = false;
+      observer.disconnect();
+      observerRef.current = null;
+      scheduler.clear();
+    };
+  }, [scheduler]);
+
+  const load = useCallback(
+    (pondIds: number[]) => {
+      if (pondIds.length === 0) return;
+      setPendingIds((prev) => new Set([...prev, ...pondIds]));
+      setErrors((prev) => {
+        const next = { ...prev };
+        pondIds.forEach((id) => delete next[id]);
+        return next;
+      });
+
+      pondIds.forEach((pondId) => {
+        const apply = (records: TimelineRecord[]) => {
+          if (mountedRef.current) setData((prev) => ({ ...prev, [pondId]: records }));
+        };
+        scheduler
+          .schedule(pondId, () => fetcherRef.current(pondId, apply))
+          .then(apply)
+          .catch((e) => {
+            if (!mountedRef.current || e instanceof RequestCancelledError) return;
+            console.warn(`Failed to fetch water quality for pond ${pondId}`, e);
+            setErrors((prev) => ({ ...prev, [pondId]: getPreviewErrorMessage(e) }));
+          })
+          .finally(() => {
+            if (!mountedRef.current) return;
+            setPendingIds((prev) => {
+              const next = new Set(prev);
+              next.delete(pondId);
+              return next;
+            });
+          });
+      });
+    },
+    [scheduler]
+  );
+
+  const retry = useCallback((pondId: number) => load([pondId]), [load]);
+
+  const observe = useCallback(
+    (pondId: number) => {
+      const existing = refCallbacksRef.current.get(pondId);
+      if (existing) return existing;
+      let current: HTMLElement | null = null;
+      const callback = (el: HTMLElement | null) => {
+        if (current) {
+          observerRef.current?.unobserve(current);
+          elementsRef.current.delete(current);
+          scheduler.setPriority(pondId, REQUEST_PRIORITY.NORMAL);
+        }
+        current = el;
+        if (el) {
+          elementsRef.current.set(el, pondId);
+          observerRef.current?.observe(el);
+        }
+      };
+      refCallbacksRef.current.set(pondId, callback);
+      return callback;
+    },
+    [scheduler]
+  );
+
+  const update = useCallback((pondId: number, updater: (records: TimelineRecord[]) => TimelineRecord[]) => {
+    setData((prev) => {
+      const current = prev[pondId];
+      if (!current) return prev;
+      const next = updater(current);
+      return next === current ? prev : { ...prev, [pondId]: next };
+    });
+  }, []);
+
+  const isLoading = useCallback((pondId: number) => pendingIds.has(pondId) && !data[pondId], [pendingIds, data]);
+
+  return { data, errors, isLoading, load, retry, observe, update };
+}
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { Check, Loader2 } from 'lucide-react';
+import { Pond } from '@/services/ponds';
+import { TimelineRecord } from '@/services/timeline';
+import CustomDatePicker from '@/components/CustomDatePicker';
+import { fetchDisplayPonds } from '@/utils/pondLoader';
+import { loadTimelineRange } from '@/utils/timelineCache';
+import {
+  COMPARE_PARAMS,
+  buildComparisonRows,
+  getCompareColor,
+  pondSeriesKey,
+  summarizeComparison,
+} from '@/utils/pondComparison';
+import { cn } from '@/lib/utils';
+
+// 同屏曲线过多时难以辨认
+const MAX_COMPARE_PONDS = 8;
+
+const formatValue = (value: number, unit: string) => {
+  const n = Number(value.toFixed(3));
+  return unit ? `${n}${unit}` : `${n}`;
+};
+
+/**
+ * 多塘口对比页面 (Compare)
+ * 作用：在同一时间轴上叠加多个塘口的同一参数（如溶氧、氨氮），便于横向比较
+ * 输入：无 (自动获取用户塘口数据)
+ * 输出：塘口选择列表、参数选择、对比折线图与统计表
+ * 逻辑：
+ *  1. 通过 fetchDisplayPonds 获取塘口列表，默认选中前 3 个
+ *  2. 按选中的塘口与时间范围并发获取记录（投料量取投料记录，其余取水质记录）
+ *  3. 按时间戳合并为对比数据 (buildComparisonRows)，参数名称、单位取自 PARAM_CONFIG
+ */
+const Compare = () => {
+  const [ponds, setPonds] = useState<Pond[]>([]);
+  const [pondLoading, setPondLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [paramKey, setParamKey] = useState('oxygen');
+  const [dateRange, setDateRange] = useState({
+    startDate: startOfDay(subDays(new Date(), 6)),
+    endDate: endOfDay(new Date()),
+  });
+  const [recordsByPond, setRecordsByPond] = useState<Record<number, TimelineRecord[]>>({});
+  const [dataLoading, setDataLoading] = useState(false);
+
+  const param = useMemo(() => COMPARE_PARAMS.find((p) => p.key === paramKey) || COMPARE_PARAMS[0], [paramKey]);
+  const isFeed = param.key === 'weight';
+
+  useEffect(() => {
+    const run = async () => {
+      setPondLoading(true);
+      try {
+        const list = await fetchDisplayPonds({ onRevalidate: setPonds });
+        setPonds(list);
+        setSelectedIds((prev) => (prev.length > 0 ? prev : list.slice(0, 3).map((p) => p.id)));
+      } finally {
+        setPondLoading(false);
+      }
+    };
+    run();
+  }, []);
+
+  useEffect(() => {
+    if (selectedIds.length === 0) {
+      setRecordsByPond({});
+      return;
+    }
+    let cancelled = false;
+
+    const run = async () => {
+      setDataLoading(true);
+      const commonParams = {
+        start_time: format(dateRange.startDate, 'yyyy-MM-dd HH:mm:ss'),
+        end_time: format(dateRange.endDate, 'yyyy-MM-dd HH:mm:ss'),
+      };
+      // 缓存键与塘口详情页趋势图一致，可复用其缓存
+      const type = isFeed ? ['feed_data'] : ['waterquality_data'];
+      const tasks = selectedIds.map((pondId) =>
+        loadTimelineRange({ ...commonParams, pond_id: pondId, type })
+          .then((data) => ({ pondId, data }))
+          .catch((err) => {
+            console.warn(`Failed to fetch compare data for pond ${pondId}`, err);
+            return { pondId, data: [] as TimelineRecord[] };
+          })
+      );
+      const results = await Promise.all(tasks);
+      if (cancelled) return;
+      const next: Record<number, TimelineRecord[]> = {};
+      results.forEach(({ pondId, data }) => {
+        next[pondId] = data;
+      });
+      setRecordsByPond(next);
+      setDataLoading(false);
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds, dateRange, isFeed]);
+
+  const rows = useMemo(() => buildComparisonRows(recordsByPond, param), [recordsByPond, param]);
+  const summary = useMemo(() => summarizeComparison(rows, selectedIds), [rows, selectedIds]);
+  const selectedPonds = useMemo(
+    () => selectedIds.map((id) => ponds.find((p) => p.id === id)).filter(Boolean) as Pond[],
+    [ponds, selectedIds]
+  );
+
+  const togglePond = (id: number) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((x) => x !== id);
+      if (prev.length >= MAX_COMPARE_PONDS) return prev;
+      return [...prev, id];
+    });
+  };
+
+  // 颜色按选中顺序分配，取消选中后其余塘口颜色不变
+  const colorOf = (id: number) => getCompareColor(Math.max(0, selectedIds.indexOf(id)));
+
+  return (
+    <div className="flex h-full bg-transparent overflow-hidden gap-4">
+      <div className="w-64 shrink-0 bg-white rounded-md shadow-sm overflow-hidden flex flex-col">
+        <div className="px-5 py-4 border-b border-gray-100">
+          <h1 className="text-lg font-bold text-gray-900">选择塘口</h1>
+          <p className="text-xs text-gray-500 mt-1">
+            已选 {selectedIds.length} / {MAX_COMPARE_PONDS}
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {pondLoading && ponds.length === 0 ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="animate-spin text-blue-500 w-6 h-6" />
+            </div>
+          ) : (
+            ponds.map((pond) => {
+              const checked = selectedIds.includes(pond.id);
+              const disabled = !checked && selectedIds.length >= MAX_COMPARE_PONDS;
+              return (
+                <button
+                  key={pond.id}
+                  type="button"
+                  onClick={() => togglePond(pond.id)}
+                  disabled={disabled}
+                  className={cn(
+                    'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors',
+                    checked ? 'bg-blue-50 text-gray-900' : 'text-gray-600 hover:bg-gray-50',
+                    disabled && 'opacity-40 cursor-not-allowed'
+                  )}
+                >
+                  <span
+                    className="w-4 h-4 rounded border flex items-center justify-center shrink-0"
+                    style={checked ? { backgroundColor: colorOf(pond.id), borderColor: colorOf(pond.id) } : undefined}
+                  >
+                    {checked && <Check size={12} className="text-white" />}
+                  </span>
+                  <span className="truncate">{pond.name}</span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 bg-white rounded-md shadow-sm flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {COMPARE_PARAMS.map((p) => {
+              const active = p.key === param.key;
+              return (
+                <button
+                  key={p.key}
+                  type="button"
+                  onClick={() => setParamKey(p.key)}
+                  className={cn(
+                    'px-3 py-1 rounded-full border text-xs transition-colors',
+                    active ? 'text-white' : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+                  )}
+                  style={active ? { backgroundColor: p.color, borderColor: p.color } : undefined}
+                >
+                  {p.name}
+                </button>
+              );
+            })}
+          </div>
+          <div className="w-[300px] shrink-0">
+            <CustomDatePicker value={dateRange} onChange={setDateRange} />
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 p-6 flex flex-col gap-6 overflow-y-auto custom-scrollbar">
+          <div className="h-[420px] shrink-0">
+            {dataLoading ? (
+              <div className="h-full flex items-center justify-center text-gray-400">加载中...</div>
+            ) : selectedPonds.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-gray-400">请在左侧选择塘口</div>
+            ) : rows.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-gray-400">所选时间范围内暂无{param.name}数据</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} margin={{ top: 10, right: 24, left: 8, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(ts: number) => format(ts, 'MM-dd HH:mm')}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tickFormatter={(v: number) => formatValue(v, param.unit)}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    width={72}
+                  />
+                  <Tooltip
+                    labelFormatter={(ts) => format(Number(ts), 'yyyy-MM-dd HH:mm')}
+                    formatter={(value) => formatValue(Number(value), param.unit)}
+                  />
+                  <Legend />
+                  {selectedPonds.map((pond) => (
+                    <Line
+                      key={pond.id}
+                      type="monotone"
+                      dataKey={pondSeriesKey(pond.id)}
+                      name={pond.name}
+                      stroke={colorOf(pond.id)}
+                      strokeWidth={2}
+                      dot={{ r: 2 }}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          {selectedPonds.length > 0 && !dataLoading && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 font-medium">塘口</th>
+                  <th className="py-2 font-medium">读数</th>
+                  <th className="py-2 font-medium">最新</th>
+                  <th className="py-2 font-medium">平均</th>
+                  <th className="py-2 font-medium">最低</th>
+                  <th className="py-2 font-medium">最高</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedPonds.map((pond) => {
+                  const s = summary[pond.id];
+                  return (
+                    <tr key={pond.id} className="border-b border-gray-50 text-gray-800">
+                      <td className="py-2">
+                        <span className="inline-flex items-center gap-2">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorOf(pond.id) }} />
+                          {pond.name}
+                        </span>
+                      </td>
+                      <td className="py-2">{s ? s.count : 0}</td>
+                      <td className="py-2">{s ? formatValue(s.latest, param.unit) : '--'}</td>
+                      <td className="py-2">{s ? formatValue(s.avg, param.unit) : '--'}</td>
+                      <td className="py-2">{s ? formatValue(s.min, param.unit) : '--'}</td>
+                      <td className="py-2">{s ? formatValue(s.max, param.unit) : '--'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
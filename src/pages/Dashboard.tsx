@@ -1,152 +1,311 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Pond, getWaterQualityByTimeRange } from '@/services/ponds';
-import { Loader2 } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight, LayoutGrid, Loader2, Map as MapIcon, Plus } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import PondCard from '@/components/PondCard';
-import { fetchDisplayPonds } from '@/utils/pondLoader';
+import PondMap from '@/components/PondMap';
+import PondFilterBar from '@/components/PondFilterBar';
+import PondFormModal from '@/components/PondFormModal';
+import VirtualGrid from '@/components/VirtualGrid';
+import { useWaterQualityPreviews, WaterQualityPreviewFetcher } from '@/hooks/useWaterQualityPreviews';
+import { useRecordEvents } from '@/hooks/useRecordEvents';
+import { DisplayPond, fetchDisplayPonds } from '@/utils/pondLoader';
+import {
+  PondFilterState,
+  collectPondFilterOptions,
+  filterPonds,
+  groupPondsByRegion,
+  readPondFilters,
+  sortPonds,
+  writePondFilters,
+} from '@/utils/pondFilters';
+import { loadCachedTimeline } from '@/utils/timelineCache';
+import { applyRecordEvent } from '@/utils/recordEvents';
+import { getRecordTime } from '@/utils/recordUtils';
 import { formatApiDateTime } from '@/lib/utils';
 
+/**
+ * 首页卡片的水质趋势预览
+ * 作用：获取包含今天在内近 7 个自然日的水质记录（按塘口缓存）
+ */
+// 卡片预览的时间窗口起点：最近 7 天（含今天）
+const getPreviewStart = (now: Date) => {
+  const start = new Date(now);
+  start.setDate(start.getDate() - 6);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const fetchRecentWaterQuality: WaterQualityPreviewFetcher = (pondId, onRevalidate) => {
+  const now = new Date();
+  const start = getPreviewStart(now);
+
+  // 结束时间取当天结束，同一天内缓存键保持不变
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+
+  const params = {
+    start_time: formatApiDateTime(start),
+    end_time: formatApiDateTime(end),
+    page: 1,
+    page_size: 200,
+  };
+  return loadCachedTimeline(
+    pondId,
+    { ...params, type: 'waterquality_data' },
+    () => getWaterQualityByTimeRange({ ...params, pond_id: pondId }),
+    { onRevalidate }
+  );
+};
+
+// 塘口卡片行高估计值（px），渲染后按实际高度修正
+const CARD_ROW_ESTIMATE = 420;
+
 /**
  * 仪表盘页面 (Dashboard)
  * 作用：展示用户所有的塘口列表及概览信息，作为应用的主页。
  * 输入：无 (自动获取用户塘口数据)
  * 输出：塘口列表 UI
  * 逻辑：
- *  1. 尝试从本地缓存加载塘口数据 (localStorage)
+ *  1. 通过离线数据层加载塘口列表 (fetchDisplayPonds，IndexedDB 缓存 + 后台刷新)；无缓存时边分页加载边渲染
  *  2. 获取所有群组及关联的塘口数据 (fetchPonds, getGroupPondsData)
  *  3. 合并自有塘口和群组塘口，去重并排序
- *  4. 并发获取所有塘口的最近水质数据 (fetchAllWaterQuality)
- *  5. 渲染塘口卡片列表 (PondCard)
+ *  4. 经请求调度器获取所有塘口的最近水质数据 (useWaterQualityPreviews：限制并发、视口内优先、逐个写入，失败在卡片上提示重试)，
+ *     之后实时推送的水质记录直接合并 (useRecordEvents)
+ *  5. 按筛选栏条件搜索、筛选与排序 (PondFilterBar / pondFilters)，条件保存在 URL 查询参数中
+ *  6. 渲染塘口卡片列表 (PondCard，可按地区分组折叠)，或切换为地图视图 (PondMap，?view=map)
  * 样式：
- *  - 网格布局显示卡片 grid-cols-1 md:grid-cols-2
+ *  - 虚拟滚动网格显示卡片 (VirtualGrid，1 / 2 列)，只渲染视口附近的行
  *  - 透明背景 bg-transparent (融入整体布局)
  */
 const Dashboard = () => {
-  const [ponds, setPonds] = useState<Pond[]>([]);
+  const [ponds, setPonds] = useState<DisplayPond[]>([]);
   const [loading, setLoading] = useState(true);
-  // 存储所有塘口的水质数据，key为pondId
-  const [waterQualityData, setWaterQualityData] = useState<Record<number, any[]>>({});
-  const [loadingWaterQuality, setLoadingWaterQuality] = useState(false);
+  // 首次加载时已渲染部分塘口，其余分页仍在加载
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 所有塘口的水质数据（key 为 pondId），逐个返回、逐个写入
+  const {
+    data: waterQualityData,
+    errors: waterQualityErrors,
+    isLoading: isWaterQualityLoading,
+    load: loadPreviews,
+    retry: retryPreview,
+    observe: observeCard,
+    update: updatePreview,
+  } = useWaterQualityPreviews(fetchRecentWaterQuality);
+  const [showCreatePond, setShowCreatePond] = useState(false);
+  const [collapsedRegions, setCollapsedRegions] = useState<Set<string>>(() => new Set());
+  const [searchParams, setSearchParams] = useSearchParams();
+  const scrollRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
+  // 视图模式与筛选条件记录在 URL 中，刷新与返回后保持
+  const mapView = searchParams.get('view') === 'map';
+  const filters = useMemo(() => readPondFilters(searchParams), [searchParams]);
 
-  useEffect(() => {
-    // 1. 尝试从缓存加载
-    const cached = localStorage.getItem('cached_ponds_data');
-    if (cached) {
-      try {
-        const { ponds: cachedPonds } = JSON.parse(cached);
-        if (Array.isArray(cachedPonds)) {
-          setPonds(cachedPonds);
-          setLoading(false);
-          // 缓存加载后也需要去获取最新的水质数据
-          fetchAllWaterQuality(cachedPonds);
-        }
-      } catch (e) {
-        console.warn('Failed to parse cached ponds', e);
-      }
-    }
+  const filterOptions = useMemo(() => collectPondFilterOptions(ponds), [ponds]);
+  const visiblePonds = useMemo(
+    () => sortPonds(filterPonds(ponds, filters), filters, waterQualityData),
+    [ponds, filters, waterQualityData]
+  );
+  const regionGroups = useMemo(
+    () => (filters.groupByRegion ? groupPondsByRegion(visiblePonds) : []),
+    [filters.groupByRegion, visiblePonds]
+  );
+
+  // 实时推送：新的水质记录直接合并到卡片迷你图，无需重新请求
+  useRecordEvents(null, (event) => {
+    if (event.record.kind !== 'waterquality') return;
+    const time = new Date(getRecordTime(event.record)).getTime();
+    if (event.action !== 'deleted' && !(time >= getPreviewStart(new Date()).getTime())) return;
+    updatePreview(event.pondId, (records) => applyRecordEvent(records, event));
+  });
 
+  const setFilters = (next: PondFilterState) => {
+    setSearchParams((prev) => writePondFilters(prev, next), { replace: true });
+  };
+
+  const toggleRegion = (region: string) => {
+    setCollapsedRegions((prev) => {
+      const next = new Set(prev);
+      if (next.has(region)) next.delete(region);
+      else next.add(region);
+      return next;
+    });
+  };
+
+  const setMapView = (next: boolean) => {
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        if (next) params.set('view', 'map');
+        else params.delete('view');
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  useEffect(() => {
     fetchPonds();
   }, []);
 
-  // 并发获取所有塘口的水质数据
-  const fetchAllWaterQuality = async (pondList: Pond[]) => {
-    if (!pondList || pondList.length === 0) return;
-    
-    setLoadingWaterQuality(true);
-    try {
-      // 近 7 日趋势预览：包含今天在内的 7 个自然日
-      const now = new Date();
-      const start = new Date(now);
-      start.setDate(start.getDate() - 6);
-      start.setHours(0, 0, 0, 0);
-
-      const startTime = formatApiDateTime(start);
-      const endTime = formatApiDateTime(now);
-
-      // 创建并发请求任务
-      const tasks = pondList.map(pond => 
-        getWaterQualityByTimeRange({
-          pond_id: pond.id,
-          start_time: startTime,
-          end_time: endTime,
-          page: 1,
-          page_size: 200,
-        })
-          .then(res => ({ id: pond.id, data: res.data || [] }))
-          .catch(err => {
-            console.warn(`Failed to fetch water quality for pond ${pond.id}`, err);
-            return { id: pond.id, data: [] };
-          })
-      );
-
-      // 等待所有请求完成 (Promise.all 实现并发)
-      const results = await Promise.all(tasks);
-      
-      // 整理结果到 Map
-      const newData: Record<number, any[]> = {};
-      results.forEach(item => {
-        newData[item.id] = item.data;
-      });
-      
-      setWaterQualityData(prev => ({ ...prev, ...newData }));
-    } catch (err) {
-      console.error('Error fetching water quality data', err);
-    } finally {
-      setLoadingWaterQuality(false);
-    }
-  };
+  // 水质预览按塘口排队加载，视口内的卡片优先
+  const fetchAllWaterQuality = (pondList: Pond[]) => loadPreviews(pondList.map((p) => p.id));
 
   const fetchPonds = async () => {
-    const cached = localStorage.getItem('cached_ponds_data');
-    if (!cached) setLoading(true);
-
+    setLoading(true);
+    // 仅首次加载（无缓存）时渐进渲染；后台刷新期间保留已展示的完整列表
+    let settled = false;
     try {
-      const unique = await fetchDisplayPonds({ forceNetwork: true });
-      
+      // 有缓存时立即返回缓存；缓存过期则后台刷新后再更新列表
+      const unique = await fetchDisplayPonds({
+        onRevalidate: (latest) => {
+          setPonds(latest);
+          fetchAllWaterQuality(latest);
+        },
+        onProgress: (partial) => {
+          if (settled || partial.length === 0) return;
+          setPonds(partial);
+          setLoading(false);
+          setLoadingMore(true);
+        },
+      });
+      settled = true;
+
       setPonds(unique);
-      
-      localStorage.setItem('cached_ponds_data', JSON.stringify({
-         timestamp: Date.now(),
-         ponds: unique
-      }));
 
       // 获取完塘口列表后，立即并发获取水质数据
       fetchAllWaterQuality(unique);
-
     } catch (err) {
       console.error(err);
-      if (!cached) setPonds([]); 
+      setPonds([]);
     } finally {
+      settled = true;
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const handlePondCreated = (pond: Pond) => {
+    setShowCreatePond(false);
+    setPonds((prev) => [...prev.filter((p) => p.id !== pond.id), { ...pond, membership: 'owned' }]);
+    fetchAllWaterQuality([pond]);
+  };
+
+  const renderCards = (list: Pond[]) => (
+    <VirtualGrid
+      items={list}
+      getKey={(pond) => pond.id}
+      scrollRef={scrollRef}
+      estimatedRowHeight={CARD_ROW_ESTIMATE}
+      renderItem={(pond) => (
+        <PondCard
+          pond={pond}
+          cardRef={observeCard(pond.id)}
+          waterQualityData={waterQualityData[pond.id]}
+          loadingData={isWaterQualityLoading(pond.id)}
+          loadError={waterQualityErrors[pond.id]}
+          onRetry={() => retryPreview(pond.id)}
+        />
+      )}
+    />
+  );
+
   return (
     <div className="flex flex-col h-full bg-transparent">
-      <div className="flex-none px-8 py-6">
-        <h1 className="text-2xl font-bold text-gray-900">我的鱼塘</h1>
-        <p className="text-gray-500 text-sm mt-1">管理和监控您的所有养殖塘口状态</p>
+      <div className="flex-none px-8 py-6 flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">我的鱼塘</h1>
+          <p className="text-gray-500 text-sm mt-1">管理和监控您的所有养殖塘口状态</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-gray-200 bg-white p-0.5 shadow-sm">
+            {[
+              { map: false, label: '卡片', icon: LayoutGrid },
+              { map: true, label: '地图', icon: MapIcon },
+            ].map(({ map, label, icon: Icon }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setMapView(map)}
+                className={`flex items-center gap-1 rounded-md px-3 py-1.5 text-sm ${
+                  mapView === map ? 'bg-blue-50 text-blue-600 font-bold' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Icon size={16} />
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowCreatePond(true)}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold shadow-sm"
+          >
+            <Plus size={16} />
+            新建塘口
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto px-8 pb-8 custom-scrollbar">
+      {!loading && ponds.length > 0 && (
+        <div className="flex-none px-8 pb-4">
+          <PondFilterBar
+            filters={filters}
+            onChange={setFilters}
+            options={filterOptions}
+            total={ponds.length}
+            shown={visiblePonds.length}
+            showGrouping={!mapView}
+          />
+        </div>
+      )}
+
+      <div ref={scrollRef} className={`flex-1 px-8 pb-8 ${mapView ? 'min-h-0' : 'overflow-y-auto custom-scrollbar'}`}>
          {loading ? (
            <div className="flex justify-center py-20">
              <Loader2 className="animate-spin text-blue-500 w-8 h-8" />
            </div>
+         ) : mapView ? (
+           <PondMap ponds={visiblePonds} waterQualityData={waterQualityData} loadErrors={waterQualityErrors} />
+         ) : ponds.length > 0 && visiblePonds.length === 0 ? (
+           <div className="py-20 text-center text-sm text-gray-400">没有符合筛选条件的塘口</div>
+         ) : filters.groupByRegion ? (
+           <div className="space-y-6">
+             {regionGroups.map(({ region, ponds: list }) => {
+               const collapsed = collapsedRegions.has(region);
+               return (
+                 <section key={region}>
+                   <button
+                     type="button"
+                     onClick={() => toggleRegion(region)}
+                     className="mb-3 flex items-center gap-1.5 text-base font-bold text-gray-800 hover:text-gray-950"
+                   >
+                     {collapsed ? <ChevronRight size={18} /> : <ChevronDown size={18} />}
+                     {region}
+                     <span className="text-sm font-normal text-gray-400">{list.length} 个塘口</span>
+                   </button>
+                   {!collapsed && renderCards(list)}
+                 </section>
+               );
+             })}
+           </div>
          ) : (
-           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {ponds.map(pond => (
-                <PondCard 
-                  key={pond.id} 
-                  pond={pond} 
-                  waterQualityData={waterQualityData[pond.id]}
-                  loadingData={loadingWaterQuality && !waterQualityData[pond.id]} 
-                />
-              ))}
+           renderCards(visiblePonds)
+         )}
+         {loadingMore && !mapView && (
+           <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-400">
+             <Loader2 className="animate-spin w-4 h-4" />
+             正在加载更多塘口（已加载 {ponds.length} 个）
            </div>
          )}
       </div>
+
+      <PondFormModal
+        open={showCreatePond}
+        onClose={() => setShowCreatePond(false)}
+        onSaved={handlePondCreated}
+      />
     </div>
   );
 };
@@ -1,30 +1,36 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Loader2, ChevronLeft, ChevronRight, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
+import { Loader2, ChevronLeft, ChevronRight, Sparkles, ChevronDown, ChevronUp, Plus, Pencil, Trash2, Upload } from 'lucide-react';
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, addDays, addMonths, format, isSameMonth, isSameDay } from 'date-fns';
-import { Pond, getTrendData } from '@/services/ponds';
+import { Pond } from '@/services/ponds';
+import { RecordDetail, RecordKind, TimelineRecord } from '@/services/timeline';
+import { RecordPayload, createRecord, deleteRecord, updateRecord } from '@/services/records';
 import { fetchDisplayPonds } from '@/utils/pondLoader';
+import { invalidatePondTimeline, loadTimelineRange } from '@/utils/timelineCache';
 import { DEFAULT_EXPORT_TYPES } from '@/services/export';
 import { DEFAULT_ASSETS } from '@/config';
-import { getFullDisplayItems, getRecordIcon, getRecordTypeChineseName } from '@/utils/recordUtils';
+import { RecordType, getFullDisplayItems, getRecordIcon, getRecordTime, getRecordTypeChineseName } from '@/utils/recordUtils';
 import { cn } from '@/lib/utils';
 import { getAiAnalysisText, getAnalysisItem } from '@/services/analysis';
-
-type TimelineRawItem = {
-  type?: string;
-  detail?: any;
-  created_at?: string;
-  updated_at?: string;
-  [k: string]: any;
-};
+import RecordFormModal from '@/components/RecordFormModal';
+import RecordExportMenu from '@/components/RecordExportMenu';
+import RecordImportModal from '@/components/RecordImportModal';
+import { buildOptimisticRecord, mergeSavedRecord } from '@/utils/recordForm';
+import { useProductionCycles } from '@/hooks/useProductionCycles';
+import { useRecordEvents } from '@/hooks/useRecordEvents';
+import { CYCLE_RECORD_KINDS, DateRangeValue, cycleToDateRange, formatCycleRange } from '@/utils/productionCycles';
 
 type CalendarRecord = {
   id: string | number;
   rawTime: string;
   type: string;
+  kind: RecordType;
   typeName: string;
   icon: string;
   displayItems: { label: string; value: string }[];
-  detail: any;
+  detail: RecordDetail;
+  source: TimelineRecord;
+  /** 乐观更新中，等待接口确认 */
+  pending?: boolean;
 };
 
 type CalendarCell = {
@@ -33,15 +39,11 @@ type CalendarCell = {
   inCurrentMonth: boolean;
   isToday: boolean;
   isSelected: boolean;
+  /** 选中养殖周期时，日期是否在周期之外（弱化显示） */
+  outOfCycle: boolean;
   records: CalendarRecord[];
 };
 
-function getRecordRawTime(detail: any, item: TimelineRawItem, type: string) {
-  const t = detail?.operate_at || detail?.operate_time || detail?.created_at || detail?.updated_at || item?.created_at || item?.updated_at;
-  if (!t) return '';
-  return String(t);
-}
-
 function safeParseDate(input: string) {
   const d = new Date(input);
   if (Number.isNaN(d.getTime())) return null;
@@ -61,16 +63,12 @@ function getRecordUuid(record: CalendarRecord) {
   return String(uuid);
 }
 
-function extractTimelineList(res: any): TimelineRawItem[] {
-  if (Array.isArray(res?.data)) return res.data;
-  if (Array.isArray(res)) return res;
-  if (Array.isArray(res?.data?.data)) return res.data.data;
-  if (Array.isArray(res?.data?.list)) return res.data.list;
-  if (Array.isArray(res?.list)) return res.list;
-  return [];
-}
-
-function buildCalendarGrid(month: Date, selectedDate: Date, recordsByDate: Record<string, CalendarRecord[]>) {
+function buildCalendarGrid(
+  month: Date,
+  selectedDate: Date,
+  recordsByDate: Record<string, CalendarRecord[]>,
+  cycleRange?: DateRangeValue | null
+) {
   const monthStart = startOfMonth(month);
   const monthEnd = endOfMonth(month);
   const gridStart = startOfWeek(monthStart, { weekStartsOn: 1 });
@@ -85,13 +83,90 @@ function buildCalendarGrid(month: Date, selectedDate: Date, recordsByDate: Recor
     const isToday = isSameDay(cur, today);
     const isSelected = isSameDay(cur, selectedDate);
     const records = recordsByDate[key] || [];
-    cells.push({ date: cur, key, inCurrentMonth, isToday, isSelected, records });
+    const outOfCycle = Boolean(cycleRange) && (addDays(cur, 1) <= cycleRange.startDate || cur > cycleRange.endDate);
+    cells.push({ date: cur, key, inCurrentMonth, isToday, isSelected, outOfCycle, records });
     cur = addDays(cur, 1);
   }
 
   return cells;
 }
 
+function toCalendarRecord(item: TimelineRecord): CalendarRecord | null {
+  const detail = item.detail;
+  const type = item.type;
+  const rawTime = getRecordTime(item);
+  if (!safeParseDate(rawTime)) return null;
+
+  return {
+    id: detail.id || detail.uuid || `${type}-${rawTime}-${Math.random()}`,
+    rawTime,
+    type,
+    kind: item.kind,
+    typeName: getRecordTypeChineseName(type),
+    icon: getRecordIcon(type),
+    displayItems: getFullDisplayItems(item),
+    detail,
+    source: item,
+  };
+}
+
+/**
+ * 将记录放入对应日期（同日按时间倒序）
+ * 输出：新的 recordsByDate，不修改入参
+ */
+function insertCalendarRecord(map: Record<string, CalendarRecord[]>, record: CalendarRecord) {
+  const dt = safeParseDate(record.rawTime);
+  if (!dt) return map;
+  const key = format(dt, 'yyyy-MM-dd');
+  const list = [...(map[key] || []), record].sort(
+    (a, b) => new Date(b.rawTime).getTime() - new Date(a.rawTime).getTime()
+  );
+  return { ...map, [key]: list };
+}
+
+function removeCalendarRecord(map: Record<string, CalendarRecord[]>, id: CalendarRecord['id']) {
+  const next: Record<string, CalendarRecord[]> = {};
+  Object.entries(map).forEach(([key, list]) => {
+    const rest = list.filter((r) => r.id !== id);
+    if (rest.length > 0) next[key] = rest;
+  });
+  return next;
+}
+
+function groupCalendarRecords(items: TimelineRecord[]) {
+  let grouped: Record<string, CalendarRecord[]> = {};
+  items.forEach((item) => {
+    const record = toCalendarRecord(item);
+    if (record) grouped = insertCalendarRecord(grouped, record);
+  });
+  return grouped;
+}
+
+/**
+ * 合并后台刷新结果
+ * 输入：当前 recordsByDate、刷新得到的记录、本月加载后实时推送合并的记录（id -> 记录，null 表示已删除或移出本月）
+ * 输出：新的 recordsByDate
+ * 逻辑：以刷新结果为基础，重放实时推送的变更（刷新请求可能早于推送发出），再保留等待确认的乐观记录
+ */
+function mergeRevalidatedRecords(
+  prev: Record<string, CalendarRecord[]>,
+  latest: TimelineRecord[],
+  realtime: Map<CalendarRecord['id'], CalendarRecord | null>
+) {
+  let next = groupCalendarRecords(latest);
+  realtime.forEach((record, id) => {
+    next = removeCalendarRecord(next, id);
+    if (record) next = insertCalendarRecord(next, record);
+  });
+  Object.values(prev)
+    .flat()
+    .filter((r) => r.pending)
+    .forEach((r) => {
+      next = insertCalendarRecord(removeCalendarRecord(next, r.id), r);
+    });
+  return next;
+}
+
 function getRecordSummary(record: CalendarRecord) {
   const first = record.displayItems && record.displayItems.length > 0 ? record.displayItems[0] : null;
   if (first) return `${first.label}：${first.value}`;
@@ -108,6 +183,21 @@ const Data = () => {
 
   const [monthLoading, setMonthLoading] = useState(false);
   const [recordsByDate, setRecordsByDate] = useState<Record<string, CalendarRecord[]>>({});
+  // 当前月份加载后由实时推送合并的记录，后台刷新时重放
+  const realtimeRecordsRef = useRef(new Map<CalendarRecord['id'], CalendarRecord | null>());
+
+  const [recordFormOpen, setRecordFormOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<CalendarRecord | null>(null);
+  const [recordError, setRecordError] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
+  // 批量导入后递增，重新加载当月记录
+  const [monthReloadKey, setMonthReloadKey] = useState(0);
+
+  // 养殖周期：选中后日历弱化周期外的日期，AI 总结可覆盖整个周期
+  const [cycleReloadKey, setCycleReloadKey] = useState(0);
+  const { cycles } = useProductionCycles(selectedPondId, cycleReloadKey);
+  const [selectedCycleId, setSelectedCycleId] = useState('');
+  const [summaryScope, setSummaryScope] = useState<'day' | 'cycle'>('day');
 
   const [aiSummaryText, setAiSummaryText] = useState('');
   const [aiSummaryLoading, setAiSummaryLoading] = useState(false);
@@ -166,7 +256,7 @@ const Data = () => {
     const run = async () => {
       setPondLoading(true);
       try {
-        const list = await fetchDisplayPonds();
+        const list = await fetchDisplayPonds({ onRevalidate: setPonds });
         setPonds(list);
         if (list.length > 0) {
           setSelectedPondId((prev) => prev ?? list[0].id);
@@ -180,6 +270,8 @@ const Data = () => {
 
   useEffect(() => {
     if (!selectedPondId) return;
+    let cancelled = false;
+    realtimeRecordsRef.current = new Map();
 
     const run = async () => {
       setMonthLoading(true);
@@ -187,88 +279,48 @@ const Data = () => {
         const startTime = format(startOfMonth(month), 'yyyy-MM-dd 00:00:00');
         const endTime = format(endOfMonth(month), 'yyyy-MM-dd 23:59:59');
 
-        const pageSize = 200;
-        let page = 1;
-        let hasMore = true;
-        let all: TimelineRawItem[] = [];
-
-        while (hasMore) {
-          const res = await getTrendData({
-            start_time: startTime,
-            end_time: endTime,
-            pond_id: selectedPondId,
-            type: DEFAULT_EXPORT_TYPES,
-            page,
-            page_size: pageSize,
-          });
-
-          const list = extractTimelineList(res);
-          all = all.concat(list);
-
-          if (list.length < pageSize) {
-            hasMore = false;
-          } else {
-            page += 1;
-          }
-
-          if (page > 50) {
-            hasMore = false;
+        const all = await loadTimelineRange(
+          { pond_id: selectedPondId, start_time: startTime, end_time: endTime },
+          {
+            onRevalidate: (latest) => {
+              if (!cancelled) setRecordsByDate((prev) => mergeRevalidatedRecords(prev, latest, realtimeRecordsRef.current));
+            },
           }
-        }
+        );
+        if (cancelled) return;
 
-        const mapped = all
-          .map((item) => {
-            const detail = item?.detail || item;
-            const type = String(item?.type || detail?.type || 'unknown');
-            const rawTime = getRecordRawTime(detail, item, type);
-            const dt = safeParseDate(rawTime);
-            if (!dt) return null;
-
-            const typeName = getRecordTypeChineseName(type);
-            const icon = getRecordIcon(type);
-            const displayItems = getFullDisplayItems(detail, type);
-
-            return {
-              id: detail?.id || detail?.uuid || item?.id || `${type}-${rawTime}-${Math.random()}`,
-              rawTime,
-              type,
-              typeName,
-              icon,
-              displayItems,
-              detail,
-              _dateKey: format(dt, 'yyyy-MM-dd'),
-              _timeMs: dt.getTime(),
-            };
-          })
-          .filter(Boolean) as (CalendarRecord & { _dateKey: string; _timeMs: number })[];
-
-        const grouped: Record<string, (CalendarRecord & { _dateKey: string; _timeMs: number })[]> = {};
-        mapped.forEach((r) => {
-          if (!grouped[r._dateKey]) grouped[r._dateKey] = [];
-          grouped[r._dateKey].push(r);
-        });
-
-        const normalized: Record<string, CalendarRecord[]> = {};
-        Object.entries(grouped).forEach(([dateKey, list]) => {
-          normalized[dateKey] = list
-            .sort((a, b) => b._timeMs - a._timeMs)
-            .map(({ _timeMs, _dateKey, ...rest }) => rest);
-        });
-
-        setRecordsByDate(normalized);
+        setRecordsByDate(groupCalendarRecords(all));
+      } catch (err) {
+        console.error('Error fetching month records:', err);
       } finally {
-        setMonthLoading(false);
+        if (!cancelled) setMonthLoading(false);
       }
     };
 
     run();
-  }, [selectedPondId, month]);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPondId, month, monthReloadKey]);
 
   const weekDays = useMemo(() => ['一', '二', '三', '四', '五', '六', '日'], []);
 
-  const cells = useMemo(() => buildCalendarGrid(month, selectedDate, recordsByDate), [month, selectedDate, recordsByDate]);
+  const selectedCycle = useMemo(() => cycles.find((c) => c.id === selectedCycleId) || null, [cycles, selectedCycleId]);
+  const cycleRange = useMemo(() => (selectedCycle ? cycleToDateRange(selectedCycle) : null), [selectedCycle]);
+
+  const cells = useMemo(
+    () => buildCalendarGrid(month, selectedDate, recordsByDate, cycleRange),
+    [month, selectedDate, recordsByDate, cycleRange]
+  );
   const selectedKey = useMemo(() => format(selectedDate, 'yyyy-MM-dd'), [selectedDate]);
   const selectedRecords = recordsByDate[selectedKey] || [];
+  // 当前月份已确认的记录，用于本地导出 CSV / NDJSON
+  const monthRecords = useMemo(() => {
+    const prefix = format(month, 'yyyy-MM');
+    return Object.keys(recordsByDate)
+      .filter((key) => key.startsWith(prefix))
+      .flatMap((key) => recordsByDate[key].filter((r) => !r.pending).map((r) => r.source));
+  }, [recordsByDate, month]);
 
   const selectedPond = useMemo(() => ponds.find((p) => p.id === selectedPondId) || null, [ponds, selectedPondId]);
   const selectedPondIsDemo = Boolean(selectedPond?.is_demo);
@@ -283,10 +335,29 @@ const Data = () => {
     setAiItemExpandedMap({});
   }, [selectedPondId, selectedKey]);
 
+  useEffect(() => {
+    setSelectedCycleId('');
+  }, [selectedPondId]);
+
+  useEffect(() => {
+    if (!selectedCycle) setSummaryScope('day');
+    setAiSummaryText('');
+    setAiSummaryError('');
+  }, [selectedCycle, summaryScope]);
+
+  const handleSelectCycle = (cycleId: string) => {
+    setSelectedCycleId(cycleId);
+    const cycle = cycles.find((c) => c.id === cycleId);
+    if (!cycle) return;
+    setSelectedDate(new Date(cycle.start));
+    setMonth(startOfMonth(cycle.start));
+  };
+
   const handleGenerateSummary = async () => {
     if (!selectedPondId) return;
-    const startStr = selectedKey;
-    const endStr = format(addDays(selectedDate, 1), 'yyyy-MM-dd');
+    const useCycle = summaryScope === 'cycle' && cycleRange;
+    const startStr = useCycle ? format(cycleRange.startDate, 'yyyy-MM-dd') : selectedKey;
+    const endStr = format(addDays(useCycle ? cycleRange.endDate : selectedDate, 1), 'yyyy-MM-dd');
 
     setAiSummaryLoading(true);
     setAiSummaryError('');
@@ -300,7 +371,7 @@ const Data = () => {
         is_demo: selectedPondIsDemo,
       });
       const normalized = normalizeAiText(res.text);
-      setAiSummaryText(normalized || '你当日没有记录哦~');
+      setAiSummaryText(normalized || (useCycle ? '该周期没有记录哦~' : '你当日没有记录哦~'));
     } catch (e) {
       setAiSummaryError('AI因网络或模型问题暂无法服务，请稍后再试');
       setAiSummaryText('');
@@ -335,6 +406,97 @@ const Data = () => {
     }
   };
 
+  const afterRecordChanged = async (kind: RecordType) => {
+    await invalidatePondTimeline(selectedPondId);
+    if (CYCLE_RECORD_KINDS.includes(kind)) setCycleReloadKey((k) => k + 1);
+  };
+
+  const handleImported = async (kind: RecordKind) => {
+    await afterRecordChanged(kind);
+    setMonthReloadKey((k) => k + 1);
+  };
+
+  const openCreateRecord = () => {
+    setEditingRecord(null);
+    setRecordFormOpen(true);
+  };
+
+  const openEditRecord = (record: CalendarRecord) => {
+    setEditingRecord(record);
+    setRecordFormOpen(true);
+  };
+
+  /**
+   * 提交记录（乐观更新）
+   * 逻辑：先以提交数据更新日历，接口成功后替换为服务端数据；失败时撤销并提示
+   */
+  const handleRecordSubmit = async (kind: RecordKind, payload: RecordPayload) => {
+    if (!selectedPondId) return;
+    const previous = editingRecord;
+    const optimistic = buildOptimisticRecord(kind, payload, previous?.source);
+    const optimisticView = toCalendarRecord(optimistic);
+    setRecordFormOpen(false);
+    setEditingRecord(null);
+    setRecordError('');
+    if (!optimisticView) return;
+    optimisticView.pending = true;
+
+    setRecordsByDate((prev) => insertCalendarRecord(previous ? removeCalendarRecord(prev, previous.id) : prev, optimisticView));
+
+    try {
+      const saved = previous
+        ? await updateRecord(kind, previous.detail.id, payload, previous.type)
+        : await createRecord(kind, selectedPondId, payload);
+      afterRecordChanged(kind);
+      const confirmed = toCalendarRecord(mergeSavedRecord(optimistic, saved));
+      setRecordsByDate((prev) => {
+        // 实时推送可能先于接口返回送达同一条记录，一并移除后再插入
+        const rest = removeCalendarRecord(prev, optimisticView.id);
+        return confirmed ? insertCalendarRecord(removeCalendarRecord(rest, confirmed.id), confirmed) : rest;
+      });
+    } catch (err) {
+      console.error('Error saving record:', err);
+      setRecordsByDate((prev) => {
+        const rest = removeCalendarRecord(prev, optimisticView.id);
+        return previous ? insertCalendarRecord(rest, previous) : rest;
+      });
+      setRecordError(previous ? '记录修改失败，已撤销' : '记录保存失败，已撤销');
+    }
+  };
+
+  const handleDeleteRecord = async (record: CalendarRecord) => {
+    if (record.kind === 'unknown' || record.pending || !(record.detail.id > 0)) return;
+    if (!window.confirm(`确定删除这条${record.typeName}吗？`)) return;
+    const kind = record.kind;
+    setRecordError('');
+    setRecordsByDate((prev) => removeCalendarRecord(prev, record.id));
+    try {
+      await deleteRecord(kind, record.detail.id);
+      afterRecordChanged(kind);
+    } catch (err) {
+      console.error('Error deleting record:', err);
+      setRecordsByDate((prev) => insertCalendarRecord(prev, record));
+      setRecordError('记录删除失败，已恢复');
+    }
+  };
+
+  // 实时推送：当前塘口的记录变更合并到日历（仅保留当前月份的记录）
+  useRecordEvents(selectedPondId ? [selectedPondId] : [], (event) => {
+    const { id, uuid } = event.record.detail;
+    const recordId = id || uuid;
+    if (recordId) {
+      const view = event.action === 'deleted' ? null : toCalendarRecord(event.record);
+      const dt = view ? safeParseDate(view.rawTime) : null;
+      const kept = view && dt && isSameMonth(dt, month) ? view : null;
+      realtimeRecordsRef.current.set(recordId, kept);
+      setRecordsByDate((prev) => {
+        const rest = removeCalendarRecord(prev, recordId);
+        return kept ? insertCalendarRecord(rest, kept) : rest;
+      });
+    }
+    if (CYCLE_RECORD_KINDS.includes(event.record.kind)) setCycleReloadKey((k) => k + 1);
+  });
+
   return (
     <div className="flex h-full bg-transparent overflow-hidden">
       <div className="w-72 shrink-0 bg-white rounded-md shadow-sm overflow-hidden flex flex-col">
@@ -396,6 +558,41 @@ const Data = () => {
           </div>
 
           <div className="flex items-center gap-2">
+            {cycles.length > 0 && (
+              <select
+                value={selectedCycleId}
+                onChange={(e) => handleSelectCycle(e.target.value)}
+                title={selectedCycle ? formatCycleRange(selectedCycle) : undefined}
+                className="h-9 mr-2 max-w-[12rem] rounded-lg border border-gray-200 px-2 text-sm text-gray-700 focus:outline-none focus:border-blue-400"
+              >
+                <option value="">全部周期</option>
+                {cycles
+                  .slice()
+                  .reverse()
+                  .map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+              </select>
+            )}
+            <RecordExportMenu
+              records={monthRecords}
+              baseName={`${selectedPond?.name || 'pond'}_${format(month, 'yyyyMM')}`}
+              title={`导出${format(month, 'yyyy年MM月')}的养殖记录`}
+              className="mr-2"
+            />
+            {selectedPond && !selectedPondIsDemo && (
+              <button
+                type="button"
+                onClick={() => setImportOpen(true)}
+                className="flex items-center gap-1 mr-2 px-2.5 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 hover:text-blue-600 hover:border-blue-300"
+                title="从 CSV / Excel 导入历史记录"
+              >
+                <Upload size={14} />
+                导入
+              </button>
+            )}
             <button
               onClick={() => setMonth((m) => addMonths(m, -1))}
               className="h-9 w-9 rounded-lg border border-gray-200 flex items-center justify-center text-gray-600 hover:bg-gray-50"
@@ -450,6 +647,7 @@ const Data = () => {
                         className={cn(
                           'h-32 rounded-xl border p-2 flex flex-col text-left transition-colors overflow-hidden',
                           cell.inCurrentMonth ? 'bg-white' : 'bg-gray-50',
+                          cell.outOfCycle && 'opacity-40',
                           cell.isSelected
                             ? 'border-blue-400 ring-2 ring-blue-100 shadow-sm'
                             : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50 shadow-[0_1px_2px_rgba(0,0,0,0.04)]'
@@ -508,8 +706,28 @@ const Data = () => {
           >
             <div className="flex items-center justify-between">
               <div className="font-semibold text-gray-900">{format(selectedDate, 'yyyy年MM月dd日')}</div>
-              <div className="text-xs text-gray-500">共 {selectedRecords.length} 条记录</div>
+              <div className="flex items-center gap-3">
+                <div className="text-xs text-gray-500">共 {selectedRecords.length} 条记录</div>
+                {selectedPond && !selectedPondIsDemo && (
+                  <button
+                    type="button"
+                    onClick={openCreateRecord}
+                    className="h-7 px-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold inline-flex items-center gap-1"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    新增记录
+                  </button>
+                )}
+              </div>
             </div>
+            {recordError && (
+              <div className="mt-2 px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-600 flex items-center justify-between">
+                <span>{recordError}</span>
+                <button type="button" onClick={() => setRecordError('')} className="text-red-400 hover:text-red-600">
+                  知道了
+                </button>
+              </div>
+            )}
 
             <div className="mt-3 flex-1 overflow-y-auto custom-scrollbar">
               {selectedRecords.length === 0 ? (
@@ -527,7 +745,10 @@ const Data = () => {
                     const aiError = uuid ? (aiItemErrorMap[uuid] || '') : (aiItemErrorMap[String(r.id)] || '');
                     const aiExpanded = uuid ? (aiItemExpandedMap[uuid] !== false) : true;
                     return (
-                      <div key={String(r.id)} className="border border-gray-100 rounded-xl p-4 bg-[#e9f5fe] transition-colors">
+                      <div
+                        key={String(r.id)}
+                        className={cn('border border-gray-100 rounded-xl p-4 bg-[#e9f5fe] transition-colors', r.pending && 'opacity-60')}
+                      >
                         <div className="flex items-center gap-3">
                           <div className="w-11 h-11 rounded-xl bg-[#e9f5fe] flex items-center justify-center border border-gray-100 shrink-0">
                             <img src={r.icon} alt={r.typeName} className="w-6 h-6" />
@@ -536,7 +757,27 @@ const Data = () => {
                             <div className="flex items-center justify-between gap-3">
                               <div className="font-semibold text-gray-900 truncate">{r.typeName}</div>
                               <div className="flex items-center gap-2 shrink-0">
-                                <div className="text-xs text-gray-500">{timeText}</div>
+                                <div className="text-xs text-gray-500">{r.pending ? '保存中...' : timeText}</div>
+                                {!selectedPondIsDemo && !r.pending && r.kind !== 'unknown' && r.detail.id > 0 && (
+                                  <>
+                                    <button
+                                      type="button"
+                                      onClick={() => openEditRecord(r)}
+                                      className="h-7 w-7 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 inline-flex items-center justify-center"
+                                      title="修改"
+                                    >
+                                      <Pencil className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => handleDeleteRecord(r)}
+                                      className="h-7 w-7 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-red-50 hover:text-red-600 inline-flex items-center justify-center"
+                                      title="删除"
+                                    >
+                                      <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                  </>
+                                )}
                                 <button
                                   type="button"
                                   disabled={!uuid || aiLoading}
@@ -610,7 +851,23 @@ const Data = () => {
 
               <div className="mt-4 border border-gray-100 rounded-xl p-4 bg-[#7b8fab]">
                 <div className="flex items-center justify-between gap-3">
-                  <div className="font-semibold text-white">AI总结</div>
+                  <div className="flex items-center gap-3">
+                    <div className="font-semibold text-white">AI总结</div>
+                    {selectedCycle && (
+                      <select
+                        value={summaryScope}
+                        onChange={(e) => setSummaryScope(e.target.value as 'day' | 'cycle')}
+                        className="h-8 rounded-lg border border-white/40 bg-white/20 px-2 text-xs text-white focus:outline-none"
+                      >
+                        <option value="day" className="text-gray-800">
+                          当天
+                        </option>
+                        <option value="cycle" className="text-gray-800">
+                          {selectedCycle.name}
+                        </option>
+                      </select>
+                    )}
+                  </div>
                   <button
                     type="button"
                     onClick={handleGenerateSummary}
@@ -637,7 +894,11 @@ const Data = () => {
                   ) : aiSummaryText ? (
                     <div className="text-sm text-gray-700 whitespace-pre-line">{aiSummaryText}</div>
                   ) : (
-                    <div className="text-sm text-gray-500">点击“生成AI总结”，快速回顾当天养殖操作。</div>
+                    <div className="text-sm text-gray-500">
+                      {summaryScope === 'cycle' && selectedCycle
+                        ? `点击“生成AI总结”，回顾 ${formatCycleRange(selectedCycle)} 整个周期的养殖操作。`
+                        : '点击“生成AI总结”，快速回顾当天养殖操作。'}
+                    </div>
                   )}
                 </div>
               </div>
@@ -645,6 +906,23 @@ const Data = () => {
           </div>
         </div>
       </div>
+
+      <RecordFormModal
+        open={recordFormOpen}
+        record={editingRecord?.source}
+        defaultTime={selectedDate}
+        onClose={() => setRecordFormOpen(false)}
+        onSubmit={handleRecordSubmit}
+      />
+      {selectedPondId && (
+        <RecordImportModal
+          open={importOpen}
+          pondId={selectedPondId}
+          pondName={selectedPond?.name}
+          onClose={() => setImportOpen(false)}
+          onImported={handleImported}
+        />
+      )}
     </div>
   );
 };
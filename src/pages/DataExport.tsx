@@ -1,84 +1,84 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Pond, getRecentWaterQuality } from '@/services/ponds';
 import { fetchDisplayPonds } from '@/utils/pondLoader';
-import { DEFAULT_EXPORT_TYPES, startExport, downloadExport } from '@/services/export';
-import { downloadBinaryFile } from '@/utils/download';
-import { format } from 'date-fns';
+import { loadCachedTimeline } from '@/utils/timelineCache';
 import PondCard from '@/components/PondCard';
+import { useProductionCycles } from '@/hooks/useProductionCycles';
+import { useWaterQualityPreviews, WaterQualityPreviewFetcher } from '@/hooks/useWaterQualityPreviews';
+import ExportOptionsForm from '@/components/ExportOptionsForm';
+import ExportJobList from '@/components/ExportJobList';
+import { enqueueExport } from '@/utils/exportJobs';
+import { useExportJobStore } from '@/store/useExportJobStore';
+import { ExportOptions, getDefaultExportOptions, toExportParams } from '@/utils/exportOptions';
+import ExportBundleSummary from '@/components/ExportBundleSummary';
+import { BundlePondResult, BundleProgress, buildExportBundle } from '@/utils/exportBundle';
+import { isExportAbort } from '@/utils/exportJobs';
+import { downloadBinaryFile } from '@/utils/download';
+
+// 卡片预览取最近 2 条水质记录（按塘口缓存）
+const fetchLatestWaterQuality: WaterQualityPreviewFetcher = (pondId, onRevalidate) =>
+  loadCachedTimeline(
+    pondId,
+    { type: 'waterquality_data', page: 1, page_size: 2 },
+    () => getRecentWaterQuality(pondId, 2),
+    { onRevalidate }
+  );
 
 const DataExport = () => {
   const [ponds, setPonds] = useState<Pond[]>([]);
   const [selected, setSelected] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(false);
-  const [exporting, setExporting] = useState(false);
-  const [startTime] = useState('1999-01-01 00:00:00');
-  const [endTime] = useState('2029-01-31 00:00:00');
-  const [waterQualityData, setWaterQualityData] = useState<Record<number, any[]>>({});
-  const [loadingWaterQuality, setLoadingWaterQuality] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(getDefaultExportOptions);
+  // 只选中一个塘口时可按养殖周期导出
+  const singlePondId = selected.size === 1 ? Array.from(selected)[0] : null;
+  const { cycles } = useProductionCycles(singlePondId);
+  const jobCount = useExportJobStore((s) => s.jobs.length);
+  const canExport = selected.size > 0 && exportOptions.types.length > 0;
+  const {
+    data: waterQualityData,
+    errors: waterQualityErrors,
+    isLoading: isWaterQualityLoading,
+    load: loadPreviews,
+    retry: retryPreview,
+    observe: observeCard,
+  } = useWaterQualityPreviews(fetchLatestWaterQuality);
+  const [includeTrendReport, setIncludeTrendReport] = useState(false);
+  const [bundleProgress, setBundleProgress] = useState<BundleProgress | null>(null);
+  const [bundleSummary, setBundleSummary] = useState<{ results: BundlePondResult[]; fileName?: string } | null>(null);
+  const [bundleError, setBundleError] = useState('');
+  const bundleAbortRef = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    // 1. 尝试从缓存加载
-    const cached = localStorage.getItem('cached_ponds_data');
-    if (cached) {
-      try {
-        const { ponds: cachedPonds } = JSON.parse(cached);
-        if (Array.isArray(cachedPonds)) {
-          setPonds(cachedPonds);
-          // 缓存加载后，后台获取水质
-          fetchAllWaterQuality(cachedPonds);
-        }
-      } catch (e) {
-        console.warn('Failed to parse cached ponds', e);
-      }
-    }
+  useEffect(() => () => bundleAbortRef.current?.abort(), []);
 
+  useEffect(() => {
+    // 水质预览按塘口排队加载，视口内的卡片优先
+    const fetchAllWaterQuality = (pondList: Pond[]) => loadPreviews(pondList.map((p) => p.id));
     const fetch = async () => {
-      if (!cached) setLoading(true);
+      setLoading(true);
       try {
-        // 使用统一的方法获取所有塘口（我创建的 + 我加入的）
-        const list = await fetchDisplayPonds();
+        // 使用统一的方法获取所有塘口（我创建的 + 我加入的），缓存过期时后台刷新
+        const list = await fetchDisplayPonds({
+          onRevalidate: (latest) => {
+            setPonds(latest);
+            fetchAllWaterQuality(latest);
+          },
+        });
         setPonds(list);
-        
-        // 更新缓存
-        localStorage.setItem('cached_ponds_data', JSON.stringify({
-             timestamp: Date.now(),
-             ponds: list
-        }));
 
         if (list.length > 0) {
           fetchAllWaterQuality(list);
         }
       } catch {
-        if (!cached) setPonds([]);
+        setPonds([]);
       } finally {
         setLoading(false);
       }
     };
     fetch();
-  }, []);
+  }, [loadPreviews]);
 
   const allSelected = useMemo(() => ponds.length > 0 && selected.size === ponds.length, [ponds, selected]);
 
-  const fetchAllWaterQuality = async (pondList: Pond[]) => {
-    if (!pondList || pondList.length === 0) return;
-    setLoadingWaterQuality(true);
-    try {
-      const tasks = pondList.map(pond =>
-        getRecentWaterQuality(pond.id, 2)
-          .then(res => ({ id: pond.id, data: res.data || [] }))
-          .catch(() => ({ id: pond.id, data: [] }))
-      );
-      const results = await Promise.all(tasks);
-      const map: Record<number, any[]> = {};
-      results.forEach(item => {
-        map[item.id] = item.data;
-      });
-      setWaterQualityData(map);
-    } finally {
-      setLoadingWaterQuality(false);
-    }
-  };
-
   const toggleSelect = (id: number) => {
     setSelected(prev => {
       const next = new Set(prev);
@@ -96,29 +96,49 @@ const DataExport = () => {
     }
   };
 
-  const handleExport = async () => {
-    if (exporting || selected.size === 0) return;
-    setExporting(true);
+  // 每个塘口提交一个导出任务，进度与历史见下方任务列表
+  const handleExport = () => {
+    if (!canExport) return;
+    Array.from(selected).forEach((id) => {
+      const pondName = ponds.find(p => p.id === id)?.name || 'pond';
+      enqueueExport(toExportParams(exportOptions, id), pondName);
+    });
+  };
+
+  // 选中的塘口打包为一个 ZIP（每个塘口一个 xlsx，可附带趋势报告 PDF）
+  const handleExportBundle = async () => {
+    if (!canExport || bundleProgress) return;
+    const targets = ponds.filter(p => selected.has(p.id));
+    const controller = new AbortController();
+    bundleAbortRef.current = controller;
+    setBundleSummary(null);
+    setBundleError('');
+    setBundleProgress({ done: 0, total: targets.length });
     try {
-      for (const id of Array.from(selected)) {
-        const startRes = await startExport({
-          type: DEFAULT_EXPORT_TYPES,
-          pond_id: id,
-          start_time: startTime,
-          end_time: endTime
-        });
-        const jobId = startRes?.job_id || startRes?.data?.job_id || startRes;
-        if (!jobId) continue;
-        const res = await downloadExport(jobId);
-        const pondName = ponds.find(p => p.id === id)?.name || 'pond';
-        const ts = format(new Date(), 'yyyyMMdd_HHmm');
-        downloadBinaryFile(`${pondName}_${id}_${ts}.xlsx`, res.data);
+      const { buffer, fileName, results } = await buildExportBundle({
+        ponds: targets,
+        options: exportOptions,
+        includeTrendReport,
+        signal: controller.signal,
+        onProgress: setBundleProgress,
+      });
+      if (buffer) downloadBinaryFile(fileName, buffer, 'application/zip');
+      setBundleSummary({ results, fileName: buffer ? fileName : undefined });
+    } catch (e) {
+      if (!isExportAbort(e) && !controller.signal.aborted) {
+        console.error('Failed to build export bundle:', e);
+        setBundleError('打包导出失败，请稍后重试');
       }
     } finally {
-      setExporting(false);
+      if (bundleAbortRef.current === controller) bundleAbortRef.current = null;
+      setBundleProgress(null);
     }
   };
 
+  const cancelExportBundle = () => {
+    bundleAbortRef.current?.abort();
+  };
+
   return (
     <div className="flex flex-col h-full bg-transparent">
       <div className="flex items-center justify-between px-8 py-6">
@@ -135,14 +155,63 @@ const DataExport = () => {
           </button>
           <button
             onClick={handleExport}
-            disabled={exporting || selected.size === 0}
-            className={`px-4 py-2 rounded-lg font-bold text-sm ${exporting || selected.size === 0 ? 'bg-gray-300 text-white cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
+            disabled={!canExport}
+            className={`px-4 py-2 rounded-lg font-bold text-sm ${!canExport ? 'bg-gray-300 text-white cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
           >
-            {exporting ? '导出中...' : '导出 Excel 报表'}
+            导出 Excel 报表
           </button>
+          {bundleProgress ? (
+            <button
+              onClick={cancelExportBundle}
+              className="px-4 py-2 rounded-lg font-bold text-sm bg-white text-red-600 border border-red-200 hover:bg-red-50"
+              title={bundleProgress.current ? `正在导出：${bundleProgress.current}` : undefined}
+            >
+              打包中 {bundleProgress.done}/{bundleProgress.total} · 取消
+            </button>
+          ) : (
+            <button
+              onClick={handleExportBundle}
+              disabled={!canExport}
+              className={`px-4 py-2 rounded-lg font-bold text-sm border ${!canExport ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`}
+            >
+              打包下载 ZIP
+            </button>
+          )}
         </div>
       </div>
 
+      <div className="mx-8 bg-white rounded-xl border border-gray-100 shadow-sm px-5 py-4">
+        <ExportOptionsForm value={exportOptions} onChange={setExportOptions} cycles={cycles} />
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 select-none">
+          <input
+            type="checkbox"
+            checked={includeTrendReport}
+            onChange={(e) => setIncludeTrendReport(e.target.checked)}
+            disabled={!!bundleProgress}
+            className="rounded border-gray-300"
+          />
+          打包 ZIP 时附带趋势报告 PDF
+          <span className="text-xs text-gray-400">（按所选时间范围生成，塘口较多时耗时较长）</span>
+          {bundleError && <span className="text-xs text-red-600">{bundleError}</span>}
+        </label>
+      </div>
+
+      {bundleSummary && (
+        <div className="mx-8 mt-3 bg-white rounded-xl border border-gray-100 shadow-sm px-5 py-4">
+          <ExportBundleSummary
+            results={bundleSummary.results}
+            fileName={bundleSummary.fileName}
+            onClose={() => setBundleSummary(null)}
+          />
+        </div>
+      )}
+
+      {jobCount > 0 && (
+        <div className="mx-8 mt-3 bg-white rounded-xl border border-gray-100 shadow-sm px-5 py-4">
+          <ExportJobList />
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto px-8 pt-4 pb-8 custom-scrollbar">
         {loading ? (
           <div className="flex justify-center py-20">
@@ -156,8 +225,11 @@ const DataExport = () => {
                 <PondCard
                   key={pond.id}
                   pond={pond}
+                  cardRef={observeCard(pond.id)}
                   waterQualityData={waterQualityData[pond.id]}
-                  loadingData={loadingWaterQuality && !waterQualityData[pond.id]}
+                  loadingData={isWaterQualityLoading(pond.id)}
+                  loadError={waterQualityErrors[pond.id]}
+                  onRetry={() => retryPreview(pond.id)}
                   selected={checked}
                   selectable
                   clickMode="select"
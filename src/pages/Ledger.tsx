@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis, Legend } from 'recharts';
+import { endOfDay, format, startOfDay, startOfYear, subDays } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Pond } from '@/services/ponds';
+import { TimelineRecord } from '@/services/timeline';
+import { DEFAULT_ASSETS } from '@/config';
+import { fetchDisplayPonds } from '@/utils/pondLoader';
+import { loadTimelineRange } from '@/utils/timelineCache';
+import { useProductionCycles } from '@/hooks/useProductionCycles';
+import { cycleToDateRange, formatCycleRange } from '@/utils/productionCycles';
+import {
+  LEDGER_CATEGORIES,
+  LEDGER_RECORD_TYPES,
+  buildLedger,
+  combineLedgers,
+  getLedgerCategoryColor,
+  getLedgerCategoryName,
+} from '@/utils/ledger';
+import { cn } from '@/lib/utils';
+
+type RangeOption = { key: string; label: string; start: () => string };
+
+const fmtTime = (d: Date) => format(d, 'yyyy-MM-dd HH:mm:ss');
+
+const RANGE_OPTIONS: RangeOption[] = [
+  { key: 'year', label: '今年', start: () => fmtTime(startOfYear(new Date())) },
+  { key: '365d', label: '近一年', start: () => fmtTime(startOfDay(subDays(new Date(), 364))) },
+  // 与数据导出的全量时间范围一致
+  { key: 'all', label: '全部', start: () => '1999-01-01 00:00:00' },
+];
+
+const ALL_PONDS = 'all' as const;
+
+const fmtMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}¥${Math.abs(value).toLocaleString('zh-CN', { maximumFractionDigits: 2 })}`;
+
+/**
+ * 财务台账页面 (Ledger)
+ * 作用：按塘口汇总饵料、投入品、苗种、损失成本与出塘收入，展示毛利与每斤成本
+ * 输入：无 (自动获取用户塘口数据)
+ * 输出：塘口列表、汇总指标、成本构成、累计毛利曲线与收支明细
+ * 逻辑：
+ *  1. 与养殖日历相同的方式按时间范围拉取各塘口记录 (loadTimelineRange)
+ *  2. 各塘口分别汇总 (buildLedger)；选择“全部塘口”时合并各塘口台账 (combineLedgers)
+ *  3. 选中单个塘口时可按养殖周期统计，单独拉取该周期的记录
+ */
+const Ledger = () => {
+  const [ponds, setPonds] = useState<Pond[]>([]);
+  const [pondLoading, setPondLoading] = useState(false);
+  const [selected, setSelected] = useState<number | typeof ALL_PONDS>(ALL_PONDS);
+  const [rangeKey, setRangeKey] = useState('year');
+  const [recordsByPond, setRecordsByPond] = useState<Record<number, TimelineRecord[]>>({});
+  const [dataLoading, setDataLoading] = useState(false);
+  const { cycles } = useProductionCycles(selected === ALL_PONDS ? null : selected);
+  const [cycleId, setCycleId] = useState('');
+  const [cycleRecords, setCycleRecords] = useState<TimelineRecord[]>([]);
+  const [cycleLoading, setCycleLoading] = useState(false);
+  const selectedCycle = useMemo(() => cycles.find((c) => c.id === cycleId) || null, [cycles, cycleId]);
+
+  useEffect(() => {
+    const run = async () => {
+      setPondLoading(true);
+      try {
+        const list = await fetchDisplayPonds({ onRevalidate: setPonds });
+        setPonds(list);
+      } finally {
+        setPondLoading(false);
+      }
+    };
+    run();
+  }, []);
+
+  useEffect(() => {
+    if (ponds.length === 0) return;
+    let cancelled = false;
+    const range = RANGE_OPTIONS.find((r) => r.key === rangeKey) || RANGE_OPTIONS[0];
+    const params = { start_time: range.start(), end_time: fmtTime(endOfDay(new Date())), type: LEDGER_RECORD_TYPES };
+
+    const run = async () => {
+      setDataLoading(true);
+      const results = await Promise.all(
+        ponds.map((pond) =>
+          loadTimelineRange({ ...params, pond_id: pond.id })
+            .then((data) => ({ id: pond.id, data }))
+            .catch((err) => {
+              console.warn(`Failed to fetch ledger records for pond ${pond.id}`, err);
+              return { id: pond.id, data: [] as TimelineRecord[] };
+            })
+        )
+      );
+      if (cancelled) return;
+      const next: Record<number, TimelineRecord[]> = {};
+      results.forEach(({ id, data }) => {
+        next[id] = data;
+      });
+      setRecordsByPond(next);
+      setDataLoading(false);
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [ponds, rangeKey]);
+
+  useEffect(() => {
+    setCycleId('');
+  }, [selected]);
+
+  useEffect(() => {
+    if (!selectedCycle) return;
+    let cancelled = false;
+    const { startDate, endDate } = cycleToDateRange(selectedCycle);
+    setCycleLoading(true);
+    loadTimelineRange({
+      pond_id: selectedCycle.pondId,
+      start_time: fmtTime(startDate),
+      end_time: fmtTime(endDate),
+      type: LEDGER_RECORD_TYPES,
+    })
+      .then((data) => {
+        if (!cancelled) setCycleRecords(data);
+      })
+      .catch((err) => {
+        console.warn(`Failed to fetch ledger records for cycle ${selectedCycle.id}`, err);
+        if (!cancelled) setCycleRecords([]);
+      })
+      .finally(() => {
+        if (!cancelled) setCycleLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCycle]);
+
+  const ledgerByPond = useMemo(() => {
+    const map: Record<number, ReturnType<typeof buildLedger>> = {};
+    Object.entries(recordsByPond).forEach(([id, records]) => {
+      map[Number(id)] = buildLedger(records);
+    });
+    return map;
+  }, [recordsByPond]);
+
+  const ledger = useMemo(() => {
+    if (selectedCycle) return buildLedger(cycleRecords);
+    if (selected === ALL_PONDS) return combineLedgers(Object.values(ledgerByPond));
+    return ledgerByPond[selected] || buildLedger([]);
+  }, [selected, ledgerByPond, selectedCycle, cycleRecords]);
+
+  const pondName = (id: number) => ponds.find((p) => p.id === id)?.name || `塘口${id}`;
+
+  const stats = [
+    { label: '总成本', value: fmtMoney(ledger.totalCost), className: 'text-gray-900' },
+    { label: '总收入', value: fmtMoney(ledger.totalIncome), className: 'text-gray-900' },
+    { label: '毛利', value: fmtMoney(ledger.margin), className: ledger.margin < 0 ? 'text-red-600' : 'text-emerald-600' },
+    {
+      label: '每斤成本',
+      value: ledger.costPerJin === null ? '--' : `¥${ledger.costPerJin.toFixed(2)}`,
+      className: 'text-gray-900',
+    },
+  ];
+
+  const maxCategory = Math.max(1, ...LEDGER_CATEGORIES.map((c) => ledger.byCategory[c]));
+
+  return (
+    <div className="flex h-full bg-transparent overflow-hidden">
+      <div className="w-72 shrink-0 bg-white rounded-md shadow-sm overflow-hidden flex flex-col">
+        <div className="px-5 py-4 border-b border-gray-100">
+          <h1 className="text-lg font-bold text-gray-900">塘口列表</h1>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
+          {pondLoading && ponds.length === 0 ? (
+            <div className="flex items-center justify-center py-10 text-gray-400">
+              <Loader2 className="animate-spin w-5 h-5" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {[ALL_PONDS, ...ponds.map((p) => p.id)].map((id: number | typeof ALL_PONDS) => {
+                const active = id === selected;
+                const pond = id === ALL_PONDS ? null : ponds.find((p) => p.id === id);
+                const pondLedger = id === ALL_PONDS ? null : ledgerByPond[id];
+                return (
+                  <button
+                    key={id}
+                    onClick={() => setSelected(id)}
+                    className={cn(
+                      'w-full flex items-center gap-3 px-3 py-3 rounded-xl border transition-colors text-left',
+                      active ? 'border-blue-200 bg-blue-50' : 'border-gray-100 bg-white hover:bg-gray-50'
+                    )}
+                  >
+                    {pond && (
+                      <div className="w-10 h-10 rounded-full overflow-hidden border border-gray-200 shrink-0 bg-gray-50">
+                        <img
+                          src={pond.picture_url || DEFAULT_ASSETS.POND_AVATAR}
+                          alt={pond.name}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className={cn('text-sm font-semibold truncate', active ? 'text-blue-700' : 'text-gray-800')}>
+                        {pond ? pond.name : '全部塘口'}
+                      </div>
+                      {pondLedger && (
+                        <div className={cn('text-xs truncate', pondLedger.margin < 0 ? 'text-red-500' : 'text-gray-500')}>
+                          毛利 {fmtMoney(pondLedger.margin)}
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 ml-3 bg-white rounded-md shadow-sm overflow-hidden flex flex-col">
+        <div className="px-6 py-5 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-bold text-gray-900">财务台账</h2>
+            <span className="text-sm text-gray-500">{selected === ALL_PONDS ? '全部塘口' : pondName(selected)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGE_OPTIONS.map((r) => (
+              <button
+                key={r.key}
+                onClick={() => {
+                  setRangeKey(r.key);
+                  setCycleId('');
+                }}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg border text-sm',
+                  !selectedCycle && r.key === rangeKey
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'text-gray-700 border-gray-200 hover:bg-gray-50'
+                )}
+              >
+                {r.label}
+              </button>
+            ))}
+            {cycles.length > 0 && (
+              <select
+                value={selectedCycle ? cycleId : ''}
+                onChange={(e) => setCycleId(e.target.value)}
+                title={selectedCycle ? formatCycleRange(selectedCycle) : undefined}
+                className={cn(
+                  'px-2 py-1.5 rounded-lg border text-sm focus:outline-none max-w-[10rem]',
+                  selectedCycle ? 'bg-gray-900 text-white border-gray-900' : 'text-gray-700 border-gray-200'
+                )}
+              >
+                <option value="" className="text-gray-800 bg-white">
+                  养殖周期
+                </option>
+                {cycles
+                  .slice()
+                  .reverse()
+                  .map((c) => (
+                    <option key={c.id} value={c.id} className="text-gray-800 bg-white">
+                      {c.name}
+                    </option>
+                  ))}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {dataLoading || cycleLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="animate-spin text-blue-500 w-8 h-8" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+            <div className="grid grid-cols-4 gap-4">
+              {stats.map((s) => (
+                <div key={s.label} className="rounded-xl border border-gray-100 p-4">
+                  <div className="text-xs text-gray-500">{s.label}</div>
+                  <div className={cn('text-xl font-bold mt-1', s.className)}>{s.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <h3 className="font-bold text-gray-900 mb-3">收支构成</h3>
+                <div className="space-y-3">
+                  {LEDGER_CATEGORIES.map((c) => (
+                    <div key={c}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-600">{getLedgerCategoryName(c)}</span>
+                        <span className="text-gray-900 font-medium">{fmtMoney(ledger.byCategory[c])}</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${(ledger.byCategory[c] / maxCategory) * 100}%`,
+                            backgroundColor: getLedgerCategoryColor(c),
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-400 mt-3">
+                  产量按出塘重量与估算存塘重量合计：{ledger.produced.toFixed(1)} 斤
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-bold text-gray-900 mb-3">累计毛利</h3>
+                {ledger.running.length === 0 ? (
+                  <div className="h-56 flex items-center justify-center text-gray-400 text-sm">暂无收支记录</div>
+                ) : (
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={ledger.running} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                        <XAxis
+                          dataKey="timestamp"
+                          type="number"
+                          scale="time"
+                          domain={['dataMin', 'dataMax']}
+                          tickFormatter={(ts: number) => format(ts, 'MM-dd')}
+                          tick={{ fontSize: 11, fill: '#6b7280' }}
+                        />
+                        <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} width={64} />
+                        <Tooltip
+                          labelFormatter={(ts) => format(Number(ts), 'yyyy-MM-dd')}
+                          formatter={(value) => fmtMoney(Number(value))}
+                        />
+                        <Legend />
+                        <Line type="stepAfter" dataKey="cost" name="累计成本" stroke="#f97316" dot={false} isAnimationActive={false} />
+                        <Line type="stepAfter" dataKey="income" name="累计收入" stroke="#10b981" dot={false} isAnimationActive={false} />
+                        <Line type="stepAfter" dataKey="margin" name="毛利" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {selected === ALL_PONDS && ponds.length > 0 && (
+              <div>
+                <h3 className="font-bold text-gray-900 mb-3">各塘口汇总</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-100">
+                      <th className="py-2 font-medium">塘口</th>
+                      <th className="py-2 font-medium">成本</th>
+                      <th className="py-2 font-medium">收入</th>
+                      <th className="py-2 font-medium">毛利</th>
+                      <th className="py-2 font-medium">每斤成本</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ponds.map((pond) => {
+                      const l = ledgerByPond[pond.id];
+                      if (!l) return null;
+                      return (
+                        <tr key={pond.id} className="border-b border-gray-50 text-gray-800">
+                          <td className="py-2">{pond.name}</td>
+                          <td className="py-2">{fmtMoney(l.totalCost)}</td>
+                          <td className="py-2">{fmtMoney(l.totalIncome)}</td>
+                          <td className={cn('py-2', l.margin < 0 && 'text-red-600')}>{fmtMoney(l.margin)}</td>
+                          <td className="py-2">{l.costPerJin === null ? '--' : `¥${l.costPerJin.toFixed(2)}`}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div>
+              <h3 className="font-bold text-gray-900 mb-3">收支明细</h3>
+              {ledger.entries.length === 0 ? (
+                <div className="text-sm text-gray-400 py-6 text-center">暂无收支记录</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-100">
+                      <th className="py-2 font-medium">日期</th>
+                      <th className="py-2 font-medium">类别</th>
+                      <th className="py-2 font-medium">摘要</th>
+                      <th className="py-2 font-medium text-right">金额</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ledger.entries
+                      .slice()
+                      .reverse()
+                      .map((e) => (
+                        <tr key={`${e.id}-${e.timestamp}`} className="border-b border-gray-50 text-gray-800">
+                          <td className="py-2">{format(e.timestamp, 'yyyy-MM-dd')}</td>
+                          <td className="py-2">
+                            <span className="inline-flex items-center gap-1.5">
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getLedgerCategoryColor(e.category) }} />
+                              {getLedgerCategoryName(e.category)}
+                            </span>
+                          </td>
+                          <td className="py-2 text-gray-500 truncate max-w-xs">{e.summary || '-'}</td>
+                          <td className={cn('py-2 text-right font-medium', e.direction === 'income' ? 'text-emerald-600' : 'text-gray-900')}>
+                            {e.direction === 'income' ? '+' : '-'}
+                            {fmtMoney(e.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ledger;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { loginByPhone, sendSms } from '@/services/auth';
 import { useUserStore } from '@/store/useUserStore';
 import { Loader2 } from 'lucide-react';
@@ -25,6 +25,7 @@ const Login = () => {
   const [pendingAction, setPendingAction] = useState<null | 'sendCode'>(null);
   
   const navigate = useNavigate();
+  const location = useLocation();
   const { setToken, setUser } = useUserStore();
 
   // 倒计时效果处理
@@ -135,8 +136,9 @@ const Login = () => {
           nickname: res.data.nickname,
           avatar_url: res.data.avatar_url,
         });
-        // 跳转至首页
-        navigate('/');
+        // 跳转至来源页面（未登录时被拦截的地址），默认首页
+        const from = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
+        navigate(from ? `${from.pathname}${from.search || ''}` : '/', { replace: true });
       } else {
         setError('登录失败：无效的响应');
       }
@@ -1,24 +1,51 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { createRoot } from 'react-dom/client';
-import { ChevronLeft, ChevronRight, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen } from 'lucide-react';
+import { ChevronLeft, ChevronRight, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen, Plus, Pencil, Trash2, Upload } from 'lucide-react';
 import { Pond, getPondDetail, getBreedingRecords, getTrendData, getFeedTrendData } from '@/services/ponds';
 import { GroupInfo, getGroupInfo, GroupUser } from '@/services/groups';
+import { RecordDetail, RecordKind, TimelineRecord } from '@/services/timeline';
+import { RecordPayload, createRecord, deleteRecord, updateRecord } from '@/services/records';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { subDays, startOfDay, endOfDay, format } from 'date-fns';
 import CustomDatePicker from '@/components/CustomDatePicker';
 import TrendChart from '@/components/TrendChart';
+import PondAnalyticsPanel from '@/components/PondAnalyticsPanel';
+import { ANALYTICS_RECORD_KINDS } from '@/utils/pondAnalytics';
 import { 
   getRecordTypeChineseName, 
   getFullDisplayItems, 
   getRecordIcon, 
-  DisplayItem 
+  getRecordTime,
+  DisplayItem,
+  RecordType
 } from '@/utils/recordUtils';
-import { DEFAULT_EXPORT_TYPES, startExport, downloadExport } from '@/services/export';
-import { downloadBinaryFile, downloadPagedElementsAsPdf } from '@/utils/download';
-import { format as fmt } from 'date-fns';
+import { buildPondReportPdf, loadPondReportData } from '@/utils/pondReport';
+import { PdfRenderer } from '@/utils/download';
+import { isPdfFontUnavailable } from '@/utils/vectorPdf';
+import { ReportSectionKey } from '@/utils/reportSections';
+import { enqueueExport, isExportJobActive } from '@/utils/exportJobs';
+import { useExportJobStore } from '@/store/useExportJobStore';
 import { DEFAULT_ASSETS } from '@/config';
 import { readCachedPondDetail, writeCachedPondDetail } from '@/utils/pondLoader';
+import { invalidatePondTimeline, loadCachedTimeline } from '@/utils/timelineCache';
+import { useThresholdProfile } from '@/hooks/useThresholdProfile';
+import { evaluateWaterQualityRecords } from '@/utils/waterQualityAlerts';
+import WaterQualityAlertList from '@/components/WaterQualityAlertList';
+import ThresholdSettingsModal from '@/components/ThresholdSettingsModal';
+import CycleManagerModal from '@/components/CycleManagerModal';
+import ExportOptionsModal from '@/components/ExportOptionsModal';
+import ReportSectionsModal from '@/components/ReportSectionsModal';
+import { ExportOptions, toExportParams } from '@/utils/exportOptions';
+import { useProductionCycles } from '@/hooks/useProductionCycles';
+import { useRecordEvents } from '@/hooks/useRecordEvents';
+import RecordFormModal from '@/components/RecordFormModal';
+import RecordExportMenu from '@/components/RecordExportMenu';
+import RecordImportModal from '@/components/RecordImportModal';
+import PondFormModal from '@/components/PondFormModal';
+import GroupMemberModal from '@/components/GroupMemberModal';
+import { useUserStore } from '@/store/useUserStore';
+import { GROUP_ROLE_NAMES, getGroupPermissions, getMemberRole } from '@/utils/groupPermissions';
+import { buildOptimisticRecord, mergeSavedRecord } from '@/utils/recordForm';
 
 // FarmingRecord interface for the timeline
 interface FarmingRecord {
@@ -28,9 +55,13 @@ interface FarmingRecord {
   image?: string;
   rawTime?: string; // For sorting
   type: string;
+  kind: RecordType;
   typeName: string;
   displayItems: DisplayItem[];
-  detail: any;
+  detail: RecordDetail;
+  source: TimelineRecord;
+  /** 乐观更新中，等待接口确认 */
+  pending?: boolean;
 }
 
 // Extend Pond to include extra info needed for the view
@@ -39,23 +70,6 @@ interface PondDetailInfo extends Pond {
   groupInfo?: GroupInfo;
 }
 
-// Helper to extract time from record
-const getRecordTime = (detail: any, type: string) => {
-  if (detail.operate_at) return detail.operate_at;
-  
-  const typeBase = type.replace('_data', '');
-  const timeFields: Record<string, string> = {
-      'feeding': 'feed_time',
-      'waterquality': 'measured_at',
-      'lossing': 'lossed_at',
-      'outfishpond': 'outfishpond_at',
-      'seed': 'seeded_at',
-      'patrol': 'created_at'
-  };
-  const field = timeFields[typeBase] || 'created_at';
-  return detail[field] || detail.operate_time || detail.created_at || new Date().toISOString();
-};
-
 const formatTimeDisplay = (timeStr: string) => {
   try {
     const date = new Date(timeStr.replace(/-/g, '/'));
@@ -73,6 +87,34 @@ const formatTimeDisplay = (timeStr: string) => {
   }
 };
 
+const toFarmingRecord = (item: TimelineRecord): FarmingRecord => {
+  const detail = item.detail;
+  const type = item.type;
+  const timeStr = getRecordTime(item) || new Date().toISOString();
+  const { date, time } = formatTimeDisplay(timeStr);
+
+  // Try to find an image
+  const image = detail.image_url || (Array.isArray(detail.images) && detail.images.length > 0 ? detail.images[0] : undefined) || detail.picture_url;
+
+  return {
+    id: detail.id || Math.random(),
+    time,
+    date,
+    image,
+    rawTime: timeStr,
+    type,
+    kind: item.kind,
+    typeName: getRecordTypeChineseName(type),
+    displayItems: getFullDisplayItems(item),
+    detail,
+    source: item,
+  };
+};
+
+// Re-sort all records by time descending
+const sortFarmingRecords = (list: FarmingRecord[]) =>
+  [...list].sort((a, b) => new Date(b.rawTime || '').getTime() - new Date(a.rawTime || '').getTime());
+
 /**
  * 塘口详情页 (PondDetail)
  * 作用：展示特定塘口的详细信息，包括养殖记录、水质趋势图、塘口基本信息及人员。
@@ -94,8 +136,12 @@ const PondDetail = () => {
   const location = useLocation();
   const [pond, setPond] = useState<PondDetailInfo | null>(null);
   const [loadingPond, setLoadingPond] = useState(false);
-  const [exporting, setExporting] = useState(false);
-  const [exportingTrendPdf, setExportingTrendPdf] = useState(false);
+  const exporting = useExportJobStore((s) => s.jobs.some((job) => job.pondId === Number(id) && isExportJobActive(job)));
+  const [exportingReport, setExportingReport] = useState(false);
+  const [showReportSections, setShowReportSections] = useState(false);
+  const [reportError, setReportError] = useState('');
+  // 矢量报告所需的中文字体不可用时，允许用户改用截图方式生成
+  const [reportFontMissing, setReportFontMissing] = useState(false);
   const trendExportRef = useRef<HTMLDivElement | null>(null);
   
   // Records State
@@ -103,14 +149,42 @@ const PondDetail = () => {
   const [recordPage, setRecordPage] = useState(1);
   const [recordHasMore, setRecordHasMore] = useState(true);
   const [recordLoading, setRecordLoading] = useState(false);
+  // Record editing (create / update / delete with optimistic updates)
+  const [recordFormOpen, setRecordFormOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<FarmingRecord | null>(null);
+  const [recordError, setRecordError] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  // 时间线已加载且已确认的记录，用于本地导出 CSV / NDJSON
+  const timelineExportRecords = useMemo(() => records.filter((r) => !r.pending).map((r) => r.source), [records]);
   
   // Trend Chart State
-  const [trendData, setTrendData] = useState<any[]>([]);
+  const [trendData, setTrendData] = useState<TimelineRecord[]>([]);
   const [trendLoading, setTrendLoading] = useState(false);
   const [dateRange, setDateRange] = useState({
     startDate: startOfDay(subDays(new Date(), 6)), // Last 7 days including today
     endDate: endOfDay(new Date())
   });
+  // 水质/投喂记录变更后递增，触发趋势数据重新加载
+  const [trendReloadKey, setTrendReloadKey] = useState(0);
+  // 投喂/测样/投苗/损失/出塘记录变更后递增，触发养殖分析重新计算
+  const [analyticsReloadKey, setAnalyticsReloadKey] = useState(0);
+  // 养殖周期（由投苗/出塘记录推断），可作为趋势图与分析的时间范围
+  const { cycles } = useProductionCycles(id, analyticsReloadKey);
+  const [showCycleManager, setShowCycleManager] = useState(false);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+
+  // Water quality alerts (evaluated against the species threshold profile)
+  const { profileName: thresholdProfileName, profile: thresholdProfile } = useThresholdProfile(pond?.breed_species);
+  const waterQualityAlerts = useMemo(
+    () => evaluateWaterQualityRecords(trendData, thresholdProfile),
+    [trendData, thresholdProfile]
+  );
+  const [showThresholdSettings, setShowThresholdSettings] = useState(false);
+  const [showPondForm, setShowPondForm] = useState(false);
+  const [showMemberManager, setShowMemberManager] = useState(false);
+  const currentUser = useUserStore((state) => state.user);
+  const currentUserId = Number(currentUser?.user_id || currentUser?.id) || null;
+  const memberPermissions = getGroupPermissions(pond?.groupInfo, currentUserId);
 
   // Sidebar visibility states
   const [showLeftPanel, setShowLeftPanel] = useState(true);
@@ -139,8 +213,13 @@ const PondDetail = () => {
     if (!id) return;
     try {
       setRecordLoading(true);
-      const recordsRes = await getBreedingRecords(id, page);
-      const rawList = recordsRes.data && Array.isArray(recordsRes.data) ? recordsRes.data : (Array.isArray(recordsRes) ? recordsRes : []);
+      // 记录列表网络优先，离线时回退到缓存
+      const rawList = await loadCachedTimeline(
+        id,
+        { page },
+        ({ forceNetwork }) => getBreedingRecords(id, page, { force: forceNetwork }),
+        { forceNetwork: true }
+      );
       
       // If no more data
       if (rawList.length === 0) {
@@ -156,39 +235,13 @@ const PondDetail = () => {
         setRecordHasMore(true);
       }
 
-      const newRecords = rawList.map((item: any) => {
-         const detail = item.detail || item;
-         const type = item.type || 'unknown';
-         const timeStr = getRecordTime(detail, type);
-         const { date, time } = formatTimeDisplay(timeStr);
-         
-         // Try to find an image
-         const image = detail.image_url || (Array.isArray(detail.images) && detail.images.length > 0 ? detail.images[0] : undefined) || detail.picture_url;
-         
-         const typeName = getRecordTypeChineseName(type);
-         const displayItems = getFullDisplayItems(detail, type);
-
-         return {
-             id: detail.id || Math.random(),
-             time,
-             date,
-             image,
-             rawTime: timeStr,
-             type,
-             typeName,
-             displayItems,
-             detail
-         };
-      });
+      const newRecords = rawList.map(toFarmingRecord);
 
+      // 实时推送插入新记录后服务端分页会整体后移，追加时按 id 去重
       setRecords(prev => {
-        const combined = isAppend ? [...prev, ...newRecords] : newRecords;
-        // Re-sort all records by time descending
-        return combined.sort((a: FarmingRecord, b: FarmingRecord) => {
-             const timeA = new Date(a.rawTime || '').getTime();
-             const timeB = new Date(b.rawTime || '').getTime();
-             return timeB - timeA;
-        });
+        if (!isAppend) return sortFarmingRecords(newRecords);
+        const loaded = new Set(prev.map((r) => r.id));
+        return sortFarmingRecords([...prev, ...newRecords.filter((r) => !loaded.has(r.id))]);
       });
       setRecordPage(page);
     } catch (err) {
@@ -211,16 +264,15 @@ const PondDetail = () => {
       setPond((prev) => (prev ? prev : { ...statePond }));
     }
 
-    const cachedDetail = readCachedPondDetail(id);
-    if (cachedDetail && String(cachedDetail.id) === String(id)) {
+    readCachedPondDetail(id).then((cachedDetail) => {
+      if (cancelled || !cachedDetail || String(cachedDetail.id) !== String(id)) return;
       setPond((prev) => (prev ? { ...prev, ...cachedDetail } : { ...cachedDetail }));
-    }
+    });
 
     setLoadingPond(true);
     const fetchData = async () => {
       try {
-        const pondRes = await getPondDetail(id);
-        const pondData = pondRes.data as Pond;
+        const pondData = await getPondDetail(id);
         if (cancelled) return;
 
         setPond((prev) => {
@@ -231,9 +283,8 @@ const PondDetail = () => {
 
         if (pondData.group_id) {
           getGroupInfo(pondData.group_id)
-            .then((groupRes: any) => {
+            .then((groupData) => {
               if (cancelled) return;
-              const groupData = groupRes?.data || null;
               setPond((prev) => {
                 if (!prev) return prev;
                 return { ...prev, groupInfo: groupData };
@@ -267,16 +318,120 @@ const PondDetail = () => {
     }
   };
 
+  const openCreateRecord = () => {
+    setEditingRecord(null);
+    setRecordFormOpen(true);
+  };
+
+  const openEditRecord = (record: FarmingRecord) => {
+    setEditingRecord(record);
+    setRecordFormOpen(true);
+  };
+
+  const afterRecordChanged = async (kind: RecordType) => {
+    if (id) await invalidatePondTimeline(id);
+    if (kind === 'waterquality' || kind === 'feeding') {
+      setTrendReloadKey((k) => k + 1);
+    }
+    if (ANALYTICS_RECORD_KINDS.includes(kind)) {
+      setAnalyticsReloadKey((k) => k + 1);
+    }
+  };
+
+  // 批量导入后刷新时间线（回到第一页）及相关图表
+  const handleImported = async (kind: RecordKind) => {
+    await afterRecordChanged(kind);
+    setRecordHasMore(true);
+    fetchRecords(1, false);
+  };
+
+  /**
+   * 提交记录（乐观更新）
+   * 逻辑：先以提交数据更新时间线，接口成功后替换为服务端数据；失败时撤销并提示
+   */
+  const handleRecordSubmit = async (kind: RecordKind, payload: RecordPayload) => {
+    if (!id) return;
+    const previous = editingRecord;
+    const optimistic = buildOptimisticRecord(kind, payload, previous?.source);
+    const optimisticView = { ...toFarmingRecord(optimistic), pending: true };
+    setRecordFormOpen(false);
+    setEditingRecord(null);
+    setRecordError('');
+    setRecords((prev) =>
+      sortFarmingRecords(previous ? prev.map((r) => (r.id === previous.id ? optimisticView : r)) : [optimisticView, ...prev])
+    );
+
+    try {
+      const saved = previous
+        ? await updateRecord(kind, previous.detail.id, payload, previous.type)
+        : await createRecord(kind, id, payload);
+      const confirmed = toFarmingRecord(mergeSavedRecord(optimistic, saved));
+      setRecords((prev) => {
+        // 实时推送可能先于接口返回送达同一条记录：先移除已有的同 id 记录，再替换乐观记录
+        const rest = confirmed.id === optimisticView.id ? prev : prev.filter((r) => r.id !== confirmed.id);
+        return sortFarmingRecords(rest.map((r) => (r.id === optimisticView.id ? confirmed : r)));
+      });
+      afterRecordChanged(kind);
+    } catch (err) {
+      console.error('Error saving record:', err);
+      setRecords((prev) =>
+        sortFarmingRecords(
+          previous
+            ? prev.map((r) => (r.id === optimisticView.id ? previous : r))
+            : prev.filter((r) => r.id !== optimisticView.id)
+        )
+      );
+      setRecordError(previous ? '记录修改失败，已撤销' : '记录保存失败，已撤销');
+    }
+  };
+
+  const handleDeleteRecord = async (record: FarmingRecord) => {
+    if (record.kind === 'unknown' || record.pending || !(record.detail.id > 0)) return;
+    if (!window.confirm(`确定删除这条${record.typeName}吗？`)) return;
+    const kind = record.kind;
+    setRecordError('');
+    setRecords((prev) => prev.filter((r) => r.id !== record.id));
+    try {
+      await deleteRecord(kind, record.detail.id);
+      afterRecordChanged(kind);
+    } catch (err) {
+      console.error('Error deleting record:', err);
+      setRecords((prev) => sortFarmingRecords([...prev, record]));
+      setRecordError('记录删除失败，已恢复');
+    }
+  };
+
+  // 实时推送：其他成员新增/修改/删除的记录合并到时间线，并刷新相关图表
+  useRecordEvents(id ? [id] : [], (event) => {
+    const recordId = event.record.detail.id;
+    if (recordId) {
+      if (event.action === 'deleted') {
+        setRecords((prev) => prev.filter((r) => r.id !== recordId));
+      } else {
+        const view = toFarmingRecord(event.record);
+        setRecords((prev) => {
+          const exists = prev.some((r) => r.id === recordId);
+          const oldest = prev[prev.length - 1];
+          // 早于已加载范围的新记录留给分页加载，避免列表中间出现断档
+          if (!exists && recordHasMore && oldest && new Date(view.rawTime).getTime() < new Date(oldest.rawTime || '').getTime()) {
+            return prev;
+          }
+          return sortFarmingRecords([...prev.filter((r) => r.id !== recordId), view]);
+        });
+      }
+    }
+    afterRecordChanged(event.record.kind);
+  });
+
   // Helper to fetch all pages for trend data
-  const fetchAllTrendData = async (params: any, fetchFn: Function) => {
-    let allData: any[] = [];
+  const fetchAllTrendData = async (params: any, fetchFn: (params: any) => Promise<TimelineRecord[]>) => {
+    let allData: TimelineRecord[] = [];
     let page = 1;
     let hasMore = true;
     const pageSize = 100; // Use larger page size for trend data to reduce requests
 
     while (hasMore) {
-      const res = await fetchFn({ ...params, page, page_size: pageSize });
-      const data = Array.isArray(res.data) ? res.data : (Array.isArray(res) ? res : []);
+      const data = await fetchFn({ ...params, page, page_size: pageSize });
       
       if (data.length > 0) {
         allData = [...allData, ...data];
@@ -297,297 +452,96 @@ const PondDetail = () => {
 
   // Fetch Trend Data when id or dateRange changes
   useEffect(() => {
-    if (id && dateRange.startDate && dateRange.endDate) {
-      setTrendLoading(true);
-      const fetchTrend = async () => {
-        try {
-          const commonParams = {
-            start_time: format(dateRange.startDate, 'yyyy-MM-dd HH:mm:ss'),
-            end_time: format(dateRange.endDate, 'yyyy-MM-dd HH:mm:ss'),
-            pond_id: parseInt(id),
-          };
-          
-          const [wqData, feedData] = await Promise.all([
-            fetchAllTrendData({ ...commonParams, type: ['waterquality_data'] }, getTrendData),
-            fetchAllTrendData(commonParams, getFeedTrendData)
-          ]);
-          
-          setTrendData([...wqData, ...feedData]);
-        } catch (err) {
-          console.error('Error fetching trend data:', err);
-          setTrendData([]);
-        } finally {
-          setTrendLoading(false);
-        }
-      };
-      fetchTrend();
-    }
-  }, [id, dateRange]);
+    if (!id || !dateRange.startDate || !dateRange.endDate) return;
+    let cancelled = false;
+    // 先展示了过期缓存时，后台刷新结果按序列替换；两个序列都加载完成后才合并展示
+    let loaded: { wq: TimelineRecord[]; feed: TimelineRecord[] } | null = null;
+    const revalidated: { wq?: TimelineRecord[]; feed?: TimelineRecord[] } = {};
+    const publish = () => {
+      if (cancelled || !loaded) return;
+      setTrendData([...(revalidated.wq ?? loaded.wq), ...(revalidated.feed ?? loaded.feed)]);
+    };
 
-  const getRoleName = (user: GroupUser, ownerId: number) => {
-    if (user.id === ownerId) return '创建者';
-    if (user.admin) return '管理员';
-    return '观众';
-  };
+    setTrendLoading(true);
+    const fetchTrend = async () => {
+      try {
+        const commonParams = {
+          start_time: format(dateRange.startDate, 'yyyy-MM-dd HH:mm:ss'),
+          end_time: format(dateRange.endDate, 'yyyy-MM-dd HH:mm:ss'),
+          pond_id: parseInt(id),
+        };
+
+        const [wqData, feedData] = await Promise.all([
+          loadCachedTimeline(
+            id,
+            { ...commonParams, type: ['waterquality_data'], all: true },
+            () => fetchAllTrendData({ ...commonParams, type: ['waterquality_data'] }, getTrendData),
+            {
+              onRevalidate: (latest) => {
+                revalidated.wq = latest;
+                publish();
+              },
+            }
+          ),
+          loadCachedTimeline(
+            id,
+            { ...commonParams, type: ['feed_data'], all: true },
+            () => fetchAllTrendData(commonParams, getFeedTrendData),
+            {
+              onRevalidate: (latest) => {
+                revalidated.feed = latest;
+                publish();
+              },
+            }
+          ),
+        ]);
+
+        loaded = { wq: wqData, feed: feedData };
+        publish();
+      } catch (err) {
+        console.error('Error fetching trend data:', err);
+        if (!cancelled) setTrendData([]);
+      } finally {
+        if (!cancelled) setTrendLoading(false);
+      }
+    };
+    fetchTrend();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, dateRange, trendReloadKey]);
+
+  const getRoleName = (user: GroupUser, ownerId: number) => GROUP_ROLE_NAMES[getMemberRole(user, ownerId)];
 
-  const handleExport = async () => {
+  // 提交导出任务，完成后自动下载；进度与历史见数据导出页
+  const handleExport = (options: ExportOptions) => {
     if (!id || exporting) return;
-    setExporting(true);
-    try {
-      const startRes = await startExport({
-        type: DEFAULT_EXPORT_TYPES,
-        pond_id: parseInt(id),
-        start_time: '1999-01-01 00:00:00',
-        end_time: '2029-01-31 00:00:00'
-      });
-      const jobId = startRes?.job_id || startRes?.data?.job_id || startRes;
-      if (!jobId) return;
-      const res = await downloadExport(jobId);
-      const name = pond?.name || 'pond';
-      const ts = fmt(new Date(), 'yyyyMMdd_HHmm');
-      downloadBinaryFile(`${name}_${id}_${ts}.xlsx`, res.data);
-    } finally {
-      setExporting(false);
-    }
+    enqueueExport(toExportParams(options, parseInt(id)), pond?.name || 'pond');
+    setShowExportOptions(false);
   };
 
-  /**
-   * 文件名片段清洗
-   * 作用：过滤 Windows/浏览器下载文件名中的非法字符，避免下载失败。
-   * 输入：任意字符串
-   * 输出：可用于文件名的安全字符串
-   */
-  const sanitizeFilenamePart = (input: string) => {
-    return String(input || 'pond').replace(/[\\/:*?"<>|]/g, '_').trim() || 'pond';
-  };
+  // 按所选章节加载数据并生成报告；趋势图复用当前已加载的水质/投喂记录
+  const handleExportReport = async (sections: ReportSectionKey[], renderer: PdfRenderer = 'vector') => {
+    if (!id || !pond || exportingReport) return;
 
-  const handleExportTrendPdf = async () => {
-    if (!id) return;
-    if (exportingTrendPdf) return;
-    if (trendLoading) return;
-    if (!trendData || trendData.length === 0) return;
-
-    setExportingTrendPdf(true);
-    /**
-     * PDF 导出专用趋势图二次渲染容器
-     * 作用：按 PDF 页面宽度重新渲染趋势图，让横轴刻度间距按导出宽度重新计算，避免裁切/重叠
-     * 输入：trendData（趋势数据）、导出目标宽度（px）
-     * 输出：离屏渲染后的图表节点列表（用于后续分页截图）
-     */
-    const exportHost = document.createElement('div');
-    const exportRoot = createRoot(exportHost);
+    setExportingReport(true);
+    setReportError('');
+    setReportFontMissing(false);
     try {
-      // A4 纵向宽度约为 595.28pt，浏览器 96dpi 下换算为 px：pt * 96 / 72
-      const exportWidthPx = Math.round((595.28 * 96) / 72);
-      exportHost.style.position = 'fixed';
-      exportHost.style.left = '-100000px';
-      exportHost.style.top = '0';
-      exportHost.style.width = `${exportWidthPx}px`;
-      exportHost.style.backgroundColor = '#ffffff';
-      exportHost.style.padding = '0';
-      exportHost.style.margin = '0';
-      exportHost.style.boxSizing = 'border-box';
-      exportHost.style.pointerEvents = 'none';
-      exportHost.style.zIndex = '-1';
-      document.body.appendChild(exportHost);
-
-      const name = sanitizeFilenamePart(pond?.name || 'pond');
-      const start = dateRange?.startDate ? format(dateRange.startDate, 'yyyyMMdd') : 'start';
-      const end = dateRange?.endDate ? format(dateRange.endDate, 'yyyyMMdd') : 'end';
-      const ts = fmt(new Date(), 'yyyyMMdd_HHmm');
-      const filename = `${name}_${id}_${start}-${end}_智能养殖报告_${ts}.pdf`;
-
-      exportRoot.render(
-        <div style={{ width: `${exportWidthPx}px`, padding: '0', margin: '0' }}>
-          <TrendChart data={trendData} loading={false} exportMode exportWidthPx={exportWidthPx} />
-        </div>
-      );
-
-      const waitForCharts = async () => {
-        for (let i = 0; i < 30; i++) {
-          const nodes = exportHost.querySelectorAll('[data-trend-export-item="true"]');
-          const list = Array.from(nodes) as HTMLElement[];
-          const ready = list.length > 0 && list.every((n) => (n.getBoundingClientRect().width || 0) > 0);
-          if (ready) return list;
-          await new Promise<void>((resolve) => setTimeout(resolve, 50));
-        }
-        return Array.from(exportHost.querySelectorAll('[data-trend-export-item="true"]')) as HTMLElement[];
-      };
-
-      const items = await waitForCharts();
-      const startText = dateRange?.startDate ? format(dateRange.startDate, 'yyyy-MM-dd') : '--';
-      const endText = dateRange?.endDate ? format(dateRange.endDate, 'yyyy-MM-dd') : '--';
-      const reportNo = `${fmt(new Date(), 'yyyyMMddHHmmssSSS')}${String(id).padStart(4, '0')}`;
-      await downloadPagedElementsAsPdf({
-        elements: items,
-        filename,
-        orientation: 'portrait',
-        format: 'a4',
-        marginPt: 0,
-        itemsPerPage: ({ pageIndex }) => (pageIndex === 0 ? 3 : 4),
-        ignoreSelector: '[data-export-ignore="true"]',
-        wrapperWidthPx: exportWidthPx,
-        chartHeightPx: 0,
-        watermarkText: '塘前燕数据验证中心',
-        watermarkOpacity: 0.12,
-        watermarkFontSizePx: 26,
-        watermarkGapPx: 120,
-        headerBuilder: ({ pageIndex, totalPages }) => {
-          const header = document.createElement('div');
-          header.style.display = 'flex';
-          header.style.flexDirection = 'column';
-          header.style.gap = '8px';
-          header.style.padding = '14px 16px 10px 16px';
-          header.style.borderBottom = '1px solid #e5e7eb';
-          header.style.backgroundColor = '#ffffff';
-          header.style.boxSizing = 'border-box';
-
-          const topRow = document.createElement('div');
-          topRow.style.display = 'flex';
-          topRow.style.alignItems = 'center';
-          topRow.style.justifyContent = 'space-between';
-          topRow.style.gap = '10px';
-
-          const brand = document.createElement('div');
-          brand.style.display = 'flex';
-          brand.style.alignItems = 'center';
-          brand.style.gap = '10px';
-
-          const logoWrap = document.createElement('div');
-          logoWrap.style.width = '40px';
-          logoWrap.style.height = '40px';
-          logoWrap.style.borderRadius = '10px';
-          logoWrap.style.backgroundColor = '#2563eb';
-          logoWrap.style.display = 'flex';
-          logoWrap.style.alignItems = 'center';
-          logoWrap.style.justifyContent = 'center';
-
-          const logo = document.createElement('img');
-          logo.src = '/favicon.svg';
-          logo.alt = 'logo';
-          logo.style.width = '24px';
-          logo.style.height = '24px';
-          logo.style.display = 'block';
-
-          const brandText = document.createElement('img');
-          brandText.src = '/tangqianyan-text.svg';
-          brandText.alt = '塘前燕';
-          brandText.style.height = '22px';
-          brandText.style.display = 'block';
-
-          logoWrap.appendChild(logo);
-          brand.appendChild(logoWrap);
-          brand.appendChild(brandText);
-
-          const meta = document.createElement('div');
-          meta.style.display = 'flex';
-          meta.style.flexDirection = 'column';
-          meta.style.alignItems = 'flex-end';
-          meta.style.gap = '2px';
-          meta.style.fontSize = '13px';
-          meta.style.color = '#374151';
-
-          const range = document.createElement('div');
-          range.textContent = `${startText} ~ ${endText}`;
-          range.style.fontWeight = '600';
-
-          const no = document.createElement('div');
-          no.textContent = `报告编号：${reportNo}  |  第${pageIndex + 1}/${totalPages}页`;
-
-          meta.appendChild(range);
-          meta.appendChild(no);
-
-          topRow.appendChild(brand);
-          topRow.appendChild(meta);
-
-          const title = document.createElement('div');
-          title.textContent = '智能养殖报告';
-          title.style.fontSize = '32px';
-          title.style.fontWeight = '800';
-          title.style.color = '#111827';
-          title.style.textAlign = 'center';
-          title.style.marginTop = '2px';
-
-          header.appendChild(topRow);
-          header.appendChild(title);
-
-          if (pageIndex === 0) {
-            const blockTitle = document.createElement('div');
-            blockTitle.textContent = '基本信息';
-            blockTitle.style.fontSize = '16px';
-            blockTitle.style.fontWeight = '800';
-            blockTitle.style.color = '#111827';
-            blockTitle.style.marginTop = '4px';
-
-            const table = document.createElement('table');
-            table.style.width = '100%';
-            table.style.borderCollapse = 'collapse';
-            table.style.tableLayout = 'fixed';
-            table.style.fontSize = '14px';
-            table.style.color = '#111827';
-
-            const makeRow = (l1: string, v1: string, l2: string, v2: string) => {
-              const tr = document.createElement('tr');
-              const cells = [
-                { text: l1, isLabel: true },
-                { text: v1, isLabel: false },
-                { text: l2, isLabel: true },
-                { text: v2, isLabel: false },
-              ];
-              cells.forEach((c) => {
-                const td = document.createElement('td');
-                td.textContent = c.text || '-';
-                td.style.border = '1px solid #d1d5db';
-                td.style.padding = '9px 12px';
-                td.style.verticalAlign = 'middle';
-                td.style.wordBreak = 'break-all';
-                if (c.isLabel) {
-                  td.style.width = '14%';
-                  td.style.backgroundColor = '#f9fafb';
-                  td.style.color = '#374151';
-                  td.style.fontWeight = '700';
-                } else {
-                  td.style.width = '36%';
-                  td.style.fontWeight = '600';
-                }
-                tr.appendChild(td);
-              });
-              return tr;
-            };
-
-            const exportAt = fmt(new Date(), 'yyyy-MM-dd HH:mm');
-            const locationText = `${pond?.province || ''}${pond?.city || ''}${pond?.district || ''}` || '-';
-            const members = Array.isArray(pond?.groupInfo?.user_ids) ? pond.groupInfo!.user_ids : [];
-            const memberText =
-              members
-                .map((u) => String(u?.nickname || '').trim())
-                .filter(Boolean)
-                .join('、') || '-';
-
-            table.appendChild(makeRow('塘口名称', pond?.name || '-', '塘口成员', memberText));
-            table.appendChild(makeRow('养殖品种', pond?.breed_species || '-', '养殖方式', pond?.breed_type || '-'));
-            table.appendChild(makeRow('地理位置', locationText, '养殖面积', pond?.breed_area != null ? `${pond.breed_area}亩` : '-'));
-            table.appendChild(makeRow('最大水深', pond?.max_depth != null ? `${pond.max_depth}米` : '-', '导出时间', exportAt));
-
-            header.appendChild(blockTitle);
-            header.appendChild(table);
-          }
-
-          return header;
-        },
+      const data = await loadPondReportData({
+        pondId: Number(id),
+        pond,
+        range: dateRange,
+        sections,
+        trendRecords: trendLoading ? undefined : trendData,
       });
+      await buildPondReportPdf({ pondId: id, pond, range: dateRange, sections, data, thresholds: thresholdProfile, renderer });
+      setShowReportSections(false);
+    } catch (e: any) {
+      setReportFontMissing(isPdfFontUnavailable(e));
+      setReportError(e?.message || '报告生成失败，请稍后重试');
     } finally {
-      try {
-        exportRoot.unmount();
-      } catch {
-        // ignore
-      }
-      try {
-        exportHost.remove();
-      } catch {
-        // ignore
-      }
-      setExportingTrendPdf(false);
+      setExportingReport(false);
     }
   };
 
@@ -628,9 +582,43 @@ const PondDetail = () => {
              */}
            </div>
 
-           <div className="p-4 pb-2">
+           <div className="p-4 pb-2 flex items-center justify-between">
              <h3 className="font-bold text-gray-900 text-lg">养殖记录</h3>
+             <div className="flex items-center gap-2">
+               <RecordExportMenu
+                 records={timelineExportRecords}
+                 baseName={pond.name || `pond_${id}`}
+                 title={recordHasMore ? `导出已加载的 ${timelineExportRecords.length} 条记录（继续下滑可加载更多）` : '导出全部养殖记录'}
+               />
+               {!pond.is_demo && (
+                 <button
+                   type="button"
+                   onClick={() => setShowImport(true)}
+                   className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 hover:text-blue-600 hover:border-blue-300"
+                   title="从 CSV / Excel 导入历史记录"
+                 >
+                   <Upload size={14} />
+                   导入
+                 </button>
+               )}
+               {!pond.is_demo && (
+                 <button
+                   type="button"
+                   onClick={openCreateRecord}
+                   className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold"
+                 >
+                   <Plus size={14} />
+                   新增记录
+                 </button>
+               )}
+             </div>
            </div>
+           {recordError && (
+             <div className="mx-4 mb-1 px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-600 flex items-center justify-between">
+               <span>{recordError}</span>
+               <button type="button" onClick={() => setRecordError('')} className="text-red-400 hover:text-red-600">知道了</button>
+             </div>
+           )}
            <div 
              className="flex-1 overflow-y-auto p-4 custom-scrollbar"
              onScroll={handleScroll}
@@ -680,10 +668,32 @@ const PondDetail = () => {
 
                            {/* Right: Card */}
                            <div className="flex-1 pb-6 pl-2 min-w-0">
-                               <div className="bg-[#f5f9ff] rounded-xl border border-gray-200 overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer">
+                               <div className={`bg-[#f5f9ff] rounded-xl border border-gray-200 overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer ${record.pending ? 'opacity-60' : ''}`}>
                                    {/* Header */}
                                    <div className="bg-[#bae4fa] px-3 py-2 flex justify-between items-center">
                                        <span className="font-bold text-sm text-gray-800">{record.typeName}</span>
+                                       {record.pending ? (
+                                           <span className="text-[10px] text-gray-500">保存中...</span>
+                                       ) : !pond.is_demo && record.kind !== 'unknown' && record.detail.id > 0 && (
+                                           <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                               <button
+                                                 type="button"
+                                                 onClick={() => openEditRecord(record)}
+                                                 className="p-1 rounded text-gray-600 hover:bg-white/60"
+                                                 title="修改"
+                                               >
+                                                 <Pencil size={12} />
+                                               </button>
+                                               <button
+                                                 type="button"
+                                                 onClick={() => handleDeleteRecord(record)}
+                                                 className="p-1 rounded text-gray-600 hover:bg-white/60 hover:text-red-600"
+                                                 title="删除"
+                                               >
+                                                 <Trash2 size={12} />
+                                               </button>
+                                           </div>
+                                       )}
                                    </div>
                                    {/* Body */}
                                    <div className="p-3 text-xs space-y-1.5">
@@ -754,10 +764,17 @@ const PondDetail = () => {
              {/* Chart Header with Title and DatePicker */}
              <div className="flex justify-end items-center mb-6 z-10 relative">
                 <h2 className="text-2xl font-bold text-gray-900 absolute left-1/2 -translate-x-1/2">水质趋势图</h2>
+                <button
+                  onClick={() => setShowCycleManager(true)}
+                  className="mr-3 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  周期管理
+                </button>
                 <div className="w-[300px]">
                    <CustomDatePicker 
                      value={dateRange}
                      onChange={setDateRange}
+                     cycles={cycles}
                    />
                 </div>
              </div>
@@ -765,7 +782,7 @@ const PondDetail = () => {
              {/* Trend Chart Component */}
              <div className="flex-1 w-full min-h-0 z-10 relative">
                 <div className="relative z-10 h-full">
-                  <TrendChart data={trendData} loading={trendLoading} />
+                  <TrendChart data={trendData} loading={trendLoading} thresholds={thresholdProfile} />
                 </div>
              </div>
            </div>
@@ -777,7 +794,17 @@ const PondDetail = () => {
         >
            {/* Staff Section */}
            <div className="mb-8">
-              <h3 className="font-bold text-gray-900 mb-4 text-lg">塘口人员</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-gray-900 text-lg">塘口人员</h3>
+                {pond.groupInfo && memberPermissions.canInvite && (
+                  <button
+                    onClick={() => setShowMemberManager(true)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    成员管理
+                  </button>
+                )}
+              </div>
               <div className="grid grid-cols-4 gap-2">
                  {pond.groupInfo && pond.groupInfo.user_ids ? (
                    pond.groupInfo.user_ids.map((user) => (
@@ -802,9 +829,38 @@ const PondDetail = () => {
               </div>
            </div>
 
+           {/* Water Quality Alerts Section */}
+           <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-gray-900 text-lg">水质告警</h3>
+                <button
+                  onClick={() => setShowThresholdSettings(true)}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  阈值设置
+                </button>
+              </div>
+              <WaterQualityAlertList alerts={waterQualityAlerts} loading={trendLoading} />
+           </div>
+
+           {/* Analytics Section */}
+           <div className="mb-8">
+              <PondAnalyticsPanel pondId={id} reloadKey={analyticsReloadKey} cycles={cycles} />
+           </div>
+
            {/* Pond Info Section */}
            <div className="mb-8 flex-1">
-              <h3 className="font-bold text-gray-900 mb-4 text-lg">塘口信息</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-gray-900 text-lg">塘口信息</h3>
+                {!pond.is_demo && (
+                  <button
+                    onClick={() => setShowPondForm(true)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    编辑
+                  </button>
+                )}
+              </div>
               <div className="space-y-3 text-sm">
                  <div className="flex">
                    <span className="text-gray-500 w-20 shrink-0">名称 :</span>
@@ -840,22 +896,85 @@ const PondDetail = () => {
            {/* Export Button */}
            <div className="mt-auto pt-4">
               <button
-                onClick={handleExportTrendPdf}
-                disabled={exportingTrendPdf || trendLoading || !trendData || trendData.length === 0}
+                onClick={() => {
+                  setReportError('');
+                  setReportFontMissing(false);
+                  setShowReportSections(true);
+                }}
+                disabled={exportingReport}
                 className={`w-full border rounded-lg py-2.5 font-bold transition-colors flex items-center justify-center gap-2 mb-2 ${
-                  exportingTrendPdf || trendLoading || !trendData || trendData.length === 0
+                  exportingReport
                     ? 'border-gray-300 text-gray-400 cursor-not-allowed'
                     : 'border-blue-600 text-blue-600 hover:bg-blue-50'
                 }`}
               >
-                 {exportingTrendPdf ? '生成中...' : '报告导出'}
+                 {exportingReport ? '生成中...' : '报告导出'}
               </button>
-              <button onClick={handleExport} disabled={exporting} className={`w-full border rounded-lg py-2.5 font-bold transition-colors flex items-center justify-center gap-2 ${exporting ? 'border-gray-300 text-gray-400 cursor-not-allowed' : 'border-gray-900 text-gray-900 hover:bg-gray-50'}`}>
+              <button onClick={() => setShowExportOptions(true)} disabled={exporting} className={`w-full border rounded-lg py-2.5 font-bold transition-colors flex items-center justify-center gap-2 ${exporting ? 'border-gray-300 text-gray-400 cursor-not-allowed' : 'border-gray-900 text-gray-900 hover:bg-gray-50'}`}>
                  {exporting ? '导出中...' : '数据导出'}
               </button>
            </div>
         </div>
       </div>
+
+      <ThresholdSettingsModal
+        open={showThresholdSettings}
+        profileName={thresholdProfileName}
+        onClose={() => setShowThresholdSettings(false)}
+      />
+      <ReportSectionsModal
+        open={showReportSections}
+        rangeText={`${format(dateRange.startDate, 'yyyy-MM-dd')} ~ ${format(dateRange.endDate, 'yyyy-MM-dd')}`}
+        exporting={exportingReport}
+        error={reportError}
+        onClose={() => setShowReportSections(false)}
+        onConfirm={(sections) => handleExportReport(sections)}
+        onConfirmRaster={reportFontMissing ? (sections) => handleExportReport(sections, 'raster') : undefined}
+      />
+      <ExportOptionsModal
+        open={showExportOptions}
+        cycles={cycles}
+        exporting={exporting}
+        onClose={() => setShowExportOptions(false)}
+        onConfirm={handleExport}
+      />
+      <CycleManagerModal
+        open={showCycleManager}
+        pondId={id}
+        cycles={cycles}
+        onClose={() => setShowCycleManager(false)}
+      />
+      {pond.groupInfo && (
+        <GroupMemberModal
+          open={showMemberManager}
+          group={pond.groupInfo}
+          currentUserId={currentUserId}
+          onClose={() => setShowMemberManager(false)}
+          onChange={(groupInfo) => setPond((prev) => (prev ? { ...prev, groupInfo } : prev))}
+        />
+      )}
+      <PondFormModal
+        open={showPondForm}
+        pond={pond}
+        onClose={() => setShowPondForm(false)}
+        onSaved={(saved) => {
+          setShowPondForm(false);
+          setPond((prev) => (prev ? { ...prev, ...saved } : { ...saved }));
+        }}
+      />
+      <RecordFormModal
+        open={recordFormOpen}
+        record={editingRecord?.source}
+        onClose={() => setRecordFormOpen(false)}
+        onSubmit={handleRecordSubmit}
+      />
+      <RecordImportModal
+        open={showImport}
+        pondId={Number(id)}
+        pondName={pond.name}
+        onClose={() => setShowImport(false)}
+        onImported={handleImported}
+      />
     </div>
   );
 };
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useUserStore } from '@/store/useUserStore';
 import { getUserInfo } from '@/services/users';
 import { Pond } from '@/services/ponds';
+import { GroupInfo } from '@/services/groups';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { DEFAULT_ASSETS } from '@/config';
 import { fetchAllGroups } from '@/utils/groupsLoader';
@@ -25,10 +26,8 @@ const Profile: React.FC = () => {
       if (!user?.user_id) return;
       setLoadingUser(true);
       try {
-        const res = await getUserInfo(user.user_id);
-        if (res && res.data) {
-          setUser({ ...user, ...res.data });
-        }
+        const info = await getUserInfo(user.user_id);
+        setUser({ ...user, ...info });
       } catch (e) {
         console.error('Failed to fetch user info in profile:', e);
       } finally {
@@ -38,7 +37,7 @@ const Profile: React.FC = () => {
     fetchUser();
   }, [user?.user_id]);
 
-  const calculateStats = (ponds: any[], groups: any[]) => {
+  const calculateStats = (ponds: Pond[], groups: GroupInfo[]) => {
     const allPondIds = new Set<number>();
     ponds.forEach((p: any) => {
       if (p && p.id != null) {
@@ -94,46 +93,21 @@ const Profile: React.FC = () => {
       if (!user?.user_id) return;
       setLoadingStats(true);
       
-      const groupsPromise = fetchAllGroups();
-      const displayPondsPromise = fetchDisplayPonds();
-      
-      // 1. 尝试从缓存加载 Ponds，并结合实时的 Groups
-      const cached = localStorage.getItem('cached_ponds_data');
-      if (cached) {
-          try {
-              const { ponds: cachedPonds } = JSON.parse(cached);
-              if (Array.isArray(cachedPonds)) {
-                  // 等待 groups 返回
-                  const groups = await groupsPromise;
-                  calculateStats(cachedPonds, groups);
-                  // 缓存命中且计算成功后，结束 loading
-                  setLoadingStats(false); 
-              }
-          } catch (e) {
-              console.warn('Failed to parse cached ponds', e);
-          }
-      }
-
       try {
-        // 2. 等待最新的 Ponds 数据
+        // 离线数据层优先返回缓存，过期时后台刷新后重新计算
         const [ponds, groups] = await Promise.all([
-          displayPondsPromise,
-          groupsPromise 
+          fetchDisplayPonds({
+            onRevalidate: (latest) => {
+              fetchAllGroups().then((latestGroups) => calculateStats(latest, latestGroups));
+            },
+          }),
+          fetchAllGroups(),
         ]);
-        
+
         calculateStats(ponds, groups);
-        
-        // 更新缓存
-        localStorage.setItem('cached_ponds_data', JSON.stringify({
-             timestamp: Date.now(),
-             ponds: ponds
-        }));
-        
       } catch (e) {
         console.error('Failed to load pond statistics:', e);
-        if (!cached) {
-            setStats({ created: 0, joined: 0 });
-        }
+        setStats({ created: 0, joined: 0 });
       } finally {
         setLoadingStats(false);
       }
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { getPondDetail } from '@/services/ponds';
+import { ReportVerifyResult, parseReportNo, verifyReport } from '@/utils/reportVerification';
+
+interface VerifyForm {
+  reportNo: string;
+  from: string;
+  to: string;
+  digest: string;
+}
+
+// 报告二维码链接参数：no / from / to / h
+const readVerifyForm = (params: URLSearchParams): VerifyForm => ({
+  reportNo: params.get('no') || '',
+  from: params.get('from') || '',
+  to: params.get('to') || '',
+  digest: params.get('h') || '',
+});
+
+/**
+ * 报告验证页面 (VerifyReport)
+ * 作用：确认 PDF 报告的报告编号与数据指纹，与该塘口在报告时间范围内的当前数据一致
+ * 输入：URL 参数 no / from / to / h（报告二维码链接），或手动填写报告上印制的信息
+ * 输出：验证结果（一致 / 不一致）与重新计算的指纹
+ * 逻辑：
+ *  1. 从报告编号解析塘口，直接向服务器加载时间范围内全部记录（不使用缓存），重新计算 SHA-256 (verifyReport)
+ *  2. 通过二维码打开时自动验证一次
+ */
+const VerifyReport = () => {
+  const [searchParams] = useSearchParams();
+  const [form, setForm] = useState<VerifyForm>(() => readVerifyForm(searchParams));
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<(ReportVerifyResult & { from: string; to: string }) | null>(null);
+  const [pondName, setPondName] = useState('');
+
+  const runVerify = useCallback(async (value: VerifyForm) => {
+    setVerifying(true);
+    setError('');
+    setResult(null);
+    setPondName('');
+    try {
+      const res = await verifyReport(value);
+      setResult({ ...res, from: value.from, to: value.to });
+      getPondDetail(res.pondId)
+        .then((pond) => setPondName(pond.name))
+        .catch(() => undefined);
+    } catch (e: any) {
+      setError(e?.message || '验证失败，请稍后重试');
+    } finally {
+      setVerifying(false);
+    }
+  }, []);
+
+  // 扫码打开时参数齐全，自动验证
+  useEffect(() => {
+    const fromLink = readVerifyForm(searchParams);
+    if (!fromLink.reportNo || !fromLink.from || !fromLink.to || !fromLink.digest) return;
+    setForm(fromLink);
+    runVerify(fromLink);
+  }, [searchParams, runVerify]);
+
+  const update = (key: keyof VerifyForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const issuedAt = parseReportNo(form.reportNo)?.issuedAt;
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="mx-auto max-w-2xl space-y-4 rounded-md bg-white p-6 shadow-sm">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-6 w-6 text-blue-600" />
+          <h1 className="text-lg font-bold text-gray-900">报告验证</h1>
+        </div>
+        <p className="text-sm text-gray-500">
+          填写报告页眉上的报告编号、时间范围与首页的数据指纹，或直接扫描报告二维码打开本页。系统将按当前数据重新计算指纹并比对。
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 space-y-1">
+            <span className="text-sm font-medium text-gray-700">报告编号</span>
+            <input className={inputClass} value={form.reportNo} onChange={update('reportNo')} placeholder="如 202610180930151230042" />
+            {issuedAt && <span className="text-xs text-gray-400">生成时间：{format(issuedAt, 'yyyy-MM-dd HH:mm:ss')}</span>}
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm font-medium text-gray-700">开始日期</span>
+            <input type="date" className={inputClass} value={form.from} onChange={update('from')} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm font-medium text-gray-700">结束日期</span>
+            <input type="date" className={inputClass} value={form.to} onChange={update('to')} />
+          </label>
+          <label className="col-span-2 space-y-1">
+            <span className="text-sm font-medium text-gray-700">数据指纹（SHA-256）</span>
+            <input className={`${inputClass} font-mono`} value={form.digest} onChange={update('digest')} placeholder="64 位十六进制字符" />
+          </label>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => runVerify(form)}
+          disabled={verifying}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {verifying && <Loader2 className="h-4 w-4 animate-spin" />}
+          {verifying ? '验证中...' : '验证'}
+        </button>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {result && result.status === 'match' && (
+          <div className="flex gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+            <CheckCircle2 className="h-5 w-5 shrink-0" />
+            <div>
+              <div className="font-bold">验证通过</div>
+              <div className="mt-1">
+                报告编号与数据指纹和塘口「{pondName || result.pondId}」在 {result.from} ~ {result.to} 的 {result.recordCount}{' '}
+                条记录一致，报告生成后数据未被修改。
+              </div>
+            </div>
+          </div>
+        )}
+
+        {result && result.status === 'mismatch' && (
+          <div className="flex gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+            <XCircle className="h-5 w-5 shrink-0" />
+            <div className="min-w-0">
+              <div className="font-bold">数据不一致</div>
+              <div className="mt-1">
+                塘口「{pondName || result.pondId}」在 {result.from} ~ {result.to} 的当前 {result.recordCount}{' '}
+                条记录与报告指纹不符：报告编号、时间范围或指纹填写有误，报告内容被改动，或报告生成后该时间范围内的记录有增删改。
+              </div>
+              <div className="mt-2 break-all font-mono text-xs text-red-700">当前数据指纹：{result.digest}</div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyReport;
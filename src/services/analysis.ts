@@ -1,10 +1,27 @@
 import api from './api';
+import { readData } from './envelope';
+import { Parser, isPlainObject, s } from './schema';
+import { TimelineRecord } from './timeline';
+import { TimelineQueryOptions, queryTimeline } from './timelineQuery';
 
-const extractTextFromResponse = (payload: any) => {
+export interface AnalysisTextResult {
+  raw: unknown;
+  text: string;
+}
+
+// AI 文本可能位于 payload.text 或 payload.data.text，也可能 data 本身就是文本；
+// 无内容时后端会返回 data: null，演示接口还会返回空数组等非对象值，均视为无内容
+const analysisTextSchema: Parser<{ text?: string }> = (input, path) => {
+  if (typeof input === 'string') return { text: input };
+  if (!isPlainObject(input)) return {};
+  return s.object<{ text?: string }>({ text: s.optional(s.string()) })(input, path);
+};
+
+const extractTextFromResponse = (endpoint: string, payload: unknown) => {
   if (!payload) return '';
-  if (typeof payload?.text === 'string') return payload.text;
-  if (typeof payload?.data?.text === 'string') return payload.data.text;
-  return '';
+  // 部分接口不带 data 包装，直接返回 { text }
+  if (isPlainObject(payload) && typeof payload.text === 'string') return payload.text;
+  return readData(endpoint, payload, analysisTextSchema).text || '';
 };
 
 export const getTimelineData = async (params: {
@@ -12,9 +29,8 @@ export const getTimelineData = async (params: {
   start_time?: string;
   end_time?: string;
   type?: string | string[];
-}) => {
-  const response = await api.post('/query/timeline', params);
-  return response.data;
+}, options: TimelineQueryOptions = {}): Promise<TimelineRecord[]> => {
+  return queryTimeline(params, options);
 };
 
 export const getAiAnalysisText = async (params: {
@@ -23,7 +39,7 @@ export const getAiAnalysisText = async (params: {
   end_time: string;
   type: string | string[];
   is_demo?: boolean;
-}) => {
+}): Promise<AnalysisTextResult> => {
   const endpoint = params.is_demo ? '/statistics/analysis_text_demo' : '/statistics/analysis_text';
   const typeArr = Array.isArray(params.type) ? params.type : [params.type];
   const response = await api.post(endpoint, {
@@ -34,7 +50,7 @@ export const getAiAnalysisText = async (params: {
   });
   return {
     raw: response.data,
-    text: extractTextFromResponse(response.data),
+    text: extractTextFromResponse(`POST ${endpoint}`, response.data),
   };
 };
 
@@ -42,11 +58,11 @@ export const getAnalysisItem = async (params: {
   type: string;
   uuid: string;
   is_demo?: boolean;
-}) => {
+}): Promise<AnalysisTextResult> => {
   const endpoint = params.is_demo ? '/statistics/analysis_item_demo' : '/statistics/analysis_item';
   const response = await api.get(endpoint, { params: { type: params.type, uuid: params.uuid } });
   return {
     raw: response.data,
-    text: extractTextFromResponse(response.data),
+    text: extractTextFromResponse(`GET ${endpoint}`, response.data),
   };
 };
@@ -1,4 +1,5 @@
 import api from './api';
+import { parseWith, s } from './schema';
 
 export interface LoginResponse {
   data: {
@@ -14,6 +15,20 @@ export interface SmsResponse {
   message: string;
 }
 
+const loginResponseSchema = s.object<LoginResponse>({
+  data: s.object<LoginResponse['data']>({
+    token: s.string(),
+    user_id: s.number(),
+    nickname: s.withDefault(s.text(), ''),
+    avatar_url: s.optional(s.string()),
+  }),
+  message: s.withDefault(s.string(), ''),
+});
+
+const smsResponseSchema = s.object<SmsResponse>({
+  message: s.withDefault(s.string(), ''),
+});
+
 /**
  * 发送短信验证码
  * @param phone 手机号
@@ -23,7 +38,7 @@ export const sendSms = async (phone: string): Promise<SmsResponse> => {
   // 使用 baseURL: '/' 覆盖默认的 /api/v1，使请求路径为 /oauth/sms/send
   // 配合 vite.config.ts 中的 proxy 代理 /oauth 到后端
   const response = await api.post('/oauth/sms/send', { phone }, { baseURL: '/' });
-  return response.data;
+  return parseWith('POST /oauth/sms/send', smsResponseSchema, response.data);
 };
 
 /**
@@ -35,5 +50,5 @@ export const sendSms = async (phone: string): Promise<SmsResponse> => {
 export const loginByPhone = async (phone: string, code: string): Promise<LoginResponse> => {
   // 默认 baseURL 为 /api/v1，请求路径拼接为 /api/v1/auth/login/sms
   const response = await api.post('/auth/login/sms', { phone, code });
-  return response.data;
+  return parseWith('POST /auth/login/sms', loginResponseSchema, response.data);
 };
@@ -0,0 +1,96 @@
+import { Parser, parseWith, s } from './schema';
+
+/**
+ * 后端统一响应信封
+ * 形如 { data, message }，部分接口直接返回数据本身
+ */
+export interface ApiEnvelope<T> {
+  data: T;
+  message?: string;
+  code?: number;
+}
+
+/** 分页列表接口的查询参数 */
+export interface PageParams {
+  page?: number;
+  page_size?: number;
+}
+
+/**
+ * 分页列表的统一结构
+ * total / totalPages 在后端未返回时为 null，由调用方自行判断是否继续翻页
+ */
+export interface PagedList<T> {
+  list: T[];
+  total: number | null;
+  totalPages: number | null;
+}
+
+// 列表接口历史上出现过的数组字段名（按优先级）
+const LIST_KEYS = ['list', 'ponds', 'groups', 'records', 'items', 'data'];
+
+const isPlainObject = (input: unknown): input is Record<string, any> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+function unwrap(payload: unknown): { value: unknown; path: string } {
+  if (isPlainObject(payload) && 'data' in payload) {
+    return { value: payload.data, path: 'data' };
+  }
+  return { value: payload, path: '' };
+}
+
+const toCount = (v: unknown) => {
+  const n = typeof v === 'string' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+function readPageInfo(...sources: unknown[]) {
+  let total: number | null = null;
+  let totalPages: number | null = null;
+  sources.forEach((src) => {
+    if (!isPlainObject(src)) return;
+    const info = isPlainObject(src.page_info) ? src.page_info : {};
+    totalPages = totalPages ?? toCount(src.total_pages) ?? toCount(info.total_pages);
+    total = total ?? toCount(src.total) ?? toCount(info.total);
+  });
+  return { total, totalPages };
+}
+
+/**
+ * 读取单个对象型响应
+ * 输入：接口标识、原始响应体、解析器
+ * 输出：信封内 data 经校验后的结果
+ */
+export function readData<T>(endpoint: string, payload: unknown, parser: Parser<T>): T {
+  const { value, path } = unwrap(payload);
+  return parseWith(endpoint, parser, value, path);
+}
+
+/**
+ * 读取列表型响应
+ * 作用：统一处理 data 为数组 / data.list / data.ponds / data.groups 等多种返回形式，以及分页信息
+ * 输入：接口标识、原始响应体、列表项解析器
+ * 输出：PagedList<T>；data 为空时视为空列表
+ */
+export function readList<T>(endpoint: string, payload: unknown, item: Parser<T>): PagedList<T> {
+  const { value, path } = unwrap(payload);
+  if (value === null || value === undefined) {
+    return { list: [], total: 0, totalPages: 0 };
+  }
+
+  const parseItems = (raw: unknown, itemsPath: string) => parseWith(endpoint, s.array(item), raw, itemsPath);
+
+  if (Array.isArray(value)) {
+    return { list: parseItems(value, path), ...readPageInfo(payload) };
+  }
+
+  if (isPlainObject(value)) {
+    const key = LIST_KEYS.find((k) => Array.isArray(value[k]));
+    if (key) {
+      return { list: parseItems(value[key], path ? `${path}.${key}` : key), ...readPageInfo(value, payload) };
+    }
+  }
+
+  // 触发带路径的结构错误
+  return { list: parseItems(value, path), total: null, totalPages: null };
+}
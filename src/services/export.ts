@@ -1,4 +1,6 @@
 import api from './api';
+import { readData } from './envelope';
+import { Parser, s } from './schema';
 
 export const DEFAULT_EXPORT_TYPES = [
   'feed_data',
@@ -13,17 +15,78 @@ export const DEFAULT_EXPORT_TYPES = [
   'general_record_data'
 ];
 
-export const startExport = async (params: {
+export interface ExportStartResult {
+  job_id: string;
+}
+
+// 后端可能直接返回 job_id 字符串，也可能返回 { job_id }
+const exportStartSchema: Parser<ExportStartResult> = (input, path) => {
+  if (typeof input === 'string' || typeof input === 'number') {
+    return { job_id: s.text()(input, path) };
+  }
+  return s.object<ExportStartResult>({ job_id: s.text() })(input, path);
+};
+
+export interface ExportParams {
   type: string[];
   pond_id: number;
   start_time: string;
   end_time: string;
-}) => {
+}
+
+export type ExportJobState = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ExportStatus {
+  state: ExportJobState;
+  /** 进度百分比（0-100），后端未提供时为 null */
+  progress: number | null;
+  message?: string;
+}
+
+const exportStatusSchema = s.object<{ status: string; progress?: number; message?: string }>({
+  status: s.text(),
+  progress: s.numeric(),
+  message: s.optional(s.text()),
+});
+
+// 后端状态取值不统一，按含义归类
+const STATE_ALIASES: Record<ExportJobState, string[]> = {
+  pending: ['pending', 'queued', 'waiting', 'created'],
+  running: ['running', 'processing', 'in_progress', 'started'],
+  done: ['done', 'finished', 'completed', 'success', 'succeeded'],
+  failed: ['failed', 'error', 'cancelled', 'canceled'],
+};
+
+const normalizeState = (status: string): ExportJobState => {
+  const key = status.trim().toLowerCase();
+  const match = (Object.keys(STATE_ALIASES) as ExportJobState[]).find((state) => STATE_ALIASES[state].includes(key));
+  return match || 'running';
+};
+
+export const startExport = async (params: ExportParams): Promise<ExportStartResult> => {
   const res = await api.post('/export/start', params);
-  return res.data;
+  return readData('POST /export/start', res.data, exportStartSchema);
 };
 
-export const downloadExport = async (jobId: string) => {
+export const downloadExport = async (jobId: string): Promise<ArrayBuffer> => {
   const res = await api.get(`/export/download/${jobId}`, { responseType: 'arraybuffer' });
-  return res;
+  const buffer = res.data;
+  if (!(buffer instanceof ArrayBuffer) || buffer.byteLength === 0) {
+    throw new Error(`[GET /export/download/${jobId}] 导出文件为空`);
+  }
+  return buffer;
+};
+
+export const getExportStatus = async (jobId: string): Promise<ExportStatus> => {
+  const res = await api.get(`/export/status/${jobId}`);
+  const data = readData(`GET /export/status/${jobId}`, res.data, exportStatusSchema);
+  return {
+    state: normalizeState(data.status),
+    progress: data.progress === undefined ? null : Math.min(100, Math.max(0, data.progress)),
+    message: data.message,
+  };
+};
+
+export const cancelExport = async (jobId: string): Promise<void> => {
+  await api.post(`/export/cancel/${jobId}`);
 };
@@ -1,4 +1,6 @@
 import api from './api';
+import { PageParams, PagedList, readData, readList } from './envelope';
+import { s } from './schema';
 
 export interface GroupUser {
   id: number;
@@ -20,12 +22,54 @@ export interface GroupInfo {
   updated_at: string;
 }
 
-export const getGroupsList = async (params: any = {}) => {
+export const groupUserSchema = s.object<GroupUser>({
+  id: s.number(),
+  nickname: s.withDefault(s.text(), ''),
+  avatar_url: s.optional(s.string()),
+  admin: s.withDefault(s.boolean(), false),
+});
+
+export const groupInfoSchema = s.object<GroupInfo>({
+  id: s.number(),
+  pond_id: s.numeric(),
+  group_name: s.optional(s.text()),
+  group_desc: s.optional(s.text()),
+  group_avatar: s.optional(s.string()),
+  group_num: s.numeric(),
+  group_owner_id: s.numeric(),
+  user_ids: s.withDefault(s.array(groupUserSchema), []),
+  created_at: s.optional(s.text()),
+  updated_at: s.optional(s.text()),
+});
+
+export const getGroupsList = async (params: PageParams = {}): Promise<PagedList<GroupInfo>> => {
   const response = await api.get('/groups/list', { params });
-  return response.data;
+  return readList('GET /groups/list', response.data, groupInfoSchema);
 };
 
-export const getGroupInfo = async (groupId: number | string) => {
+export const getGroupInfo = async (groupId: number | string): Promise<GroupInfo> => {
   const response = await api.get('/groups', { params: { group_id: groupId } });
-  return response.data;
+  return readData('GET /groups', response.data, groupInfoSchema);
+};
+
+/**
+ * 邀请成员（按手机号）
+ * 被邀请人需已注册；加入后默认为观众
+ */
+export const inviteGroupMember = async (groupId: number, phone: string): Promise<void> => {
+  await api.post('/groups/members', { group_id: groupId, phone });
+};
+
+export const removeGroupMember = async (groupId: number, userId: number): Promise<void> => {
+  await api.delete('/groups/members', { params: { group_id: groupId, user_id: userId } });
+};
+
+/** 设置或取消管理员 */
+export const setGroupMemberAdmin = async (groupId: number, userId: number, admin: boolean): Promise<void> => {
+  await api.put('/groups/members/admin', { group_id: groupId, user_id: userId, admin });
+};
+
+/** 转让群主（原群主转为管理员） */
+export const transferGroupOwner = async (groupId: number, userId: number): Promise<void> => {
+  await api.put('/groups/owner', { group_id: groupId, user_id: userId });
 };
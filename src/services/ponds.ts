@@ -1,4 +1,8 @@
 import api from './api';
+import { PageParams, PagedList, readData, readList } from './envelope';
+import { Parser, s } from './schema';
+import { TimelineRecord } from './timeline';
+import { TimelineQueryOptions, queryTimeline } from './timelineQuery';
 
 export interface Pond {
   id: number;
@@ -20,27 +24,107 @@ export interface Pond {
   is_demo: boolean;
 }
 
-export const getPondList = async (params: any = {}) => {
+export const pondSchema = s.object<Pond>({
+  id: s.number(),
+  name: s.withDefault(s.text(), ''),
+  breed_area: s.numeric(),
+  max_depth: s.numeric(),
+  breed_type: s.optional(s.text()),
+  breed_species: s.optional(s.text()),
+  province: s.optional(s.text()),
+  city: s.optional(s.text()),
+  district: s.optional(s.text()),
+  longitude: s.numeric(),
+  latitude: s.numeric(),
+  user_remark: s.optional(s.text()),
+  picture_url: s.optional(s.string()),
+  created_at: s.optional(s.text()),
+  updated_at: s.optional(s.text()),
+  group_id: s.numeric(),
+  is_demo: s.withDefault(s.boolean(), false),
+});
+
+export const getPondList = async (params: PageParams = {}): Promise<PagedList<Pond>> => {
   const response = await api.get('/ponds', { params });
-  return response.data;
+  return readList('GET /ponds', response.data, pondSchema);
 };
 
-export const getPondDetail = async (id: string | number) => {
+export const getPondDetail = async (id: string | number): Promise<Pond> => {
   const response = await api.get(`/ponds/${id}`);
-  return response.data;
+  return readData(`GET /ponds/${id}`, response.data, pondSchema);
+};
+
+/**
+ * 塘口可编辑字段
+ * 新建时 name 必填，其余可选；修改时只提交变更的字段
+ */
+export type PondInput = Partial<
+  Pick<
+    Pond,
+    | 'name'
+    | 'breed_area'
+    | 'max_depth'
+    | 'breed_type'
+    | 'breed_species'
+    | 'province'
+    | 'city'
+    | 'district'
+    | 'longitude'
+    | 'latitude'
+    | 'user_remark'
+    | 'picture_url'
+  >
+>;
+
+export const createPond = async (input: PondInput): Promise<Pond> => {
+  const response = await api.post('/ponds', input);
+  return readData('POST /ponds', response.data, pondSchema);
+};
+
+export const updatePond = async (id: string | number, input: PondInput): Promise<Pond> => {
+  const response = await api.put(`/ponds/${id}`, input);
+  return readData(`PUT /ponds/${id}`, response.data, pondSchema);
+};
+
+// 上传接口返回 url 字符串，或 { url } / { file_url }
+const uploadResultParser: Parser<string> = (input, path) => {
+  if (typeof input === 'string') return input;
+  const result = s.object<{ url?: string; file_url?: string }>({
+    url: s.optional(s.string()),
+    file_url: s.optional(s.string()),
+  })(input, path);
+  return s.string()(result.url ?? result.file_url, `${path}.url`);
 };
 
-export const getBreedingRecords = async (pondId: number | string, page: number = 1) => {
-  const response = await api.post('/query/timeline', {
+/**
+ * 上传塘口图片
+ * 输入：图片文件
+ * 输出：图片访问地址（写入 picture_url）
+ */
+export const uploadPondImage = async (file: File): Promise<string> => {
+  const form = new FormData();
+  form.append('file', file);
+  const response = await api.post('/upload', form, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return readData('POST /upload', response.data, uploadResultParser);
+};
+
+export const getBreedingRecords = async (
+  pondId: number | string,
+  page: number = 1,
+  options: TimelineQueryOptions = {}
+): Promise<TimelineRecord[]> => {
+  return queryTimeline({
     pond_id: typeof pondId === 'string' ? parseInt(pondId) : pondId,
     page
-  });
-  return response.data;
+  }, options);
 };
 
 /**
  * 获取趋势图数据
  * @param params 查询参数
+ * @param options 查询缓存选项（force 跳过内存缓存）
  * @returns 趋势图数据
  */
 export const getTrendData = async (params: {
@@ -50,14 +134,14 @@ export const getTrendData = async (params: {
   type: string[];
   page?: number;
   page_size?: number;
-}) => {
-  const response = await api.post('/query/timeline', params);
-  return response.data;
+}, options: TimelineQueryOptions = {}): Promise<TimelineRecord[]> => {
+  return queryTimeline(params, options);
 };
 
 /**
  * 获取投料趋势数据
  * @param params 查询参数
+ * @param options 查询缓存选项（force 跳过内存缓存）
  * @returns 投料数据
  */
 export const getFeedTrendData = async (params: {
@@ -66,33 +150,37 @@ export const getFeedTrendData = async (params: {
   pond_id: number;
   page?: number;
   page_size?: number;
-}) => {
-  const response = await api.post('/query/timeline', {
+}, options: TimelineQueryOptions = {}): Promise<TimelineRecord[]> => {
+  return queryTimeline({
     ...params,
     type: ['feed_data']
-  });
-  return response.data;
+  }, options);
 };
 
 /**
  * 获取最近的水质记录
  * @param pondId 塘口ID
  * @param limit 获取条数，默认为2
+ * @param options 查询缓存选项（force 跳过内存缓存）
  * @returns 水质记录列表
  */
-export const getRecentWaterQuality = async (pondId: number | string, limit: number = 2) => {
-  const response = await api.post('/query/timeline', {
+export const getRecentWaterQuality = async (
+  pondId: number | string,
+  limit: number = 2,
+  options: TimelineQueryOptions = {}
+): Promise<TimelineRecord[]> => {
+  return queryTimeline({
     pond_id: typeof pondId === 'string' ? parseInt(pondId) : pondId,
     type: ['waterquality_data'],
     page: 1,
     page_size: limit
-  });
-  return response.data;
+  }, options);
 };
 
 /**
  * 获取指定时间范围内的水质记录（用于首页卡片趋势预览）
  * @param params 查询参数
+ * @param options 查询缓存选项（force 跳过内存缓存）
  * @returns 水质记录列表
  */
 export const getWaterQualityByTimeRange = async (params: {
@@ -101,10 +189,9 @@ export const getWaterQualityByTimeRange = async (params: {
   end_time: string;
   page?: number;
   page_size?: number;
-}) => {
-  const response = await api.post('/query/timeline', {
+}, options: TimelineQueryOptions = {}): Promise<TimelineRecord[]> => {
+  return queryTimeline({
     ...params,
     type: ['waterquality_data'],
-  });
-  return response.data;
+  }, options);
 };
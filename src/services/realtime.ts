@@ -0,0 +1,287 @@
+import { API_BASE_URL, REALTIME_CONFIG } from '@/config';
+import { RealtimeStatus, useSyncStore } from '@/store/useSyncStore';
+import { useUserStore } from '@/store/useUserStore';
+import api from './api';
+import { readData } from './envelope';
+import { Parser, parseWith, s } from './schema';
+import { TimelineRecord, timelineItemParser } from './timeline';
+
+/**
+ * 记录实时推送
+ * 作用：其他成员（如手机端）新增、修改、删除记录后，网页端无需刷新即可更新
+ * 协议：SSE 与 WebSocket 的消息体相同，均为 JSON：
+ *   { "type": "record.created" | "record.updated" | "record.deleted", "pond_id": 12, "record": { "type": "waterquality_data", "detail": { ... } } }
+ *   删除事件的 record.detail 至少包含 id
+ * 连接：全部订阅共用一个连接；URL 携带 pond_ids（有订阅全部塘口时不带），订阅的塘口集合或登录令牌变化时重建连接
+ * 鉴权：令牌不出现在 URL 中（避免进入访问日志与浏览器历史）
+ *   SSE：每次建连前请求 TICKET_URL 换取一次性短期票据，以 ticket 参数附在 URL 上
+ *   WebSocket：连接建立后第一条消息发送 { "type": "auth", "token": "..." }
+ */
+
+export type RecordEventAction = 'created' | 'updated' | 'deleted';
+
+export interface RecordEvent {
+  action: RecordEventAction;
+  pondId: number;
+  record: TimelineRecord;
+}
+
+type RecordEventHandler = (event: RecordEvent) => void;
+
+interface Subscriber {
+  /** null 表示订阅全部塘口 */
+  pondIds: Set<number> | null;
+  handler: RecordEventHandler;
+}
+
+interface Connection {
+  close: () => void;
+}
+
+const ENDPOINT = 'REALTIME /realtime/records';
+const ACTIONS: RecordEventAction[] = ['created', 'updated', 'deleted'];
+
+const eventSchema = s.object<{ type: string; pond_id: number; record: TimelineRecord }>({
+  type: s.string(),
+  pond_id: s.number(),
+  record: timelineItemParser,
+});
+
+// 票据接口返回字符串，或 { ticket }
+const ticketParser: Parser<string> = (input, path) => {
+  if (typeof input === 'string') return input;
+  return s.object<{ ticket: string }>({ ticket: s.string() })(input, path).ticket;
+};
+
+const fetchTicket = async (): Promise<string> => {
+  const response = await api.post(REALTIME_CONFIG.TICKET_URL);
+  return readData(`POST ${REALTIME_CONFIG.TICKET_URL}`, response.data, ticketParser);
+};
+
+const subscribers = new Set<Subscriber>();
+let connection: Connection | null = null;
+let connectionUrl = '';
+let retryCount = 0;
+let retryTimer: number | null = null;
+let stableTimer: number | null = null;
+let refreshQueued = false;
+
+const setStatus = (status: RealtimeStatus) => useSyncStore.getState().setRealtimeStatus(status);
+
+/**
+ * 解析推送消息
+ * 输出：RecordEvent；无法识别的消息（心跳、其他类型）返回 null
+ */
+export function parseRecordEvent(data: string): RecordEvent | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const raw = payload as { type?: unknown };
+  if (typeof raw?.type !== 'string' || !raw.type.startsWith('record.')) return null;
+  const action = raw.type.slice('record.'.length) as RecordEventAction;
+  if (!ACTIONS.includes(action)) return null;
+  const event = parseWith(ENDPOINT, eventSchema, payload);
+  return { action, pondId: event.pond_id, record: event.record };
+}
+
+// 连接已被服务端接受（收到消息或保持稳定），退避从头计算
+const markStable = () => {
+  if (stableTimer !== null) window.clearTimeout(stableTimer);
+  stableTimer = null;
+  retryCount = 0;
+};
+
+const dispatch = (data: string) => {
+  markStable();
+  let event: RecordEvent | null;
+  try {
+    event = parseRecordEvent(data);
+  } catch (e) {
+    console.warn('Ignored malformed realtime message', e);
+    return;
+  }
+  if (!event) return;
+  subscribers.forEach((sub) => {
+    if (sub.pondIds && !sub.pondIds.has(event.pondId)) return;
+    try {
+      sub.handler(event);
+    } catch (e) {
+      console.error('Realtime handler failed', e);
+    }
+  });
+};
+
+// 订阅全部塘口时不限定 pond_ids；否则取各订阅的并集
+const buildUrl = () => {
+  const token = useUserStore.getState().token;
+  if (!token || subscribers.size === 0) return '';
+  const subs = Array.from(subscribers);
+  const all = subs.some((sub) => sub.pondIds === null);
+  const pondIds = all ? [] : Array.from(new Set(subs.flatMap((sub) => Array.from(sub.pondIds || [])))).sort((a, b) => a - b);
+  if (!all && pondIds.length === 0) return '';
+
+  const base = REALTIME_CONFIG.URL.startsWith('/') || /^[a-z]+:\/\//i.test(REALTIME_CONFIG.URL)
+    ? REALTIME_CONFIG.URL
+    : `${API_BASE_URL}/${REALTIME_CONFIG.URL}`;
+  const url = new URL(base, window.location.origin);
+  if (REALTIME_CONFIG.TRANSPORT === 'websocket') url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (!all) url.searchParams.set('pond_ids', pondIds.join(','));
+  return url.toString();
+};
+
+const open = (url: string, onOpen: () => void, onDrop: () => void): Connection => {
+  if (REALTIME_CONFIG.TRANSPORT === 'websocket') {
+    const socket = new WebSocket(url);
+    socket.onopen = () => {
+      const token = useUserStore.getState().token;
+      if (!token) {
+        socket.close();
+        return;
+      }
+      socket.send(JSON.stringify({ type: 'auth', token }));
+      onOpen();
+    };
+    socket.onmessage = (e) => typeof e.data === 'string' && dispatch(e.data);
+    socket.onclose = onDrop;
+    return {
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      },
+    };
+  }
+  // EventSource 无法设置请求头，先换取票据；票据一次性有效，
+  // 因此 EventSource 自带的重连不可用，出错时统一关闭后由本模块退避重连并重新换取票据
+  let source: EventSource | null = null;
+  let closed = false;
+  fetchTicket().then(
+    (ticket) => {
+      if (closed) return;
+      const ticketUrl = new URL(url);
+      ticketUrl.searchParams.set('ticket', ticket);
+      source = new EventSource(ticketUrl.toString());
+      source.onopen = onOpen;
+      source.onmessage = (e) => dispatch(e.data);
+      source.onerror = () => {
+        source?.close();
+        onDrop();
+      };
+    },
+    (e) => {
+      if (closed) return;
+      console.warn('Failed to obtain realtime ticket', e);
+      onDrop();
+    }
+  );
+  return {
+    close: () => {
+      closed = true;
+      source?.close();
+    },
+  };
+};
+
+const clearRetry = () => {
+  if (retryTimer !== null) window.clearTimeout(retryTimer);
+  retryTimer = null;
+  if (stableTimer !== null) window.clearTimeout(stableTimer);
+  stableTimer = null;
+};
+
+const disconnect = () => {
+  clearRetry();
+  connection?.close();
+  connection = null;
+  connectionUrl = '';
+};
+
+const connect = (url: string) => {
+  disconnect();
+  connectionUrl = url;
+  setStatus(retryCount > 0 ? 'reconnecting' : 'connecting');
+  connection = open(
+    url,
+    () => {
+      // 打开不代表鉴权通过：服务端可能随后拒绝并关闭，此时不应重置退避
+      setStatus('open');
+      stableTimer = window.setTimeout(markStable, REALTIME_CONFIG.STABLE_AFTER_MS);
+    },
+    () => {
+      connection = null;
+      scheduleReconnect();
+    }
+  );
+};
+
+// 指数退避 + 随机抖动，避免服务重启后所有客户端同时重连
+const scheduleReconnect = () => {
+  clearRetry();
+  const url = connectionUrl;
+  if (!url) return;
+  setStatus('reconnecting');
+  const delay = Math.min(REALTIME_CONFIG.RECONNECT_MAX_MS, REALTIME_CONFIG.RECONNECT_MIN_MS * 2 ** retryCount);
+  retryCount += 1;
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    const latest = buildUrl();
+    if (latest) connect(latest);
+    else refresh();
+  }, delay * (0.75 + Math.random() * 0.5));
+};
+
+// 按当前订阅重建（或关闭）连接；同一轮内的多次订阅变更合并处理
+const refresh = () => {
+  const url = REALTIME_CONFIG.ENABLED ? buildUrl() : '';
+  if (!url) {
+    disconnect();
+    retryCount = 0;
+    setStatus('idle');
+    return;
+  }
+  if (url === connectionUrl && (connection || retryTimer !== null)) return;
+  retryCount = 0;
+  connect(url);
+};
+
+const queueRefresh = () => {
+  if (refreshQueued) return;
+  refreshQueued = true;
+  window.setTimeout(() => {
+    refreshQueued = false;
+    refresh();
+  }, 0);
+};
+
+if (typeof window !== 'undefined') {
+  // 恢复联网后立即重连，不再等待退避
+  window.addEventListener('online', () => {
+    if (connectionUrl && !connection) {
+      retryCount = 0;
+      connect(connectionUrl);
+    }
+  });
+  // 登录/退出后按新的令牌重建连接（URL 不含令牌，需先断开旧连接）
+  useUserStore.subscribe((state, prev) => {
+    if (state.token === prev.token) return;
+    disconnect();
+    queueRefresh();
+  });
+}
+
+/**
+ * 订阅记录推送
+ * 输入：塘口 ID 列表（null 表示全部塘口）、事件回调
+ * 输出：取消订阅函数
+ */
+export const subscribeRecordEvents = (pondIds: number[] | null, handler: RecordEventHandler) => {
+  const subscriber: Subscriber = { pondIds: pondIds ? new Set(pondIds.map(Number)) : null, handler };
+  subscribers.add(subscriber);
+  queueRefresh();
+  return () => {
+    subscribers.delete(subscriber);
+    queueRefresh();
+  };
+};
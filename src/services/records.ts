@@ -0,0 +1,39 @@
+import api from './api';
+import { RecordKind, TimelineRecord, readRecord } from './timeline';
+import { recordTypeConfig } from '@/utils/recordUtils';
+
+/**
+ * 记录提交数据
+ * 字段与 fullFieldConfigs 中的 key 对应；修改时 null 表示清空该字段
+ */
+export type RecordPayload = Record<string, string | number | null>;
+
+const recordPath = (kind: RecordKind) => `/records/${recordTypeConfig[kind].api_type}`;
+
+export const createRecord = async (
+  kind: RecordKind,
+  pondId: number | string,
+  payload: RecordPayload
+): Promise<TimelineRecord> => {
+  const path = recordPath(kind);
+  const response = await api.post(path, {
+    pond_id: typeof pondId === 'string' ? parseInt(pondId) : pondId,
+    ...payload,
+  });
+  return readRecord(`POST ${path}`, response.data, kind);
+};
+
+export const updateRecord = async (
+  kind: RecordKind,
+  recordId: number | string,
+  payload: RecordPayload,
+  type?: string
+): Promise<TimelineRecord> => {
+  const path = `${recordPath(kind)}/${recordId}`;
+  const response = await api.put(path, payload);
+  return readRecord(`PUT ${path}`, response.data, kind, type);
+};
+
+export const deleteRecord = async (kind: RecordKind, recordId: number | string): Promise<void> => {
+  await api.delete(`${recordPath(kind)}/${recordId}`);
+};
@@ -0,0 +1,168 @@
+/**
+ * 接口响应的运行时校验
+ * 作用：以轻量的解析器组合描述每个接口的响应结构，在数据进入页面之前完成校验与类型收窄。
+ * 约定：
+ *  - 解析器签名为 (input, path) => T，校验失败时抛出 SchemaIssue
+ *  - 对象解析器保留未声明的字段（后端新增字段不视为错误）
+ *  - 数值字段兼容数字字符串（后端部分字段以字符串返回）
+ */
+
+export type Parser<T> = (input: unknown, path: string) => T;
+
+export type Infer<P> = P extends Parser<infer T> ? T : never;
+
+class SchemaIssue extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, input: unknown) {
+    const received = describe(input);
+    super(`${path || '(root)'} 应为 ${expected}，实际为 ${received}`);
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+/**
+ * 接口响应结构不符错误
+ * 作用：后端返回结构与前端约定不一致时抛出，携带接口与字段路径，便于定位问题
+ */
+export class ApiSchemaError extends Error {
+  endpoint: string;
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(endpoint: string, issue: SchemaIssue) {
+    super(`[${endpoint}] 响应结构不符：${issue.message}`);
+    this.name = 'ApiSchemaError';
+    this.endpoint = endpoint;
+    this.path = issue.path;
+    this.expected = issue.expected;
+    this.received = issue.received;
+  }
+}
+
+function describe(input: unknown) {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  if (typeof input === 'string') return `string(${JSON.stringify(input.length > 20 ? `${input.slice(0, 20)}…` : input)})`;
+  return typeof input;
+}
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/** 是否为普通对象（非 null、非数组） */
+export const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+const string = (): Parser<string> => (input, path) => {
+  if (typeof input === 'string') return input;
+  throw new SchemaIssue(path, 'string', input);
+};
+
+/** 字符串或数字（统一转为字符串），适用于 ID、日期等两种形式都会出现的字段 */
+const text = (): Parser<string> => (input, path) => {
+  if (typeof input === 'string') return input;
+  if (typeof input === 'number' && Number.isFinite(input)) return String(input);
+  throw new SchemaIssue(path, 'string', input);
+};
+
+const number = (): Parser<number> => (input, path) => {
+  if (typeof input === 'number' && Number.isFinite(input)) return input;
+  if (typeof input === 'string' && input.trim() !== '') {
+    const n = Number(input);
+    if (Number.isFinite(n)) return n;
+  }
+  throw new SchemaIssue(path, 'number', input);
+};
+
+/** 可选数值：缺省或空字符串视为未填写 */
+const numeric = (): Parser<number | undefined> => (input, path) => {
+  if (input === undefined || input === null || input === '') return undefined;
+  return number()(input, path);
+};
+
+const boolean = (): Parser<boolean> => (input, path) => {
+  if (typeof input === 'boolean') return input;
+  if (input === 0 || input === 1) return input === 1;
+  throw new SchemaIssue(path, 'boolean', input);
+};
+
+const unknown = (): Parser<unknown> => (input) => input;
+
+const optional = <T>(parser: Parser<T>): Parser<T | undefined> => (input, path) => {
+  if (input === undefined || input === null) return undefined;
+  return parser(input, path);
+};
+
+const nullable = <T>(parser: Parser<T>): Parser<T | null> => (input, path) => {
+  if (input === undefined || input === null) return null;
+  return parser(input, path);
+};
+
+/** 缺省（undefined/null）时使用默认值，其余情况照常校验 */
+const withDefault = <T>(parser: Parser<T>, fallback: T): Parser<T> => (input, path) => {
+  if (input === undefined || input === null) return fallback;
+  return parser(input, path);
+};
+
+const array = <T>(item: Parser<T>): Parser<T[]> => (input, path) => {
+  if (!Array.isArray(input)) throw new SchemaIssue(path, 'array', input);
+  return input.map((v, i) => item(v, join(path, i)));
+};
+
+type Shape<T> = { [K in keyof T]-?: Parser<T[K]> };
+
+const object = <T extends object>(shape: Shape<T>): Parser<T> => (input, path) => {
+  if (!isPlainObject(input)) throw new SchemaIssue(path, 'object', input);
+  const out: Record<string, unknown> = { ...input };
+  (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+    const value = shape[key](input[key], join(path, key));
+    if (value === undefined) delete out[key];
+    else out[key] = value;
+  });
+  return out as T;
+};
+
+/** 任意键值对象（不校验字段） */
+const record = (): Parser<Record<string, any>> => (input, path) => {
+  if (!isPlainObject(input)) throw new SchemaIssue(path, 'object', input);
+  return input as Record<string, any>;
+};
+
+export const s = {
+  string,
+  text,
+  number,
+  numeric,
+  boolean,
+  unknown,
+  optional,
+  nullable,
+  withDefault,
+  array,
+  object,
+  record,
+};
+
+/**
+ * 使用解析器校验响应
+ * 输入：接口标识（如 'GET /ponds'）、解析器、待校验数据、字段路径前缀
+ * 输出：校验通过的数据；失败时抛出 ApiSchemaError
+ */
+export function parseWith<T>(endpoint: string, parser: Parser<T>, input: unknown, path = ''): T {
+  try {
+    return parser(input, path);
+  } catch (e) {
+    if (e instanceof SchemaIssue) throw new ApiSchemaError(endpoint, e);
+    throw e;
+  }
+}
+
+export function isApiSchemaError(e: unknown): e is ApiSchemaError {
+  return e instanceof ApiSchemaError;
+}
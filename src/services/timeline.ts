@@ -0,0 +1,388 @@
+import { readData, readList } from './envelope';
+import { Parser, s } from './schema';
+import { RECORD_TYPE_MAP } from '@/utils/recordUtils';
+
+/**
+ * 记录种类
+ * 取值为 RECORD_TYPE_MAP 归一化后的类型（feed_data -> feeding 等）
+ */
+export type RecordKind =
+  | 'feeding'
+  | 'waterquality'
+  | 'lossing'
+  | 'aquacultureinputs'
+  | 'patrol'
+  | 'sampledata'
+  | 'outfishpond'
+  | 'seed'
+  | 'physical_operation'
+  | 'general_record';
+
+/** 可录入的记录种类（按录入表单的展示顺序） */
+export const RECORD_KINDS: RecordKind[] = [
+  'feeding',
+  'waterquality',
+  'patrol',
+  'aquacultureinputs',
+  'sampledata',
+  'lossing',
+  'seed',
+  'outfishpond',
+  'physical_operation',
+  'general_record',
+];
+
+export interface RecordUserRef {
+  id?: number;
+  nickname?: string;
+  avatar_url?: string;
+}
+
+/** 所有记录共有的字段 */
+export interface BaseRecordDetail {
+  id?: number;
+  uuid?: string;
+  pond_id?: number;
+  operate_at?: string;
+  operate_time?: string;
+  created_at?: string;
+  updated_at?: string;
+  created_by?: number;
+  created_by_user?: RecordUserRef;
+  updated_by_user?: RecordUserRef;
+  image_url?: string;
+  images?: string[];
+  picture_url?: string;
+  file_url?: string;
+  user_remark?: string;
+}
+
+/** 饲料投喂 */
+export interface FeedingDetail extends BaseRecordDetail {
+  brand?: string;
+  /** 饵料类型（业务字段，如“颗粒饲料”，不是记录类型） */
+  type?: string;
+  /** 投喂重量（斤） */
+  weight?: number;
+  /** 饵料金额（元） */
+  cost?: number;
+  feed_time?: string;
+}
+
+/** 水质监测 */
+export interface WaterQualityDetail extends BaseRecordDetail {
+  ph?: number;
+  oxygen?: number;
+  temperature?: number;
+  ammonia?: number;
+  nitrite?: number;
+  transparency?: number;
+  alkalinity?: number;
+  total_alkalinity?: number;
+  hardness?: number;
+  total_hardness?: number;
+  calcium?: number;
+  calcium_ion?: number;
+  orp?: number;
+  salinity?: number;
+  magnesium?: number;
+  magnesium_ion?: number;
+  potassium?: number;
+  potassium_ion?: number;
+  pressure?: number;
+  air_pressure?: number;
+  measured_at?: string;
+}
+
+/** 损失记录 */
+export interface LossDetail extends BaseRecordDetail {
+  species?: string;
+  /** 损失数量（尾） */
+  num?: number;
+  /** 损失重量（斤） */
+  weight?: number;
+  /** 损失金额（元） */
+  amount?: number;
+  analysis?: string;
+  lossed_at?: string;
+}
+
+/** 投入品 */
+export interface AquacultureInputsDetail extends BaseRecordDetail {
+  name?: string;
+  category1?: string;
+  category2?: string;
+  dosage_num?: number;
+  dosage_unit?: string;
+  /** 总费用（元） */
+  total_cost?: number;
+  use_method?: string;
+  effect?: string;
+}
+
+/** 巡塘记录 */
+export interface PatrolDetail extends BaseRecordDetail {
+  aquatic_status?: string;
+  water_status?: string;
+  abnormal_event?: string;
+}
+
+/** 打样记录 */
+export interface SampleDetail extends BaseRecordDetail {
+  species?: string;
+  /** 测样数量（尾） */
+  count?: number;
+  /** 平均体重（斤/条） */
+  avg_weight?: number;
+  /** 平均长度（cm） */
+  avg_length?: number;
+  health_condition?: string;
+  growth_analysis?: string;
+}
+
+/** 出塘记录 */
+export interface OutFishPondDetail extends BaseRecordDetail {
+  purpose?: string;
+  species?: string;
+  /** 出塘重量（斤） */
+  total_weight?: number;
+  /** 出塘数量（尾） */
+  quantity?: number;
+  /** 总价（元） */
+  sell_total?: number;
+  outfishpond_at?: string;
+}
+
+/** 苗种投放 */
+export interface SeedDetail extends BaseRecordDetail {
+  species?: string;
+  /** 苗种数量（尾） */
+  quantity?: number;
+  grade?: string;
+  /** 购买总金额（元） */
+  buy_total?: number;
+  seeded_at?: string;
+}
+
+/** 物理作业 */
+export interface PhysicalOperationDetail extends BaseRecordDetail {
+  operate_type?: string;
+  equipment?: string;
+  purpose?: string;
+}
+
+/** 通用记录 */
+export interface GeneralRecordDetail extends BaseRecordDetail {
+  note?: string;
+}
+
+export interface RecordDetailMap {
+  feeding: FeedingDetail;
+  waterquality: WaterQualityDetail;
+  lossing: LossDetail;
+  aquacultureinputs: AquacultureInputsDetail;
+  patrol: PatrolDetail;
+  sampledata: SampleDetail;
+  outfishpond: OutFishPondDetail;
+  seed: SeedDetail;
+  physical_operation: PhysicalOperationDetail;
+  general_record: GeneralRecordDetail;
+}
+
+interface TimelineRecordBase {
+  /** 接口返回的原始类型（如 feed_data），调用 AI 分析等接口时原样回传 */
+  type: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type KnownTimelineRecord = {
+  [K in RecordKind]: TimelineRecordBase & { kind: K; detail: RecordDetailMap[K] };
+}[RecordKind];
+
+export interface UnknownTimelineRecord extends TimelineRecordBase {
+  kind: 'unknown';
+  detail: BaseRecordDetail & Record<string, unknown>;
+}
+
+/**
+ * /query/timeline 返回的单条记录
+ * 以 kind 为判别字段的联合类型；后端有时直接返回记录详情（无 detail 包装），统一归一化为 { kind, type, detail }
+ */
+export type TimelineRecord = KnownTimelineRecord | UnknownTimelineRecord;
+
+export type RecordDetail = TimelineRecord['detail'];
+
+const userRefSchema = s.object<RecordUserRef>({
+  id: s.numeric(),
+  nickname: s.optional(s.text()),
+  avatar_url: s.optional(s.string()),
+});
+
+const baseShape = {
+  id: s.numeric(),
+  uuid: s.optional(s.text()),
+  pond_id: s.numeric(),
+  operate_at: s.optional(s.text()),
+  operate_time: s.optional(s.text()),
+  created_at: s.optional(s.text()),
+  updated_at: s.optional(s.text()),
+  created_by: s.numeric(),
+  created_by_user: s.optional(userRefSchema),
+  updated_by_user: s.optional(userRefSchema),
+  image_url: s.optional(s.string()),
+  images: s.optional(s.array(s.string())),
+  picture_url: s.optional(s.string()),
+  file_url: s.optional(s.string()),
+  user_remark: s.optional(s.text()),
+};
+
+const text = () => s.optional(s.text());
+const num = () => s.numeric();
+
+const detailSchemas: { [K in RecordKind]: Parser<RecordDetailMap[K]> } = {
+  feeding: s.object<FeedingDetail>({
+    ...baseShape,
+    brand: text(),
+    type: text(),
+    weight: num(),
+    cost: num(),
+    feed_time: text(),
+  }),
+  waterquality: s.object<WaterQualityDetail>({
+    ...baseShape,
+    ph: num(),
+    oxygen: num(),
+    temperature: num(),
+    ammonia: num(),
+    nitrite: num(),
+    transparency: num(),
+    alkalinity: num(),
+    total_alkalinity: num(),
+    hardness: num(),
+    total_hardness: num(),
+    calcium: num(),
+    calcium_ion: num(),
+    orp: num(),
+    salinity: num(),
+    magnesium: num(),
+    magnesium_ion: num(),
+    potassium: num(),
+    potassium_ion: num(),
+    pressure: num(),
+    air_pressure: num(),
+    measured_at: text(),
+  }),
+  lossing: s.object<LossDetail>({
+    ...baseShape,
+    species: text(),
+    num: num(),
+    weight: num(),
+    amount: num(),
+    analysis: text(),
+    lossed_at: text(),
+  }),
+  aquacultureinputs: s.object<AquacultureInputsDetail>({
+    ...baseShape,
+    name: text(),
+    category1: text(),
+    category2: text(),
+    dosage_num: num(),
+    dosage_unit: text(),
+    total_cost: num(),
+    use_method: text(),
+    effect: text(),
+  }),
+  patrol: s.object<PatrolDetail>({
+    ...baseShape,
+    aquatic_status: text(),
+    water_status: text(),
+    abnormal_event: text(),
+  }),
+  sampledata: s.object<SampleDetail>({
+    ...baseShape,
+    species: text(),
+    count: num(),
+    avg_weight: num(),
+    avg_length: num(),
+    health_condition: text(),
+    growth_analysis: text(),
+  }),
+  outfishpond: s.object<OutFishPondDetail>({
+    ...baseShape,
+    purpose: text(),
+    species: text(),
+    total_weight: num(),
+    quantity: num(),
+    sell_total: num(),
+    outfishpond_at: text(),
+  }),
+  seed: s.object<SeedDetail>({
+    ...baseShape,
+    species: text(),
+    quantity: num(),
+    grade: text(),
+    buy_total: num(),
+    seeded_at: text(),
+  }),
+  physical_operation: s.object<PhysicalOperationDetail>({
+    ...baseShape,
+    operate_type: text(),
+    equipment: text(),
+    purpose: text(),
+  }),
+  general_record: s.object<GeneralRecordDetail>({
+    ...baseShape,
+    note: text(),
+  }),
+};
+
+const unknownDetailSchema = s.object<BaseRecordDetail>(baseShape) as Parser<UnknownTimelineRecord['detail']>;
+
+/**
+ * 将接口返回的类型归一化为记录种类
+ * 输入：原始类型（feed_data / waterquality / loss 等）
+ * 输出：RecordKind，无法识别时为 'unknown'
+ */
+export function toRecordKind(type: string | undefined | null): RecordKind | 'unknown' {
+  if (!type) return 'unknown';
+  return RECORD_TYPE_MAP[type] || 'unknown';
+}
+
+export const timelineItemParser: Parser<TimelineRecord> = (input, path) => {
+  const item = s.record()(input, path);
+  const hasDetail = item.detail !== undefined && item.detail !== null;
+  const rawDetail = hasDetail ? item.detail : item;
+  const detailPath = hasDetail ? `${path}.detail` : path;
+  const type = s.withDefault(s.string(), 'unknown')(item.type, `${path}.type`) || 'unknown';
+  const kind = toRecordKind(type);
+  const base: TimelineRecordBase = {
+    type,
+    created_at: s.optional(s.text())(item.created_at, `${path}.created_at`),
+    updated_at: s.optional(s.text())(item.updated_at, `${path}.updated_at`),
+  };
+  if (kind === 'unknown') {
+    return { ...base, kind, detail: unknownDetailSchema(rawDetail, detailPath) };
+  }
+  return { ...base, kind, detail: detailSchemas[kind](rawDetail, detailPath) } as KnownTimelineRecord;
+};
+
+/**
+ * 解析时间线接口响应
+ * 输入：接口标识、原始响应体
+ * 输出：TimelineRecord[]
+ */
+export function readTimeline(endpoint: string, payload: unknown): TimelineRecord[] {
+  return readList(endpoint, payload, timelineItemParser).list;
+}
+
+/**
+ * 解析单条记录响应（新增/修改记录接口）
+ * 输入：接口标识、原始响应体、记录种类、原始类型
+ * 输出：TimelineRecord；响应体为空（如 204）时 detail 为空对象，由调用方合并提交的数据
+ */
+export function readRecord(endpoint: string, payload: unknown, kind: RecordKind, type: string = kind): TimelineRecord {
+  const body = payload && typeof payload === 'object' ? payload : {};
+  const detail = readData(endpoint, body, detailSchemas[kind]);
+  return { kind, type, detail } as KnownTimelineRecord;
+}
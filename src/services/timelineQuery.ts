@@ -0,0 +1,122 @@
+import { useUserStore } from '@/store/useUserStore';
+import api from './api';
+import { TimelineRecord, readTimeline } from './timeline';
+
+/** /query/timeline 请求参数 */
+export interface TimelineQuery {
+  pond_id: number | string;
+  type?: string | string[];
+  start_time?: string;
+  end_time?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface TimelineQueryOptions {
+  /** 新鲜期（毫秒），期内直接返回缓存，过期后等待重新请求；默认 30 秒 */
+  staleTime?: number;
+  /** 忽略缓存直接请求（仍会合并进行中的相同请求） */
+  force?: boolean;
+}
+
+interface QueryEntry {
+  data: TimelineRecord[];
+  fetchedAt: number;
+}
+
+const ENDPOINT = 'POST /query/timeline';
+const DEFAULT_STALE_TIME = 30 * 1000;
+const MAX_ENTRIES = 200;
+
+const cache = new Map<string, QueryEntry>();
+const inflight = new Map<string, Promise<TimelineRecord[]>>();
+// 每次失效时递增；失效前发出的请求返回后不再写入缓存
+let generation = 0;
+
+// 内存缓存不区分账号：登录、退出或切换账号（令牌变化）时整体清空，避免读到上一个账号的数据
+useUserStore.subscribe((state, prev) => {
+  if (state.token !== prev.token) invalidateTimelineQueries();
+});
+
+/**
+ * 生成归一化的查询键
+ * 作用：同一塘口、类型、时间范围与分页的请求得到相同的键，与参数书写顺序、类型数组顺序无关
+ * 输出：形如 `12|feed_data,waterquality_data|2024-01-01 00:00:00|2024-01-07 23:59:59|1|100`
+ */
+export function timelineQueryKey(query: TimelineQuery) {
+  const types = (Array.isArray(query.type) ? query.type : query.type ? [query.type] : []).slice().sort();
+  return [
+    Number(query.pond_id),
+    types.join(','),
+    query.start_time || '',
+    query.end_time || '',
+    query.page ?? 1,
+    query.page_size ?? '',
+  ].join('|');
+}
+
+const remember = (key: string, data: TimelineRecord[]) => {
+  // Map 按插入顺序迭代，先删后写使其成为最新项，超出上限时淘汰最旧的
+  cache.delete(key);
+  cache.set(key, { data, fetchedAt: Date.now() });
+  if (cache.size > MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+};
+
+const request = (key: string, query: TimelineQuery) => {
+  const existing = inflight.get(key);
+  if (existing) return existing;
+
+  const startedAt = generation;
+  const task = api
+    .post('/query/timeline', query)
+    .then((response) => {
+      const data = readTimeline(ENDPOINT, response.data);
+      if (startedAt === generation) remember(key, data);
+      return data;
+    })
+    .finally(() => {
+      if (inflight.get(key) === task) inflight.delete(key);
+    });
+  inflight.set(key, task);
+  return task;
+};
+
+/**
+ * 查询时间线（共享查询层）
+ * 作用：/query/timeline 的唯一出口，所有时间线相关接口均经由此处
+ * 逻辑：
+ *  1. 相同查询键的并发请求合并为一个
+ *  2. 缓存未过期且非 force：直接返回
+ *  3. 缓存已过期、无缓存或 force：等待请求结果
+ *  本层只做短时去重，不做 stale-while-revalidate：过期数据的先展示后刷新由 offlineStore 负责并通知调用方
+ */
+export const queryTimeline = async (
+  query: TimelineQuery,
+  options: TimelineQueryOptions = {}
+): Promise<TimelineRecord[]> => {
+  const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+  const key = timelineQueryKey(query);
+  const cached = cache.get(key);
+
+  if (cached && !force && Date.now() - cached.fetchedAt <= staleTime) return cached.data;
+
+  return request(key, query);
+};
+
+/**
+ * 使查询缓存失效
+ * 输入：塘口 ID；不传则清空全部
+ * 用途：记录增删改后，保证下次查询拿到最新数据
+ */
+export function invalidateTimelineQueries(pondId?: number | string) {
+  generation += 1;
+  const prefix = pondId === undefined || pondId === null ? '' : `${Number(pondId)}|`;
+  [cache, inflight].forEach((map: Map<string, unknown>) => {
+    Array.from(map.keys()).forEach((key) => {
+      if (key.startsWith(prefix)) map.delete(key);
+    });
+  });
+}
@@ -1,4 +1,6 @@
 import api from './api';
+import { readData } from './envelope';
+import { s } from './schema';
 
 export interface UserInfo {
   id: number;
@@ -11,9 +13,20 @@ export interface UserInfo {
   updated_at: string;
 }
 
-export const getUserInfo = async (userId: number | string) => {
+export const userInfoSchema = s.object<UserInfo>({
+  id: s.number(),
+  openid: s.optional(s.text()),
+  nickname: s.optional(s.text()),
+  avatar_url: s.optional(s.string()),
+  phone: s.optional(s.text()),
+  picture_url: s.optional(s.string()),
+  created_at: s.optional(s.text()),
+  updated_at: s.optional(s.text()),
+});
+
+export const getUserInfo = async (userId: number | string): Promise<UserInfo> => {
   const response = await api.get('/users/people', {
     params: { user_id: userId },
   });
-  return response.data;
+  return readData('GET /users/people', response.data, userInfoSchema);
 };
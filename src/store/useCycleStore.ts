@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CycleOverride } from '@/utils/productionCycles';
+
+interface CycleState {
+  /** 用户对推断周期的调整，按塘口 ID、周期 ID 存储 */
+  overrides: Record<string, Record<string, CycleOverride>>;
+  setCycleOverride: (pondId: number | string, cycleId: string, override: CycleOverride) => void;
+  resetCycle: (pondId: number | string, cycleId: string) => void;
+}
+
+export const useCycleStore = create<CycleState>()(
+  persist(
+    (set) => ({
+      overrides: {},
+      setCycleOverride: (pondId, cycleId, override) =>
+        set((state) => ({
+          overrides: {
+            ...state.overrides,
+            [pondId]: { ...state.overrides[pondId], [cycleId]: override },
+          },
+        })),
+      resetCycle: (pondId, cycleId) =>
+        set((state) => {
+          const pondOverrides = { ...state.overrides[pondId] };
+          delete pondOverrides[cycleId];
+          return { overrides: { ...state.overrides, [pondId]: pondOverrides } };
+        }),
+    }),
+    {
+      name: 'smart-aquaculture-cycles',
+    }
+  )
+);
@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ExportParams } from '@/services/export';
+import { getUserPartition } from '@/utils/offlineStore';
+import { useUserStore } from './useUserStore';
+
+export type ExportJobStatus = 'queued' | 'running' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+  /** 本地任务 ID（重试时不变） */
+  id: string;
+  /** 后端任务 ID；提交前为空 */
+  jobId?: string;
+  pondId: number;
+  pondName: string;
+  params: ExportParams;
+  fileName: string;
+  status: ExportJobStatus;
+  /** 进度百分比（0-100），后端未提供时为 null */
+  progress: number | null;
+  error?: string;
+  /** 已尝试次数（含重试） */
+  attempts: number;
+  createdAt: number;
+  finishedAt?: number;
+  /** 文件大小（字节） */
+  size?: number;
+}
+
+/** 保留的历史任务上限，超出时移除最早完成的任务 */
+export const MAX_EXPORT_HISTORY = 50;
+
+interface ExportJobState {
+  /** 当前账号的任务 */
+  jobs: ExportJob[];
+  /** 各账号的任务历史，key 为用户分区（与离线缓存一致），切换账号互不可见 */
+  jobsByUser: Record<string, ExportJob[]>;
+  userKey: string;
+  addJob: (job: ExportJob) => void;
+  updateJob: (id: string, patch: Partial<ExportJob>) => void;
+  removeJob: (id: string) => void;
+  switchUser: (userKey: string) => void;
+}
+
+type PersistedExportJobs = Pick<ExportJobState, 'jobsByUser'>;
+
+// 按账号取出当前任务列表，jobs 始终与 jobsByUser[userKey] 保持一致
+const withJobs = (jobsByUser: Record<string, ExportJob[]>, userKey: string) => ({
+  jobsByUser,
+  userKey,
+  jobs: jobsByUser[userKey] || [],
+});
+
+// 任务 ID 全局唯一，更新/删除时在所有账号中查找（切换账号前发出的更新也能落到原账号）
+const mapAllJobs = (jobsByUser: Record<string, ExportJob[]>, fn: (jobs: ExportJob[]) => ExportJob[]) =>
+  Object.fromEntries(Object.entries(jobsByUser).map(([userKey, jobs]) => [userKey, fn(jobs)]));
+
+export const useExportJobStore = create<ExportJobState>()(
+  persist(
+    (set) => ({
+      ...withJobs({}, getUserPartition()),
+      addJob: (job) =>
+        set((state) =>
+          withJobs({ ...state.jobsByUser, [state.userKey]: [job, ...(state.jobsByUser[state.userKey] || [])] }, state.userKey)
+        ),
+      updateJob: (id, patch) =>
+        set((state) =>
+          withJobs(
+            mapAllJobs(state.jobsByUser, (jobs) => jobs.map((job) => (job.id === id ? { ...job, ...patch } : job))),
+            state.userKey
+          )
+        ),
+      removeJob: (id) =>
+        set((state) => withJobs(mapAllJobs(state.jobsByUser, (jobs) => jobs.filter((job) => job.id !== id)), state.userKey)),
+      switchUser: (userKey) => set((state) => withJobs(state.jobsByUser, userKey)),
+    }),
+    {
+      name: 'smart-aquaculture-export-jobs',
+      // v1 起按账号分区；旧版不区分账号的历史无法判断归属，直接丢弃
+      version: 1,
+      migrate: () => ({ jobsByUser: {} }),
+      partialize: (state): PersistedExportJobs => ({ jobsByUser: state.jobsByUser }),
+      merge: (persisted, current) =>
+        ({ ...current, ...withJobs((persisted as PersistedExportJobs | undefined)?.jobsByUser || {}, getUserPartition()) }),
+    }
+  )
+);
+
+// 登录、退出或切换账号后只展示该账号的任务
+useUserStore.subscribe(() => {
+  const userKey = getUserPartition();
+  if (userKey !== useExportJobStore.getState().userKey) useExportJobStore.getState().switchUser(userKey);
+});
@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ExportPreset } from '@/utils/exportOptions';
+
+interface ExportPresetState {
+  /** 用户保存的导出预设（内置预设见 BUILTIN_EXPORT_PRESETS） */
+  presets: ExportPreset[];
+  savePreset: (preset: Omit<ExportPreset, 'id' | 'builtin'>) => ExportPreset;
+  deletePreset: (id: string) => void;
+}
+
+export const useExportPresetStore = create<ExportPresetState>()(
+  persist(
+    (set) => ({
+      presets: [],
+      savePreset: (preset) => {
+        const saved: ExportPreset = { ...preset, id: `preset-${Date.now()}` };
+        // 同名预设覆盖
+        set((state) => ({ presets: [...state.presets.filter((p) => p.name !== preset.name), saved] }));
+        return saved;
+      },
+      deletePreset: (id) => set((state) => ({ presets: state.presets.filter((p) => p.id !== id) })),
+    }),
+    {
+      name: 'smart-aquaculture-export-presets',
+    }
+  )
+);
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** 实时推送连接状态：idle 未订阅 / connecting 首次连接 / open 已连接 / reconnecting 断线重连中 */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+interface SyncState {
+  /** 最近一次成功从服务器获取数据的时间（毫秒时间戳） */
+  lastSyncedAt: number | null;
+  /** 进行中的请求数 */
+  pending: number;
+  /** 最近一次失败的原因；成功后清空 */
+  lastError: string | null;
+  online: boolean;
+  realtime: RealtimeStatus;
+  markSyncStart: () => void;
+  markSyncSuccess: () => void;
+  markSyncFailure: (error: unknown) => void;
+  setOnline: (online: boolean) => void;
+  setRealtimeStatus: (realtime: RealtimeStatus) => void;
+}
+
+const describeError = (error: unknown) => {
+  if (error instanceof Error && error.message) return error.message;
+  return '网络异常';
+};
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set) => ({
+      lastSyncedAt: null,
+      pending: 0,
+      lastError: null,
+      online: typeof navigator === 'undefined' ? true : navigator.onLine,
+      realtime: 'idle',
+      markSyncStart: () => set((state) => ({ pending: state.pending + 1 })),
+      markSyncSuccess: () =>
+        set((state) => ({ pending: Math.max(0, state.pending - 1), lastSyncedAt: Date.now(), lastError: null })),
+      markSyncFailure: (error) =>
+        set((state) => ({ pending: Math.max(0, state.pending - 1), lastError: describeError(error) })),
+      setOnline: (online) => set({ online }),
+      setRealtimeStatus: (realtime) => set({ realtime }),
+    }),
+    {
+      name: 'smart-aquaculture-sync',
+      // 只持久化同步时间，请求计数与在线状态每次启动重新计算
+      partialize: (state) => ({ lastSyncedAt: state.lastSyncedAt }),
+    }
+  )
+);
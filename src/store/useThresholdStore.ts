@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ThresholdProfile } from '@/utils/waterQualityAlerts';
+
+interface ThresholdState {
+  /** 用户自定义阈值，按阈值档名称（养殖品种）存储 */
+  overrides: Record<string, ThresholdProfile>;
+  setProfileOverride: (profileName: string, profile: ThresholdProfile) => void;
+  resetProfile: (profileName: string) => void;
+}
+
+export const useThresholdStore = create<ThresholdState>()(
+  persist(
+    (set) => ({
+      overrides: {},
+      setProfileOverride: (profileName, profile) =>
+        set((state) => ({ overrides: { ...state.overrides, [profileName]: profile } })),
+      resetProfile: (profileName) =>
+        set((state) => {
+          const next = { ...state.overrides };
+          delete next[profileName];
+          return { overrides: next };
+        }),
+    }),
+    {
+      name: 'smart-aquaculture-thresholds',
+    }
+  )
+);
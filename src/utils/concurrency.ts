@@ -0,0 +1,57 @@
+/**
+ * 限制并发的批量异步任务
+ * 作用：塘口数量很大时避免一次性发出成百上千个请求
+ * 输入：任务参数、最大并发数、任务函数
+ * 输出：与输入顺序一致的结果；任一任务失败则整体失败（需要容错时由任务函数自行 catch）
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/** 按固定大小切分数组，用于分批处理并逐批更新界面 */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const step = Math.max(1, size);
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += step) chunks.push(items.slice(i, i + step));
+  return chunks;
+}
+
+export interface RetryOptions {
+  /** 失败后的最大重试次数 */
+  retries: number;
+  /** 首次重试前的等待时间（毫秒），之后每次翻倍 */
+  delayMs: number;
+}
+
+/** 读取请求错误的 HTTP 状态码（网络错误、超时等无响应时为 undefined） */
+export const getHttpStatus = (e: unknown): number | undefined => (e as { response?: { status?: number } })?.response?.status;
+
+/**
+ * 失败重试
+ * 作用：分页、详情等批量请求中偶发的单个失败不应让整批结果作废
+ * 逻辑：网络错误与 5xx 按退避间隔重试；4xx（无权限、不存在等）重试无意义，直接抛出
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      const status = getHttpStatus(e);
+      if (attempt >= options.retries || (status !== undefined && status < 500)) throw e;
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs * 2 ** attempt));
+    }
+  }
+}
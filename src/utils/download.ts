@@ -1,5 +1,16 @@
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import { drawElementAsVector, drawPdfWatermark, registerPdfFont } from './vectorPdf';
+
+/**
+ * PDF 渲染方式
+ *  - vector：文字、表格与图表以矢量绘制，文字可选中复制，文件更小（需内嵌中文字体）
+ *  - raster：html2canvas 截图后嵌入图片
+ * 选择 vector 但中文字体不可用时抛出 PdfFontUnavailableError，不会静默回退为 raster；需要截图方式时由调用方显式指定
+ */
+export type PdfRenderer = 'vector' | 'raster';
+
+const OFFSCREEN_LEFT = '-100000px';
 
 export function downloadBase64File(filename: string, base64: string, mime = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
   const input = String(base64 || '').trim();
@@ -62,6 +73,11 @@ export function downloadBinaryFile(filename: string, buffer: ArrayBuffer, mime =
   setTimeout(() => a.remove(), 10000);
 }
 
+/** 文本内容以 UTF-8 编码下载（CSV、NDJSON 等） */
+export function downloadTextFile(filename: string, text: string, mime = 'text/plain;charset=utf-8') {
+  downloadBinaryFile(filename, new TextEncoder().encode(text).buffer as ArrayBuffer, mime);
+}
+
 /**
  * DOM 节点导出为 PDF 的配置项
  * 作用：定义导出范围、文件名、页面尺寸、截图倍率、克隆节点样式调整等参数。
@@ -80,6 +96,8 @@ export type DownloadElementAsPdfOptions = {
   backgroundColor?: string;
   ignoreSelector?: string;
   onClone?: (clonedElement: HTMLElement, clonedDocument: Document) => void;
+  /** 渲染方式，默认 'vector' */
+  renderer?: PdfRenderer;
 };
 
 /**
@@ -89,9 +107,8 @@ export type DownloadElementAsPdfOptions = {
  *  - options: DownloadElementAsPdfOptions
  * 输出：无（触发浏览器下载）
  * 逻辑：
- *  1. 使用 html2canvas 将 DOM 渲染为 Canvas（支持 onClone 调整克隆节点样式）
- *  2. 使用 jsPDF 将 Canvas 图片写入 PDF
- *  3. 当内容超过一页时自动分页
+ *  1. vector：克隆节点到离屏容器（支持 onClone 调整样式）后矢量绘制，超过一页时按页裁切
+ *  2. raster：使用 html2canvas 将 DOM 渲染为 Canvas，再写入 PDF，超过一页时自动分页
  */
 export async function downloadElementAsPdf({
   element,
@@ -103,9 +120,58 @@ export async function downloadElementAsPdf({
   backgroundColor = '#ffffff',
   ignoreSelector,
   onClone,
+  renderer = 'vector',
 }: DownloadElementAsPdfOptions) {
   if (!element) return;
 
+  if (renderer === 'vector') {
+    const pdf = new jsPDF({ orientation, unit: 'pt', format });
+    const fontFamily = await registerPdfFont(pdf);
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - marginPt * 2;
+    const contentHeight = pageHeight - marginPt * 2;
+
+    const host = document.createElement('div');
+    host.style.position = 'fixed';
+    host.style.left = OFFSCREEN_LEFT;
+    host.style.top = '0';
+    host.style.width = `${element.getBoundingClientRect().width || element.offsetWidth}px`;
+    host.style.backgroundColor = backgroundColor;
+    const cloned = element.cloneNode(true) as HTMLElement;
+    host.appendChild(cloned);
+    document.body.appendChild(host);
+    try {
+      onClone?.(cloned, document);
+      const scaleRatio = contentWidth / (host.getBoundingClientRect().width || 1);
+      const totalHeight = host.getBoundingClientRect().height * scaleRatio;
+      // 每页绘制同一内容的不同纵向区段，并裁切到内容区
+      for (let offset = 0, pageIndex = 0; offset < totalHeight - 1; offset += contentHeight, pageIndex++) {
+        if (pageIndex > 0) pdf.addPage();
+        pdf.setFillColor(backgroundColor);
+        pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+        pdf.saveGraphicsState();
+        pdf.rect(marginPt, marginPt, contentWidth, contentHeight, null);
+        pdf.clip();
+        pdf.discardPath();
+        await drawElementAsVector(pdf, host, {
+          x: marginPt,
+          y: marginPt - offset,
+          width: contentWidth,
+          fontFamily,
+          ignoreSelector,
+          skipRootBox: true,
+          visibleRange: { top: marginPt, bottom: marginPt + contentHeight },
+        });
+        pdf.restoreGraphicsState();
+      }
+    } finally {
+      host.remove();
+    }
+    pdf.save(filename);
+    return;
+  }
+
   const canvas = await html2canvas(element, {
     backgroundColor,
     scale,
@@ -153,14 +219,14 @@ export async function downloadElementAsPdf({
  * 输入：
  *  - elements: 需要导出的元素列表（按页面展示顺序）
  *  - filename: 下载文件名
- *  - itemsPerPage: 每页放置的元素数量（例如 3）
+ *  - itemsPerPage: 每页放置的元素数量（例如 3）；'auto' 时按元素实际高度装满每页
  *  - headerBuilder: 可选的页眉构建函数（用于每页顶部标题/日期范围等）
  * 输出：无（触发浏览器下载）
  */
 export type DownloadPagedElementsAsPdfOptions = {
   elements: HTMLElement[];
   filename: string;
-  itemsPerPage: number | ((ctx: { pageIndex: number }) => number);
+  itemsPerPage: number | 'auto' | ((ctx: { pageIndex: number }) => number);
   headerBuilder?: (ctx: { pageIndex: number; totalPages: number }) => HTMLElement;
   orientation?: 'portrait' | 'landscape';
   format?: 'a4';
@@ -175,6 +241,10 @@ export type DownloadPagedElementsAsPdfOptions = {
   watermarkRotateDeg?: number;
   watermarkFontSizePx?: number;
   watermarkGapPx?: number;
+  /** 输出方式：'save' 触发浏览器下载（默认），'blob' 返回 PDF Blob（用于打包 ZIP 等） */
+  output?: 'save' | 'blob';
+  /** 渲染方式，默认 'vector' */
+  renderer?: PdfRenderer;
 };
 
 /**
@@ -182,11 +252,11 @@ export type DownloadPagedElementsAsPdfOptions = {
  * 作用：将页面上的多个图表/模块按固定数量分页导出，避免“第一页正常，后续页被裁切/错位”的问题。
  * 输入：
  *  - options: DownloadPagedElementsAsPdfOptions
- * 输出：无（触发浏览器下载）
+ * 输出：output 为 'blob' 时返回 PDF Blob，否则无（触发浏览器下载）
  * 逻辑：
  *  1. 将当前页面的目标元素逐个 clone 到离屏容器中（不影响原页面）
- *  2. 每页容器使用 html2canvas 截图得到单页图片
- *  3. 使用 jsPDF 将每页图片写入 PDF（每页一张完整图片），保证分页边界稳定
+ *  2. vector：每页容器按布局矢量绘制，水印为矢量文字；raster：html2canvas 截图得到单页图片
+ *  3. 每页内容整体缩放到页面内，保证分页边界稳定
  */
 export async function downloadPagedElementsAsPdf({
   elements,
@@ -206,11 +276,14 @@ export async function downloadPagedElementsAsPdf({
   watermarkRotateDeg = -25,
   watermarkFontSizePx = 24,
   watermarkGapPx = 110,
-}: DownloadPagedElementsAsPdfOptions) {
+  output = 'save',
+  renderer = 'vector',
+}: DownloadPagedElementsAsPdfOptions): Promise<Blob | undefined> {
   if (!elements || elements.length === 0) return;
   if (!itemsPerPage) return;
 
   const pdf = new jsPDF({ orientation, unit: 'pt', format });
+  const fontFamily = renderer === 'vector' ? await registerPdfFont(pdf) : null;
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const contentWidth = pageWidth - marginPt * 2;
@@ -230,27 +303,65 @@ export async function downloadPagedElementsAsPdf({
     return Number.isFinite(v) && v >= 120 ? v : 0;
   };
 
+  const requestedWidthPx = Math.round(wrapperWidthPx);
+  const resolvedWrapperWidthPx = Math.min(980, Math.max(520, Number.isFinite(requestedWidthPx) ? requestedWidthPx : 780));
+  const sidePaddingPx = 14;
+  const gapPx = 10;
+  const minHeightPx = Math.max(1, Math.round(resolvedWrapperWidthPx * (contentHeight / contentWidth)));
+
+  // 离屏测量页眉高度（按页码构建，首页页眉通常更高）
+  const measureHeaderHeight = (pageIndex: number) => {
+    if (!headerBuilder) return 0;
+    const probe = document.createElement('div');
+    probe.style.position = 'fixed';
+    probe.style.left = OFFSCREEN_LEFT;
+    probe.style.top = '0';
+    probe.style.width = `${resolvedWrapperWidthPx - sidePaddingPx * 2}px`;
+    probe.appendChild(headerBuilder({ pageIndex, totalPages: 1 }));
+    document.body.appendChild(probe);
+    const height = probe.getBoundingClientRect().height;
+    probe.remove();
+    return height;
+  };
+
   const pages: HTMLElement[][] = [];
-  let cursor = 0;
-  let pageIndexForSplit = 0;
-  while (cursor < safeElements.length) {
-    const count = getItemsPerPage(pageIndexForSplit);
-    pages.push(safeElements.slice(cursor, cursor + count));
-    cursor += count;
-    pageIndexForSplit += 1;
+  if (itemsPerPage === 'auto') {
+    // 按元素高度装箱：元素源节点与导出页宽度基本一致，预留少量余量抵消宽度差异
+    const available = (pageIndex: number) => (minHeightPx - 18 - measureHeaderHeight(pageIndex)) * 0.96;
+    let current: HTMLElement[] = [];
+    let used = 0;
+    let limit = available(0);
+    safeElements.forEach((el) => {
+      const height = el.getBoundingClientRect().height + gapPx;
+      if (current.length > 0 && used + height > limit) {
+        pages.push(current);
+        current = [];
+        used = 0;
+        limit = available(pages.length);
+      }
+      current.push(el);
+      used += height;
+    });
+    if (current.length > 0) pages.push(current);
+  } else {
+    let cursor = 0;
+    let pageIndexForSplit = 0;
+    while (cursor < safeElements.length) {
+      const count = getItemsPerPage(pageIndexForSplit);
+      pages.push(safeElements.slice(cursor, cursor + count));
+      cursor += count;
+      pageIndexForSplit += 1;
+    }
   }
   const totalPages = pages.length;
 
   for (let pageIndex = 0; pageIndex < totalPages; pageIndex++) {
     const pageItems = pages[pageIndex] || [];
     if (pageItems.length === 0) continue;
-    const requestedWidthPx = Math.round(wrapperWidthPx);
-    const resolvedWrapperWidthPx = Math.min(980, Math.max(520, Number.isFinite(requestedWidthPx) ? requestedWidthPx : 780));
-    const sidePaddingPx = 14;
 
     const wrapper = document.createElement('div');
     wrapper.style.position = 'fixed';
-    wrapper.style.left = '-100000px';
+    wrapper.style.left = OFFSCREEN_LEFT;
     wrapper.style.top = '0';
     wrapper.style.zIndex = '-1';
     wrapper.style.backgroundColor = backgroundColor;
@@ -259,12 +370,12 @@ export async function downloadPagedElementsAsPdf({
     wrapper.style.boxSizing = 'border-box';
     wrapper.style.display = 'flex';
     wrapper.style.flexDirection = 'column';
-    wrapper.style.gap = '10px';
+    wrapper.style.gap = `${gapPx}px`;
     wrapper.style.overflow = 'visible';
-    const minHeightPx = Math.max(1, Math.round(resolvedWrapperWidthPx * (contentHeight / contentWidth)));
     wrapper.style.minHeight = `${minHeightPx}px`;
 
-    if (watermarkText) {
+    // 矢量模式的水印直接绘制到 PDF
+    if (watermarkText && !fontFamily) {
       const wm = document.createElement('div');
       wm.style.position = 'absolute';
       wm.style.left = '-20%';
@@ -351,6 +462,38 @@ export async function downloadPagedElementsAsPdf({
 
     document.body.appendChild(wrapper);
 
+    if (fontFamily) {
+      const wrapperRect = wrapper.getBoundingClientRect();
+      let renderWidth = contentWidth;
+      if ((wrapperRect.height * renderWidth) / wrapperRect.width > contentHeight) {
+        renderWidth = (contentHeight * wrapperRect.width) / wrapperRect.height;
+      }
+      if (pageIndex > 0) pdf.addPage();
+      pdf.setFillColor(backgroundColor);
+      pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+      if (watermarkText) {
+        const ptPerPx = renderWidth / wrapperRect.width;
+        drawPdfWatermark(pdf, {
+          text: watermarkText,
+          fontFamily,
+          opacity: watermarkOpacity,
+          rotateDeg: watermarkRotateDeg,
+          fontSizePt: watermarkFontSizePx * ptPerPx,
+          gapPt: watermarkGapPx * ptPerPx,
+        });
+      }
+      await drawElementAsVector(pdf, wrapper, {
+        x: marginPt + (contentWidth - renderWidth) / 2,
+        y: marginPt,
+        width: renderWidth,
+        fontFamily,
+        ignoreSelector,
+        skipRootBox: true,
+      });
+      wrapper.remove();
+      continue;
+    }
+
     const canvas = await html2canvas(wrapper, {
       backgroundColor,
       scale,
@@ -381,5 +524,6 @@ export async function downloadPagedElementsAsPdf({
     wrapper.remove();
   }
 
+  if (output === 'blob') return pdf.output('blob');
   pdf.save(filename);
 }
@@ -0,0 +1,155 @@
+import JSZip from 'jszip';
+import { format } from 'date-fns';
+import type { Pond } from '@/services/ponds';
+import { cancelExport } from '@/services/export';
+import { useThresholdStore } from '@/store/useThresholdStore';
+import { ExportOptions, toExportParams } from './exportOptions';
+import { fetchExportFile, getExportErrorMessage, isExportAbort } from './exportJobs';
+import { loadTimelineRange } from './timelineCache';
+import { buildTrendReportPdf, sanitizeFilenamePart } from './pondReport';
+import { resolveProfileName, resolveThresholdProfile } from './waterQualityAlerts';
+
+/** 趋势报告所需的记录类型（与塘口详情页趋势图一致） */
+const TREND_RECORD_TYPES = ['waterquality_data', 'feed_data'];
+
+export type BundleItemStatus = 'ok' | 'failed' | 'skipped';
+
+export interface BundlePondResult {
+  pondId: number;
+  pondName: string;
+  excel: { status: BundleItemStatus; file?: string; size?: number; error?: string };
+  /** 未勾选趋势报告时为 undefined；区间内无水质/投喂记录时为 skipped */
+  report?: { status: BundleItemStatus; file?: string; error?: string };
+}
+
+export interface BundleProgress {
+  /** 已处理的塘口数 */
+  done: number;
+  total: number;
+  current?: string;
+}
+
+export interface ExportBundleOptions {
+  ponds: Pond[];
+  options: ExportOptions;
+  includeTrendReport: boolean;
+  signal: AbortSignal;
+  onProgress?: (progress: BundleProgress) => void;
+}
+
+export interface ExportBundleResult {
+  /** ZIP 文件内容；所有塘口均失败时为 null */
+  buffer: ArrayBuffer | null;
+  fileName: string;
+  results: BundlePondResult[];
+}
+
+const buildManifest = (options: ExportOptions, results: BundlePondResult[], includeTrendReport: boolean) => ({
+  generated_at: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
+  range: {
+    start: format(options.range.startDate, 'yyyy-MM-dd'),
+    end: format(options.range.endDate, 'yyyy-MM-dd'),
+  },
+  record_types: options.types,
+  include_trend_report: includeTrendReport,
+  ponds: results.map((r) => ({
+    id: r.pondId,
+    name: r.pondName,
+    excel: r.excel,
+    report: r.report ?? null,
+  })),
+});
+
+async function buildPondReport(pond: Pond, options: ExportOptions) {
+  const params = toExportParams(options, pond.id);
+  const data = await loadTimelineRange({
+    pond_id: pond.id,
+    start_time: params.start_time,
+    end_time: params.end_time,
+    type: TREND_RECORD_TYPES,
+  });
+  if (data.length === 0) return null;
+  const thresholds = resolveThresholdProfile(
+    resolveProfileName(pond.breed_species),
+    useThresholdStore.getState().overrides
+  );
+  return buildTrendReportPdf({ pondId: pond.id, pond, data, range: options.range, thresholds, output: 'blob' });
+}
+
+/**
+ * 批量导出为 ZIP
+ * 作用：将多个塘口的 Excel 报表（及可选的趋势报告 PDF）在浏览器端打包为一个 ZIP
+ * 输入：塘口列表、导出选项、是否附带趋势报告、取消信号
+ * 输出：ZIP 文件内容、文件名与各塘口的成功/失败明细
+ * 逻辑：
+ *  1. 逐个塘口提交导出任务并等待完成 (fetchExportFile)，单个塘口失败不影响其他塘口
+ *  2. 每个塘口一个目录：`<塘口名>_<ID>/`，含 xlsx 与 pdf
+ *  3. 取消时中止当前塘口的后端任务，已完成的部分不再打包
+ *  4. 根目录写入 manifest.json，记录导出范围、记录类型与每个文件的结果
+ */
+export async function buildExportBundle({
+  ponds,
+  options,
+  includeTrendReport,
+  signal,
+  onProgress,
+}: ExportBundleOptions): Promise<ExportBundleResult> {
+  const zip = new JSZip();
+  const results: BundlePondResult[] = [];
+  const ts = format(new Date(), 'yyyyMMdd_HHmm');
+
+  for (let i = 0; i < ponds.length; i++) {
+    const pond = ponds[i];
+    onProgress?.({ done: i, total: ponds.length, current: pond.name });
+    const folder = `${sanitizeFilenamePart(pond.name)}_${pond.id}`;
+    const result: BundlePondResult = { pondId: pond.id, pondName: pond.name, excel: { status: 'failed' } };
+
+    let jobId: string | undefined;
+    try {
+      const buffer = await fetchExportFile(toExportParams(options, pond.id), {
+        signal,
+        onJobId: (id) => (jobId = id),
+      });
+      const file = `${folder}/${folder}_${ts}.xlsx`;
+      zip.file(file, buffer);
+      result.excel = { status: 'ok', file, size: buffer.byteLength };
+    } catch (e) {
+      if (isExportAbort(e) || signal.aborted) {
+        // 尽量通知后端取消正在生成的任务
+        if (jobId) cancelExport(jobId).catch(() => undefined);
+        throw e;
+      }
+      console.error(`Bundle export failed for pond ${pond.id}:`, e);
+      result.excel = { status: 'failed', error: getExportErrorMessage(e) };
+    }
+
+    if (includeTrendReport) {
+      try {
+        const pdf = await buildPondReport(pond, options);
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        if (pdf) {
+          const file = `${folder}/${folder}_智能养殖报告_${ts}.pdf`;
+          zip.file(file, pdf);
+          result.report = { status: 'ok', file };
+        } else {
+          result.report = { status: 'skipped', error: '所选范围内没有水质或投喂记录' };
+        }
+      } catch (e) {
+        if (signal.aborted) throw e;
+        console.error(`Trend report failed for pond ${pond.id}:`, e);
+        result.report = { status: 'failed', error: e instanceof Error ? e.message : '趋势报告生成失败' };
+      }
+    }
+
+    results.push(result);
+  }
+  onProgress?.({ done: ponds.length, total: ponds.length });
+
+  const fileName = `养殖数据_${ponds.length}个塘口_${ts}.zip`;
+  const anySuccess = results.some((r) => r.excel.status === 'ok' || r.report?.status === 'ok');
+  if (!anySuccess) return { buffer: null, fileName, results };
+
+  zip.file('manifest.json', JSON.stringify(buildManifest(options, results, includeTrendReport), null, 2));
+  const buffer = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+  return { buffer, fileName, results };
+}
@@ -0,0 +1,278 @@
+import { format } from 'date-fns';
+import { ExportParams, ExportStatus, cancelExport, downloadExport, getExportStatus, startExport } from '@/services/export';
+import { ExportJob, MAX_EXPORT_HISTORY, useExportJobStore } from '@/store/useExportJobStore';
+import { cacheDelete, cacheGet, cacheSet } from './offlineStore';
+import { downloadBinaryFile } from './download';
+
+/**
+ * 导出任务管理
+ * 作用：提交导出任务后轮询后端状态、展示进度，支持取消与重试，并保留可再次下载的历史记录
+ * 约定：
+ *  - 任务信息按账号持久化在 useExportJobStore，导出文件缓存在 IndexedDB（'exports'，按账号分区，保留 7 天）
+ *  - 切换账号时中断进行中的任务（文件缓存按账号分区，不能写到新账号下），原账号登录后可重试
+ *  - 后端不提供状态接口（404）时直接下载，与原先的同步导出行为一致
+ *  - 页面刷新后由 resumeExportJobs 继续轮询未完成的任务
+ */
+
+const POLL_INTERVAL_MIN = 1000;
+const POLL_INTERVAL_MAX = 5000;
+/** 单个任务最长等待时间 */
+const POLL_TIMEOUT = 10 * 60 * 1000;
+/** 轮询连续失败次数上限（网络抖动时不立即判定失败） */
+const MAX_POLL_ERRORS = 3;
+
+const controllers = new Map<string, AbortController>();
+
+const ACTIVE_STATUSES: ExportJob['status'][] = ['queued', 'running', 'downloading'];
+
+export const isExportJobActive = (job: ExportJob) => ACTIVE_STATUSES.includes(job.status);
+
+const getJob = (id: string) => useExportJobStore.getState().jobs.find((job) => job.id === id);
+
+const updateJob = (id: string, patch: Partial<ExportJob>) => useExportJobStore.getState().updateJob(id, patch);
+
+const getHttpStatus = (e: unknown): number | undefined => (e as { response?: { status?: number } })?.response?.status;
+
+export const getExportErrorMessage = (e: unknown) => {
+  const status = getHttpStatus(e);
+  if (status) return `导出失败（HTTP ${status}）`;
+  return e instanceof Error && e.message ? e.message : '导出失败，请稍后重试';
+};
+
+class ExportAbortError extends Error {
+  constructor() {
+    super('导出已取消');
+    this.name = 'ExportAbortError';
+  }
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ExportAbortError());
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new ExportAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 轮询任务状态直到完成
+ * 逻辑：间隔从 1 秒逐步放宽到 5 秒；后端返回 404 视为不支持状态查询，直接进入下载
+ */
+async function waitForExport(jobId: string, signal: AbortSignal, onProgress: (progress: number | null) => void) {
+  const startedAt = Date.now();
+  let interval = POLL_INTERVAL_MIN;
+  let errors = 0;
+  while (Date.now() - startedAt < POLL_TIMEOUT) {
+    await sleep(interval, signal);
+    interval = Math.min(POLL_INTERVAL_MAX, Math.round(interval * 1.5));
+    let status: ExportStatus;
+    try {
+      status = await getExportStatus(jobId);
+    } catch (e) {
+      if (getHttpStatus(e) === 404) return;
+      errors += 1;
+      if (errors >= MAX_POLL_ERRORS) throw e;
+      continue;
+    }
+    errors = 0;
+    if (status.state === 'done') return;
+    if (status.state === 'failed') throw new Error(status.message || '后端导出失败');
+    onProgress(status.progress);
+  }
+  throw new Error('导出超时，请重试');
+}
+
+// 超出历史上限时移除最早的已结束任务及其文件
+function pruneHistory() {
+  const { jobs, removeJob } = useExportJobStore.getState();
+  const finished = jobs.filter((job) => !isExportJobActive(job));
+  const overflow = jobs.length - MAX_EXPORT_HISTORY;
+  if (overflow <= 0) return;
+  finished
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .slice(0, overflow)
+    .forEach((job) => {
+      removeJob(job.id);
+      cacheDelete('exports', job.id);
+    });
+}
+
+interface ExportFileHooks {
+  /** 已提交的后端任务 ID（恢复任务时跳过提交） */
+  jobId?: string;
+  signal: AbortSignal;
+  onJobId?: (jobId: string) => void;
+  onProgress?: (status: 'running' | 'downloading', progress: number | null) => void;
+}
+
+/**
+ * 执行一次导出：提交任务 → 轮询状态 → 下载文件
+ * 输出：导出文件内容；取消时抛出 ExportAbortError
+ * 用途：导出任务管理与批量 ZIP 导出共用
+ */
+export async function fetchExportFile(params: ExportParams, hooks: ExportFileHooks): Promise<ArrayBuffer> {
+  const { signal } = hooks;
+  let jobId = hooks.jobId;
+  if (!jobId) {
+    const res = await startExport(params);
+    if (signal.aborted) throw new ExportAbortError();
+    jobId = res.job_id;
+    if (!jobId) throw new Error('后端未返回导出任务编号');
+    hooks.onJobId?.(jobId);
+  }
+  hooks.onProgress?.('running', null);
+  await waitForExport(jobId, signal, (progress) => hooks.onProgress?.('running', progress));
+
+  hooks.onProgress?.('downloading', 100);
+  const buffer = await downloadExport(jobId);
+  if (signal.aborted) throw new ExportAbortError();
+  return buffer;
+}
+
+export const isExportAbort = (e: unknown) => e instanceof ExportAbortError;
+
+async function runExportJob(id: string, autoDownload: boolean) {
+  const job = getJob(id);
+  if (!job) return;
+  controllers.get(id)?.abort();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  const { signal } = controller;
+
+  try {
+    const buffer = await fetchExportFile(job.params, {
+      jobId: job.jobId,
+      signal,
+      onJobId: (jobId) => updateJob(id, { jobId }),
+      onProgress: (status, progress) => updateJob(id, { status, progress }),
+    });
+    await cacheSet('exports', id, buffer);
+    updateJob(id, { status: 'done', progress: 100, error: undefined, finishedAt: Date.now(), size: buffer.byteLength });
+    if (autoDownload) downloadBinaryFile(job.fileName, buffer);
+  } catch (e) {
+    if (e instanceof ExportAbortError || signal.aborted) return;
+    console.error(`Export job ${id} failed:`, e);
+    updateJob(id, { status: 'failed', error: getExportErrorMessage(e), finishedAt: Date.now() });
+  } finally {
+    if (controllers.get(id) === controller) controllers.delete(id);
+  }
+}
+
+/**
+ * 提交导出任务
+ * 输入：导出参数、塘口名称（用于文件名）
+ * 输出：本地任务 ID；任务完成后自动下载
+ */
+export function enqueueExport(params: ExportParams, pondName: string): string {
+  const now = Date.now();
+  const id = `export-${now}-${Math.random().toString(36).slice(2, 8)}`;
+  const safeName = String(pondName || 'pond').replace(/[\\/:*?"<>|]/g, '_').trim() || 'pond';
+  useExportJobStore.getState().addJob({
+    id,
+    pondId: params.pond_id,
+    pondName,
+    params,
+    fileName: `${safeName}_${params.pond_id}_${format(now, 'yyyyMMdd_HHmm')}.xlsx`,
+    status: 'queued',
+    progress: null,
+    attempts: 1,
+    createdAt: now,
+  });
+  pruneHistory();
+  runExportJob(id, true);
+  return id;
+}
+
+/** 重试失败或已取消的任务（重新提交后端任务） */
+export function retryExportJob(id: string) {
+  const job = getJob(id);
+  if (!job || isExportJobActive(job)) return;
+  updateJob(id, {
+    jobId: undefined,
+    status: 'queued',
+    progress: null,
+    error: undefined,
+    finishedAt: undefined,
+    attempts: job.attempts + 1,
+  });
+  runExportJob(id, true);
+}
+
+/** 取消任务：停止轮询，并尽量通知后端取消 */
+export async function cancelExportJob(id: string) {
+  const job = getJob(id);
+  if (!job || !isExportJobActive(job)) return;
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  if (job.jobId) {
+    try {
+      await cancelExport(job.jobId);
+    } catch (e) {
+      console.warn(`Failed to cancel export job ${job.jobId} on server`, e);
+    }
+  }
+}
+
+/**
+ * 下载已完成任务的文件
+ * 逻辑：优先读取本地缓存；缓存已过期时向后端重新下载
+ */
+export async function downloadExportJob(id: string) {
+  const job = getJob(id);
+  if (!job || job.status !== 'done') return;
+  const cached = await cacheGet<ArrayBuffer>('exports', id);
+  if (cached) {
+    downloadBinaryFile(job.fileName, cached.value);
+    return;
+  }
+  if (!job.jobId) throw new Error('导出文件已过期，请重新导出');
+  const buffer = await downloadExport(job.jobId);
+  await cacheSet('exports', id, buffer);
+  downloadBinaryFile(job.fileName, buffer);
+}
+
+export function removeExportJob(id: string) {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  useExportJobStore.getState().removeJob(id);
+  cacheDelete('exports', id);
+}
+
+let resumed = false;
+
+useExportJobStore.subscribe((state, prev) => {
+  if (state.userKey === prev.userKey || controllers.size === 0) return;
+  const interrupted = Array.from(controllers.keys());
+  controllers.forEach((controller) => controller.abort());
+  controllers.clear();
+  interrupted.forEach((id) =>
+    updateJob(id, { status: 'failed', error: '切换账号导致任务中断，请重试', finishedAt: Date.now() })
+  );
+});
+
+/**
+ * 恢复未完成的任务（页面刷新后调用一次）
+ * 逻辑：已提交的任务继续轮询（完成后不自动下载）；尚未拿到后端编号的任务无法恢复，标记为失败供重试
+ */
+export function resumeExportJobs() {
+  if (resumed) return;
+  resumed = true;
+  useExportJobStore
+    .getState()
+    .jobs.filter(isExportJobActive)
+    .forEach((job) => {
+      if (controllers.has(job.id)) return;
+      if (job.jobId) runExportJob(job.id, false);
+      else updateJob(job.id, { status: 'failed', error: '页面刷新导致任务中断，请重试', finishedAt: Date.now() });
+    });
+}
@@ -0,0 +1,111 @@
+import { endOfDay, endOfQuarter, format, parse, startOfDay, startOfQuarter, subQuarters } from 'date-fns';
+import { DEFAULT_EXPORT_TYPES } from '@/services/export';
+import { getRecordTypeChineseName } from './recordUtils';
+import type { DateRangeValue } from './productionCycles';
+
+/** 可导出的记录类型（名称取自 recordTypeConfig） */
+export const EXPORT_TYPE_OPTIONS = DEFAULT_EXPORT_TYPES.map((type) => ({
+  type,
+  label: getRecordTypeChineseName(type),
+}));
+
+// 与原先导出全部数据时的起始时间一致
+const ALL_START = new Date(1999, 0, 1);
+
+export type ExportRangeShortcut = 'all' | 'thisQuarter' | 'lastQuarter';
+
+/**
+ * 导出时间范围快捷选项
+ * 预设保存快捷键而非具体日期，“上季度”等随当前时间滚动
+ */
+export const EXPORT_RANGE_SHORTCUTS: { key: ExportRangeShortcut; label: string; range: () => DateRangeValue }[] = [
+  { key: 'all', label: '全部时间', range: () => ({ startDate: ALL_START, endDate: endOfDay(new Date()) }) },
+  {
+    key: 'thisQuarter',
+    label: '本季度',
+    range: () => ({ startDate: startOfQuarter(new Date()), endDate: endOfDay(new Date()) }),
+  },
+  {
+    key: 'lastQuarter',
+    label: '上季度',
+    range: () => {
+      const start = startOfQuarter(subQuarters(new Date(), 1));
+      return { startDate: start, endDate: endOfQuarter(start) };
+    },
+  },
+];
+
+/** 预设中的时间范围：快捷键或固定日期（yyyy-MM-dd） */
+export type ExportRangeSpec = ExportRangeShortcut | { start: string; end: string };
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  types: string[];
+  range: ExportRangeSpec;
+  /** 内置预设不可删除 */
+  builtin?: boolean;
+}
+
+export interface ExportOptions {
+  range: DateRangeValue;
+  types: string[];
+}
+
+export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'builtin-all', name: '全部数据', types: DEFAULT_EXPORT_TYPES, range: 'all', builtin: true },
+  {
+    id: 'builtin-audit',
+    name: '审计：上季度饲料与投入品',
+    types: ['feed_data', 'aquacultureinputs_data'],
+    range: 'lastQuarter',
+    builtin: true,
+  },
+];
+
+export const getDefaultExportOptions = (): ExportOptions => ({
+  range: EXPORT_RANGE_SHORTCUTS[0].range(),
+  types: DEFAULT_EXPORT_TYPES,
+});
+
+const isSameDay = (a: Date, b: Date) => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+const parseDay = (input: string) => parse(input, 'yyyy-MM-dd', new Date());
+
+/** 将预设的时间范围解析为具体日期 */
+export function resolveExportRange(spec: ExportRangeSpec): DateRangeValue {
+  if (typeof spec === 'string') {
+    const shortcut = EXPORT_RANGE_SHORTCUTS.find((s) => s.key === spec) || EXPORT_RANGE_SHORTCUTS[0];
+    return shortcut.range();
+  }
+  return { startDate: startOfDay(parseDay(spec.start)), endDate: endOfDay(parseDay(spec.end)) };
+}
+
+/**
+ * 将当前选择的时间范围转换为可保存的形式
+ * 逻辑：与某个快捷选项一致时保存快捷键，否则保存固定日期
+ */
+export function toExportRangeSpec(range: DateRangeValue): ExportRangeSpec {
+  const shortcut = EXPORT_RANGE_SHORTCUTS.find((s) => {
+    const r = s.range();
+    return isSameDay(r.startDate, range.startDate) && isSameDay(r.endDate, range.endDate);
+  });
+  if (shortcut) return shortcut.key;
+  return { start: format(range.startDate, 'yyyy-MM-dd'), end: format(range.endDate, 'yyyy-MM-dd') };
+}
+
+/** 预设时间范围的展示文本 */
+export function describeExportRange(spec: ExportRangeSpec) {
+  if (typeof spec === 'string') return EXPORT_RANGE_SHORTCUTS.find((s) => s.key === spec)?.label || spec;
+  return `${spec.start} ~ ${spec.end}`;
+}
+
+/** 转换为 /export/start 参数 */
+export function toExportParams(options: ExportOptions, pondId: number) {
+  return {
+    type: EXPORT_TYPE_OPTIONS.map((o) => o.type).filter((t) => options.types.includes(t)),
+    pond_id: pondId,
+    start_time: format(startOfDay(options.range.startDate), 'yyyy-MM-dd HH:mm:ss'),
+    end_time: format(endOfDay(options.range.endDate), 'yyyy-MM-dd HH:mm:ss'),
+  };
+}
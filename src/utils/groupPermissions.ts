@@ -0,0 +1,60 @@
+import type { GroupInfo, GroupUser } from '@/services/groups';
+
+export type GroupRole = 'owner' | 'admin' | 'viewer';
+
+export const GROUP_ROLE_NAMES: Record<GroupRole, string> = {
+  owner: '创建者',
+  admin: '管理员',
+  viewer: '观众',
+};
+
+export function getMemberRole(member: GroupUser, ownerId: number): GroupRole {
+  if (Number(member.id) === Number(ownerId)) return 'owner';
+  if (member.admin) return 'admin';
+  return 'viewer';
+}
+
+/**
+ * 当前用户在群组中的角色
+ * 输出：不在成员列表中（或未登录）时为 null
+ */
+export function getCurrentRole(group: GroupInfo | null | undefined, userId: number | null | undefined): GroupRole | null {
+  if (!group || !userId) return null;
+  if (Number(group.group_owner_id) === Number(userId)) return 'owner';
+  const self = (group.user_ids || []).find((u) => Number(u.id) === Number(userId));
+  return self ? getMemberRole(self, group.group_owner_id) : null;
+}
+
+export interface GroupPermissions {
+  role: GroupRole | null;
+  canInvite: boolean;
+  canTransfer: boolean;
+  canRemove: (member: GroupUser) => boolean;
+  canToggleAdmin: (member: GroupUser) => boolean;
+}
+
+/**
+ * 计算成员管理权限
+ * 规则：
+ *  - 创建者：邀请、移除任意成员、设置/取消管理员、转让群主
+ *  - 管理员：邀请、移除观众
+ *  - 观众：无管理权限
+ *  - 任何人都不能对自己执行移除/设置管理员/转让
+ */
+export function getGroupPermissions(group: GroupInfo | null | undefined, userId: number | null | undefined): GroupPermissions {
+  const role = getCurrentRole(group, userId);
+  const isSelf = (member: GroupUser) => Number(member.id) === Number(userId);
+  const targetRole = (member: GroupUser) => getMemberRole(member, group?.group_owner_id ?? 0);
+
+  return {
+    role,
+    canInvite: role === 'owner' || role === 'admin',
+    canTransfer: role === 'owner',
+    canRemove: (member) => {
+      if (isSelf(member) || targetRole(member) === 'owner') return false;
+      if (role === 'owner') return true;
+      return role === 'admin' && targetRole(member) === 'viewer';
+    },
+    canToggleAdmin: (member) => role === 'owner' && !isSelf(member) && targetRole(member) !== 'owner',
+  };
+}
@@ -1,45 +1,35 @@
-import { getGroupsList } from '@/services/groups';
-
-export const fetchAllGroups = async () => {
+import { GroupInfo, getGroupsList } from '@/services/groups';
+import { PAGINATION_CONFIG } from '@/config';
+import { loadWithCache } from './offlineStore';
+import { fetchAllPages } from './pagination';
+
+/**
+ * 获取我加入的全部群组
+ * 以 IndexedDB 缓存（groups 命名空间），网络失败时回退缓存；无缓存且请求失败时抛出
+ */
+export const loadAllGroups = (options: { forceNetwork?: boolean } = {}): Promise<GroupInfo[]> =>
+  loadWithCache({
+    namespace: 'groups',
+    key: 'all',
+    fetcher: fetchAllGroupsFromNetwork,
+    forceNetwork: options.forceNetwork,
+  });
+
+/** 同 loadAllGroups，失败时返回空列表（用于统计等可容错的场景） */
+export const fetchAllGroups = async (options: { forceNetwork?: boolean } = {}): Promise<GroupInfo[]> => {
   try {
-    const res1: any = await getGroupsList({ page: 1, page_size: 50 });
-    const data1 = res1?.data || res1;
-
-    if (!data1) return [];
-
-    let allGroups = Array.isArray(data1.groups) ? data1.groups : [];
-
-    let totalPages = 1;
-    if (data1.total_pages) {
-      totalPages = data1.total_pages;
-    } else if (data1.page_info?.total_pages) {
-      totalPages = data1.page_info.total_pages;
-    } else {
-      if (allGroups.length >= 50) totalPages = 2;
-    }
-
-    if (totalPages > 1) {
-      const promises = [];
-      const MAX_PAGES = 20;
-      const limit = Math.min(totalPages, MAX_PAGES);
-
-      for (let p = 2; p <= limit; p++) {
-        promises.push(getGroupsList({ page: p, page_size: 50 }));
-      }
-
-      const responses = await Promise.all(promises);
-      responses.forEach((res: any) => {
-        const data = res?.data || res;
-        if (data && Array.isArray(data.groups)) {
-          allGroups = allGroups.concat(data.groups);
-        }
-      });
-    }
-
-    return allGroups;
+    return await loadAllGroups(options);
   } catch (e) {
     console.warn('Failed to fetch groups:', e);
     return [];
   }
 };
 
+// 逐页拉取全部群组，不设页数上限
+const fetchAllGroupsFromNetwork = (): Promise<GroupInfo[]> =>
+  fetchAllPages((page, page_size) => getGroupsList({ page, page_size }), {
+    pageSize: PAGINATION_CONFIG.GROUP_PAGE_SIZE,
+    concurrency: PAGINATION_CONFIG.CONCURRENCY,
+    getKey: (group) => group.id,
+    retry: { retries: PAGINATION_CONFIG.RETRIES, delayMs: PAGINATION_CONFIG.RETRY_DELAY_MS },
+  });
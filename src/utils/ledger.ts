@@ -0,0 +1,166 @@
+import { startOfDay } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { computePondAnalytics } from './pondAnalytics';
+import { getRecordTime, recordTypeConfig } from './recordUtils';
+
+/** 财务台账所需的记录类型（/query/timeline 的 type 参数） */
+export const LEDGER_RECORD_TYPES = [
+  'feed_data',
+  'aquacultureinputs_data',
+  'seed_data',
+  'loss_data',
+  'outfishpond_data',
+  'sample_data',
+];
+
+export type LedgerCategory = 'feeding' | 'aquacultureinputs' | 'seed' | 'lossing' | 'outfishpond';
+
+export type LedgerDirection = 'cost' | 'income';
+
+interface LedgerCategoryConfig {
+  direction: LedgerDirection;
+  /** 金额字段 */
+  amountKey: string;
+  color: string;
+}
+
+const LEDGER_CATEGORY_CONFIG: Record<LedgerCategory, LedgerCategoryConfig> = {
+  feeding: { direction: 'cost', amountKey: 'cost', color: '#db2777' },
+  aquacultureinputs: { direction: 'cost', amountKey: 'total_cost', color: '#8b5cf6' },
+  seed: { direction: 'cost', amountKey: 'buy_total', color: '#f59e0b' },
+  lossing: { direction: 'cost', amountKey: 'amount', color: '#64748b' },
+  outfishpond: { direction: 'income', amountKey: 'sell_total', color: '#10b981' },
+};
+
+export const LEDGER_CATEGORIES = Object.keys(LEDGER_CATEGORY_CONFIG) as LedgerCategory[];
+
+/** 类别名称取自 recordTypeConfig（如“饲料投喂”“出塘记录”） */
+export const getLedgerCategoryName = (category: LedgerCategory) => recordTypeConfig[category]?.name || category;
+
+export const getLedgerCategoryColor = (category: LedgerCategory) => LEDGER_CATEGORY_CONFIG[category].color;
+
+export const getLedgerDirection = (category: LedgerCategory) => LEDGER_CATEGORY_CONFIG[category].direction;
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: number;
+  category: LedgerCategory;
+  direction: LedgerDirection;
+  /** 金额（元），始终为正数 */
+  amount: number;
+  /** 摘要，如饵料品牌、投入品名称 */
+  summary: string;
+}
+
+export interface LedgerSummary {
+  entries: LedgerEntry[];
+  /** 各类别金额合计（元） */
+  byCategory: Record<LedgerCategory, number>;
+  totalCost: number;
+  totalIncome: number;
+  /** 毛利 = 收入 - 成本 */
+  margin: number;
+  /** 产量（斤）= 出塘重量 + 估算存塘重量 */
+  produced: number;
+  /** 每斤成本 = 总成本 / 产量；无产量时为 null */
+  costPerJin: number | null;
+  /** 按日累计的收入、成本与毛利 */
+  running: { timestamp: number; cost: number; income: number; margin: number }[];
+}
+
+const getEntrySummary = (record: TimelineRecord) => {
+  const detail = record.detail as Record<string, unknown>;
+  const parts = [detail.brand, detail.name, detail.species, detail.purpose].filter(
+    (v) => typeof v === 'string' && v.trim()
+  );
+  return parts.join(' · ');
+};
+
+/**
+ * 将时间线记录转换为台账条目
+ * 输出：含金额的费用/收入条目（金额为 0 或缺失的记录忽略），按时间升序
+ */
+export function toLedgerEntries(records: TimelineRecord[]): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  records.forEach((record, index) => {
+    if (!(record.kind in LEDGER_CATEGORY_CONFIG)) return;
+    const category = record.kind as LedgerCategory;
+    const config = LEDGER_CATEGORY_CONFIG[category];
+    const amount = Number((record.detail as Record<string, unknown>)[config.amountKey]);
+    if (!Number.isFinite(amount) || amount === 0) return;
+    const timestamp = new Date(getRecordTime(record)).getTime();
+    if (!Number.isFinite(timestamp)) return;
+    entries.push({
+      id: `${category}-${record.detail.id ?? index}`,
+      timestamp,
+      category,
+      direction: config.direction,
+      amount: Math.abs(amount),
+      summary: getEntrySummary(record),
+    });
+  });
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const sumCategories = (byCategory: Record<LedgerCategory, number>, direction: LedgerDirection) =>
+  LEDGER_CATEGORIES.filter((c) => getLedgerDirection(c) === direction).reduce((sum, c) => sum + byCategory[c], 0);
+
+// 按日累计收支，同一天只保留当天结束时的累计值
+const buildRunning = (entries: LedgerEntry[]) => {
+  const running: LedgerSummary['running'] = [];
+  let cost = 0;
+  let income = 0;
+  entries.forEach((e) => {
+    if (e.direction === 'cost') cost += e.amount;
+    else income += e.amount;
+    const day = startOfDay(e.timestamp).getTime();
+    const point = { timestamp: day, cost, income, margin: income - cost };
+    const last = running[running.length - 1];
+    if (last && last.timestamp === day) running[running.length - 1] = point;
+    else running.push(point);
+  });
+  return running;
+};
+
+const summarize = (entries: LedgerEntry[], produced: number): LedgerSummary => {
+  const byCategory = LEDGER_CATEGORIES.reduce(
+    (acc, c) => ({ ...acc, [c]: 0 }),
+    {} as Record<LedgerCategory, number>
+  );
+  entries.forEach((e) => {
+    byCategory[e.category] += e.amount;
+  });
+  const totalCost = sumCategories(byCategory, 'cost');
+  const totalIncome = sumCategories(byCategory, 'income');
+  return {
+    entries,
+    byCategory,
+    totalCost,
+    totalIncome,
+    margin: totalIncome - totalCost,
+    produced,
+    costPerJin: produced > 0 ? totalCost / produced : null,
+    running: buildRunning(entries),
+  };
+};
+
+/**
+ * 汇总塘口财务台账
+ * 作用：按类别汇总成本与收入，计算毛利、每斤成本与逐日累计毛利
+ * 输入：单个塘口周期内的时间线记录
+ * 输出：LedgerSummary
+ * 逻辑：产量取出塘重量与估算存塘重量之和（见 computePondAnalytics），未出塘的周期也能估算每斤成本
+ */
+export function buildLedger(records: TimelineRecord[]): LedgerSummary {
+  const analytics = computePondAnalytics(records);
+  return summarize(toLedgerEntries(records), analytics.harvestWeight + (analytics.estimatedBiomass || 0));
+}
+
+/**
+ * 合并多个塘口的台账
+ * 产量按各塘口分别估算后相加，避免跨塘口混用测样体重
+ */
+export function combineLedgers(ledgers: LedgerSummary[]): LedgerSummary {
+  const entries = ledgers.flatMap((l) => l.entries).sort((a, b) => a.timestamp - b.timestamp);
+  return summarize(entries, ledgers.reduce((sum, l) => sum + l.produced, 0));
+}
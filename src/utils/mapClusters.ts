@@ -0,0 +1,44 @@
+/**
+ * 地图标记网格聚合
+ * 作用：塘口密集时将屏幕上相近的标记合并为一个聚合点，避免重叠
+ * 约定：坐标为当前缩放级别下的投影像素坐标，缩放后需重新聚合
+ */
+
+export interface ClusterPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+export interface Cluster<T> {
+  /** 聚合中心（成员像素坐标的平均值） */
+  x: number;
+  y: number;
+  items: T[];
+}
+
+/**
+ * 按固定像素网格聚合
+ * 输入：投影像素坐标点、网格边长（px）
+ * 输出：聚合结果，单点也作为只有一个成员的聚合返回；顺序与各网格首个点出现的顺序一致
+ */
+export function clusterByGrid<T>(points: ClusterPoint<T>[], cellSize: number): Cluster<T>[] {
+  const size = Math.max(1, cellSize);
+  const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+  points.forEach(({ x, y, item }) => {
+    const key = `${Math.floor(x / size)}:${Math.floor(y / size)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.sumX += x;
+      cell.sumY += y;
+      cell.items.push(item);
+    } else {
+      cells.set(key, { sumX: x, sumY: y, items: [item] });
+    }
+  });
+  return Array.from(cells.values()).map((cell) => ({
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+}
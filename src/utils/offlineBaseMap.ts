@@ -0,0 +1,76 @@
+import L from 'leaflet';
+
+// 各缩放级别的经纬线间隔（度）
+const getGraticuleStep = (zoom: number) => {
+  if (zoom <= 4) return 10;
+  if (zoom <= 6) return 5;
+  if (zoom <= 8) return 1;
+  if (zoom <= 10) return 0.5;
+  if (zoom <= 12) return 0.1;
+  if (zoom <= 14) return 0.02;
+  return 0.005;
+};
+
+const formatDegree = (value: number, positive: string, negative: string) => {
+  const abs = Number(Math.abs(value).toFixed(3));
+  return `${abs}°${value >= 0 ? positive : negative}`;
+};
+
+/**
+ * 离线经纬网底图
+ * 作用：无可用瓦片（内网/离线部署）时的底图，按缩放级别在画布上绘制经纬线与度数标注
+ * 输入：地图实例（用于经纬度与像素坐标换算）
+ * 输出：可直接 addTo(map) 的 GridLayer，不发起任何网络请求
+ */
+class OfflineGraticuleLayer extends L.GridLayer {
+  baseMap: L.Map;
+
+  constructor(baseMap: L.Map) {
+    super({ tileSize: 256 });
+    this.baseMap = baseMap;
+  }
+
+  protected createTile(coords: L.Coords): HTMLElement {
+    const map = this.baseMap;
+    const tile = document.createElement('canvas');
+    const size = this.getTileSize();
+    tile.width = size.x;
+    tile.height = size.y;
+    const ctx = tile.getContext('2d');
+    if (!ctx) return tile;
+
+    ctx.fillStyle = '#eef2f7';
+    ctx.fillRect(0, 0, size.x, size.y);
+
+    const origin = L.point(coords.x * size.x, coords.y * size.y);
+    const nw = map.unproject(origin, coords.z);
+    const se = map.unproject(origin.add(size), coords.z);
+    const step = getGraticuleStep(coords.z);
+    const toPixel = (lat: number, lng: number) => map.project([lat, lng], coords.z).subtract(origin);
+
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.lineWidth = 1;
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '10px sans-serif';
+
+    for (let lng = Math.ceil(nw.lng / step) * step; lng <= se.lng; lng += step) {
+      const x = Math.round(toPixel(nw.lat, lng).x) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, size.y);
+      ctx.stroke();
+      ctx.fillText(formatDegree(lng, 'E', 'W'), x + 3, 12);
+    }
+    for (let lat = Math.ceil(se.lat / step) * step; lat <= nw.lat; lat += step) {
+      const y = Math.round(toPixel(lat, nw.lng).y) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(size.x, y);
+      ctx.stroke();
+      ctx.fillText(formatDegree(lat, 'N', 'S'), 3, y - 3);
+    }
+    return tile;
+  }
+}
+
+export const createOfflineBaseLayer = (map: L.Map): L.GridLayer => new OfflineGraticuleLayer(map);
@@ -0,0 +1,300 @@
+import { useUserStore } from '@/store/useUserStore';
+import { useSyncStore } from '@/store/useSyncStore';
+
+/**
+ * 离线数据层
+ * 作用：以 IndexedDB 缓存塘口、群组与时间线数据，按用户分区并设置有效期，
+ *       支持 stale-while-revalidate（先展示缓存，后台刷新）与网络失败时回退缓存。
+ * 约定：
+ *  - 缓存键为 `${userId}|${namespace}|${key}`，切换账号不会读到他人数据
+ *  - ttl 内视为新鲜数据，不发请求；超过 ttl 先返回缓存再后台刷新
+ *  - 超过 MAX_AGE 的缓存不再使用（仅在网络失败时也不回退）
+ *  - IndexedDB 不可用（如隐私模式）时退化为内存缓存
+ */
+
+export type CacheNamespace = 'ponds' | 'pondDetail' | 'groups' | 'timeline' | 'exports';
+
+const MINUTE = 60 * 1000;
+const MAX_AGE_MINUTES = 7 * 24 * 60;
+
+/** 各类数据的新鲜期 */
+export const CACHE_TTL: Record<CacheNamespace, number> = {
+  ponds: 5 * MINUTE,
+  pondDetail: 5 * MINUTE,
+  groups: 10 * MINUTE,
+  timeline: 2 * MINUTE,
+  // 导出文件只在下载历史中使用，不存在过期刷新
+  exports: MAX_AGE_MINUTES * MINUTE,
+};
+
+/** 缓存最长保留时间（离线回退上限） */
+const MAX_AGE = MAX_AGE_MINUTES * MINUTE;
+
+const DB_NAME = 'smart-aquaculture-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+// 旧版 localStorage 缓存键，迁移到 IndexedDB 后清理
+const LEGACY_KEYS = ['cached_ponds_data'];
+const LEGACY_PREFIXES = ['cached_pond_detail_'];
+
+interface CacheRecord<T = unknown> {
+  id: string;
+  userId: string;
+  namespace: CacheNamespace;
+  key: string;
+  value: T;
+  updatedAt: number;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  updatedAt: number;
+  /** 是否已超过新鲜期 */
+  stale: boolean;
+}
+
+/** 当前账号的缓存分区（未登录为 anonymous） */
+export function getUserPartition() {
+  const user = useUserStore.getState().user;
+  const userId = user?.user_id ?? user?.id ?? '';
+  return userId ? String(userId) : 'anonymous';
+}
+
+const recordId = (userId: string, namespace: CacheNamespace, key: string) => `${userId}|${namespace}|${key}`;
+
+const memoryStore = new Map<string, CacheRecord>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function clearLegacyCache() {
+  try {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+    const storage = window.localStorage;
+    const toRemove: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const k = storage.key(i);
+      if (!k) continue;
+      if (LEGACY_KEYS.includes(k) || LEGACY_PREFIXES.some((p) => k.startsWith(p))) toRemove.push(k);
+    }
+    toRemove.forEach((k) => storage.removeItem(k));
+  } catch {
+    return;
+  }
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('userId', 'userId', { unique: false });
+        }
+      };
+      request.onsuccess = () => {
+        clearLegacyCache();
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, falling back to memory cache', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn('IndexedDB unavailable, falling back to memory cache', e);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readRecord<T>(id: string): Promise<CacheRecord<T> | null> {
+  const db = await openDb();
+  if (!db) return (memoryStore.get(id) as CacheRecord<T>) || null;
+  try {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const result = await requestToPromise(tx.objectStore(STORE_NAME).get(id));
+    return (result as CacheRecord<T>) || null;
+  } catch (e) {
+    console.warn('Failed to read cache', e);
+    return null;
+  }
+}
+
+async function writeRecord(record: CacheRecord) {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(record.id, record);
+    return;
+  }
+  try {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    await requestToPromise(tx.objectStore(STORE_NAME).put(record));
+  } catch (e) {
+    console.warn('Failed to write cache', e);
+  }
+}
+
+async function deleteWhere(match: (record: CacheRecord) => boolean) {
+  const db = await openDb();
+  if (!db) {
+    Array.from(memoryStore.values()).forEach((record) => {
+      if (match(record)) memoryStore.delete(record.id);
+    });
+    return;
+  }
+  try {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const records = (await requestToPromise(store.index('userId').getAll(getUserPartition()))) as CacheRecord[];
+    await Promise.all(records.filter(match).map((record) => requestToPromise(store.delete(record.id))));
+  } catch (e) {
+    console.warn('Failed to delete cache', e);
+  }
+}
+
+/**
+ * 读取缓存
+ * 输出：超过 MAX_AGE 或不存在时为 null
+ */
+export async function cacheGet<T>(namespace: CacheNamespace, key: string): Promise<CacheEntry<T> | null> {
+  const record = await readRecord<T>(recordId(getUserPartition(), namespace, key));
+  if (!record) return null;
+  const age = Date.now() - record.updatedAt;
+  if (age > MAX_AGE) return null;
+  return { value: record.value, updatedAt: record.updatedAt, stale: age > CACHE_TTL[namespace] };
+}
+
+export async function cacheSet<T>(namespace: CacheNamespace, key: string, value: T) {
+  const userId = getUserPartition();
+  await writeRecord({ id: recordId(userId, namespace, key), userId, namespace, key, value, updatedAt: Date.now() });
+}
+
+interface InflightEntry {
+  namespace: CacheNamespace;
+  key: string;
+  task: Promise<unknown>;
+  /** 请求期间缓存被失效：返回的数据可能早于失效时的变更，不再写入缓存、不触发 onRevalidate */
+  superseded: boolean;
+}
+
+// 同一缓存键的并发请求合并为一个
+const inflight = new Map<string, InflightEntry>();
+
+// 标记并移出匹配的进行中请求，之后的加载重新发起请求
+function supersedeInflight(match: (entry: InflightEntry) => boolean) {
+  Array.from(inflight.entries()).forEach(([id, entry]) => {
+    if (!match(entry)) return;
+    entry.superseded = true;
+    inflight.delete(id);
+  });
+}
+
+/**
+ * 删除缓存
+ * 输入：namespace，以及可选的 key 前缀（不传则清空该类数据）
+ * 用途：记录增删改后使对应塘口的时间线缓存失效
+ */
+export async function cacheInvalidate(namespace: CacheNamespace, keyPrefix = '') {
+  supersedeInflight((entry) => entry.namespace === namespace && entry.key.startsWith(keyPrefix));
+  await deleteWhere((record) => record.namespace === namespace && record.key.startsWith(keyPrefix));
+}
+
+export async function cacheDelete(namespace: CacheNamespace, key: string) {
+  supersedeInflight((entry) => entry.namespace === namespace && entry.key === key);
+  await deleteWhere((record) => record.namespace === namespace && record.key === key);
+}
+
+/** 传给 fetcher 的上下文：forceNetwork 时下游的内存缓存也应跳过 */
+export interface CacheFetchContext {
+  forceNetwork: boolean;
+}
+
+export interface CachedLoadOptions<T> {
+  namespace: CacheNamespace;
+  key: string;
+  fetcher: (context: CacheFetchContext) => Promise<T>;
+  /** 跳过新鲜缓存，直接请求（失败时仍回退缓存） */
+  forceNetwork?: boolean;
+  /** 先返回了过期缓存时，后台刷新成功后回调 */
+  onRevalidate?: (value: T) => void;
+}
+
+async function fetchAndStore<T>(
+  namespace: CacheNamespace,
+  key: string,
+  fetcher: (context: CacheFetchContext) => Promise<T>,
+  context: CacheFetchContext
+): Promise<{ value: T; superseded: boolean }> {
+  const id = recordId(getUserPartition(), namespace, key);
+  const existing = inflight.get(id);
+  if (existing) return existing.task as Promise<{ value: T; superseded: boolean }>;
+
+  const sync = useSyncStore.getState();
+  sync.markSyncStart();
+  const entry: InflightEntry = { namespace, key, task: Promise.resolve(), superseded: false };
+  const task = (async () => {
+    try {
+      const value = await fetcher(context);
+      if (!entry.superseded) await cacheSet(namespace, key, value);
+      useSyncStore.getState().markSyncSuccess();
+      return { value, superseded: entry.superseded };
+    } catch (e) {
+      useSyncStore.getState().markSyncFailure(e);
+      throw e;
+    } finally {
+      if (inflight.get(id) === entry) inflight.delete(id);
+    }
+  })();
+  entry.task = task;
+  inflight.set(id, entry);
+  return task;
+}
+
+/**
+ * 以 stale-while-revalidate 策略加载数据
+ * 逻辑：
+ *  1. 缓存新鲜：直接返回缓存
+ *  2. 缓存过期：先返回缓存，后台请求成功后写入缓存并触发 onRevalidate
+ *  3. 无缓存或 forceNetwork：请求网络；请求失败且有缓存时回退缓存
+ *  请求期间该键被失效（cacheInvalidate / cacheDelete）时，结果仍返回给本次调用方，但不写入缓存、不触发 onRevalidate
+ */
+export async function loadWithCache<T>(options: CachedLoadOptions<T>): Promise<T> {
+  const { namespace, key, fetcher, forceNetwork = false, onRevalidate } = options;
+  const cached = await cacheGet<T>(namespace, key);
+
+  if (cached && !forceNetwork) {
+    if (cached.stale) {
+      fetchAndStore(namespace, key, fetcher, { forceNetwork: false })
+        .then(({ value, superseded }) => {
+          if (!superseded) onRevalidate?.(value);
+        })
+        .catch((e) => console.warn(`Background refresh failed (${namespace}:${key})`, e));
+    }
+    return cached.value;
+  }
+
+  try {
+    return (await fetchAndStore(namespace, key, fetcher, { forceNetwork })).value;
+  } catch (e) {
+    if (cached) {
+      console.warn(`Network failed, using cached ${namespace}:${key}`, e);
+      return cached.value;
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,71 @@
+import type { PagedList } from '@/services/envelope';
+import { RetryOptions, mapWithConcurrency, withRetry } from './concurrency';
+
+export interface FetchAllPagesOptions<T> {
+  pageSize: number;
+  /** 最大并发页数 */
+  concurrency: number;
+  /** 记录唯一键：用于跨页去重，并识别忽略分页参数、反复返回同一页的接口 */
+  getKey: (item: T) => string | number;
+  /** 每取到一页后回调当前已取得的全部记录（按页序），用于渐进渲染 */
+  onProgress?: (items: T[]) => void;
+  /** 单页失败时的重试策略，默认不重试 */
+  retry?: RetryOptions;
+}
+
+/**
+ * 拉取分页列表的全部数据
+ * 输入：按页请求函数、分页选项
+ * 输出：全部记录（按页序、按 getKey 去重）
+ * 逻辑：
+ *  1. 先请求第 1 页；接口返回总页数（或总条数）时，其余页按并发上限一次性调度
+ *  2. 未返回分页信息时，每轮并发请求后续若干页，直到某页不足 pageSize 条或没有新记录
+ *  3. 单页失败按 retry 重试；重试后仍失败则整体失败，不返回缺页的列表，由调用方决定回退（如使用缓存）
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, pageSize: number) => Promise<PagedList<T>>,
+  options: FetchAllPagesOptions<T>
+): Promise<T[]> {
+  const { pageSize, concurrency, getKey, onProgress, retry = { retries: 0, delayMs: 0 } } = options;
+  const pages: T[][] = [];
+  const loadPage = (page: number) => withRetry(() => fetchPage(page, pageSize), retry);
+
+  const collect = () => {
+    const byKey = new Map<string | number, T>();
+    pages.forEach((list) =>
+      (list || []).forEach((item) => {
+        const key = getKey(item);
+        if (!byKey.has(key)) byKey.set(key, item);
+      })
+    );
+    return Array.from(byKey.values());
+  };
+  const store = (page: number, list: T[]) => {
+    pages[page - 1] = list;
+    onProgress?.(collect());
+  };
+
+  const first = await loadPage(1);
+  store(1, first.list);
+
+  const totalPages = first.totalPages ?? (first.total != null ? Math.ceil(first.total / pageSize) : null);
+  if (totalPages != null) {
+    const rest = Array.from({ length: Math.max(0, totalPages - 1) }, (_, i) => i + 2);
+    await mapWithConcurrency(rest, concurrency, async (page) => store(page, (await loadPage(page)).list));
+    return collect();
+  }
+
+  if (first.list.length < pageSize) return collect();
+  const width = Math.max(1, concurrency);
+  for (let start = 2; ; start += width) {
+    const batch = Array.from({ length: width }, (_, i) => start + i);
+    const results = await Promise.all(batch.map(loadPage));
+    for (let i = 0; i < results.length; i++) {
+      const { list } = results[i];
+      const known = new Set(collect().map(getKey));
+      if (!list.some((item) => !known.has(getKey(item)))) return collect();
+      store(batch[i], list);
+      if (list.length < pageSize) return collect();
+    }
+  }
+}
@@ -0,0 +1,32 @@
+export interface ParamConfig {
+  name: string;
+  unit: string;
+  color: string;
+}
+
+// 参数配置映射表：将后端字段映射为中文名称、单位和颜色
+export const PARAM_CONFIG: Record<string, ParamConfig> = {
+  weight: { name: '投料量', unit: 'kg', color: '#db2777' }, // Pink
+  ph: { name: 'pH', unit: '', color: '#ef4444' },
+  oxygen: { name: '溶氧', unit: 'mg/L', color: '#10b981' },
+  temperature: { name: '水温', unit: '℃', color: '#f59e0b' },
+  ammonia: { name: '氨氮', unit: 'mg/L', color: '#3b82f6' },
+  nitrite: { name: '亚盐', unit: 'mg/L', color: '#8b5cf6' },
+  transparency: { name: '透明度', unit: 'cm', color: '#6366f1' },
+
+  // Extended params based on screenshot and common variations
+  alkalinity: { name: '总碱度', unit: 'mg/L', color: '#f97316' }, // Orange
+  total_alkalinity: { name: '总碱度', unit: 'mg/L', color: '#f97316' },
+  hardness: { name: '总硬度', unit: 'mg/L', color: '#22c55e' }, // Green
+  total_hardness: { name: '总硬度', unit: 'mg/L', color: '#22c55e' },
+  calcium: { name: '钙离子', unit: 'mg/L', color: '#eab308' }, // Yellow
+  calcium_ion: { name: '钙离子', unit: 'mg/L', color: '#eab308' },
+  orp: { name: 'ORP', unit: 'mV', color: '#a855f7' }, // Purple
+  salinity: { name: '盐度', unit: '', color: '#ec4899' }, // Pink
+  magnesium: { name: '镁离子', unit: 'mg/L', color: '#14b8a6' }, // Teal
+  magnesium_ion: { name: '镁离子', unit: 'mg/L', color: '#14b8a6' },
+  potassium: { name: '钾离子', unit: 'mg/L', color: '#64748b' }, // Slate
+  potassium_ion: { name: '钾离子', unit: 'mg/L', color: '#64748b' },
+  pressure: { name: '气压', unit: 'hPa', color: '#06b6d4' }, // Cyan
+  air_pressure: { name: '气压', unit: 'hPa', color: '#06b6d4' },
+};
@@ -0,0 +1,150 @@
+import type { KnownTimelineRecord, RecordKind, TimelineRecord } from '@/services/timeline';
+import { getRecordTime } from './recordUtils';
+
+/** 养殖分析所需的记录类型（/query/timeline 的 type 参数） */
+export const ANALYTICS_RECORD_TYPES = ['feed_data', 'sample_data', 'seed_data', 'loss_data', 'outfishpond_data'];
+
+/** 影响养殖分析结果的记录种类 */
+export const ANALYTICS_RECORD_KINDS: string[] = ['feeding', 'sampledata', 'seed', 'lossing', 'outfishpond'];
+
+export interface GrowthPoint {
+  timestamp: number;
+  /** 平均体重（斤/条） */
+  avgWeight: number;
+  /** 平均长度（cm） */
+  avgLength: number | null;
+  /** 测样时的估算存塘数量（尾） */
+  stock: number | null;
+  /** 测样时的估算存塘重量（斤） */
+  biomass: number | null;
+}
+
+export interface PondAnalytics {
+  /** 投喂总量（斤）与饵料金额（元） */
+  totalFeed: number;
+  feedCost: number;
+  /** 苗种投放数量（尾）与金额（元） */
+  seedCount: number;
+  seedCost: number;
+  /** 损失数量（尾）与重量（斤） */
+  lossCount: number;
+  lossWeight: number;
+  /** 出塘数量（尾）、重量（斤）与金额（元） */
+  harvestCount: number;
+  harvestWeight: number;
+  harvestRevenue: number;
+  /** 估算存塘数量 = 投苗 - 损失 - 出塘；无投苗记录时为 null */
+  estimatedStock: number | null;
+  /** 成活率 = (投苗 - 损失) / 投苗 */
+  survivalRate: number | null;
+  /** 最近一次测样的平均体重（斤/条） */
+  latestAvgWeight: number | null;
+  /** 估算存塘重量 = 估算存塘数量 × 最近平均体重 */
+  estimatedBiomass: number | null;
+  /** 增重 = 存塘重量 + 出塘重量 + 损失重量（苗种重量未记录，按 0 计） */
+  weightGain: number | null;
+  /** 饵料系数 FCR = 投喂总量 / 增重 */
+  fcr: number | null;
+  /** 日均增重（斤/条/天），需至少两次测样 */
+  dailyGrowth: number | null;
+  growth: GrowthPoint[];
+}
+
+type RecordOf<K extends RecordKind> = Extract<KnownTimelineRecord, { kind: K }>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+
+const timeOf = (record: TimelineRecord) => new Date(getRecordTime(record)).getTime();
+
+const ofKind = <K extends RecordKind>(records: TimelineRecord[], kind: K) =>
+  records.filter((r): r is RecordOf<K> => r.kind === kind && Number.isFinite(timeOf(r)));
+
+const sumBy = <T>(list: T[], pick: (item: T) => unknown) => list.reduce((sum, item) => sum + num(pick(item)), 0);
+
+/**
+ * 计算塘口养殖分析指标
+ * 作用：综合投喂、测样、投苗、损失、出塘记录，计算饵料系数、存塘量、成活率与生长曲线
+ * 输入：周期内的时间线记录（可混合各类型，其余类型忽略）
+ * 输出：PondAnalytics；缺少计算所需数据的指标为 null
+ * 逻辑：
+ *  1. 存塘数量按时间累计：截至某一时刻的投苗 - 损失 - 出塘
+ *  2. 每次测样的存塘重量 = 当时存塘数量 × 平均体重，构成生长曲线
+ *  3. 饵料系数 = 投喂总量 / (期末存塘重量 + 出塘重量 + 损失重量)
+ */
+export function computePondAnalytics(records: TimelineRecord[]): PondAnalytics {
+  const feeds = ofKind(records, 'feeding');
+  const seeds = ofKind(records, 'seed');
+  const losses = ofKind(records, 'lossing');
+  const harvests = ofKind(records, 'outfishpond');
+  const samples = ofKind(records, 'sampledata')
+    .filter((r) => num(r.detail.avg_weight) > 0)
+    .sort((a, b) => timeOf(a) - timeOf(b));
+
+  const seedCount = sumBy(seeds, (r) => r.detail.quantity);
+  const lossCount = sumBy(losses, (r) => r.detail.num);
+  const lossWeight = sumBy(losses, (r) => r.detail.weight);
+  const harvestCount = sumBy(harvests, (r) => r.detail.quantity);
+  const harvestWeight = sumBy(harvests, (r) => r.detail.total_weight);
+  const totalFeed = sumBy(feeds, (r) => r.detail.weight);
+
+  const stockAt = (timestamp: number) => {
+    if (seedCount <= 0) return null;
+    const upTo = <T extends TimelineRecord>(list: T[]) => list.filter((r) => timeOf(r) <= timestamp);
+    const stock =
+      sumBy(upTo(seeds), (r) => r.detail.quantity) -
+      sumBy(upTo(losses), (r) => r.detail.num) -
+      sumBy(upTo(harvests), (r) => r.detail.quantity);
+    return Math.max(0, stock);
+  };
+
+  const growth: GrowthPoint[] = samples.map((r) => {
+    const timestamp = timeOf(r);
+    const avgWeight = num(r.detail.avg_weight);
+    const stock = stockAt(timestamp);
+    return {
+      timestamp,
+      avgWeight,
+      avgLength: num(r.detail.avg_length) > 0 ? num(r.detail.avg_length) : null,
+      stock,
+      biomass: stock === null ? null : stock * avgWeight,
+    };
+  });
+
+  const estimatedStock = seedCount > 0 ? Math.max(0, seedCount - lossCount - harvestCount) : null;
+  const latest = growth[growth.length - 1];
+  const latestAvgWeight = latest ? latest.avgWeight : null;
+  const estimatedBiomass =
+    estimatedStock !== null && latestAvgWeight !== null ? estimatedStock * latestAvgWeight : null;
+
+  const weightGain = estimatedBiomass !== null ? estimatedBiomass + harvestWeight + lossWeight : null;
+  const fcr = weightGain && weightGain > 0 && totalFeed > 0 ? totalFeed / weightGain : null;
+
+  let dailyGrowth: number | null = null;
+  if (growth.length >= 2) {
+    const first = growth[0];
+    const days = (latest.timestamp - first.timestamp) / DAY;
+    if (days > 0) dailyGrowth = (latest.avgWeight - first.avgWeight) / days;
+  }
+
+  return {
+    totalFeed,
+    feedCost: sumBy(feeds, (r) => r.detail.cost),
+    seedCount,
+    seedCost: sumBy(seeds, (r) => r.detail.buy_total),
+    lossCount,
+    lossWeight,
+    harvestCount,
+    harvestWeight,
+    harvestRevenue: sumBy(harvests, (r) => r.detail.sell_total),
+    estimatedStock,
+    survivalRate: seedCount > 0 ? Math.max(0, seedCount - lossCount) / seedCount : null,
+    latestAvgWeight,
+    estimatedBiomass,
+    weightGain,
+    fcr,
+    dailyGrowth,
+    growth,
+  };
+}
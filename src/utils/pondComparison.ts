@@ -0,0 +1,83 @@
+import type { TimelineRecord } from '@/services/timeline';
+import { PARAM_CONFIG, ParamConfig } from './paramConfig';
+import { getNumericReadings, getRecordTime } from './recordUtils';
+
+/**
+ * 可对比的参数
+ * PARAM_CONFIG 中同一指标存在多个字段别名（如 alkalinity / total_alkalinity），按名称合并为一项
+ */
+export interface CompareParam extends ParamConfig {
+  /** 主字段，用作选项 key */
+  key: string;
+  /** 该指标的全部字段名 */
+  aliases: string[];
+}
+
+export const COMPARE_PARAMS: CompareParam[] = Object.entries(PARAM_CONFIG).reduce<CompareParam[]>(
+  (acc, [key, config]) => {
+    const existing = acc.find((p) => p.name === config.name);
+    if (existing) existing.aliases.push(key);
+    else acc.push({ ...config, key, aliases: [key] });
+    return acc;
+  },
+  []
+);
+
+/** 塘口曲线配色：取 PARAM_CONFIG 中的颜色（去重），超出时循环使用 */
+export const COMPARE_COLORS: string[] = Array.from(new Set(Object.values(PARAM_CONFIG).map((c) => c.color)));
+
+export const getCompareColor = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length];
+
+export type ComparisonRow = { timestamp: number } & Record<string, number | null>;
+
+/** 塘口在对比数据行中的字段名 */
+export const pondSeriesKey = (pondId: number) => `pond_${pondId}`;
+
+/**
+ * 合并多个塘口的同一参数为对比数据
+ * 作用：将各塘口的记录按时间戳对齐到同一时间轴
+ * 输入：按塘口 ID 分组的记录、参数
+ * 输出：按时间升序的数据行，每行含 timestamp 与各塘口的读数（无读数的塘口不含该字段，绘制时自动连线）
+ * 逻辑：值为 0 视为无效读数，与 TrendChart 一致
+ */
+export function buildComparisonRows(recordsByPond: Record<number, TimelineRecord[]>, param: CompareParam): ComparisonRow[] {
+  const rows = new Map<number, ComparisonRow>();
+  Object.entries(recordsByPond).forEach(([pondId, records]) => {
+    const seriesKey = pondSeriesKey(Number(pondId));
+    records.forEach((record) => {
+      const timestamp = new Date(getRecordTime(record)).getTime();
+      if (!Number.isFinite(timestamp)) return;
+      const readings = getNumericReadings(record);
+      const value = param.aliases.map((k) => readings[k]).find((v) => typeof v === 'number' && v !== 0);
+      if (value === undefined) return;
+      const row = rows.get(timestamp) || ({ timestamp } as ComparisonRow);
+      row[seriesKey] = value;
+      rows.set(timestamp, row);
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 统计各塘口的读数概况
+ * 输出：{ [pondId]: { count, min, max, avg, latest } }，无读数时为 null
+ */
+export function summarizeComparison(rows: ComparisonRow[], pondIds: number[]) {
+  const summary: Record<number, { count: number; min: number; max: number; avg: number; latest: number } | null> = {};
+  pondIds.forEach((id) => {
+    const key = pondSeriesKey(id);
+    const values = rows.map((r) => r[key]).filter((v): v is number => typeof v === 'number');
+    if (values.length === 0) {
+      summary[id] = null;
+      return;
+    }
+    summary[id] = {
+      count: values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      avg: values.reduce((sum, v) => sum + v, 0) / values.length,
+      latest: values[values.length - 1],
+    };
+  });
+  return summary;
+}
@@ -0,0 +1,207 @@
+import type { Pond } from '@/services/ponds';
+import type { TimelineRecord } from '@/services/timeline';
+import type { DisplayPond } from './pondLoader';
+import { getNumericReadings, getRecordTime } from './recordUtils';
+
+/**
+ * 首页塘口筛选、排序与分组
+ * 约定：筛选状态保存在 URL 查询参数中（刷新、分享链接后保持），与其他参数（如 view）互不影响
+ */
+
+export type PondSortKey = 'default' | 'name' | 'ph' | 'nitrite' | 'ammonia' | 'recordTime';
+export type PondSortOrder = 'asc' | 'desc';
+export type PondMembershipFilter = '' | 'owned' | 'joined';
+
+export interface PondFilterState {
+  /** 按名称或备注搜索 */
+  q: string;
+  species: string;
+  type: string;
+  /** 地区，取值同 getPondRegion */
+  region: string;
+  membership: PondMembershipFilter;
+  sort: PondSortKey;
+  order: PondSortOrder;
+  /** 按区县分组展示 */
+  groupByRegion: boolean;
+}
+
+export const DEFAULT_POND_FILTERS: PondFilterState = {
+  q: '',
+  species: '',
+  type: '',
+  region: '',
+  membership: '',
+  sort: 'default',
+  order: 'desc',
+  groupByRegion: false,
+};
+
+export const POND_SORT_OPTIONS: { key: PondSortKey; label: string }[] = [
+  { key: 'default', label: '默认排序' },
+  { key: 'name', label: '名称' },
+  { key: 'ph', label: '最新 pH' },
+  { key: 'nitrite', label: '最新亚盐' },
+  { key: 'ammonia', label: '最新氨氮' },
+  { key: 'recordTime', label: '最近记录时间' },
+];
+
+export const POND_MEMBERSHIP_OPTIONS: { key: PondMembershipFilter; label: string }[] = [
+  { key: '', label: '全部塘口' },
+  { key: 'owned', label: '我创建的' },
+  { key: 'joined', label: '我加入的' },
+];
+
+const UNSET_REGION = '未设置地区';
+
+// URL 参数名：默认值不写入 URL，保持链接简洁
+const PARAM_KEYS = {
+  q: 'q',
+  species: 'species',
+  type: 'type',
+  region: 'region',
+  membership: 'member',
+  sort: 'sort',
+  order: 'order',
+  groupByRegion: 'group',
+} as const;
+
+export function readPondFilters(params: URLSearchParams): PondFilterState {
+  const sort = params.get(PARAM_KEYS.sort) as PondSortKey;
+  const membership = params.get(PARAM_KEYS.membership) as PondMembershipFilter;
+  return {
+    q: params.get(PARAM_KEYS.q) || '',
+    species: params.get(PARAM_KEYS.species) || '',
+    type: params.get(PARAM_KEYS.type) || '',
+    region: params.get(PARAM_KEYS.region) || '',
+    membership: POND_MEMBERSHIP_OPTIONS.some((o) => o.key === membership) ? membership : '',
+    sort: POND_SORT_OPTIONS.some((o) => o.key === sort) ? sort : DEFAULT_POND_FILTERS.sort,
+    order: params.get(PARAM_KEYS.order) === 'asc' ? 'asc' : 'desc',
+    groupByRegion: params.get(PARAM_KEYS.groupByRegion) === 'region',
+  };
+}
+
+/**
+ * 将筛选状态写回查询参数
+ * 输入：当前查询参数、新的筛选状态
+ * 输出：新的 URLSearchParams（保留非筛选参数）
+ */
+export function writePondFilters(params: URLSearchParams, filters: PondFilterState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string, defaultValue = '') => {
+    if (value && value !== defaultValue) next.set(key, value);
+    else next.delete(key);
+  };
+  set(PARAM_KEYS.q, filters.q.trim());
+  set(PARAM_KEYS.species, filters.species);
+  set(PARAM_KEYS.type, filters.type);
+  set(PARAM_KEYS.region, filters.region);
+  set(PARAM_KEYS.membership, filters.membership);
+  set(PARAM_KEYS.sort, filters.sort, DEFAULT_POND_FILTERS.sort);
+  set(PARAM_KEYS.order, filters.order, DEFAULT_POND_FILTERS.order);
+  set(PARAM_KEYS.groupByRegion, filters.groupByRegion ? 'region' : '');
+  return next;
+}
+
+export const hasActivePondFilters = (filters: PondFilterState) =>
+  Boolean(filters.q.trim() || filters.species || filters.type || filters.region || filters.membership);
+
+/** 塘口所在地区（省 市 区县），均未填写时归入“未设置地区” */
+export const getPondRegion = (pond: Pick<Pond, 'province' | 'city' | 'district'>) =>
+  [pond.province, pond.city, pond.district].filter(Boolean).join(' ') || UNSET_REGION;
+
+/** 塘口列表中出现过的品种、养殖模式与地区，作为筛选项 */
+export function collectPondFilterOptions(ponds: Pond[]) {
+  const distinct = (values: string[]) =>
+    Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b, 'zh-CN'));
+  return {
+    species: distinct(ponds.map((p) => p.breed_species)),
+    types: distinct(ponds.map((p) => p.breed_type)),
+    regions: distinct(ponds.map(getPondRegion)),
+  };
+}
+
+export function filterPonds<T extends DisplayPond>(ponds: T[], filters: PondFilterState): T[] {
+  const keyword = filters.q.trim().toLowerCase();
+  return ponds.filter((pond) => {
+    if (keyword && ![pond.name, pond.user_remark].some((text) => (text || '').toLowerCase().includes(keyword))) {
+      return false;
+    }
+    if (filters.species && pond.breed_species !== filters.species) return false;
+    if (filters.type && pond.breed_type !== filters.type) return false;
+    if (filters.region && getPondRegion(pond) !== filters.region) return false;
+    // 新建后尚未刷新列表的塘口没有 membership，视为自己创建
+    if (filters.membership === 'joined' && pond.membership !== 'joined') return false;
+    if (filters.membership === 'owned' && pond.membership === 'joined') return false;
+    return true;
+  });
+}
+
+/**
+ * 最新读数
+ * 输入：水质记录、指标字段
+ * 输出：按记录时间最新的一条有效读数（0 视为无效，与趋势图一致）；无读数时返回 null
+ */
+export function getLatestReading(records: TimelineRecord[] | undefined, key: string): number | null {
+  let latest: { ts: number; value: number } | null = null;
+  for (const record of records || []) {
+    const value = getNumericReadings(record)[key];
+    if (value === undefined || value === 0) continue;
+    const ts = new Date(getRecordTime(record)).getTime() || 0;
+    if (!latest || ts > latest.ts) latest = { ts, value };
+  }
+  return latest ? latest.value : null;
+}
+
+/** 最近一条记录的时间戳；无记录时返回 null */
+export function getLatestRecordTime(records: TimelineRecord[] | undefined): number | null {
+  const times = (records || []).map((r) => new Date(getRecordTime(r)).getTime()).filter((t) => Number.isFinite(t));
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+/**
+ * 排序塘口
+ * 输入：塘口、筛选状态、各塘口近期水质记录（key 为塘口 ID）
+ * 输出：新数组；default 保持加载顺序（示例塘口置顶），读数缺失的塘口无论升降序都排在最后
+ */
+export function sortPonds<T extends Pond>(
+  ponds: T[],
+  filters: PondFilterState,
+  recordsByPond: Record<number, TimelineRecord[]>
+): T[] {
+  if (filters.sort === 'default') return ponds;
+  const direction = filters.order === 'asc' ? 1 : -1;
+  if (filters.sort === 'name') {
+    return [...ponds].sort((a, b) => direction * (a.name || '').localeCompare(b.name || '', 'zh-CN'));
+  }
+
+  const sortValue = (pond: Pond) =>
+    filters.sort === 'recordTime'
+      ? getLatestRecordTime(recordsByPond[pond.id])
+      : getLatestReading(recordsByPond[pond.id], filters.sort);
+  const values = new Map(ponds.map((p) => [p.id, sortValue(p)]));
+  return [...ponds].sort((a, b) => {
+    const va = values.get(a.id);
+    const vb = values.get(b.id);
+    if (va == null && vb == null) return 0;
+    if (va == null) return 1;
+    if (vb == null) return -1;
+    return direction * (va - vb);
+  });
+}
+
+/** 按地区分组，组内保持传入顺序；组按名称排序，“未设置地区”置后 */
+export function groupPondsByRegion<T extends Pond>(ponds: T[]): { region: string; ponds: T[] }[] {
+  const groups = new Map<string, T[]>();
+  ponds.forEach((pond) => {
+    const region = getPondRegion(pond);
+    groups.set(region, [...(groups.get(region) || []), pond]);
+  });
+  return Array.from(groups.entries())
+    .map(([region, list]) => ({ region, ponds: list }))
+    .sort((a, b) => {
+      if (a.region === UNSET_REGION) return 1;
+      if (b.region === UNSET_REGION) return -1;
+      return a.region.localeCompare(b.region, 'zh-CN');
+    });
+}
@@ -0,0 +1,111 @@
+import type { Pond, PondInput } from '@/services/ponds';
+
+export type PondFormKey = keyof Required<PondInput>;
+
+/** 表单值：统一以字符串保存输入框内容，提交时再转换 */
+export type PondFormValues = Record<PondFormKey, string>;
+
+export type PondFormErrors = Partial<Record<PondFormKey, string>>;
+
+export interface PondFieldConfig {
+  key: PondFormKey;
+  label: string;
+  unit?: string;
+  input?: 'text' | 'number' | 'textarea';
+  required?: boolean;
+  min?: number;
+  max?: number;
+  /** 数值是否必须大于 min（而非大于等于） */
+  exclusiveMin?: boolean;
+  maxLength?: number;
+  placeholder?: string;
+}
+
+/** 塘口表单字段（图片单独处理） */
+export const POND_FORM_FIELDS: PondFieldConfig[] = [
+  { key: 'name', label: '塘口名称', required: true, maxLength: 30 },
+  { key: 'breed_species', label: '养殖品种', maxLength: 30, placeholder: '如 南美白对虾' },
+  { key: 'breed_type', label: '养殖方式', maxLength: 30, placeholder: '如 池塘养殖' },
+  { key: 'breed_area', label: '养殖面积', unit: '亩', input: 'number', min: 0, exclusiveMin: true, max: 100000 },
+  { key: 'max_depth', label: '最大水深', unit: '米', input: 'number', min: 0, exclusiveMin: true, max: 50 },
+  { key: 'province', label: '省份', maxLength: 20 },
+  { key: 'city', label: '城市', maxLength: 20 },
+  { key: 'district', label: '区县', maxLength: 20 },
+  { key: 'longitude', label: '经度', input: 'number', min: -180, max: 180 },
+  { key: 'latitude', label: '纬度', input: 'number', min: -90, max: 90 },
+  { key: 'user_remark', label: '备注', input: 'textarea', maxLength: 200 },
+];
+
+const FORM_KEYS: PondFormKey[] = [...POND_FORM_FIELDS.map((f) => f.key), 'picture_url'];
+
+/** 图片上传限制 */
+export const POND_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
+export function toPondFormValues(pond?: Partial<Pond> | null): PondFormValues {
+  const values = {} as PondFormValues;
+  FORM_KEYS.forEach((key) => {
+    const raw = pond?.[key];
+    values[key] = raw === undefined || raw === null ? '' : String(raw);
+  });
+  return values;
+}
+
+/**
+ * 校验塘口表单
+ * 输出：字段 -> 错误信息；无错误时为空对象
+ * 逻辑：必填、长度、数值范围；经纬度需同时填写
+ */
+export function validatePondForm(values: PondFormValues): PondFormErrors {
+  const errors: PondFormErrors = {};
+  POND_FORM_FIELDS.forEach(({ key, label, input, required, min, max, exclusiveMin, maxLength }) => {
+    const value = (values[key] || '').trim();
+    if (!value) {
+      if (required) errors[key] = `请填写${label}`;
+      return;
+    }
+    if (maxLength != null && value.length > maxLength) {
+      errors[key] = `${label}不能超过 ${maxLength} 个字`;
+      return;
+    }
+    if (input !== 'number') return;
+    const n = Number(value);
+    if (!Number.isFinite(n)) {
+      errors[key] = `${label}必须为数字`;
+    } else if (min != null && (exclusiveMin ? n <= min : n < min)) {
+      errors[key] = exclusiveMin ? `${label}必须大于 ${min}` : `${label}不能小于 ${min}`;
+    } else if (max != null && n > max) {
+      errors[key] = `${label}不能大于 ${max}`;
+    }
+  });
+
+  const hasLng = Boolean(values.longitude.trim());
+  const hasLat = Boolean(values.latitude.trim());
+  if (hasLng !== hasLat && !errors.longitude && !errors.latitude) {
+    errors[hasLng ? 'latitude' : 'longitude'] = '经纬度需同时填写';
+  }
+  return errors;
+}
+
+const toInputValue = (field: PondFieldConfig | undefined, raw: string) => {
+  const value = raw.trim();
+  if (field?.input === 'number') return value ? Number(value) : null;
+  return value;
+};
+
+/**
+ * 表单值转为提交数据
+ * 输入：表单值、原塘口（修改时传入）
+ * 输出：PondInput；修改时只包含变更的字段
+ */
+export function toPondInput(values: PondFormValues, original?: Partial<Pond> | null): PondInput {
+  const input: Record<string, string | number | null> = {};
+  const initial = original ? toPondFormValues(original) : null;
+  FORM_KEYS.forEach((key) => {
+    if (initial && initial[key].trim() === values[key].trim()) return;
+    const field = POND_FORM_FIELDS.find((f) => f.key === key);
+    const value = toInputValue(field, values[key]);
+    if (!initial && (value === '' || value === null)) return;
+    input[key] = value;
+  });
+  return input as PondInput;
+}
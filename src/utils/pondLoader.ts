@@ -1,196 +1,181 @@
 import { getPondList, getPondDetail, Pond } from '@/services/ponds';
-import { fetchAllGroups } from './groupsLoader';
+import { PAGINATION_CONFIG } from '@/config';
+import { chunk, getHttpStatus, mapWithConcurrency, withRetry } from './concurrency';
+import { loadAllGroups } from './groupsLoader';
+import { fetchAllPages } from './pagination';
+import { cacheGet, cacheSet, loadWithCache } from './offlineStore';
+
+/** 塘口来源：owned 自己创建 / joined 通过群组加入 */
+export type PondMembership = 'owned' | 'joined';
+
+export interface DisplayPond extends Pond {
+  membership?: PondMembership;
+}
 
 type FetchDisplayPondsOptions = {
   forceNetwork?: boolean;
+  /** 先返回了过期缓存时，后台刷新完成后回调最新列表 */
+  onRevalidate?: (ponds: DisplayPond[]) => void;
+  /** 从网络加载时，每取到一批塘口回调当前已取得的列表（未完成，不写入缓存），用于渐进渲染 */
+  onProgress?: (ponds: DisplayPond[]) => void;
 };
 
-const PONDS_CACHE_KEY = 'cached_ponds_data';
-const POND_DETAIL_CACHE_PREFIX = 'cached_pond_detail_';
-const USER_STORE_KEY = 'smart-aquaculture-storage';
+const PONDS_CACHE_KEY = 'display';
 
-function getCurrentUserId() {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) return '';
-    const raw = window.localStorage.getItem(USER_STORE_KEY);
-    if (!raw) return '';
-    const parsed = JSON.parse(raw);
-    const state = parsed?.state || parsed;
-    const user = state?.user;
-    const userId = user?.user_id ?? user?.id ?? '';
-    return userId ? String(userId) : '';
-  } catch {
-    return '';
-  }
-}
+const RETRY = { retries: PAGINATION_CONFIG.RETRIES, delayMs: PAGINATION_CONFIG.RETRY_DELAY_MS };
 
-function readCachedPonds() {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) return null;
-    const raw = window.localStorage.getItem(PONDS_CACHE_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    const ponds = parsed?.ponds;
-    if (!Array.isArray(ponds)) return null;
-
-    const cacheUserId = parsed?.user_id ? String(parsed.user_id) : '';
-    const currentUserId = getCurrentUserId();
-    if (cacheUserId && currentUserId && cacheUserId !== currentUserId) return null;
-
-    return ponds as Pond[];
-  } catch {
-    return null;
+/**
+ * 塘口列表未能完整获取
+ * 作用：任一路请求失败时抛出，缓存层据此回退到上次的完整列表而不是写入残缺列表；
+ *       没有缓存可回退时，携带已取得的部分塘口供页面先行展示
+ */
+class IncompletePondListError extends Error {
+  ponds: DisplayPond[];
+  reason: unknown;
+
+  constructor(ponds: DisplayPond[], reason: unknown) {
+    super('塘口列表获取不完整');
+    this.name = 'IncompletePondListError';
+    this.ponds = ponds;
+    this.reason = reason;
   }
 }
 
-function writeCachedPonds(ponds: Pond[]) {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) return;
-    const userId = getCurrentUserId();
-    window.localStorage.setItem(
-      PONDS_CACHE_KEY,
-      JSON.stringify({
-        timestamp: Date.now(),
-        user_id: userId || undefined,
-        ponds,
-      })
-    );
-  } catch {
-    return;
-  }
+export async function readCachedPondDetail(id: string | number) {
+  const cached = await cacheGet<Pond>('pondDetail', String(id));
+  return cached?.value || null;
 }
 
-export function readCachedPondDetail(id: string | number) {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) return null;
-    const raw = window.localStorage.getItem(`${POND_DETAIL_CACHE_PREFIX}${id}`);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    const pond = parsed?.pond;
-    if (!pond || typeof pond !== 'object') return null;
-
-    const cacheUserId = parsed?.user_id ? String(parsed.user_id) : '';
-    const currentUserId = getCurrentUserId();
-    if (cacheUserId && currentUserId && cacheUserId !== currentUserId) return null;
-
-    return pond as Pond;
-  } catch {
-    return null;
-  }
+export function writeCachedPondDetail(id: string | number, pond: Pond) {
+  return cacheSet('pondDetail', String(id), pond);
 }
 
-export function writeCachedPondDetail(id: string | number, pond: Pond) {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) return;
-    const userId = getCurrentUserId();
-    window.localStorage.setItem(
-      `${POND_DETAIL_CACHE_PREFIX}${id}`,
-      JSON.stringify({
-        timestamp: Date.now(),
-        user_id: userId || undefined,
-        pond,
-      })
-    );
-  } catch {
-    return;
-  }
+/**
+ * 新建/修改塘口后同步本地缓存
+ * 作用：更新塘口详情缓存，并在塘口列表缓存中替换（或追加）该塘口，避免列表页读到旧数据
+ * 输入：接口返回的最新塘口
+ */
+export async function upsertCachedPond(pond: Pond) {
+  await writeCachedPondDetail(pond.id, pond);
+  const cached = await cacheGet<DisplayPond[]>('ponds', PONDS_CACHE_KEY);
+  if (!cached) return;
+  const list = cached.value;
+  const exists = list.some((p) => p.id === pond.id);
+  await cacheSet(
+    'ponds',
+    PONDS_CACHE_KEY,
+    exists ? list.map((p) => (p.id === pond.id ? { ...p, ...pond } : p)) : [...list, { ...pond, membership: 'owned' }]
+  );
 }
 
 /**
  * 获取用于展示的塘口列表
  * 逻辑与首页 Dashboard 完全一致：
- * 1. 获取我创建/拥有的塘口 (getPondList)
- * 2. 获取我加入的塘口 (通过 groups -> pond_id -> getPondDetail)
- * 3. 合并并去重，只保留有效塘口
+ * 1. 逐页获取我创建/拥有的塘口 (getPondList，不设数量上限，单页失败自动重试)
+ * 2. 获取我加入的塘口 (通过 groups -> pond_id -> getPondDetail，限制并发)
+ * 3. 合并并去重，只保留有效塘口；同时出现在两路中的塘口记为自己创建
+ * 4. 任一路失败时不覆盖缓存，回退到上次的列表；无缓存时返回已取得的部分塘口（不写入缓存）
  * 
- * @returns Promise<Pond[]> 最终展示的塘口列表
+ * @returns Promise<DisplayPond[]> 最终展示的塘口列表（带来源 membership）
  */
-export const fetchDisplayPonds = async (options: FetchDisplayPondsOptions = {}): Promise<Pond[]> => {
+export const fetchDisplayPonds = async (options: FetchDisplayPondsOptions = {}): Promise<DisplayPond[]> => {
   try {
-    if (!options.forceNetwork) {
-      const cached = readCachedPonds();
-      if (cached) return cached;
-    }
-
-    const pondListPromise = getPondList({ page: 1, page_size: 100 });
-    const groupPondsPromise = getGroupPondsData();
-
-    const [pondListResult, groupPondsResult] = await Promise.allSettled([pondListPromise, groupPondsPromise]);
-    
-    let newPonds: Pond[] = [];
-    
-    if (pondListResult.status === 'fulfilled') {
-      const res = pondListResult.value;
-      let list: Pond[] = [];
-      if (Array.isArray(res)) {
-        list = res;
-      } else if (res && Array.isArray(res.data)) {
-        list = res.data;
-      } else if (res && res.data && Array.isArray(res.data.list)) {
-        list = res.data.list;
-      } else if (res && res.data && Array.isArray(res.data.ponds)) {
-        list = res.data.ponds;
-      } else if (res && Array.isArray(res.list)) {
-        list = res.list;
-      } else if (res && Array.isArray(res.ponds)) {
-        list = res.ponds;
-      }
-      newPonds = [...newPonds, ...list];
-    } else {
-      console.error('Failed to fetch owned ponds', pondListResult.reason);
-    }
-
-    if (groupPondsResult.status === 'fulfilled') {
-      const groupPonds = groupPondsResult.value;
-      if (Array.isArray(groupPonds)) {
-           newPonds = [...newPonds, ...groupPonds];
-      }
-    } else {
-       console.error('Failed to fetch group ponds', groupPondsResult.reason);
-    }
-
-    // 去重
-    let unique = Array.from(new Map(newPonds.map(item => [item.id, item])).values());
-    
-    // 排序：示例鱼塘置顶
-    unique.sort((a, b) => {
-      if (a.is_demo && !b.is_demo) return -1;
-      if (!a.is_demo && b.is_demo) return 1;
-      return 0;
+    return await loadWithCache({
+      namespace: 'ponds',
+      key: PONDS_CACHE_KEY,
+      fetcher: () => fetchDisplayPondsFromNetwork(options.onProgress),
+      forceNetwork: options.forceNetwork,
+      onRevalidate: options.onRevalidate,
     });
-    
-    writeCachedPonds(unique);
-    unique.forEach((p) => {
-      writeCachedPondDetail(p.id, p);
-    });
-    return unique;
-
   } catch (err) {
     console.error('fetchDisplayPonds error:', err);
-    return [];
+    return err instanceof IncompletePondListError ? err.ponds : [];
   }
 };
 
-const getGroupPondsData = async () => {
-  try {
-    const groups = await fetchAllGroups();
-    const pondIds = Array.from(new Set(groups.map((g: any) => g.pond_id).filter(Boolean)));
-    
-    if (pondIds.length === 0) return [];
-
-    // 并发获取详情，如果获取失败（如无权限/已退出），则返回 null
-    const tasks = pondIds.map(id => getPondDetail(id as number).then((r: any) => r?.data).catch(() => null));
-    const results = await Promise.allSettled(tasks);
-    
-    const ponds: Pond[] = [];
-    results.forEach(item => {
-      if (item.status === 'fulfilled' && item.value) {
-         ponds.push(item.value);
-      }
+// 合并两路塘口：去重时保留先出现的（自己创建的优先于加入的），示例鱼塘置顶
+const mergeDisplayPonds = (owned: Pond[], joined: Pond[]): DisplayPond[] => {
+  const byId = new Map<number, DisplayPond>();
+  owned.forEach((p) => {
+    if (!byId.has(p.id)) byId.set(p.id, { ...p, membership: 'owned' });
+  });
+  joined.forEach((p) => {
+    if (!byId.has(p.id)) byId.set(p.id, { ...p, membership: 'joined' });
+  });
+  return Array.from(byId.values()).sort((a, b) => {
+    if (a.is_demo && !b.is_demo) return -1;
+    if (!a.is_demo && b.is_demo) return 1;
+    return 0;
+  });
+};
+
+const fetchDisplayPondsFromNetwork = async (onProgress?: (ponds: DisplayPond[]) => void): Promise<DisplayPond[]> => {
+  let owned: Pond[] = [];
+  let joined: Pond[] = [];
+  const report = () => onProgress?.(mergeDisplayPonds(owned, joined));
+
+  const pondListPromise = fetchAllPages((page, page_size) => getPondList({ page, page_size }), {
+    pageSize: PAGINATION_CONFIG.POND_PAGE_SIZE,
+    concurrency: PAGINATION_CONFIG.CONCURRENCY,
+    getKey: (pond) => pond.id,
+    retry: RETRY,
+    onProgress: (list) => {
+      owned = list;
+      report();
+    },
+  });
+  const groupPondsPromise = getGroupPondsData((list) => {
+    joined = list;
+    report();
+  });
+
+  const [pondListResult, groupPondsResult] = await Promise.allSettled([pondListPromise, groupPondsPromise]);
+
+  // 任一路失败都不能当作完整列表写入缓存：抛出后由缓存层回退到上次的列表
+  if (pondListResult.status === 'rejected' || groupPondsResult.status === 'rejected') {
+    throw new IncompletePondListError(
+      mergeDisplayPonds(
+        pondListResult.status === 'fulfilled' ? pondListResult.value : owned,
+        groupPondsResult.status === 'fulfilled' ? groupPondsResult.value : joined
+      ),
+      pondListResult.status === 'rejected' ? pondListResult.reason : (groupPondsResult as PromiseRejectedResult).reason
+    );
+  }
+
+  const unique = mergeDisplayPonds(pondListResult.value, groupPondsResult.value);
+
+  await mapWithConcurrency(unique, PAGINATION_CONFIG.CONCURRENCY, (p) => writeCachedPondDetail(p.id, p));
+  return unique;
+};
+
+// 塘口已删除或已无权限查看时详情接口返回 403/404，这类塘口直接跳过
+const isPondGone = (e: unknown) => {
+  const status = getHttpStatus(e);
+  return status === 403 || status === 404;
+};
+
+/**
+ * 获取我加入的塘口
+ * 输入：onProgress（每批详情获取完成后回调已取得的塘口）
+ * 逻辑：按 pond_id 去重后分批获取详情，批内限制并发；已删除/无权限的塘口跳过，
+ *       群组或详情请求因网络、服务端错误失败（重试后仍失败）时整体失败
+ */
+const getGroupPondsData = async (onProgress?: (ponds: Pond[]) => void) => {
+  const groups = await loadAllGroups({ forceNetwork: true });
+  const pondIds = Array.from(new Set(groups.map((g) => g.pond_id).filter(Boolean)));
+
+  const ponds: Pond[] = [];
+  for (const ids of chunk(pondIds, PAGINATION_CONFIG.POND_PAGE_SIZE)) {
+    const results = await mapWithConcurrency(ids, PAGINATION_CONFIG.CONCURRENCY, (id) =>
+      withRetry(() => getPondDetail(id), RETRY).catch((e) => {
+        if (isPondGone(e)) return null;
+        throw e;
+      })
+    );
+    results.forEach((pond) => {
+      if (pond) ponds.push(pond);
     });
-    return ponds;
-  } catch (e) {
-    console.warn('Failed to fetch group ponds:', e);
-    return [];
+    onProgress?.([...ponds]);
   }
+  return ponds;
 };
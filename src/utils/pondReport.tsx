@@ -0,0 +1,227 @@
+import { createRoot } from 'react-dom/client';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { addDays, format } from 'date-fns';
+import PondReport, { type PondReportData } from '@/components/report/PondReport';
+import ReportHeader from '@/components/report/ReportHeader';
+import { getAiAnalysisText } from '@/services/analysis';
+import { DEFAULT_EXPORT_TYPES } from '@/services/export';
+import type { TimelineRecord } from '@/services/timeline';
+import type { ThresholdProfile } from './waterQualityAlerts';
+import type { DateRangeValue } from './productionCycles';
+import { PdfRenderer, downloadPagedElementsAsPdf } from './download';
+import { loadTimelineRange } from './timelineCache';
+import { RECORD_SECTIONS, type ReportPond, type ReportSectionKey } from './reportSections';
+import { buildVerifyQrDataUrl, buildVerifyUrl, computeReportDigest, createReportNo } from './reportVerification';
+
+/** 趋势图所需的记录类型（与塘口详情页趋势图一致） */
+const TREND_RECORD_TYPES = ['waterquality_data', 'feed_data'];
+
+const REPORT_ITEM_SELECTOR = '[data-report-item="true"], [data-trend-export-item="true"]';
+
+/**
+ * 文件名片段清洗
+ * 作用：过滤 Windows/浏览器下载文件名中的非法字符，避免下载失败。
+ * 输入：任意字符串
+ * 输出：可用于文件名的安全字符串
+ */
+export const sanitizeFilenamePart = (input: string) => {
+  return String(input || 'pond').replace(/[\\/:*?"<>|]/g, '_').trim() || 'pond';
+};
+
+export const getReportFilename = (pondId: number | string, pondName: string | undefined, range: DateRangeValue) => {
+  const name = sanitizeFilenamePart(pondName || 'pond');
+  const start = range?.startDate ? format(range.startDate, 'yyyyMMdd') : 'start';
+  const end = range?.endDate ? format(range.endDate, 'yyyyMMdd') : 'end';
+  const ts = format(new Date(), 'yyyyMMdd_HHmm');
+  return `${name}_${pondId}_${start}-${end}_智能养殖报告_${ts}.pdf`;
+};
+
+export interface LoadPondReportDataOptions {
+  pondId: number;
+  pond: (ReportPond & { is_demo?: boolean }) | null;
+  range: DateRangeValue;
+  sections: ReportSectionKey[];
+  /** 已加载的水质/投喂记录（塘口详情页趋势图），缺省时按时间范围重新加载 */
+  trendRecords?: TimelineRecord[];
+}
+
+/**
+ * 加载报告数据
+ * 作用：按所选章节加载报告所需的记录与 AI 分析文本，未选章节不发请求
+ * 输入：塘口、时间范围、章节
+ * 输出：PondReportData
+ * 逻辑：
+ *  1. 记录类章节共用一次时间范围记录加载 (loadTimelineRange，带离线缓存)
+ *  2. 趋势图优先复用调用方已有数据，否则单独加载水质/投喂记录
+ *  3. AI 分析失败不阻断报告生成，在章节内显示失败原因
+ */
+export async function loadPondReportData({
+  pondId,
+  pond,
+  range,
+  sections,
+  trendRecords,
+}: LoadPondReportDataOptions): Promise<PondReportData> {
+  const rangeParams = {
+    pond_id: pondId,
+    start_time: format(range.startDate, 'yyyy-MM-dd HH:mm:ss'),
+    end_time: format(range.endDate, 'yyyy-MM-dd HH:mm:ss'),
+  };
+  const needsRecords = sections.some((key) => RECORD_SECTIONS.includes(key));
+  const needsTrend = sections.includes('trend');
+
+  const [records, trend, ai] = await Promise.all([
+    needsRecords ? loadTimelineRange(rangeParams) : Promise.resolve([] as TimelineRecord[]),
+    needsTrend
+      ? trendRecords
+        ? Promise.resolve(trendRecords)
+        : loadTimelineRange({ ...rangeParams, type: TREND_RECORD_TYPES })
+      : Promise.resolve([] as TimelineRecord[]),
+    sections.includes('ai')
+      ? getAiAnalysisText({
+          pond_id: pondId,
+          start_time: format(range.startDate, 'yyyy-MM-dd'),
+          end_time: format(addDays(range.endDate, 1), 'yyyy-MM-dd'),
+          type: DEFAULT_EXPORT_TYPES,
+          is_demo: !!pond?.is_demo,
+        })
+          .then((res) => ({ text: String(res.text || '').replace(/\r\n/g, '\n').trim(), error: undefined }))
+          .catch((e: any) => ({ text: '', error: `AI 分析获取失败：${e?.message || '请稍后重试'}` }))
+      : Promise.resolve({ text: '', error: undefined }),
+  ]);
+
+  return {
+    records,
+    trendRecords: trend,
+    aiText: ai.text,
+    aiError: ai.error,
+    groupInfo: pond?.groupInfo,
+  };
+}
+
+export interface PondReportOptions {
+  pondId: number | string;
+  pond: ReportPond | null;
+  range: DateRangeValue;
+  sections: ReportSectionKey[];
+  data: PondReportData;
+  thresholds?: ThresholdProfile;
+  /** 'save' 直接下载（默认），'blob' 返回 PDF Blob */
+  output?: 'save' | 'blob';
+  /** 默认 vector；中文字体不可用时抛出 PdfFontUnavailableError，由用户确认后改用 raster */
+  renderer?: PdfRenderer;
+}
+
+/**
+ * 生成智能养殖报告 PDF
+ * 作用：塘口详情页“报告导出”与批量 ZIP 导出共用的报告生成逻辑
+ * 输入：PondReportOptions（塘口信息、时间范围、所选章节及其数据、阈值）
+ * 输出：output 为 'blob' 时返回 PDF Blob，否则直接下载
+ * 逻辑：
+ *  1. 按 PDF 页面宽度离屏渲染所选章节，趋势图按导出宽度重新计算横轴刻度，避免裁切/重叠
+ *  2. 等待分页块渲染完成后按实际高度装页导出（默认矢量绘制，文字可复制），每页附页眉 (ReportHeader) 与水印
+ *  3. 报告编号绑定时间范围内全部记录的数据指纹，页眉附验证链接二维码 (reportVerification)
+ */
+export async function buildPondReportPdf(options: PondReportOptions): Promise<Blob | undefined> {
+  const { pondId, pond, range, sections, data, thresholds, output = 'save', renderer = 'vector' } = options;
+  const exportHost = document.createElement('div');
+  const exportRoot = createRoot(exportHost);
+  try {
+    // A4 纵向宽度约为 595.28pt，浏览器 96dpi 下换算为 px：pt * 96 / 72
+    const exportWidthPx = Math.round((595.28 * 96) / 72);
+    exportHost.style.position = 'fixed';
+    exportHost.style.left = '-100000px';
+    exportHost.style.top = '0';
+    exportHost.style.width = `${exportWidthPx}px`;
+    exportHost.style.backgroundColor = '#ffffff';
+    exportHost.style.padding = '0';
+    exportHost.style.margin = '0';
+    exportHost.style.boxSizing = 'border-box';
+    exportHost.style.pointerEvents = 'none';
+    exportHost.style.zIndex = '-1';
+    document.body.appendChild(exportHost);
+
+    exportRoot.render(<PondReport sections={sections} data={data} thresholds={thresholds} widthPx={exportWidthPx} />);
+
+    // 趋势图由 recharts 异步绘制，等待所有分页块具备宽度后再导出
+    const waitForItems = async () => {
+      for (let i = 0; i < 30; i++) {
+        const list = Array.from(exportHost.querySelectorAll(REPORT_ITEM_SELECTOR)) as HTMLElement[];
+        const ready = list.length > 0 && list.every((n) => (n.getBoundingClientRect().width || 0) > 0);
+        if (ready) return list;
+        await new Promise<void>((resolve) => setTimeout(resolve, 50));
+      }
+      return Array.from(exportHost.querySelectorAll(REPORT_ITEM_SELECTOR)) as HTMLElement[];
+    };
+
+    const items = await waitForItems();
+    const exportedAt = new Date();
+    const reportNo = createReportNo(pondId, exportedAt);
+    const { digest } = await computeReportDigest({
+      reportNo,
+      pondId: Number(pondId),
+      from: range.startDate,
+      to: range.endDate,
+    });
+    const qrDataUrl = await buildVerifyQrDataUrl(
+      buildVerifyUrl({ reportNo, from: range.startDate, to: range.endDate, digest })
+    );
+    return await downloadPagedElementsAsPdf({
+      elements: items,
+      filename: getReportFilename(pondId, pond?.name, range),
+      orientation: 'portrait',
+      format: 'a4',
+      marginPt: 0,
+      itemsPerPage: 'auto',
+      ignoreSelector: '[data-export-ignore="true"]',
+      wrapperWidthPx: exportWidthPx,
+      chartHeightPx: 0,
+      watermarkText: '塘前燕数据验证中心',
+      watermarkOpacity: 0.12,
+      watermarkFontSizePx: 26,
+      watermarkGapPx: 120,
+      headerBuilder: ({ pageIndex, totalPages }) => {
+        const header = document.createElement('div');
+        header.innerHTML = renderToStaticMarkup(
+          <ReportHeader
+            pond={pond}
+            range={range}
+            reportNo={reportNo}
+            pageIndex={pageIndex}
+            totalPages={totalPages}
+            exportedAt={exportedAt}
+            digest={digest}
+            qrDataUrl={qrDataUrl}
+          />
+        );
+        return header;
+      },
+      output,
+      renderer,
+    });
+  } finally {
+    try {
+      exportRoot.unmount();
+    } catch {
+      // ignore
+    }
+    try {
+      exportHost.remove();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/**
+ * 仅含趋势图的报告
+ * 作用：批量 ZIP 导出附带的趋势报告（水质/投喂记录已由调用方加载）
+ */
+export const buildTrendReportPdf = (
+  options: Omit<PondReportOptions, 'sections' | 'data'> & { data: TimelineRecord[] }
+) =>
+  buildPondReportPdf({
+    ...options,
+    sections: ['trend'],
+    data: { records: [], trendRecords: options.data, aiText: '' },
+  });
@@ -0,0 +1,50 @@
+import type { Pond } from '@/services/ponds';
+import type { TimelineRecord } from '@/services/timeline';
+import { ThresholdProfile, WaterQualityAlert, getLatestBreaches } from './waterQualityAlerts';
+
+/** 塘口卡片与地图弹窗展示的水质趋势指标 */
+export const POND_PREVIEW_METRICS = [
+  { key: 'ph', name: 'pH', color: '#f97316', unit: '' },
+  { key: 'nitrite', name: '亚盐', color: '#ef4444', unit: 'mg/L' },
+  { key: 'ammonia', name: '氨氮', color: '#14b8a6', unit: 'mg/L' },
+];
+
+/** 塘口水质状态：alert 最新值越界 / normal 正常 / nodata 近期无水质记录 / loading 加载中 */
+export type PondWaterStatus = 'alert' | 'normal' | 'nodata' | 'loading';
+
+export const POND_STATUS_CONFIG: Record<PondWaterStatus, { label: string; color: string }> = {
+  alert: { label: '水质超标', color: '#ef4444' },
+  normal: { label: '水质正常', color: '#22c55e' },
+  nodata: { label: '暂无数据', color: '#9ca3af' },
+  loading: { label: '加载中', color: '#93c5fd' },
+};
+
+// 多个塘口聚合时按最严重的状态着色
+const STATUS_SEVERITY: PondWaterStatus[] = ['alert', 'normal', 'loading', 'nodata'];
+
+export const getWorstStatus = (statuses: PondWaterStatus[]): PondWaterStatus =>
+  STATUS_SEVERITY.find((s) => statuses.includes(s)) || 'nodata';
+
+/**
+ * 塘口当前水质状态
+ * 输入：近期水质记录（undefined 表示尚未加载）、阈值档
+ * 输出：状态与各指标最新值的越界告警
+ */
+export function getPondWaterStatus(
+  records: TimelineRecord[] | undefined,
+  profile: ThresholdProfile
+): { status: PondWaterStatus; breaches: Record<string, WaterQualityAlert> } {
+  if (!records) return { status: 'loading', breaches: {} };
+  if (records.length === 0) return { status: 'nodata', breaches: {} };
+  const breaches = getLatestBreaches(records, profile);
+  return { status: Object.keys(breaches).length > 0 ? 'alert' : 'normal', breaches };
+}
+
+/** 塘口是否设置了有效经纬度（0,0 视为未设置） */
+export const hasPondLocation = (pond: Pick<Pond, 'longitude' | 'latitude'>) => {
+  const lng = Number(pond.longitude);
+  const lat = Number(pond.latitude);
+  return (
+    Number.isFinite(lng) && Number.isFinite(lat) && !(lng === 0 && lat === 0) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90
+  );
+};
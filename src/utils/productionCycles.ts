@@ -0,0 +1,147 @@
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { getRecordTime } from './recordUtils';
+
+/** 推断养殖周期所需的记录类型（/query/timeline 的 type 参数） */
+export const CYCLE_RECORD_TYPES = ['seed_data', 'outfishpond_data', 'loss_data'];
+
+/** 变更后需要重新推断周期的记录种类 */
+export const CYCLE_RECORD_KINDS: string[] = ['seed', 'outfishpond', 'lossing'];
+
+/**
+ * 养殖周期
+ * 从投苗到出塘（清塘）的一个生产批次
+ */
+export interface ProductionCycle {
+  /** 推断得到的稳定 ID：`${pondId}-${首次投苗时间戳}` */
+  id: string;
+  pondId: number;
+  name: string;
+  /** 开始时间（毫秒时间戳，当天 00:00） */
+  start: number;
+  /** 结束时间（毫秒时间戳，当天 23:59:59）；进行中为 null */
+  end: number | null;
+  /** 是否经用户调整过名称或起止时间 */
+  edited: boolean;
+}
+
+/** 用户对推断周期的调整 */
+export interface CycleOverride {
+  name?: string;
+  start?: number;
+  end?: number | null;
+}
+
+export interface DateRangeValue {
+  startDate: Date;
+  endDate: Date;
+}
+
+type CycleEvent = { timestamp: number; kind: 'seed' | 'harvest' | 'loss'; count: number };
+
+const toEvents = (records: TimelineRecord[]): CycleEvent[] => {
+  const events: CycleEvent[] = [];
+  records.forEach((record) => {
+    const timestamp = new Date(getRecordTime(record)).getTime();
+    if (!Number.isFinite(timestamp)) return;
+    if (record.kind === 'seed') events.push({ timestamp, kind: 'seed', count: Number(record.detail.quantity) || 0 });
+    if (record.kind === 'outfishpond')
+      events.push({ timestamp, kind: 'harvest', count: Number(record.detail.quantity) || 0 });
+    if (record.kind === 'lossing') events.push({ timestamp, kind: 'loss', count: Number(record.detail.num) || 0 });
+  });
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const getDefaultCycleName = (start: number) => `${format(start, 'yyyy年M月')}批次`;
+
+/**
+ * 从投苗与出塘记录推断养殖周期
+ * 输入：塘口 ID、该塘口的投苗/出塘/损失记录（不限时间范围）
+ * 输出：按开始时间升序的周期列表
+ * 逻辑：
+ *  1. 无进行中周期时，投苗开启新周期
+ *  2. 已有出塘的周期再次投苗，视为上一周期已在最后一次出塘时结束，新投苗开启下一周期
+ *  3. 出塘与损失数量累计达到投苗数量时视为清塘，周期在该次出塘结束
+ *  4. 其余情况周期仍在进行中（end 为 null）；首次投苗前的出塘记录忽略
+ */
+export function inferProductionCycles(pondId: number, records: TimelineRecord[]): ProductionCycle[] {
+  const cycles: ProductionCycle[] = [];
+  let current: { start: number; seeded: number; removed: number; lastHarvest: number | null } | null = null;
+
+  const close = (end: number | null) => {
+    if (!current) return;
+    const start = startOfDay(current.start).getTime();
+    cycles.push({
+      id: `${pondId}-${current.start}`,
+      pondId,
+      name: getDefaultCycleName(start),
+      start,
+      end: end === null ? null : endOfDay(end).getTime(),
+      edited: false,
+    });
+    current = null;
+  };
+
+  toEvents(records).forEach((event) => {
+    if (event.kind === 'seed') {
+      if (current && current.lastHarvest !== null) close(current.lastHarvest);
+      if (!current) current = { start: event.timestamp, seeded: 0, removed: 0, lastHarvest: null };
+      current.seeded += event.count;
+      return;
+    }
+    if (!current) return;
+    current.removed += event.count;
+    if (event.kind === 'harvest') {
+      current.lastHarvest = event.timestamp;
+      if (current.seeded > 0 && current.removed >= current.seeded) close(event.timestamp);
+    }
+  });
+  close(null);
+
+  return cycles;
+}
+
+/**
+ * 合并用户调整
+ * 输出：应用名称/起止时间调整后的周期，按开始时间升序
+ */
+export function applyCycleOverrides(
+  cycles: ProductionCycle[],
+  overrides: Record<string, CycleOverride> = {}
+): ProductionCycle[] {
+  return cycles
+    .map((cycle) => {
+      const override = overrides[cycle.id];
+      if (!override) return cycle;
+      return {
+        ...cycle,
+        name: override.name?.trim() || cycle.name,
+        start: override.start ?? cycle.start,
+        end: override.end !== undefined ? override.end : cycle.end,
+        edited: true,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/** 周期对应的日期范围；进行中的周期截止到今天 */
+export function cycleToDateRange(cycle: ProductionCycle): DateRangeValue {
+  return {
+    startDate: new Date(cycle.start),
+    endDate: cycle.end === null ? endOfDay(new Date()) : new Date(cycle.end),
+  };
+}
+
+/** 周期起止的展示文本，如 `2024-03-01 ~ 2024-10-20` / `2024-03-01 ~ 至今` */
+export function formatCycleRange(cycle: ProductionCycle) {
+  return `${format(cycle.start, 'yyyy-MM-dd')} ~ ${cycle.end === null ? '至今' : format(cycle.end, 'yyyy-MM-dd')}`;
+}
+
+/** 判断日期范围是否与周期一致（用于高亮当前选中的周期） */
+export function isCycleRange(cycle: ProductionCycle, range: DateRangeValue) {
+  const target = cycleToDateRange(cycle);
+  return (
+    startOfDay(range.startDate).getTime() === startOfDay(target.startDate).getTime() &&
+    startOfDay(range.endDate).getTime() === startOfDay(target.endDate).getTime()
+  );
+}
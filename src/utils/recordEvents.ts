@@ -0,0 +1,29 @@
+import type { TimelineRecord } from '@/services/timeline';
+import type { RecordEvent } from '@/services/realtime';
+import { getRecordTime } from './recordUtils';
+
+/** 记录的唯一标识：优先使用 id，离线创建尚未同步的记录使用 uuid */
+export function getRecordIdentity(record: TimelineRecord): string {
+  const { id, uuid } = record.detail;
+  if (id !== undefined && id !== null) return `id:${id}`;
+  return uuid ? `uuid:${uuid}` : '';
+}
+
+/**
+ * 将推送事件合并到时间线记录列表
+ * 输入：记录列表（按时间倒序）、推送事件
+ * 输出：新的记录列表（仍按时间倒序）；事件与列表无关时返回原列表
+ * 逻辑：先移除同一记录的旧版本，新增/修改事件再按记录时间插入
+ */
+export function applyRecordEvent(records: TimelineRecord[], event: RecordEvent): TimelineRecord[] {
+  const identity = getRecordIdentity(event.record);
+  if (!identity) return records;
+  const rest = records.filter((r) => getRecordIdentity(r) !== identity);
+  if (event.action === 'deleted') return rest.length === records.length ? records : rest;
+
+  const time = new Date(getRecordTime(event.record)).getTime() || 0;
+  const index = rest.findIndex((r) => (new Date(getRecordTime(r)).getTime() || 0) < time);
+  const next = rest.slice();
+  next.splice(index === -1 ? next.length : index, 0, event.record);
+  return next;
+}
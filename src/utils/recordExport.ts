@@ -0,0 +1,107 @@
+import { format } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { fullFieldConfigs, getRecordTime, getRecordTypeChineseName } from './recordUtils';
+import { downloadTextFile } from './download';
+import { sanitizeFilenamePart } from './pondReport';
+
+/**
+ * 养殖记录本地导出
+ * 作用：将已获取的时间线记录直接在浏览器端导出为 CSV 或 NDJSON，无需经过后端 xlsx 导出任务
+ * 约定：
+ *  - 列由 fullFieldConfigs 的字段名与单位生成（如“投喂重量(斤)”），不同记录类型同名列合并
+ *  - 时间取 getRecordTime，并格式化为本地时间
+ *  - CSV 使用 UTF-8 并带 BOM，Excel 可直接打开不乱码
+ */
+
+export type RecordExportFormat = 'csv' | 'ndjson';
+
+export const RECORD_EXPORT_FORMATS: { value: RecordExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ndjson', label: 'JSON (NDJSON)' },
+];
+
+const TYPE_COLUMN = '记录类型';
+const TIME_COLUMN = '记录时间';
+const EDITOR_COLUMN = '最后修改者';
+
+type CellValue = string | number;
+
+const getColumnName = (label: string, unit?: string) => (unit ? `${label}(${unit})` : label);
+
+const formatLocalTime = (raw: string) => {
+  if (!raw) return '';
+  const d = new Date(raw);
+  return Number.isNaN(d.getTime()) ? raw : format(d, 'yyyy-MM-dd HH:mm:ss');
+};
+
+const toCellValue = (raw: unknown): CellValue | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : undefined;
+  if (typeof raw === 'string') return raw.trim() === '' ? undefined : raw;
+  return typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+};
+
+/**
+ * 记录转为导出行
+ * 输入：时间线记录（任意类型混合）
+ * 输出：列名列表（记录类型、时间、各字段列、最后修改者）与按时间升序排列的行
+ */
+export function buildRecordRows(records: TimelineRecord[]) {
+  const fieldColumns: string[] = [];
+  const rows = records
+    .map((record) => ({ record, time: formatLocalTime(getRecordTime(record)) }))
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .map(({ record, time }) => {
+      const row: Record<string, CellValue> = {
+        [TYPE_COLUMN]: getRecordTypeChineseName(record.kind),
+        [TIME_COLUMN]: time,
+      };
+      const detail: Record<string, unknown> = { ...record.detail };
+      (fullFieldConfigs[record.kind] || []).forEach(({ key, label, unit }) => {
+        const column = getColumnName(label, unit);
+        if (!fieldColumns.includes(column)) fieldColumns.push(column);
+        const value = toCellValue(detail[key]);
+        if (value !== undefined) row[column] = value;
+      });
+      const editor = record.detail.updated_by_user?.nickname;
+      if (editor) row[EDITOR_COLUMN] = editor;
+      return row;
+    });
+  return { columns: [TYPE_COLUMN, TIME_COLUMN, ...fieldColumns, EDITOR_COLUMN], rows };
+}
+
+// 以 = + - @ 开头的文本会被 Excel 当作公式执行，前置单引号转为纯文本
+const escapeCsvCell = (value: CellValue | undefined) => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** 二维表格转为带 BOM 的 CSV 文本 */
+export function toCsv(lines: (CellValue | undefined)[][]) {
+  return `\uFEFF${lines.map((cells) => cells.map(escapeCsvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+export function recordsToCsv(records: TimelineRecord[]) {
+  const { columns, rows } = buildRecordRows(records);
+  return toCsv([columns, ...rows.map((row) => columns.map((c) => row[c]))]);
+}
+
+/** 每行一个 JSON 对象，键为列名，空字段省略 */
+export function recordsToNdjson(records: TimelineRecord[]) {
+  const { rows } = buildRecordRows(records);
+  return rows.map((row) => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+}
+
+/**
+ * 下载记录文件
+ * 输入：记录列表、格式、文件名前缀（如“塘口名_202405”）
+ * 输出：无（触发浏览器下载）
+ */
+export function downloadRecords(records: TimelineRecord[], exportFormat: RecordExportFormat, baseName: string) {
+  const text = exportFormat === 'csv' ? recordsToCsv(records) : recordsToNdjson(records);
+  const mime = exportFormat === 'csv' ? 'text/csv;charset=utf-8' : 'application/x-ndjson;charset=utf-8';
+  const ts = format(new Date(), 'yyyyMMdd_HHmm');
+  downloadTextFile(`${sanitizeFilenamePart(baseName)}_养殖记录_${ts}.${exportFormat}`, text, mime);
+}
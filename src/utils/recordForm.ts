@@ -0,0 +1,134 @@
+import { format } from 'date-fns';
+import type { RecordKind, TimelineRecord } from '@/services/timeline';
+import type { RecordPayload } from '@/services/records';
+import { FieldConfig, fullFieldConfigs, getRecordTime, recordTypeConfig } from './recordUtils';
+
+/** 表单值：统一以字符串保存输入框内容，提交时再转换 */
+export type RecordFormValues = Record<string, string>;
+
+export type RecordFormErrors = Record<string, string>;
+
+/** 作业时间字段（所有记录类型共用） */
+export const RECORD_TIME_KEY = 'operate_at';
+
+// 表单级错误的 key（不对应具体字段）
+export const FORM_ERROR_KEY = '_form';
+
+const INPUT_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+const API_TIME_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+
+export function getRecordFormFields(kind: RecordKind): FieldConfig[] {
+  return fullFieldConfigs[kind] || [];
+}
+
+const toInputTime = (value: string | Date | undefined) => {
+  const d = value instanceof Date ? value : value ? new Date(value.replace(/-/g, '/')) : new Date();
+  return Number.isNaN(d.getTime()) ? format(new Date(), INPUT_TIME_FORMAT) : format(d, INPUT_TIME_FORMAT);
+};
+
+/**
+ * 生成表单初始值
+ * 输入：记录种类、待编辑的记录（新增时为空）、新增时的默认作业时间
+ * 输出：RecordFormValues
+ */
+export function toRecordFormValues(kind: RecordKind, record?: TimelineRecord, defaultTime?: Date): RecordFormValues {
+  const detail: Record<string, unknown> = record ? { ...record.detail } : {};
+  const values: RecordFormValues = {
+    [RECORD_TIME_KEY]: toInputTime(record ? getRecordTime(record) : defaultTime),
+  };
+  getRecordFormFields(kind).forEach(({ key }) => {
+    const raw = detail[key];
+    values[key] = raw === undefined || raw === null ? '' : String(raw);
+  });
+  return values;
+}
+
+/**
+ * 校验表单
+ * 输出：字段 -> 错误信息；无错误时为空对象
+ * 逻辑：必填、数值格式与上下限；除备注外至少填写一项
+ */
+export function validateRecordForm(kind: RecordKind, values: RecordFormValues): RecordFormErrors {
+  const errors: RecordFormErrors = {};
+  if (!values[RECORD_TIME_KEY]) {
+    errors[RECORD_TIME_KEY] = '请选择作业时间';
+  }
+
+  let filled = 0;
+  getRecordFormFields(kind).forEach(({ key, label, input, required, min, max }) => {
+    const value = (values[key] || '').trim();
+    if (!value) {
+      if (required) errors[key] = `请填写${label}`;
+      return;
+    }
+    if (key !== 'user_remark') filled += 1;
+    if (input !== 'number') return;
+    const n = Number(value);
+    if (!Number.isFinite(n)) {
+      errors[key] = `${label}必须为数字`;
+    } else if (min != null && n < min) {
+      errors[key] = `${label}不能小于 ${min}`;
+    } else if (max != null && n > max) {
+      errors[key] = `${label}不能大于 ${max}`;
+    }
+  });
+
+  if (filled === 0 && Object.keys(errors).length === 0) {
+    errors[FORM_ERROR_KEY] = `请至少填写一项${recordTypeConfig[kind]?.name || '记录'}内容`;
+  }
+  return errors;
+}
+
+/**
+ * 表单值转为提交数据
+ * 输入：记录种类、表单值、是否为修改
+ * 输出：RecordPayload；新增时省略空字段，修改时空字段置为 null 以清空
+ */
+export function toRecordPayload(kind: RecordKind, values: RecordFormValues, isEdit: boolean): RecordPayload {
+  const payload: RecordPayload = {
+    [RECORD_TIME_KEY]: format(new Date(values[RECORD_TIME_KEY]), API_TIME_FORMAT),
+  };
+  getRecordFormFields(kind).forEach(({ key, input }) => {
+    const value = (values[key] || '').trim();
+    if (!value) {
+      if (isEdit) payload[key] = null;
+      return;
+    }
+    payload[key] = input === 'number' ? Number(value) : value;
+  });
+  return payload;
+}
+
+/**
+ * 构造乐观更新用的记录
+ * 作用：提交后立即在时间线/日历中展示，接口返回后再以服务端数据替换
+ * 输入：记录种类、提交数据、被修改的原记录（新增时为空）
+ * 输出：TimelineRecord；新增记录使用负数临时 id
+ */
+export function buildOptimisticRecord(kind: RecordKind, payload: RecordPayload, previous?: TimelineRecord): TimelineRecord {
+  const detail: Record<string, unknown> = { ...(previous?.detail || {}) };
+  Object.keys(payload).forEach((key) => {
+    const value = payload[key];
+    if (value === null) delete detail[key];
+    else detail[key] = value;
+  });
+  if (previous?.detail.id == null) {
+    detail.id = -Date.now();
+  }
+  return {
+    kind,
+    type: previous?.type || recordTypeConfig[kind].api_type,
+    detail,
+  } as TimelineRecord;
+}
+
+/**
+ * 合并接口返回的记录
+ * 逻辑：接口可能只返回部分字段（或空响应），以乐观记录为底，覆盖服务端返回的字段
+ */
+export function mergeSavedRecord(optimistic: TimelineRecord, saved: TimelineRecord): TimelineRecord {
+  return {
+    ...optimistic,
+    detail: { ...optimistic.detail, ...saved.detail },
+  } as TimelineRecord;
+}
@@ -0,0 +1,297 @@
+import { endOfDay, format, isSameDay, isSameMinute, startOfDay } from 'date-fns';
+import type { RecordKind, TimelineRecord } from '@/services/timeline';
+import { createRecord, RecordPayload } from '@/services/records';
+import { DEFAULT_EXPORT_TYPES } from '@/services/export';
+import { FieldConfig, RECORD_TYPE_MAP, fullFieldConfigs, getRecordTime, recordTypeConfig } from './recordUtils';
+import { RECORD_TIME_KEY, RecordFormValues, toRecordPayload, validateRecordForm } from './recordForm';
+import type { SheetData } from './spreadsheet';
+import { toCsv } from './recordExport';
+import { loadTimelineRange } from './timelineCache';
+
+/**
+ * 历史记录导入
+ * 作用：把纸质/表格台账整理成的 CSV、XLSX 按所选记录类型导入为养殖记录
+ * 流程：列映射 (guessColumnMapping) → 校验 (buildImportRows) → 冲突检查 (detectImportConflicts) → 分批提交 (submitImportRows)
+ * 约定：
+ *  - 字段取自 fullFieldConfigs，数值校验与录入表单一致 (validateRecordForm)
+ *  - 表头或单元格中的单位与字段单位不同时按换算表换算，无法换算时报错
+ *  - 只有日期没有时间的行按当天 08:00 导入，冲突检查按整天比较
+ */
+
+/** 未映射的列 */
+export const IGNORE_COLUMN = '';
+
+/** 列映射：第 i 列对应的字段 key（RECORD_TIME_KEY 为作业时间） */
+export type ColumnMapping = string[];
+
+const TIME_HEADERS = ['作业时间', '记录时间', '时间', '日期', '操作时间', 'operate_at', 'date', 'time', 'datetime'];
+const KIND_HEADER = '记录类型';
+const DATE_ONLY_HOUR = 8;
+/** 提交批大小：每批并发提交的行数 */
+export const IMPORT_BATCH_SIZE = 10;
+
+/**
+ * 单位换算表：字段单位 -> { 别名: 换算系数 }
+ * 例如投喂重量字段单位为“斤”，表格中写“公斤”时乘以 2
+ */
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  斤: { 斤: 1, 市斤: 1, 公斤: 2, 千克: 2, kg: 2, 克: 0.002, g: 0.002, 吨: 2000, t: 2000 },
+  元: { 元: 1, 块: 1, rmb: 1, 万元: 10000 },
+  尾: { 尾: 1, 条: 1, 只: 1, 头: 1, 万尾: 10000 },
+  'mg/L': { 'mg/l': 1, 'mg/升': 1, ppm: 1 },
+  '℃': { '℃': 1, '°c': 1, c: 1, 度: 1 },
+  cm: { cm: 1, 厘米: 1, mm: 0.1, 毫米: 0.1, m: 100, 米: 100 },
+  '斤/条': { '斤/条': 1, '斤/尾': 1, '两/条': 0.1, '两/尾': 0.1, '克/条': 0.002, 'g/条': 0.002, 'g/尾': 0.002 },
+};
+
+const normalizeUnit = (unit: string) => unit.trim().replace(/\s+/g, '').toLowerCase();
+
+// 拆分“投喂重量(公斤)”形式的表头
+const splitHeader = (header: string) => {
+  const match = header.trim().match(/^(.*?)[(（]\s*([^()（）]+?)\s*[)）]$/);
+  return match ? { name: match[1].trim(), unit: match[2] } : { name: header.trim(), unit: '' };
+};
+
+const normalizeName = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+export const getImportFields = (kind: RecordKind): FieldConfig[] => fullFieldConfigs[kind] || [];
+
+/** 记录类型对应的时间线查询类型（如 feeding -> feed_data） */
+const getTimelineType = (kind: RecordKind) => DEFAULT_EXPORT_TYPES.find((type) => RECORD_TYPE_MAP[type] === kind);
+
+/**
+ * 猜测列映射
+ * 输入：表头、记录类型
+ * 输出：每列对应的字段；按字段名、字段 key 或时间列名匹配，本地导出的 CSV 可直接识别
+ */
+export function guessColumnMapping(headers: string[], kind: RecordKind): ColumnMapping {
+  const fields = getImportFields(kind);
+  const used = new Set<string>();
+  return headers.map((header) => {
+    const name = normalizeName(splitHeader(header).name);
+    let key = IGNORE_COLUMN;
+    if (TIME_HEADERS.some((h) => normalizeName(h) === name)) key = RECORD_TIME_KEY;
+    else key = fields.find((f) => normalizeName(f.label) === name || f.key.toLowerCase() === name)?.key || IGNORE_COLUMN;
+    if (!key || used.has(key)) return IGNORE_COLUMN;
+    used.add(key);
+    return key;
+  });
+}
+
+/**
+ * 解析日期时间
+ * 支持：2024-05-01、2024/5/1 08:30、2024.05.01、2024年5月1日 8:30:00、Excel 日期序列号
+ * 输出：日期与是否只有日期；无法识别或日期不存在时为 null
+ */
+export function parseImportDate(raw: string): { date: Date; dateOnly: boolean } | null {
+  const text = raw.trim();
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const ms = Math.round((Number(text) - 25569) * 86400 * 1000);
+    const utc = new Date(ms);
+    const date = new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes());
+    const dateOnly = date.getHours() === 0 && date.getMinutes() === 0;
+    if (dateOnly) date.setHours(DATE_ONLY_HOUR);
+    return { date, dateOnly };
+  }
+  const match = text.match(
+    /^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?(?:[\sT]+(\d{1,2})[:：](\d{1,2})(?:[:：](\d{1,2}))?)?$/
+  );
+  if (!match) return null;
+  const [, y, mo, d, h, mi, sec] = match.map((v) => (v === undefined ? undefined : Number(v))) as (number | undefined)[];
+  const dateOnly = h === undefined;
+  const date = new Date(y!, mo! - 1, d!, dateOnly ? DATE_ONLY_HOUR : h!, mi ?? 0, sec ?? 0);
+  // 拒绝 2024-02-30 之类会被自动进位的日期
+  if (date.getFullYear() !== y || date.getMonth() !== mo! - 1 || date.getDate() !== d) return null;
+  if (!dateOnly && (h! > 23 || mi! > 59)) return null;
+  return { date, dateOnly };
+}
+
+/**
+ * 数值单位校验与换算
+ * 输入：单元格文本、字段配置、表头中的单位
+ * 输出：换算到字段单位后的数值字符串，或错误信息
+ */
+export function convertImportNumber(raw: string, field: FieldConfig, headerUnit: string): { value?: string; error?: string } {
+  const match = raw.replace(/,/g, '').match(/^([-+]?\d*\.?\d+(?:e[-+]?\d+)?)\s*(.*)$/i);
+  if (!match) return { error: `${field.label}“${raw}”不是有效数字` };
+  const unit = match[2] || headerUnit;
+  const n = Number(match[1]);
+  if (!unit) return { value: String(n) };
+  if (!field.unit) return { error: `${field.label}不应带单位“${unit}”` };
+  const factor = UNIT_FACTORS[field.unit]?.[normalizeUnit(unit)] ?? (normalizeUnit(unit) === normalizeUnit(field.unit) ? 1 : undefined);
+  if (factor === undefined) return { error: `${field.label}的单位“${unit}”无法换算为“${field.unit}”` };
+  return { value: String(Number((n * factor).toPrecision(12))) };
+}
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'conflict';
+
+export interface ImportRow {
+  /** 原文件行号 */
+  line: number;
+  values: RecordFormValues;
+  /** 校验通过后的提交数据 */
+  payload?: RecordPayload;
+  time?: Date;
+  dateOnly?: boolean;
+  errors: string[];
+  /** 与已有记录冲突（同类型同一时间；只有日期时为同一天） */
+  conflict?: TimelineRecord;
+}
+
+export const getImportRowStatus = (row: ImportRow): ImportRowStatus => {
+  if (row.errors.length > 0) return 'invalid';
+  return row.conflict ? 'conflict' : 'valid';
+};
+
+/**
+ * 按映射生成待导入行并校验
+ * 逻辑：解析时间、换算数值单位，再复用录入表单校验（必填、上下限、至少一项内容）
+ */
+export function buildImportRows(sheet: SheetData, mapping: ColumnMapping, kind: RecordKind): ImportRow[] {
+  const fields = getImportFields(kind);
+  const kindName = recordTypeConfig[kind].name;
+  const kindColumn = sheet.headers.findIndex((h) => splitHeader(h).name === KIND_HEADER);
+  const now = new Date();
+
+  return sheet.rows.map(({ line, cells }) => {
+    const row: ImportRow = { line, values: {}, errors: [] };
+    if (kindColumn >= 0 && cells[kindColumn] && cells[kindColumn] !== kindName) {
+      row.errors.push(`记录类型为“${cells[kindColumn]}”，与所选的“${kindName}”不符`);
+      return row;
+    }
+
+    mapping.forEach((key, col) => {
+      // 去掉本地导出 CSV 时为防公式注入添加的单引号
+      const raw = (cells[col] || '').trim().replace(/^'(?=[=+\-@])/, '');
+      if (!key || !raw) return;
+      if (key === RECORD_TIME_KEY) {
+        const parsed = parseImportDate(raw);
+        if (!parsed) {
+          row.errors.push(`时间“${raw}”无法识别`);
+        } else if ((parsed.dateOnly ? startOfDay(parsed.date) : parsed.date) > now) {
+          row.errors.push(`时间“${raw}”晚于当前时间`);
+        } else {
+          row.time = parsed.date;
+          row.dateOnly = parsed.dateOnly;
+          row.values[RECORD_TIME_KEY] = format(parsed.date, "yyyy-MM-dd'T'HH:mm");
+        }
+        return;
+      }
+      const field = fields.find((f) => f.key === key);
+      if (!field) return;
+      if (field.input !== 'number') {
+        row.values[key] = raw;
+        return;
+      }
+      const { value, error } = convertImportNumber(raw, field, splitHeader(sheet.headers[col] || '').unit);
+      if (error) row.errors.push(error);
+      else row.values[key] = value!;
+    });
+
+    if (row.errors.length > 0) return row;
+    const formErrors = validateRecordForm(kind, row.values);
+    if (formErrors[RECORD_TIME_KEY]) formErrors[RECORD_TIME_KEY] = '缺少作业时间';
+    row.errors.push(...Object.values(formErrors));
+    if (row.errors.length === 0) row.payload = toRecordPayload(kind, row.values, false);
+    return row;
+  });
+}
+
+/**
+ * 检查与已有记录的冲突
+ * 输入：塘口、记录类型、已校验的行
+ * 输出：标记了 conflict 的新行列表
+ * 逻辑：按导入行的时间跨度查询 /query/timeline，同类型同一分钟（只有日期时为同一天）视为重复
+ */
+export async function detectImportConflicts(pondId: number, kind: RecordKind, rows: ImportRow[]): Promise<ImportRow[]> {
+  const times = rows.filter((r) => r.payload && r.time).map((r) => r.time!.getTime());
+  const type = getTimelineType(kind);
+  if (times.length === 0 || !type) return rows;
+
+  const existing = await loadTimelineRange({
+    pond_id: pondId,
+    start_time: format(startOfDay(new Date(Math.min(...times))), 'yyyy-MM-dd HH:mm:ss'),
+    end_time: format(endOfDay(new Date(Math.max(...times))), 'yyyy-MM-dd HH:mm:ss'),
+    type: [type],
+  });
+  const existingTimes = existing
+    .filter((r) => r.kind === kind)
+    .map((record) => ({ record, time: new Date(getRecordTime(record).replace(/-/g, '/')) }))
+    .filter(({ time }) => !Number.isNaN(time.getTime()));
+
+  return rows.map((row) => {
+    if (!row.payload || !row.time) return row;
+    const hit = existingTimes.find(({ time }) => (row.dateOnly ? isSameDay(time, row.time!) : isSameMinute(time, row.time!)));
+    return hit ? { ...row, conflict: hit.record } : { ...row, conflict: undefined };
+  });
+}
+
+export interface ImportResult {
+  line: number;
+  status: 'ok' | 'failed';
+  error?: string;
+}
+
+const getSubmitError = (e: unknown) => {
+  const response = (e as { response?: { status?: number; data?: { message?: string } } })?.response;
+  if (response?.data?.message) return String(response.data.message);
+  if (response?.status) return `提交失败（HTTP ${response.status}）`;
+  return e instanceof Error && e.message ? e.message : '提交失败';
+};
+
+/**
+ * 分批提交
+ * 输入：塘口、记录类型、待提交的行（须已通过校验）、进度回调、取消信号
+ * 输出：逐行结果；取消后未提交的行不出现在结果中
+ * 逻辑：每批 IMPORT_BATCH_SIZE 行并发提交，单行失败不影响其他行
+ */
+export async function submitImportRows(
+  pondId: number,
+  kind: RecordKind,
+  rows: ImportRow[],
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<ImportResult[]> {
+  const pending = rows.filter((r) => r.payload);
+  const results: ImportResult[] = [];
+  for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+    if (signal?.aborted) break;
+    const batch = pending.slice(i, i + IMPORT_BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map((row) => createRecord(kind, pondId, row.payload!)));
+    settled.forEach((res, j) => {
+      results.push(
+        res.status === 'fulfilled'
+          ? { line: batch[j].line, status: 'ok' }
+          : { line: batch[j].line, status: 'failed', error: getSubmitError(res.reason) }
+      );
+    });
+    onProgress?.(results.length, pending.length);
+  }
+  return results;
+}
+
+/** 导入模板：作业时间 + 该类型全部字段（带单位），附一行示例时间 */
+export function buildImportTemplate(kind: RecordKind) {
+  const fields = getImportFields(kind);
+  const headers = ['作业时间', ...fields.map((f) => (f.unit ? `${f.label}(${f.unit})` : f.label))];
+  return toCsv([headers, [format(new Date(), 'yyyy-MM-dd HH:mm'), ...fields.map(() => '')]]);
+}
+
+/**
+ * 导入报告（CSV）
+ * 输入：校验后的行、提交结果、是否跳过了冲突行
+ * 输出：行号、结果与原因，包含校验失败、跳过与提交失败的行
+ */
+export function buildImportReport(rows: ImportRow[], results: ImportResult[], skippedConflicts: boolean) {
+  const resultByLine = new Map(results.map((r) => [r.line, r]));
+  const lines: string[][] = [['行号', '结果', '原因']];
+  rows.forEach((row) => {
+    const status = getImportRowStatus(row);
+    const result = resultByLine.get(row.line);
+    if (status === 'invalid') lines.push([String(row.line), '校验失败', row.errors.join('；')]);
+    else if (status === 'conflict' && skippedConflicts) lines.push([String(row.line), '已跳过', '与已有记录时间重复']);
+    else if (result?.status === 'failed') lines.push([String(row.line), '提交失败', result.error || '']);
+    else if (result?.status === 'ok') lines.push([String(row.line), '成功', '']);
+    else lines.push([String(row.line), '未提交', '导入已取消']);
+  });
+  return toCsv(lines);
+}
@@ -11,20 +11,11 @@ import {
   Wrench, 
   FileText 
 } from 'lucide-react';
+import type { RecordKind, TimelineRecord } from '@/services/timeline';
+import { PARAM_CONFIG } from './paramConfig';
 
 // Define record types for type safety
-export type RecordType = 
-  | 'seed' 
-  | 'feeding' 
-  | 'waterquality' 
-  | 'patrol' 
-  | 'lossing' 
-  | 'outfishpond' 
-  | 'aquacultureinputs' 
-  | 'sampledata' 
-  | 'physical_operation' 
-  | 'general_record'
-  | 'unknown';
+export type RecordType = RecordKind | 'unknown';
 
 interface RecordConfig {
   name: string;
@@ -33,10 +24,17 @@ interface RecordConfig {
   timeField: string;
 }
 
-interface FieldConfig {
+export interface FieldConfig {
   key: string;
   label: string;
   unit?: string;
+  /** 录入控件类型，缺省为单行文本 */
+  input?: 'text' | 'number' | 'textarea';
+  /** 录入时必填 */
+  required?: boolean;
+  /** 数值下限/上限（仅 number） */
+  min?: number;
+  max?: number;
 }
 
 // Map record types to local SVG paths
@@ -55,7 +53,7 @@ export const RECORD_ICONS: Record<string, string> = {
   unknown: '/breed-icon/breed-general_record.svg'
 };
 
-export const RECORD_TYPE_MAP: Record<string, string> = {
+export const RECORD_TYPE_MAP: Record<string, RecordKind> = {
   feed_data: 'feeding',
   feeding: 'feeding',
   aquacultureinputs: 'aquacultureinputs',
@@ -102,85 +100,85 @@ export const fullFieldConfigs: Record<string, FieldConfig[]> = {
   feeding: [
     { key: 'brand', label: '饲料品牌' },
     { key: 'type', label: '饵料类型' },
-    { key: 'weight', label: '投喂重量', unit: '斤' },
-    { key: 'cost', label: '饵料金额', unit: '元' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'weight', label: '投喂重量', unit: '斤', input: 'number', required: true, min: 0 },
+    { key: 'cost', label: '饵料金额', unit: '元', input: 'number', min: 0 },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   // Map aliases
   feed: [
     { key: 'brand', label: '饲料品牌' },
     { key: 'type', label: '饵料类型' },
-    { key: 'weight', label: '投喂重量', unit: '斤' },
-    { key: 'cost', label: '饵料金额', unit: '元' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'weight', label: '投喂重量', unit: '斤', input: 'number', required: true, min: 0 },
+    { key: 'cost', label: '饵料金额', unit: '元', input: 'number', min: 0 },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   aquacultureinputs: [
-    { key: 'name', label: '投入品名称' },
+    { key: 'name', label: '投入品名称', required: true },
     { key: 'category1', label: '一级分类' },
     { key: 'category2', label: '二级分类' },
-    { key: 'dosage_num', label: '用量' },
+    { key: 'dosage_num', label: '用量', input: 'number', min: 0 },
     { key: 'dosage_unit', label: '单位' },
-    { key: 'total_cost', label: '总费用', unit: '元' },
-    { key: 'use_method', label: '使用方法' },
+    { key: 'total_cost', label: '总费用', unit: '元', input: 'number', min: 0 },
+    { key: 'use_method', label: '使用方法', input: 'textarea' },
     { key: 'effect', label: '效果' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   lossing: [
-    { key: 'species', label: '损失品种' },
-    { key: 'num', label: '损失数量', unit: '尾' },
-    { key: 'weight', label: '损失重量', unit: '斤' },
-    { key: 'amount', label: '损失金额', unit: '元' },
-    { key: 'analysis', label: '损失分析' },
-    { key: 'user_remark', label: '备注' }
+    { key: 'species', label: '损失品种', required: true },
+    { key: 'num', label: '损失数量', unit: '尾', input: 'number', min: 0 },
+    { key: 'weight', label: '损失重量', unit: '斤', input: 'number', min: 0 },
+    { key: 'amount', label: '损失金额', unit: '元', input: 'number', min: 0 },
+    { key: 'analysis', label: '损失分析', input: 'textarea' },
+    { key: 'user_remark', label: '备注', input: 'textarea' }
   ],
   outfishpond: [
     { key: 'purpose', label: '出塘目的' },
-    { key: 'species', label: '出塘品种' },
-    { key: 'total_weight', label: '出塘重量', unit: '斤' },
-    { key: 'quantity', label: '出塘数量', unit: '尾' },
-    { key: 'sell_total', label: '总价', unit: '元' },
-    { key: 'user_remark', label: '备注' }
+    { key: 'species', label: '出塘品种', required: true },
+    { key: 'total_weight', label: '出塘重量', unit: '斤', input: 'number', min: 0 },
+    { key: 'quantity', label: '出塘数量', unit: '尾', input: 'number', min: 0 },
+    { key: 'sell_total', label: '总价', unit: '元', input: 'number', min: 0 },
+    { key: 'user_remark', label: '备注', input: 'textarea' }
   ],
   patrol: [
     { key: 'aquatic_status', label: '水生动物状态' },
     { key: 'water_status', label: '水体状态' },
-    { key: 'abnormal_event', label: '异常事件' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'abnormal_event', label: '异常事件', input: 'textarea' },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   sampledata: [
-    { key: 'species', label: '打样品种' },
-    { key: 'count', label: '测样数量', unit: '尾' },
-    { key: 'avg_weight', label: '平均体重', unit: '斤/条' },
-    { key: 'avg_length', label: '平均长度', unit: 'cm' },
+    { key: 'species', label: '打样品种', required: true },
+    { key: 'count', label: '测样数量', unit: '尾', input: 'number', min: 0 },
+    { key: 'avg_weight', label: '平均体重', unit: '斤/条', input: 'number', min: 0 },
+    { key: 'avg_length', label: '平均长度', unit: 'cm', input: 'number', min: 0 },
     { key: 'health_condition', label: '健康状况' },
-    { key: 'growth_analysis', label: '生长分析' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'growth_analysis', label: '生长分析', input: 'textarea' },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   seed: [
-    { key: 'species', label: '苗种品种' },
-    { key: 'quantity', label: '苗种数量', unit: '尾' },
+    { key: 'species', label: '苗种品种', required: true },
+    { key: 'quantity', label: '苗种数量', unit: '尾', input: 'number', required: true, min: 0 },
     { key: 'grade', label: '苗种规格' },
-    { key: 'buy_total', label: '购买总金额', unit: '元' },
-    { key: 'user_remark', label: '备注' }
+    { key: 'buy_total', label: '购买总金额', unit: '元', input: 'number', min: 0 },
+    { key: 'user_remark', label: '备注', input: 'textarea' }
   ],
   waterquality: [
-    { key: 'ph', label: 'pH值' },
-    { key: 'oxygen', label: '溶氧', unit: 'mg/L' },
-    { key: 'temperature', label: '水温', unit: '℃' },
-    { key: 'ammonia', label: '氨氮', unit: 'mg/L' },
-    { key: 'nitrite', label: '亚硝酸盐', unit: 'mg/L' },
-    { key: 'transparency', label: '透明度', unit: 'cm' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'ph', label: 'pH值', input: 'number', min: 0, max: 14 },
+    { key: 'oxygen', label: '溶氧', unit: 'mg/L', input: 'number', min: 0 },
+    { key: 'temperature', label: '水温', unit: '℃', input: 'number' },
+    { key: 'ammonia', label: '氨氮', unit: 'mg/L', input: 'number', min: 0 },
+    { key: 'nitrite', label: '亚硝酸盐', unit: 'mg/L', input: 'number', min: 0 },
+    { key: 'transparency', label: '透明度', unit: 'cm', input: 'number', min: 0 },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ],
   physical_operation: [
-    { key: 'operate_type', label: '操作类型' },
+    { key: 'operate_type', label: '操作类型', required: true },
     { key: 'equipment', label: '设备' },
     { key: 'purpose', label: '目的' },
-    { key: 'user_remark', label: '备注' }
+    { key: 'user_remark', label: '备注', input: 'textarea' }
   ],
   general_record: [
-    { key: 'note', label: '记录' },
-    { key: 'user_remark', label: '用户备注' }
+    { key: 'note', label: '记录', input: 'textarea', required: true },
+    { key: 'user_remark', label: '用户备注', input: 'textarea' }
   ]
 };
 
@@ -208,34 +206,16 @@ export interface DisplayItem {
 
 /**
  * 获取完整的展示字段列表
- * @param record 记录详情对象
- * @param type 记录类型（可选，若record中无类型信息则使用此值）
+ * @param record 时间线记录（以 kind 区分记录类型）
  * @returns DisplayItem[] 展示项列表
  * 逻辑：根据记录类型获取配置的字段，过滤掉排除的字段（如id, uuid, 时间等），
  * 并将最后修改者(updated_by_user)作为最后一项加入列表。
  */
-export function getFullDisplayItems(record: any, type?: string): DisplayItem[] {
-  if (!record) return [];
-  
-  // Use the module-level RECORD_TYPE_MAP instead of redefining it
-  // Priority: 
-  // 1. Explicitly passed 'type' (most reliable from API outer layer)
-  // 2. record.record_type (if available)
-  // 3. record.type (least reliable, often contains business data like '颗粒饲料')
-  
-  // Logic update: ONLY use record.type if it maps to a valid record type key
-  let t = type || record.record_type;
-  
-  if (!t && record.type) {
-    // Check if record.type is a valid record type key (like 'feed_data')
-    // If it's business data (like '颗粒'), it won't be in the map (or will be undefined)
-    if (RECORD_TYPE_MAP[record.type]) {
-      t = record.type;
-    }
-  }
-  
-  const cfgKey = (t && RECORD_TYPE_MAP[t]) || t;
-  const fields = fullFieldConfigs[cfgKey] || [];
+export function getFullDisplayItems(record: TimelineRecord): DisplayItem[] {
+  if (!record || !record.detail) return [];
+
+  const detail: Record<string, unknown> = { ...record.detail };
+  const fields = fullFieldConfigs[record.kind] || [];
   const excludeKeys = new Set([
     'operate_at', 'operate_time', 'created_at', 
     'pondid', 'pond_id', 'file_url', 'id', 'uuid', 
@@ -246,7 +226,7 @@ export function getFullDisplayItems(record: any, type?: string): DisplayItem[] {
 
   fields.forEach(({ key, label, unit }) => {
     if (excludeKeys.has(key)) return;
-    const raw = record[key];
+    const raw = detail[key];
     if (raw === undefined || raw === null) return;
 
     if (typeof raw === 'string') {
@@ -264,17 +244,90 @@ export function getFullDisplayItems(record: any, type?: string): DisplayItem[] {
   });
 
   // Handle updated_by_user (Last Editor) - Display at the bottom of the list
-  if (record.updated_by_user && record.updated_by_user.nickname) {
+  if (record.detail.updated_by_user && record.detail.updated_by_user.nickname) {
     items.push({
       key: `updated_by_user-${Math.random()}`,
       label: '最后修改者',
-      value: record.updated_by_user.nickname
+      value: record.detail.updated_by_user.nickname
     });
   }
 
   return items;
 }
 
+/**
+ * 获取记录的业务时间
+ * 输入：时间线记录
+ * 输出：时间字符串；均缺失时返回空字符串，由调用方决定兜底
+ * 逻辑：优先 operate_at（用户填写的作业时间），其次各类型自带的时间字段，最后为创建/更新时间
+ */
+export function getRecordTime(record: TimelineRecord): string {
+  const { detail } = record;
+  if (detail.operate_at) return detail.operate_at;
+
+  let typed: string | undefined;
+  switch (record.kind) {
+    case 'feeding':
+      typed = record.detail.feed_time;
+      break;
+    case 'waterquality':
+      typed = record.detail.measured_at;
+      break;
+    case 'lossing':
+      typed = record.detail.lossed_at;
+      break;
+    case 'outfishpond':
+      typed = record.detail.outfishpond_at;
+      break;
+    case 'seed':
+      typed = record.detail.seeded_at;
+      break;
+    case 'patrol':
+      typed = record.detail.created_at;
+      break;
+    default:
+      typed = undefined;
+  }
+
+  return typed || detail.operate_time || detail.created_at || detail.updated_at || record.created_at || record.updated_at || '';
+}
+
+/**
+ * 提取记录中可绘制趋势的数值
+ * 输入：时间线记录
+ * 输出：字段 -> 数值（仅包含 PARAM_CONFIG 中配置的指标）
+ * 逻辑：
+ *  - 水质记录：各水质指标
+ *  - 投喂记录：投喂重量 (weight)
+ *  - 未识别类型（部分接口不返回 type）：按 PARAM_CONFIG 逐个读取
+ *  - 其他记录不参与趋势
+ */
+export function getNumericReadings(record: TimelineRecord): Record<string, number> {
+  const readings: Record<string, number> = {};
+  const pick = (source: Record<string, unknown>) => {
+    Object.keys(PARAM_CONFIG).forEach((key) => {
+      const raw = source[key];
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+      if (Number.isFinite(value)) readings[key] = value;
+    });
+  };
+
+  switch (record.kind) {
+    case 'waterquality':
+      pick({ ...record.detail });
+      break;
+    case 'feeding':
+      if (record.detail.weight != null) readings.weight = record.detail.weight;
+      break;
+    case 'unknown':
+      pick(record.detail);
+      break;
+    default:
+      break;
+  }
+  return readings;
+}
+
 export function getRecordIcon(type: string) {
     const baseType = type.replace('_data', '');
     return RECORD_ICONS[baseType] || RECORD_ICONS['unknown'];
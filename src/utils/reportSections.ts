@@ -0,0 +1,143 @@
+import type { KnownTimelineRecord, RecordKind, TimelineRecord } from '@/services/timeline';
+import type { Pond } from '@/services/ponds';
+import type { GroupInfo } from '@/services/groups';
+import { getRecordTime } from './recordUtils';
+
+/**
+ * 塘口报告章节
+ * 作用：定义智能养殖报告可选的章节，以及各章节表格的数据整理
+ * 约定：章节内容按固定行数/字数切块，每块为一个分页单元，由 downloadPagedElementsAsPdf 按高度装页
+ */
+
+/** 报告页眉所需的塘口信息 */
+export type ReportPond = Pick<
+  Pond,
+  'name' | 'breed_species' | 'breed_type' | 'breed_area' | 'max_depth' | 'province' | 'city' | 'district'
+> & { groupInfo?: GroupInfo | null };
+
+export type ReportSectionKey = 'summary' | 'trend' | 'timeline' | 'loss' | 'inputs' | 'ai' | 'members';
+
+export const REPORT_SECTIONS: { key: ReportSectionKey; label: string; description: string }[] = [
+  { key: 'summary', label: '关键指标', description: '投喂、存塘、成活率、饵料系数与收支汇总' },
+  { key: 'trend', label: '水质与投喂趋势', description: '各水质参数与投喂量趋势图' },
+  { key: 'timeline', label: '养殖记录', description: '时间范围内的全部养殖记录明细' },
+  { key: 'loss', label: '损失分析', description: '按品种汇总损失数量、重量与金额' },
+  { key: 'inputs', label: '投入品使用', description: '按投入品汇总用量、次数与费用' },
+  { key: 'ai', label: 'AI 分析', description: 'AI 对时间范围内养殖情况的分析总结' },
+  { key: 'members', label: '塘口成员', description: '塘口成员与角色' },
+];
+
+export const DEFAULT_REPORT_SECTIONS: ReportSectionKey[] = REPORT_SECTIONS.map((s) => s.key);
+
+/** 需要加载时间范围内全部记录的章节（趋势图单独加载水质/投喂记录） */
+export const RECORD_SECTIONS: ReportSectionKey[] = ['summary', 'timeline', 'loss', 'inputs'];
+
+/** 表格章节每块的行数 */
+export const REPORT_ROWS_PER_BLOCK = 14;
+/** AI 分析每块的最大字数 */
+export const REPORT_CHARS_PER_BLOCK = 480;
+
+export const chunk = <T>(list: T[], size: number): T[][] => {
+  const result: T[][] = [];
+  for (let i = 0; i < list.length; i += size) result.push(list.slice(i, i + size));
+  return result;
+};
+
+/** 按段落切分长文本，单段超长时再按字数切分 */
+export function splitTextBlocks(text: string, maxChars = REPORT_CHARS_PER_BLOCK): string[][] {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n+/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => chunk(Array.from(p), maxChars).map((chars) => chars.join('')));
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  paragraphs.forEach((p) => {
+    if (current.length > 0 && size + p.length > maxChars) {
+      blocks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(p);
+    size += p.length;
+  });
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+}
+
+type RecordOf<K extends RecordKind> = Extract<KnownTimelineRecord, { kind: K }>;
+
+const ofKind = <K extends RecordKind>(records: TimelineRecord[], kind: K) =>
+  records.filter((r): r is RecordOf<K> => r.kind === kind);
+
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+
+/** 按时间升序排列 */
+export const sortByRecordTime = (records: TimelineRecord[]) =>
+  records
+    .map((record) => ({ record, time: new Date(getRecordTime(record).replace(/-/g, '/')).getTime() }))
+    .sort((a, b) => (a.time || 0) - (b.time || 0))
+    .map(({ record }) => record);
+
+export interface LossSummaryRow {
+  species: string;
+  times: number;
+  count: number;
+  weight: number;
+  amount: number;
+}
+
+/** 按品种汇总损失记录，按损失金额降序 */
+export function summarizeLosses(records: TimelineRecord[]): LossSummaryRow[] {
+  const map = new Map<string, LossSummaryRow>();
+  ofKind(records, 'lossing').forEach(({ detail }) => {
+    const species = detail.species?.trim() || '未填写品种';
+    const row = map.get(species) || { species, times: 0, count: 0, weight: 0, amount: 0 };
+    row.times += 1;
+    row.count += num(detail.num);
+    row.weight += num(detail.weight);
+    row.amount += num(detail.amount);
+    map.set(species, row);
+  });
+  return Array.from(map.values()).sort((a, b) => b.amount - a.amount || b.count - a.count);
+}
+
+export interface InputsSummaryRow {
+  name: string;
+  category: string;
+  times: number;
+  /** 用量按单位分别累计，如 “5 kg、2 瓶” */
+  dosage: Record<string, number>;
+  cost: number;
+}
+
+/** 按投入品名称汇总用量与费用，按费用降序 */
+export function summarizeInputs(records: TimelineRecord[]): InputsSummaryRow[] {
+  const map = new Map<string, InputsSummaryRow>();
+  ofKind(records, 'aquacultureinputs').forEach(({ detail }) => {
+    const name = detail.name?.trim() || '未填写名称';
+    const row = map.get(name) || {
+      name,
+      category: [detail.category1, detail.category2].filter(Boolean).join(' / '),
+      times: 0,
+      dosage: {},
+      cost: 0,
+    };
+    row.times += 1;
+    if (detail.dosage_num != null) {
+      const unit = detail.dosage_unit?.trim() || '';
+      row.dosage[unit] = (row.dosage[unit] || 0) + num(detail.dosage_num);
+    }
+    row.cost += num(detail.total_cost);
+    map.set(name, row);
+  });
+  return Array.from(map.values()).sort((a, b) => b.cost - a.cost || b.times - a.times);
+}
+
+export const formatReportNumber = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined || !Number.isFinite(value) ? '--' : `${Number(value.toFixed(digits))}`;
+
+export const formatReportMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}¥${Math.abs(value).toLocaleString('zh-CN', { maximumFractionDigits: 2 })}`;
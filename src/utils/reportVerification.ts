@@ -0,0 +1,147 @@
+import QRCode from 'qrcode';
+import { isAxiosError } from 'axios';
+import { format, isValid, parse } from 'date-fns';
+import type { TimelineRecord } from '@/services/timeline';
+import { fetchTimelineRange, stableStringify } from './timelineCache';
+
+/**
+ * 报告验证
+ * 作用：为导出的报告生成可验证的报告编号与数据指纹（SHA-256），并在验证页重新计算比对
+ * 约定：
+ *  - 报告编号 = 生成时间 (yyyyMMddHHmmssSSS，17 位) + 塘口 ID（至少 4 位，左补 0），可从编号解析出塘口
+ *  - 数据指纹覆盖报告编号、塘口、日期范围（按自然日）与范围内全部记录，与报告所选章节无关
+ *  - 记录中的图片地址与操作人昵称/头像不参与计算（地址签名与用户资料会变化，不属于养殖数据）
+ */
+
+/** 指纹算法版本，计算口径变化时递增，旧报告按原版本验证 */
+export const REPORT_DIGEST_VERSION = 1;
+
+const ISSUED_AT_LENGTH = 17;
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const OFFLINE_MESSAGE = '无法联网验证：数据指纹需按服务器当前数据计算，请联网后重试';
+
+const VOLATILE_DETAIL_KEYS = ['image_url', 'images', 'picture_url', 'file_url', 'created_by_user', 'updated_by_user'];
+
+export const createReportNo = (pondId: number | string, issuedAt = new Date()) =>
+  `${format(issuedAt, 'yyyyMMddHHmmssSSS')}${String(pondId).padStart(4, '0')}`;
+
+/**
+ * 解析报告编号
+ * 输出：塘口 ID 与生成时间；格式不符时返回 null
+ */
+export function parseReportNo(reportNo: string): { pondId: number; issuedAt: Date } | null {
+  const value = String(reportNo || '').trim();
+  if (!/^\d+$/.test(value) || value.length < ISSUED_AT_LENGTH + 4) return null;
+  const issuedAt = parse(value.slice(0, ISSUED_AT_LENGTH), 'yyyyMMddHHmmssSSS', new Date());
+  const pondId = Number(value.slice(ISSUED_AT_LENGTH));
+  if (!isValid(issuedAt) || !Number.isSafeInteger(pondId) || pondId <= 0) return null;
+  return { pondId, issuedAt };
+}
+
+const canonicalRecord = (record: TimelineRecord) => {
+  const detail = { ...(record.detail as Record<string, unknown>) };
+  VOLATILE_DETAIL_KEYS.forEach((key) => delete detail[key]);
+  return stableStringify({ kind: record.kind, type: record.type, detail });
+};
+
+const sha256Hex = async (text: string) => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('当前浏览器环境不支持 SHA-256 计算，请通过 HTTPS 访问');
+  }
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+export interface ReportDigestInput {
+  reportNo: string;
+  pondId: number;
+  /** 报告日期范围（按自然日，含首尾两天） */
+  from: Date;
+  to: Date;
+}
+
+/**
+ * 计算报告数据指纹
+ * 作用：报告生成与验证共用的指纹口径
+ * 输入：报告编号、塘口、日期范围
+ * 输出：SHA-256 十六进制字符串与参与计算的记录数
+ * 逻辑：
+ *  1. 直接向服务器请求范围内全部类型的记录，跳过内存与离线缓存，指纹必须反映服务器当前数据
+ *  2. 无法联网时抛出“无法联网验证”，不回退缓存
+ *  3. 记录去除易变字段后规范化序列化并排序，与编号、塘口、范围一起计算 SHA-256
+ */
+export async function computeReportDigest({ reportNo, pondId, from, to }: ReportDigestInput) {
+  const fromText = format(from, DATE_FORMAT);
+  const toText = format(to, DATE_FORMAT);
+  if (typeof navigator !== 'undefined' && !navigator.onLine) throw new Error(OFFLINE_MESSAGE);
+  let records: TimelineRecord[];
+  try {
+    records = await fetchTimelineRange(
+      { pond_id: pondId, start_time: `${fromText} 00:00:00`, end_time: `${toText} 23:59:59` },
+      { force: true }
+    );
+  } catch (e) {
+    // 请求发出但没有响应：断网、超时或服务器不可达
+    if (isAxiosError(e) && !e.response) throw new Error(OFFLINE_MESSAGE);
+    throw e;
+  }
+  const payload = stableStringify({
+    v: REPORT_DIGEST_VERSION,
+    report_no: reportNo,
+    pond_id: pondId,
+    from: fromText,
+    to: toText,
+    records: records.map(canonicalRecord).sort(),
+  });
+  return { digest: await sha256Hex(payload), recordCount: records.length };
+}
+
+/** 验证链接（报告二维码内容） */
+export const buildVerifyUrl = ({ reportNo, from, to, digest }: Omit<ReportDigestInput, 'pondId'> & { digest: string }) => {
+  const params = new URLSearchParams({
+    no: reportNo,
+    from: format(from, DATE_FORMAT),
+    to: format(to, DATE_FORMAT),
+    h: digest,
+  });
+  return `${window.location.origin}/verify?${params.toString()}`;
+};
+
+export const buildVerifyQrDataUrl = (url: string) =>
+  QRCode.toDataURL(url, { margin: 1, width: 192, errorCorrectionLevel: 'M' });
+
+export const parseVerifyDate = (value: string | null) => {
+  if (!value) return null;
+  const d = parse(value, DATE_FORMAT, new Date());
+  return isValid(d) ? d : null;
+};
+
+export interface ReportVerifyResult {
+  status: 'match' | 'mismatch';
+  pondId: number;
+  recordCount: number;
+  /** 按当前数据重新计算的指纹 */
+  digest: string;
+}
+
+/**
+ * 验证报告
+ * 作用：按报告编号、日期范围重新计算数据指纹，与报告上印制的指纹比对
+ * 输入：报告编号、日期范围（yyyy-MM-dd）、报告上的指纹
+ * 输出：ReportVerifyResult；参数无效时抛出带说明的错误
+ */
+export async function verifyReport(input: { reportNo: string; from: string; to: string; digest: string }): Promise<ReportVerifyResult> {
+  const reportNo = input.reportNo.trim();
+  const parsed = parseReportNo(reportNo);
+  if (!parsed) throw new Error('报告编号格式不正确');
+  const from = parseVerifyDate(input.from);
+  const to = parseVerifyDate(input.to);
+  if (!from || !to) throw new Error('请填写报告的起止日期');
+  if (from > to) throw new Error('开始日期不能晚于结束日期');
+  const expected = input.digest.trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(expected)) throw new Error('数据指纹应为 64 位十六进制字符');
+
+  const { digest, recordCount } = await computeReportDigest({ reportNo, pondId: parsed.pondId, from, to });
+  return { status: digest === expected ? 'match' : 'mismatch', pondId: parsed.pondId, recordCount, digest };
+}
@@ -0,0 +1,109 @@
+/**
+ * 带优先级的请求调度器
+ * 作用：大量同类请求（如首页每个塘口的水质预览）排队执行，限制同时在途的请求数，
+ *       并让视口内的卡片优先加载
+ * 约定：以 key 标识任务，同一 key 排队或执行中时重复调度返回同一个 Promise
+ */
+
+/** 优先级：数值越大越先执行，同优先级按调度顺序 */
+export const REQUEST_PRIORITY = {
+  NORMAL: 0,
+  VISIBLE: 1,
+};
+
+/** 调度器清空时，尚未开始的任务以此错误结束 */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('请求已取消');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+interface QueuedTask<K> {
+  key: K;
+  seq: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+export interface RequestScheduler<K> {
+  schedule: <T>(key: K, task: () => Promise<T>) => Promise<T>;
+  /** 调整任务优先级；任务尚未调度时先记录，调度后生效 */
+  setPriority: (key: K, priority: number) => void;
+  /** 取消全部排队中的任务（执行中的任务不受影响） */
+  clear: () => void;
+}
+
+export function createRequestScheduler<K extends string | number>(concurrency: number): RequestScheduler<K> {
+  const limit = Math.max(1, concurrency);
+  const queue = new Map<K, QueuedTask<K>>();
+  const pending = new Map<K, Promise<unknown>>();
+  const priorities = new Map<K, number>();
+  let active = 0;
+  let seq = 0;
+
+  const pickNext = () => {
+    let best: QueuedTask<K> | null = null;
+    for (const task of queue.values()) {
+      if (!best) {
+        best = task;
+        continue;
+      }
+      const diff = (priorities.get(task.key) ?? REQUEST_PRIORITY.NORMAL) - (priorities.get(best.key) ?? REQUEST_PRIORITY.NORMAL);
+      if (diff > 0 || (diff === 0 && task.seq < best.seq)) best = task;
+    }
+    return best;
+  };
+
+  const pump = () => {
+    while (active < limit) {
+      const next = pickNext();
+      if (!next) return;
+      queue.delete(next.key);
+      active += 1;
+      next.start();
+    }
+  };
+
+  const schedule = <T>(key: K, task: () => Promise<T>): Promise<T> => {
+    const existing = pending.get(key) as Promise<T> | undefined;
+    if (existing) return existing;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      queue.set(key, {
+        key,
+        seq: seq++,
+        start: () => {
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              active -= 1;
+              pending.delete(key);
+              pump();
+            });
+        },
+        cancel: () => {
+          pending.delete(key);
+          reject(new RequestCancelledError());
+        },
+      });
+    });
+    pending.set(key, promise);
+    pump();
+    return promise;
+  };
+
+  return {
+    schedule,
+    setPriority: (key, priority) => {
+      if (priority === REQUEST_PRIORITY.NORMAL) priorities.delete(key);
+      else priorities.set(key, priority);
+    },
+    clear: () => {
+      const cancelled = Array.from(queue.values());
+      queue.clear();
+      cancelled.forEach((task) => task.cancel());
+    },
+  };
+}
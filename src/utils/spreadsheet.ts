@@ -0,0 +1,228 @@
+import JSZip from 'jszip';
+import { format } from 'date-fns';
+
+/**
+ * 表格文件解析（CSV / XLSX）
+ * 作用：在浏览器端读取用户上传的表格，统一输出为表头 + 字符串行，供记录导入使用
+ * 约定：
+ *  - 只读取 XLSX 的第一个工作表；日期格式的单元格转为 yyyy-MM-dd HH:mm:ss
+ *  - CSV 优先按 UTF-8 解码，出现乱码时按 GB18030 解码（Excel 中文版默认另存编码）
+ */
+
+export interface SheetRow {
+  /** 在原文件中的行号（从 1 开始），用于错误报告 */
+  line: number;
+  cells: string[];
+}
+
+export interface SheetData {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+/**
+ * CSV 解析
+ * 输入：CSV 文本（可带 BOM）
+ * 输出：二维字符串数组；支持双引号转义、字段内换行，自动识别逗号/制表符/分号分隔
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', '\t', ';'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// 命名空间前缀不固定（部分软件导出为 x:c），按本地名称查找
+const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+// A1 形式的列字母转为从 0 开始的列号
+const columnIndex = (ref: string) => {
+  const letters = (ref.match(/^[A-Z]+/i)?.[0] || 'A').toUpperCase();
+  let n = 0;
+  for (let i = 0; i < letters.length; i++) n = n * 26 + (letters.charCodeAt(i) - 64);
+  return n - 1;
+};
+
+// 内置日期格式编号（ECMA-376 18.8.30）
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** 找出使用日期格式的单元格样式序号 */
+function readDateStyles(stylesXml: string | null) {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+  const doc = parseXml(stylesXml);
+  const customDateFormats = new Set<number>();
+  byTag(doc, 'numFmt').forEach((el) => {
+    // 去掉引号内文本与颜色等方括号标记后，含年月日时即视为日期格式
+    const code = (el.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[ymdh]/i.test(code)) customDateFormats.add(Number(el.getAttribute('numFmtId')));
+  });
+  const cellXfs = byTag(doc, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+  Array.from(cellXfs.children).forEach((xf, index) => {
+    const id = Number(xf.getAttribute('numFmtId'));
+    if (BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id)) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+/** Excel 日期序列号（1900 日期系统）转为本地时间字符串 */
+export function excelSerialToDateString(serial: number) {
+  const ms = Math.round((serial - 25569) * 86400 * 1000);
+  const utc = new Date(ms);
+  const local = new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+  return format(local, 'yyyy-MM-dd HH:mm:ss');
+}
+
+async function resolveFirstSheetPath(zip: JSZip) {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+  const relsXml = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+  if (!workbookXml || !relsXml) return fallback;
+  const sheet = byTag(parseXml(workbookXml), 'sheet')[0];
+  const relId =
+    sheet?.getAttribute('r:id') ||
+    sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const rel = byTag(parseXml(relsXml), 'Relationship').find((el) => el.getAttribute('Id') === relId);
+  const target = rel?.getAttribute('Target');
+  if (!target) return fallback;
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * XLSX 解析
+ * 输入：xlsx 文件内容
+ * 输出：第一个工作表的二维字符串数组（按单元格坐标对齐，空单元格为 ''）
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const sheetPath = await resolveFirstSheetPath(zip);
+  const sheetXml = await zip.file(sheetPath)?.async('string');
+  if (!sheetXml) throw new Error('未找到工作表，请确认文件为 Excel 工作簿');
+
+  const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+  const sharedStrings = sharedXml
+    ? byTag(parseXml(sharedXml), 'si').map((si) =>
+        // 富文本由多个 <r><t> 组成，跳过拼音注释 <rPh>
+        byTag(si, 't')
+          .filter((t) => t.parentElement?.localName !== 'rPh')
+          .map((t) => t.textContent || '')
+          .join('')
+      )
+    : [];
+  const dateStyles = readDateStyles((await zip.file('xl/styles.xml')?.async('string')) ?? null);
+
+  const rows: string[][] = [];
+  byTag(parseXml(sheetXml), 'row').forEach((rowEl, i) => {
+    const rowIndex = Number(rowEl.getAttribute('r')) - 1;
+    const cells: string[] = [];
+    byTag(rowEl, 'c').forEach((c, j) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : j;
+      const type = c.getAttribute('t');
+      const raw = byTag(c, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = byTag(c, 't').map((t) => t.textContent || '').join('');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (type !== 'str' && type !== 'e' && raw !== '' && dateStyles.has(Number(c.getAttribute('s'))))
+        value = excelSerialToDateString(Number(raw));
+      // 数值按 15 位有效数字输出，去掉 0.30000000000000004 之类的浮点尾数
+      else if (!type || type === 'n') value = raw === '' ? '' : String(Number(Number(raw).toPrecision(15)));
+      else value = raw;
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    });
+    rows[Number.isFinite(rowIndex) && rowIndex >= 0 ? rowIndex : i] = cells;
+  });
+  return Array.from(rows, (row) => row || []);
+}
+
+const decodeText = (buffer: ArrayBuffer) => {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  try {
+    return new TextDecoder('gb18030').decode(buffer);
+  } catch {
+    return utf8;
+  }
+};
+
+/**
+ * 读取上传的表格文件
+ * 输入：CSV 或 XLSX 文件
+ * 输出：表头（第一个非空行）与数据行（去除空行，单元格去首尾空白）
+ */
+export async function readSpreadsheetFile(file: File): Promise<SheetData> {
+  const name = file.name.toLowerCase();
+  const buffer = await file.arrayBuffer();
+  let table: string[][];
+  if (name.endsWith('.xlsx')) {
+    table = await parseXlsx(buffer);
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    table = parseCsv(decodeText(buffer));
+  } else if (name.endsWith('.xls')) {
+    throw new Error('暂不支持 .xls 格式，请在 Excel 中另存为 .xlsx 或 CSV');
+  } else {
+    throw new Error('仅支持 CSV 或 XLSX 文件');
+  }
+
+  const nonEmpty = table
+    .map((row, i) => ({ line: i + 1, cells: row.map((cell) => String(cell ?? '').trim()) }))
+    .filter((row) => row.cells.some((cell) => cell !== ''));
+  if (nonEmpty.length === 0) throw new Error('文件中没有数据');
+  const [header, ...rows] = nonEmpty;
+  return { headers: header.cells, rows };
+}
@@ -0,0 +1,96 @@
+import { getTrendData } from '@/services/ponds';
+import { DEFAULT_EXPORT_TYPES } from '@/services/export';
+import { TimelineRecord } from '@/services/timeline';
+import { TimelineQueryOptions, invalidateTimelineQueries } from '@/services/timelineQuery';
+import { CacheFetchContext, cacheInvalidate, loadWithCache } from './offlineStore';
+
+type TimelineCacheOptions = {
+  /** 网络优先（失败时回退缓存），用于记录列表等需要即时反映增删改的场景 */
+  forceNetwork?: boolean;
+  onRevalidate?: (records: TimelineRecord[]) => void;
+};
+
+// 对象键排序后序列化，保证相同参数生成相同的缓存键
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * 带离线缓存的时间线查询
+ * 作用：按塘口 + 查询参数缓存 /query/timeline 的结果（timeline 命名空间）
+ * 输入：pondId、查询参数 params（仅用于生成缓存键）、实际请求 fetcher（forceNetwork 时应以 force 调用 queryTimeline）
+ * 输出：时间线记录
+ * 约定：缓存键以 `${pondId}:` 开头，便于记录变更后按塘口整体失效
+ */
+export const loadCachedTimeline = (
+  pondId: number | string,
+  params: Record<string, unknown>,
+  fetcher: (context: CacheFetchContext) => Promise<TimelineRecord[]>,
+  options: TimelineCacheOptions = {}
+) =>
+  loadWithCache({
+    namespace: 'timeline',
+    key: `${pondId}:${stableStringify(params)}`,
+    fetcher,
+    forceNetwork: options.forceNetwork,
+    onRevalidate: options.onRevalidate,
+  });
+
+export interface TimelineRangeParams {
+  pond_id: number;
+  start_time: string;
+  end_time: string;
+  /** 记录类型，默认全部类型 */
+  type?: string[];
+}
+
+// 单次区间查询的分页上限，防止接口异常时无限翻页
+const RANGE_PAGE_SIZE = 200;
+const RANGE_MAX_PAGES = 50;
+
+const withDefaultTypes = (params: TimelineRangeParams) => ({ ...params, type: params.type || DEFAULT_EXPORT_TYPES });
+
+/**
+ * 按时间范围拉取全部记录（自动翻页，不经过离线缓存）
+ * 输入：塘口、时间范围、记录类型；查询缓存选项（force 跳过内存缓存）
+ * 输出：区间内全部时间线记录；任一页失败即抛出
+ */
+export const fetchTimelineRange = async (params: TimelineRangeParams, options: TimelineQueryOptions = {}) => {
+  const query = withDefaultTypes(params);
+  let all: TimelineRecord[] = [];
+  for (let page = 1; page <= RANGE_MAX_PAGES; page++) {
+    const list = await getTrendData({ ...query, page, page_size: RANGE_PAGE_SIZE }, options);
+    all = all.concat(list);
+    if (list.length < RANGE_PAGE_SIZE) break;
+  }
+  return all;
+};
+
+/**
+ * 按时间范围拉取全部记录（自动翻页，带离线缓存）
+ * 作用：养殖日历、塘口对比、养殖分析、财务台账等按区间取数的页面共用
+ * 输入：塘口、时间范围、记录类型
+ * 输出：区间内全部时间线记录
+ */
+export const loadTimelineRange = (params: TimelineRangeParams, options: TimelineCacheOptions = {}) => {
+  const query = withDefaultTypes(params);
+  return loadCachedTimeline(
+    query.pond_id,
+    { ...query, all: true },
+    ({ forceNetwork }: CacheFetchContext) => fetchTimelineRange(query, { force: forceNetwork }),
+    options
+  );
+};
+
+/** 记录新增/修改/删除后，使该塘口的时间线缓存（内存查询缓存与 IndexedDB）失效 */
+export const invalidatePondTimeline = (pondId: number | string) => {
+  invalidateTimelineQueries(pondId);
+  return cacheInvalidate('timeline', `${pondId}:`);
+};
@@ -0,0 +1,393 @@
+import { GState, jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { PDF_FONT } from '@/config';
+
+/**
+ * 矢量 PDF 绘制
+ * 作用：将已渲染的 DOM 按实际布局直接绘制进 jsPDF——文字为可选中/复制的真实文本，
+ *       图表 SVG 转为矢量路径，表格与卡片的背景、边框绘制为矢量图形
+ * 约定：页面必须先挂载到 document 中完成布局；位置均取自 getBoundingClientRect
+ */
+
+/**
+ * 矢量 PDF 所需的中文字体不可用
+ * 作用：字体文件缺失或不是 TrueType 时抛出，由页面提示部署字体或改用截图方式，而不是静默降级
+ */
+export class PdfFontUnavailableError extends Error {
+  url: string;
+
+  constructor(url: string, reason: string) {
+    super(`PDF 中文字体不可用（${url}：${reason}），无法生成可选中文字的矢量报告。请在 public/fonts/ 放置字体文件，或改用截图方式生成`);
+    this.name = 'PdfFontUnavailableError';
+    this.url = url;
+  }
+}
+
+export const isPdfFontUnavailable = (e: unknown): e is PdfFontUnavailableError => e instanceof PdfFontUnavailableError;
+
+let fontDataPromise: Promise<string> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// TrueType 文件头：0x00010000 或 'true'（开发服务器对缺失文件可能返回 index.html）
+const isTrueType = (buffer: ArrayBuffer) => {
+  if (buffer.byteLength < 4) return false;
+  const tag = new DataView(buffer).getUint32(0);
+  return tag === 0x00010000 || tag === 0x74727565;
+};
+
+const fetchFontData = async () => {
+  let res: Response;
+  try {
+    res = await fetch(PDF_FONT.URL);
+  } catch {
+    throw new PdfFontUnavailableError(PDF_FONT.URL, '网络错误');
+  }
+  if (!res.ok) throw new PdfFontUnavailableError(PDF_FONT.URL, `HTTP ${res.status}`);
+  const buffer = await res.arrayBuffer();
+  if (!isTrueType(buffer)) throw new PdfFontUnavailableError(PDF_FONT.URL, '不是 TrueType 字体文件');
+  return toBase64(buffer);
+};
+
+// 字体文件只下载一次；失败不缓存，部署字体后无需刷新页面即可重试
+const loadFontData = () => {
+  if (!fontDataPromise) {
+    fontDataPromise = fetchFontData().catch((e) => {
+      fontDataPromise = null;
+      throw e;
+    });
+  }
+  return fontDataPromise;
+};
+
+/**
+ * 注册中文字体
+ * 作用：将 PDF_FONT 字体嵌入当前 PDF 文档（字体文件只下载一次）
+ * 输入：jsPDF 文档
+ * 输出：字体名；字体不可用时抛出 PdfFontUnavailableError
+ */
+export async function registerPdfFont(pdf: jsPDF): Promise<string> {
+  const data = await loadFontData();
+  try {
+    const file = PDF_FONT.URL.split('/').pop() || 'font.ttf';
+    pdf.addFileToVFS(file, data);
+    pdf.addFont(file, PDF_FONT.FAMILY, 'normal');
+    pdf.setFont(PDF_FONT.FAMILY, 'normal');
+    return PDF_FONT.FAMILY;
+  } catch {
+    throw new PdfFontUnavailableError(PDF_FONT.URL, '字体无法嵌入');
+  }
+}
+
+type Rgba = [number, number, number, number];
+
+const parseColor = (value: string): Rgba | null => {
+  const m = /rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/.exec(value || '');
+  if (!m) return null;
+  const alphaRaw = m[4];
+  const alpha = alphaRaw === undefined ? 1 : alphaRaw.endsWith('%') ? parseFloat(alphaRaw) / 100 : parseFloat(alphaRaw);
+  if (!(alpha > 0)) return null;
+  return [Number(m[1]), Number(m[2]), Number(m[3]), alpha];
+};
+
+export interface VectorDrawOptions {
+  /** 元素左上角在页面上的位置（pt） */
+  x: number;
+  y: number;
+  /** 元素在页面上的绘制宽度（pt），高度按比例换算 */
+  width: number;
+  /** 已注册的字体名（registerPdfFont 返回值） */
+  fontFamily: string;
+  ignoreSelector?: string;
+  /** 不绘制根元素自身的背景与边框（调用方已绘制页面背景/水印时使用） */
+  skipRootBox?: boolean;
+  /** 仅绘制与该纵向范围（pt）相交的元素，用于长内容按页裁切 */
+  visibleRange?: { top: number; bottom: number };
+}
+
+interface DrawContext extends VectorDrawOptions {
+  pdf: jsPDF;
+  scale: number;
+  originLeft: number;
+  originTop: number;
+}
+
+const withOpacity = (pdf: jsPDF, opacity: number, draw: () => void) => {
+  if (opacity >= 1) {
+    draw();
+    return;
+  }
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity, 'stroke-opacity': opacity }));
+  draw();
+  pdf.restoreGraphicsState();
+};
+
+const toPage = (ctx: DrawContext, rect: DOMRect) => ({
+  x: ctx.x + (rect.left - ctx.originLeft) * ctx.scale,
+  y: ctx.y + (rect.top - ctx.originTop) * ctx.scale,
+  w: rect.width * ctx.scale,
+  h: rect.height * ctx.scale,
+});
+
+const drawBox = (ctx: DrawContext, style: CSSStyleDeclaration, rect: DOMRect, opacity: number) => {
+  const { pdf } = ctx;
+  const { x, y, w, h } = toPage(ctx, rect);
+  if (w <= 0 || h <= 0) return;
+  const radius = Math.min(parseFloat(style.borderTopLeftRadius) || 0, rect.width / 2, rect.height / 2) * ctx.scale;
+
+  const bg = parseColor(style.backgroundColor);
+  if (bg) {
+    withOpacity(pdf, opacity * bg[3], () => {
+      pdf.setFillColor(bg[0], bg[1], bg[2]);
+      if (radius > 0) pdf.roundedRect(x, y, w, h, radius, radius, 'F');
+      else pdf.rect(x, y, w, h, 'F');
+    });
+  }
+
+  const sides = (['Top', 'Right', 'Bottom', 'Left'] as const).map((side) => {
+    const width = style[`border${side}Style`] === 'none' ? 0 : parseFloat(style[`border${side}Width`]) || 0;
+    return { side, width: width * ctx.scale, color: width > 0 ? parseColor(style[`border${side}Color`]) : null };
+  });
+  const uniform = sides.every((s) => s.width === sides[0].width && String(s.color) === String(sides[0].color));
+
+  if (uniform && sides[0].color && sides[0].width > 0 && radius > 0) {
+    const { width, color } = sides[0];
+    withOpacity(pdf, opacity * color[3], () => {
+      pdf.setDrawColor(color[0], color[1], color[2]);
+      pdf.setLineWidth(width);
+      pdf.roundedRect(x + width / 2, y + width / 2, w - width, h - width, radius, radius, 'S');
+    });
+    return;
+  }
+
+  sides.forEach(({ side, width, color }) => {
+    if (!color || width <= 0) return;
+    withOpacity(pdf, opacity * color[3], () => {
+      pdf.setDrawColor(color[0], color[1], color[2]);
+      pdf.setLineWidth(width);
+      if (side === 'Top') pdf.line(x, y + width / 2, x + w, y + width / 2);
+      if (side === 'Bottom') pdf.line(x, y + h - width / 2, x + w, y + h - width / 2);
+      if (side === 'Left') pdf.line(x + width / 2, y, x + width / 2, y + h);
+      if (side === 'Right') pdf.line(x + w - width / 2, y, x + w - width / 2, y + h);
+    });
+  });
+};
+
+// 按渲染后的行拆分文本节点：逐字测量位置，纵向位置变化即为换行
+const splitTextLines = (node: Text) => {
+  const text = node.data;
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  const rects = Array.from(range.getClientRects()).filter((r) => r.width > 0);
+  if (rects.length <= 1) {
+    const content = text.replace(/\s+/g, ' ');
+    return rects.length === 1 && content.trim() ? [{ text: content, rect: rects[0] }] : [];
+  }
+
+  const lines: { text: string; rect: DOMRect }[] = [];
+  let current: { text: string; left: number; top: number; right: number; bottom: number } | null = null;
+  for (let i = 0; i < text.length; ) {
+    const step = (text.codePointAt(i) || 0) > 0xffff ? 2 : 1;
+    range.setStart(node, i);
+    range.setEnd(node, i + step);
+    const r = range.getClientRects()[0];
+    const ch = text.slice(i, i + step);
+    i += step;
+    if (!r) continue;
+    if (!current || r.top >= current.bottom - r.height / 2) {
+      if (current) lines.push({ text: current.text, rect: new DOMRect(current.left, current.top, current.right - current.left, current.bottom - current.top) });
+      if (!ch.trim()) {
+        current = null;
+        continue;
+      }
+      current = { text: '', left: r.left, top: r.top, right: r.right, bottom: r.bottom };
+    }
+    current.text += /\s/.test(ch) ? ' ' : ch;
+    current.right = Math.max(current.right, r.right);
+    current.bottom = Math.max(current.bottom, r.bottom);
+  }
+  if (current) lines.push({ text: current.text, rect: new DOMRect(current.left, current.top, current.right - current.left, current.bottom - current.top) });
+  return lines.filter((l) => l.text.trim());
+};
+
+const drawText = (ctx: DrawContext, node: Text, style: CSSStyleDeclaration, opacity: number) => {
+  if (!node.data.trim()) return;
+  const color = parseColor(style.color);
+  if (!color) return;
+  const { pdf } = ctx;
+  const fontSize = (parseFloat(style.fontSize) || 14) * ctx.scale;
+  const bold = (parseInt(style.fontWeight, 10) || 400) >= 600;
+
+  splitTextLines(node).forEach(({ text, rect }) => {
+    const box = toPage(ctx, rect);
+    if (ctx.visibleRange && (box.y + box.h < ctx.visibleRange.top || box.y > ctx.visibleRange.bottom)) return;
+    withOpacity(pdf, opacity * color[3], () => {
+      pdf.setFont(ctx.fontFamily, 'normal');
+      pdf.setFontSize(fontSize);
+      pdf.setTextColor(color[0], color[1], color[2]);
+      // 只嵌入常规字重，粗体用描边加粗
+      if (bold) {
+        pdf.setDrawColor(color[0], color[1], color[2]);
+        pdf.setLineWidth(fontSize * 0.03);
+      }
+      // 字体度量与浏览器不同，按对齐方式以行框的左/右/中为锚点
+      const textWidth = pdf.getTextWidth(text.trim());
+      const align = style.textAlign;
+      let x = box.x + (text.length - text.trimStart().length > 0 ? pdf.getTextWidth(' ') : 0);
+      if (align === 'right' || align === 'end') x = box.x + box.w - textWidth;
+      else if (align === 'center') x = box.x + (box.w - textWidth) / 2;
+      pdf.text(text.trim(), x, box.y + box.h / 2, {
+        baseline: 'middle',
+        renderingMode: bold ? 'fillThenStroke' : 'fill',
+      });
+    });
+  });
+};
+
+const drawImage = (ctx: DrawContext, source: HTMLImageElement | HTMLCanvasElement, rect: DOMRect, opacity: number) => {
+  const { x, y, w, h } = toPage(ctx, rect);
+  if (w <= 0 || h <= 0) return;
+  try {
+    let canvas: HTMLCanvasElement;
+    if (source instanceof HTMLCanvasElement) {
+      canvas = source;
+    } else {
+      if (!source.complete || !source.naturalWidth) return;
+      // 图片（含 SVG 图标）按 2 倍尺寸栅格化，避免放大后模糊
+      canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(rect.width * 2));
+      canvas.height = Math.max(1, Math.round(rect.height * 2));
+      canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    }
+    const data = canvas.toDataURL('image/png');
+    withOpacity(ctx.pdf, opacity, () => ctx.pdf.addImage(data, 'PNG', x, y, w, h));
+  } catch {
+    // 跨域图片无法读取像素，跳过
+  }
+};
+
+const drawSvg = async (ctx: DrawContext, svg: SVGSVGElement, rect: DOMRect) => {
+  const { x, y, w, h } = toPage(ctx, rect);
+  if (w <= 0 || h <= 0) return;
+  const cloned = svg.cloneNode(true) as SVGSVGElement;
+  cloned.setAttribute('width', String(rect.width));
+  cloned.setAttribute('height', String(rect.height));
+  // 图表文字改用内嵌中文字体，字号按 CSS 计算值写回属性
+  const sourceTexts = svg.querySelectorAll('text');
+  cloned.querySelectorAll('text').forEach((text, i) => {
+    const computed = sourceTexts[i] ? getComputedStyle(sourceTexts[i]) : null;
+    text.setAttribute('font-family', ctx.fontFamily);
+    text.removeAttribute('font-weight');
+    if (computed && !text.getAttribute('font-size')) text.setAttribute('font-size', computed.fontSize);
+  });
+  cloned.setAttribute('font-family', ctx.fontFamily);
+  await svg2pdf(cloned, ctx.pdf, { x, y, width: w, height: h });
+};
+
+const drawNode = async (ctx: DrawContext, el: Element, opacity: number, isRoot: boolean) => {
+  if (ctx.ignoreSelector && el.matches(ctx.ignoreSelector)) return;
+  const style = getComputedStyle(el);
+  if (style.display === 'none' || style.visibility === 'hidden') return;
+  const nextOpacity = opacity * (parseFloat(style.opacity) || (style.opacity === '0' ? 0 : 1));
+  if (nextOpacity <= 0) return;
+
+  const rect = el.getBoundingClientRect();
+  if (ctx.visibleRange && rect.height > 0) {
+    const box = toPage(ctx, rect);
+    if (box.y + box.h < ctx.visibleRange.top || box.y > ctx.visibleRange.bottom) return;
+  }
+
+  if (el instanceof SVGSVGElement) {
+    await drawSvg(ctx, el, rect);
+    return;
+  }
+  if (el instanceof SVGElement) return;
+  if (!(isRoot && ctx.skipRootBox)) drawBox(ctx, style, rect, nextOpacity);
+  if (el instanceof HTMLImageElement || el instanceof HTMLCanvasElement) {
+    drawImage(ctx, el, rect, nextOpacity);
+    return;
+  }
+
+  for (const child of Array.from(el.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) drawText(ctx, child as Text, style, nextOpacity);
+    else if (child.nodeType === Node.ELEMENT_NODE) await drawNode(ctx, child as Element, nextOpacity, false);
+  }
+};
+
+// 等待子树内图片加载完成（页眉等新建节点的图片可能尚未解码），单张最多等待 3 秒
+const waitForImages = (root: HTMLElement) =>
+  Promise.all(
+    Array.from(root.querySelectorAll('img'))
+      .filter((img) => !img.complete)
+      .map((img) =>
+        Promise.race([img.decode().catch(() => undefined), new Promise<void>((resolve) => setTimeout(resolve, 3000))])
+      )
+  );
+
+/**
+ * DOM 元素绘制为矢量内容
+ * 作用：将已挂载的元素（含子树）按布局绘制到 PDF 当前页
+ * 输入：pdf、element、VectorDrawOptions（位置、宽度、字体）
+ * 输出：元素在页面上的绘制高度（pt）
+ * 逻辑：
+ *  1. 按 绘制宽度 / 元素像素宽度 换算比例，元素内所有位置按同一比例映射
+ *  2. 深度优先遍历：先绘制背景/边框，再绘制文字与子元素，保持与页面一致的层叠顺序
+ *  3. SVG（图表）交给 svg2pdf 绘制为矢量路径，图片栅格化后嵌入
+ */
+export async function drawElementAsVector(pdf: jsPDF, element: HTMLElement, options: VectorDrawOptions): Promise<number> {
+  await waitForImages(element);
+  const rect = element.getBoundingClientRect();
+  if (!rect.width) return 0;
+  const ctx: DrawContext = {
+    ...options,
+    pdf,
+    scale: options.width / rect.width,
+    originLeft: rect.left,
+    originTop: rect.top,
+  };
+  await drawNode(ctx, element, 1, true);
+  return rect.height * ctx.scale;
+}
+
+export interface PdfWatermarkOptions {
+  text: string;
+  fontFamily: string;
+  opacity: number;
+  rotateDeg: number;
+  fontSizePt: number;
+  gapPt: number;
+}
+
+/**
+ * 平铺文字水印
+ * 作用：在 PDF 当前页平铺半透明的旋转文字（矢量文字，与截图导出的水印排布一致）
+ */
+export function drawPdfWatermark(pdf: jsPDF, { text, fontFamily, opacity, rotateDeg, fontSizePt, gapPt }: PdfWatermarkOptions) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: Math.max(0, Math.min(1, opacity)) }));
+  pdf.setFont(fontFamily, 'normal');
+  pdf.setFontSize(fontSizePt);
+  pdf.setTextColor(156, 163, 175);
+  const textWidth = pdf.getTextWidth(text);
+  const tileW = Math.max(160, textWidth + gapPt * 2);
+  const tileH = Math.max(120, fontSizePt * 2.4 + gapPt * 1.4);
+  // jsPDF 的 angle 为逆时针角度，与 CSS rotate 方向相反
+  const angle = -(Number(rotateDeg) || 0);
+  for (let ty = -tileH; ty < pageHeight + tileH; ty += tileH) {
+    for (let tx = -tileW; tx < pageWidth + tileW; tx += tileW) {
+      pdf.text(text, tx + tileW * 0.28, ty + tileH * 0.32, { angle, align: 'center', baseline: 'middle' });
+      pdf.text(text, tx + tileW * 0.78, ty + tileH * 0.82, { angle, align: 'center', baseline: 'middle' });
+    }
+  }
+  pdf.restoreGraphicsState();
+}
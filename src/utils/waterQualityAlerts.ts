@@ -0,0 +1,280 @@
+import { PARAM_CONFIG } from './paramConfig';
+import { fullFieldConfigs, getNumericReadings, getRecordTime } from './recordUtils';
+import type { TimelineRecord } from '@/services/timeline';
+
+/**
+ * 单个指标的安全区间
+ * 作用：min/max 任一缺省表示该方向不设限
+ */
+export interface ThresholdRange {
+  min?: number;
+  max?: number;
+}
+
+/** 指标 key -> 安全区间 */
+export type ThresholdProfile = Record<string, ThresholdRange>;
+
+export type AlertLevel = 'low' | 'high';
+
+export interface WaterQualityAlert {
+  id: string;
+  key: string;
+  name: string;
+  unit: string;
+  value: number;
+  level: AlertLevel;
+  /** 被突破的边界值 */
+  bound: number;
+  time: string;
+}
+
+export const DEFAULT_PROFILE_NAME = '通用';
+
+// 后端字段存在多种写法，统一映射到同一个阈值 key
+const THRESHOLD_KEY_ALIASES: Record<string, string> = {
+  total_alkalinity: 'alkalinity',
+  total_hardness: 'hardness',
+  calcium_ion: 'calcium',
+  magnesium_ion: 'magnesium',
+  potassium_ion: 'potassium',
+  air_pressure: 'pressure',
+};
+
+export function canonicalThresholdKey(key: string) {
+  return THRESHOLD_KEY_ALIASES[key] || key;
+}
+
+/**
+ * 可配置阈值的指标列表
+ * 来源：水质记录字段 (fullFieldConfigs.waterquality) + 趋势图参数 (PARAM_CONFIG)，排除投料量与备注
+ */
+export const THRESHOLD_KEYS: string[] = Array.from(
+  new Set(
+    [
+      ...fullFieldConfigs.waterquality.map((f) => f.key),
+      ...Object.keys(PARAM_CONFIG),
+    ]
+      .filter((k) => k !== 'weight' && k !== 'user_remark')
+      .map(canonicalThresholdKey)
+  )
+);
+
+const BASE_PROFILE: ThresholdProfile = {
+  ph: { min: 6.5, max: 9.0 },
+  oxygen: { min: 4 },
+  temperature: { min: 5, max: 33 },
+  ammonia: { max: 0.5 },
+  nitrite: { max: 0.2 },
+  transparency: { min: 20, max: 60 },
+  alkalinity: { min: 50, max: 250 },
+  hardness: { min: 50, max: 300 },
+  calcium: { min: 20 },
+  orp: {},
+  salinity: {},
+  magnesium: {},
+  potassium: {},
+  pressure: {},
+};
+
+/**
+ * 各养殖品种的默认阈值（仅列出与通用档不同的指标）
+ */
+const SPECIES_PROFILES: Record<string, ThresholdProfile> = {
+  南美白对虾: {
+    ph: { min: 7.5, max: 8.8 },
+    oxygen: { min: 5 },
+    temperature: { min: 18, max: 33 },
+    ammonia: { max: 0.3 },
+    nitrite: { max: 0.1 },
+    transparency: { min: 30, max: 50 },
+    alkalinity: { min: 80, max: 200 },
+    calcium: { min: 40 },
+  },
+  草鱼: {
+    ph: { min: 6.5, max: 8.5 },
+    temperature: { min: 10, max: 32 },
+    nitrite: { max: 0.15 },
+  },
+  鲈鱼: {
+    ph: { min: 7.0, max: 8.5 },
+    oxygen: { min: 5 },
+    temperature: { min: 12, max: 32 },
+    ammonia: { max: 0.3 },
+    nitrite: { max: 0.1 },
+  },
+  小龙虾: {
+    oxygen: { min: 3 },
+    temperature: { min: 10, max: 30 },
+    ammonia: { max: 0.3 },
+    nitrite: { max: 0.1 },
+  },
+  河蟹: {
+    ph: { min: 7.0, max: 9.0 },
+    oxygen: { min: 5 },
+    temperature: { min: 8, max: 30 },
+    ammonia: { max: 0.3 },
+    nitrite: { max: 0.1 },
+  },
+};
+
+// 塘口 breed_species 为用户自由填写，按关键词归入已知品种档
+const SPECIES_KEYWORDS: [string, string[]][] = [
+  ['南美白对虾', ['南美白对虾', '白对虾', '对虾', '白虾']],
+  ['小龙虾', ['小龙虾', '克氏原螯虾']],
+  ['河蟹', ['河蟹', '大闸蟹', '中华绒螯蟹', '螃蟹']],
+  ['鲈鱼', ['鲈鱼', '加州鲈', '大口黑鲈', '海鲈']],
+  ['草鱼', ['草鱼', '鲢鱼', '鳙鱼', '青鱼', '鲫鱼', '鲤鱼']],
+];
+
+export const THRESHOLD_PROFILE_NAMES = [DEFAULT_PROFILE_NAME, ...Object.keys(SPECIES_PROFILES)];
+
+/**
+ * 根据塘口养殖品种匹配阈值档名称
+ * 输入：breed_species 原始字符串
+ * 输出：档名称（未匹配时返回通用档）
+ */
+export function resolveProfileName(species?: string | null) {
+  const s = String(species || '').trim();
+  if (!s) return DEFAULT_PROFILE_NAME;
+  for (const [name, keywords] of SPECIES_KEYWORDS) {
+    if (keywords.some((k) => s.includes(k))) return name;
+  }
+  return DEFAULT_PROFILE_NAME;
+}
+
+/**
+ * 获取内置（未被用户修改过的）阈值档
+ */
+export function getBuiltinProfile(profileName: string): ThresholdProfile {
+  const species = SPECIES_PROFILES[profileName] || {};
+  const merged: ThresholdProfile = {};
+  THRESHOLD_KEYS.forEach((key) => {
+    merged[key] = { ...(BASE_PROFILE[key] || {}), ...(species[key] || {}) };
+  });
+  return merged;
+}
+
+/**
+ * 合并内置阈值与用户自定义阈值
+ * 输入：档名称、用户覆盖配置（按档名称存储）
+ * 输出：完整的阈值档
+ */
+export function resolveThresholdProfile(
+  profileName: string,
+  overrides: Record<string, ThresholdProfile> = {}
+): ThresholdProfile {
+  const builtin = getBuiltinProfile(profileName);
+  const custom = overrides[profileName] || {};
+  Object.keys(custom).forEach((key) => {
+    builtin[key] = { ...custom[key] };
+  });
+  return builtin;
+}
+
+export function getThresholdFor(profile: ThresholdProfile | undefined, key: string): ThresholdRange | undefined {
+  if (!profile) return undefined;
+  const range = profile[canonicalThresholdKey(key)];
+  if (!range || (range.min == null && range.max == null)) return undefined;
+  return range;
+}
+
+/**
+ * 判断单个数值是否越界
+ * 输出：'low' | 'high'，未越界或无阈值时返回 null
+ */
+export function checkThreshold(range: ThresholdRange | undefined, value: number): AlertLevel | null {
+  if (!range || !Number.isFinite(value)) return null;
+  if (range.min != null && value < range.min) return 'low';
+  if (range.max != null && value > range.max) return 'high';
+  return null;
+}
+
+// 未返回 type 的记录（部分水质查询接口）按水质记录处理
+function isWaterQualityRecord(record: TimelineRecord) {
+  return record.kind === 'waterquality' || record.kind === 'unknown';
+}
+
+// 水质指标读数（不含投料量，0 视为未填写）
+function getWaterQualityReadings(record: TimelineRecord) {
+  const readings = getNumericReadings(record);
+  delete readings.weight;
+  Object.keys(readings).forEach((key) => {
+    if (readings[key] === 0) delete readings[key];
+  });
+  return readings;
+}
+
+/**
+ * 评估一组水质记录
+ * 作用：逐条检查 /query/timeline 返回的水质记录，生成越界告警列表
+ * 输入：
+ *  - records: 时间线记录
+ *  - profile: 阈值档
+ * 输出：告警列表，按时间倒序
+ * 逻辑：数值为 0 视为未填写（与趋势图的断点处理一致），不参与评估
+ */
+export function evaluateWaterQualityRecords(records: TimelineRecord[], profile: ThresholdProfile): WaterQualityAlert[] {
+  if (!Array.isArray(records) || records.length === 0) return [];
+  const alerts: WaterQualityAlert[] = [];
+
+  records.forEach((record, index) => {
+    if (!isWaterQualityRecord(record)) return;
+    const { detail } = record;
+    const time = getRecordTime(record);
+    const readings = getWaterQualityReadings(record);
+
+    Object.keys(readings).forEach((rawKey) => {
+      const config = PARAM_CONFIG[rawKey];
+      const value = readings[rawKey];
+      const range = getThresholdFor(profile, rawKey);
+      const level = checkThreshold(range, value);
+      if (!level || !range) return;
+      alerts.push({
+        id: `${detail.id ?? detail.uuid ?? index}-${rawKey}`,
+        key: canonicalThresholdKey(rawKey),
+        name: config.name,
+        unit: config.unit,
+        value,
+        level,
+        bound: (level === 'low' ? range.min : range.max) as number,
+        time,
+      });
+    });
+  });
+
+  return alerts.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+}
+
+/**
+ * 获取各指标最新一次测量的越界情况
+ * 作用：用于卡片上标记“当前”是否处于异常状态（历史越界但已恢复的不再标记）
+ * 输入：时间线原始记录、阈值档
+ * 输出：key -> 告警（仅包含最新值越界的指标）
+ */
+export function getLatestBreaches(records: TimelineRecord[], profile: ThresholdProfile): Record<string, WaterQualityAlert> {
+  const latestTimeByKey: Record<string, number> = {};
+  (records || []).forEach((record) => {
+    if (!isWaterQualityRecord(record)) return;
+    const ts = new Date(getRecordTime(record)).getTime() || 0;
+    Object.keys(getWaterQualityReadings(record)).forEach((rawKey) => {
+      const key = canonicalThresholdKey(rawKey);
+      if (latestTimeByKey[key] == null || ts > latestTimeByKey[key]) latestTimeByKey[key] = ts;
+    });
+  });
+
+  const result: Record<string, WaterQualityAlert> = {};
+  evaluateWaterQualityRecords(records, profile).forEach((alert) => {
+    const ts = new Date(alert.time).getTime() || 0;
+    if (ts === latestTimeByKey[alert.key] && !result[alert.key]) {
+      result[alert.key] = alert;
+    }
+  });
+  return result;
+}
+
+export function formatThresholdRange(range: ThresholdRange | undefined, unit = '') {
+  if (!range || (range.min == null && range.max == null)) return '不限';
+  if (range.min != null && range.max != null) return `${range.min}~${range.max}${unit}`;
+  if (range.min != null) return `≥${range.min}${unit}`;
+  return `≤${range.max}${unit}`;
+}
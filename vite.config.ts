@@ -13,6 +13,8 @@ const proxyConfig = {
     target: 'https://api.pondrobotics.com',
     changeOrigin: true,
     secure: false,
+    // 实时推送使用 WebSocket 时需要转发升级请求
+    ws: true,
   },
   '/oauth': {
     target: 'https://api.pondrobotics.com',